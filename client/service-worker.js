@@ -0,0 +1,128 @@
+/* global self, caches, indexedDB, clients */
+// Service worker template. vite-plugin-service-worker.ts fills in the precache
+// manifest and emits the result as /sw.js during `vite build`; it is not used in dev.
+
+const PRECACHE = __PRECACHE_MANIFEST__;
+const CACHE_NAME = `atendo-precache-${PRECACHE.version}`;
+const SYNC_TAG = "offline-scans";
+const BATCH_SIZE = 50;
+
+// Must match client/src/lib/offlineQueue.ts.
+const DB_NAME = "classscan-offline";
+const STORE = "scans";
+const VERSION = 1;
+
+const apiBaseUrl = new URL(self.location.href).searchParams.get("api") ?? "";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE.files))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name.startsWith("atendo-precache-") && name !== CACHE_NAME)
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+  if (url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Routing lives in the URL hash, which never reaches the server, so every
+  // navigation can fall back to the cached app shell.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(() =>
+        caches.match("/index.html").then((cached) => cached ?? Response.error()),
+      ),
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => cached ?? fetch(request)),
+  );
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(syncQueuedScans());
+  }
+});
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "client_scan_id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runStore(db, mode, action) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function syncQueuedScans() {
+  const db = await openDb();
+  try {
+    const scans = await runStore(db, "readonly", (store) => store.getAll());
+    const results = [];
+    for (let index = 0; index < scans.length; index += BATCH_SIZE) {
+      const res = await fetch(`${apiBaseUrl}/api/me/scans/batch`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scans: scans.slice(index, index + BATCH_SIZE) }),
+      });
+      if (!res.ok) {
+        // Throwing keeps the sync registration so the browser retries later.
+        throw new Error(`Offline scan sync failed with ${res.status}`);
+      }
+      const body = await res.json();
+      // Drop every item the server answered on, rejected ones included, so a bad
+      // entry cannot hold up the rest of the queue.
+      for (const result of body.results) {
+        if (result.clientScanId) {
+          await runStore(db, "readwrite", (store) => store.delete(result.clientScanId));
+        }
+      }
+      results.push(...body.results);
+    }
+
+    const windows = await clients.matchAll({ type: "window" });
+    windows.forEach((client) => client.postMessage({ type: "offline-scans-synced", results }));
+  } finally {
+    db.close();
+  }
+}
@@ -9,11 +9,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 const NotFound = lazy(() => import("@/pages/not-found"));
 const Home = lazy(() => import("@/pages/home"));
 const Login = lazy(() => import("@/pages/login"));
+const Activate = lazy(() => import("@/pages/activate"));
 const ProfessorDashboard = lazy(() => import("@/pages/professor-dashboard"));
 const ProfessorSession = lazy(() => import("@/pages/professor-session"));
 const ProfessorStats = lazy(() => import("@/pages/professor-stats"));
 const StudentScan = lazy(() => import("@/pages/student-scan"));
 const ProfessorRoster = lazy(() => import("@/pages/professor-roster"));
+const Kiosk = lazy(() => import("@/pages/kiosk"));
+const AdminAuditLogs = lazy(() => import("@/pages/admin-audit-logs"));
 
 function Router() {
   return (
@@ -23,11 +26,15 @@ function Router() {
       <Route path="/staff-access" component={Login} />
       <Route path="/professor/login" component={Login} />
       <Route path="/student/login" component={Login} />
+      <Route path="/activate" component={Activate} />
+      <Route path="/activate/:code" component={Activate} />
       <Route path="/professor/dashboard" component={ProfessorDashboard} />
       <Route path="/professor/roster" component={ProfessorRoster} />
       <Route path="/professor/session/:id" component={ProfessorSession} />
       <Route path="/professor/stats/:id" component={ProfessorStats} />
+      <Route path="/admin/audit-logs" component={AdminAuditLogs} />
       <Route path="/student/scan" component={StudentScan} />
+      <Route path="/kiosk/:token" component={Kiosk} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,463 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CalendarX, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ScheduleCourse = {
+  id: string;
+  code: string;
+  name: string;
+  groups: Array<{ id: string; name: string }>;
+};
+
+type UpcomingSession = {
+  sessionId: string;
+  startsAt: string;
+  scheduledEndAt: string | null;
+  room: string | null;
+  courseCode: string;
+  courseName: string;
+  groupName: string;
+};
+
+type GroupSchedule = {
+  slots: Array<{
+    id: string;
+    weekday: number;
+    start_time: string;
+    end_time: string;
+    room: string | null;
+    starts_on: string;
+    ends_on: string;
+  }>;
+  exceptions: Array<{ id: string; date: string; reason: string | null }>;
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const emptySlotDraft = {
+  weekday: "1",
+  startTime: "09:00",
+  endTime: "10:30",
+  room: "",
+  startsOn: "",
+  endsOn: "",
+};
+
+export default function ClassSchedule({ courses }: { courses: ScheduleCourse[] }) {
+  const { toast } = useToast();
+  const [courseId, setCourseId] = useState("");
+  const [groupId, setGroupId] = useState("");
+  const [slotDraft, setSlotDraft] = useState(emptySlotDraft);
+  const [exceptionDraft, setExceptionDraft] = useState({ date: "", reason: "" });
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const groupOptions = useMemo(
+    () => courses.find((course) => course.id === courseId)?.groups ?? [],
+    [courses, courseId],
+  );
+
+  useEffect(() => {
+    if (!courseId && courses.length) {
+      setCourseId(courses[0].id);
+    }
+  }, [courses, courseId]);
+
+  useEffect(() => {
+    if (!groupOptions.some((group) => group.id === groupId)) {
+      setGroupId(groupOptions[0]?.id ?? "");
+    }
+  }, [groupOptions, groupId]);
+
+  const upcomingQuery = useQuery<{ sessions: UpcomingSession[] }>({
+    queryKey: ["professor", "sessions", "upcoming"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/professor/sessions/upcoming");
+      return res.json();
+    },
+  });
+
+  const scheduleQuery = useQuery<GroupSchedule>({
+    queryKey: ["professor", "schedule", groupId],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/professor/groups/${groupId}/schedule`);
+      return res.json();
+    },
+    enabled: Boolean(groupId),
+  });
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string) => {
+    setBusyKey(key);
+    try {
+      await action();
+      await Promise.all([upcomingQuery.refetch(), groupId ? scheduleQuery.refetch() : null]);
+      toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Schedule update failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return false;
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleAddSlot = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!groupId) return;
+    const saved = await run(
+      "slot",
+      () =>
+        apiRequest("POST", `/api/professor/groups/${groupId}/schedule/slots`, {
+          weekday: Number(slotDraft.weekday),
+          startTime: slotDraft.startTime,
+          endTime: slotDraft.endTime,
+          room: slotDraft.room.trim() || null,
+          startsOn: slotDraft.startsOn,
+          endsOn: slotDraft.endsOn,
+        }),
+      "Timetable slot added",
+    );
+    if (saved) {
+      setSlotDraft(emptySlotDraft);
+    }
+  };
+
+  const handleAddException = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!groupId || !exceptionDraft.date) return;
+    const saved = await run(
+      "exception",
+      () =>
+        apiRequest("POST", `/api/professor/groups/${groupId}/schedule/exceptions`, {
+          date: exceptionDraft.date,
+          reason: exceptionDraft.reason.trim() || null,
+        }),
+      "Holiday added",
+    );
+    if (saved) {
+      setExceptionDraft({ date: "", reason: "" });
+    }
+  };
+
+  const upcoming = upcomingQuery.data?.sessions ?? [];
+  const schedule = scheduleQuery.data;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card className="border-border/70 shadow-sm">
+        <CardHeader>
+          <CardTitle>Upcoming sessions</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Sessions open round 1 automatically at the slot start and end when the slot is over.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {upcomingQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading upcoming sessions...</p>
+          ) : upcoming.length ? (
+            <div className="space-y-2 max-h-96 overflow-auto pr-1">
+              {upcoming.map((session) => (
+                <div
+                  key={session.sessionId}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-border/70 p-3"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {session.courseCode} - {session.groupName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(session.startsAt).toLocaleString()}
+                      {session.scheduledEndAt
+                        ? ` - ${new Date(session.scheduledEndAt).toLocaleTimeString()}`
+                        : ""}
+                      {session.room ? ` · ${session.room}` : ""}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyKey === session.sessionId}
+                    onClick={() =>
+                      void run(
+                        session.sessionId,
+                        () =>
+                          apiRequest(
+                            "PATCH",
+                            `/api/professor/sessions/${session.sessionId}/cancel`,
+                          ),
+                        "Session cancelled",
+                      )
+                    }
+                  >
+                    <CalendarX className="mr-1 h-4 w-4" /> Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No upcoming sessions. Add a weekly slot to a group to schedule them.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/70 shadow-sm">
+        <CardHeader>
+          <CardTitle>Weekly timetable</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Recurring slots per group within the term, plus dates with no class.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-course">Course</Label>
+              <Select value={courseId} onValueChange={setCourseId} disabled={!courses.length}>
+                <SelectTrigger id="schedule-course">
+                  <SelectValue placeholder="Select a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.code} - {course.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-group">Group</Label>
+              <Select value={groupId} onValueChange={setGroupId} disabled={!groupOptions.length}>
+                <SelectTrigger id="schedule-group">
+                  <SelectValue placeholder="Select a group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groupOptions.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {schedule?.slots.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Term</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.slots.map((slot) => (
+                  <TableRow key={slot.id}>
+                    <TableCell>{WEEKDAYS[slot.weekday]}</TableCell>
+                    <TableCell>
+                      {slot.start_time}-{slot.end_time}
+                    </TableCell>
+                    <TableCell>{slot.room ?? "-"}</TableCell>
+                    <TableCell className="text-xs">
+                      {slot.starts_on} to {slot.ends_on}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Remove slot"
+                        disabled={busyKey === slot.id}
+                        onClick={() =>
+                          void run(
+                            slot.id,
+                            () => apiRequest("DELETE", `/api/professor/schedule/slots/${slot.id}`),
+                            "Timetable slot removed",
+                          )
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            groupId && (
+              <p className="text-sm text-muted-foreground">No slots for this group yet.</p>
+            )
+          )}
+
+          <form className="grid gap-3 md:grid-cols-3" onSubmit={handleAddSlot}>
+            <div className="space-y-1">
+              <Label htmlFor="slot-weekday">Day</Label>
+              <Select
+                value={slotDraft.weekday}
+                onValueChange={(weekday) => setSlotDraft((prev) => ({ ...prev, weekday }))}
+              >
+                <SelectTrigger id="slot-weekday">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((label, index) => (
+                    <SelectItem key={label} value={String(index)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-start">Start</Label>
+              <Input
+                id="slot-start"
+                type="time"
+                value={slotDraft.startTime}
+                onChange={(event) =>
+                  setSlotDraft((prev) => ({ ...prev, startTime: event.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-end">End</Label>
+              <Input
+                id="slot-end"
+                type="time"
+                value={slotDraft.endTime}
+                onChange={(event) =>
+                  setSlotDraft((prev) => ({ ...prev, endTime: event.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-room">Room</Label>
+              <Input
+                id="slot-room"
+                value={slotDraft.room}
+                placeholder="B-204"
+                onChange={(event) =>
+                  setSlotDraft((prev) => ({ ...prev, room: event.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-starts-on">Term start</Label>
+              <Input
+                id="slot-starts-on"
+                type="date"
+                value={slotDraft.startsOn}
+                onChange={(event) =>
+                  setSlotDraft((prev) => ({ ...prev, startsOn: event.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="slot-ends-on">Term end</Label>
+              <Input
+                id="slot-ends-on"
+                type="date"
+                value={slotDraft.endsOn}
+                onChange={(event) =>
+                  setSlotDraft((prev) => ({ ...prev, endsOn: event.target.value }))
+                }
+              />
+            </div>
+            <Button
+              type="submit"
+              className="md:col-span-3"
+              disabled={!groupId || !slotDraft.startsOn || !slotDraft.endsOn || busyKey === "slot"}
+            >
+              {busyKey === "slot" ? "Adding..." : "Add weekly slot"}
+            </Button>
+          </form>
+
+          <div className="space-y-2 border-t border-border/70 pt-4">
+            <p className="text-sm font-medium">Holidays and exceptions</p>
+            <div className="flex flex-wrap gap-2">
+              {schedule?.exceptions.map((exception) => (
+                <Badge key={exception.id} variant="outline" className="gap-1">
+                  {exception.date}
+                  {exception.reason ? ` · ${exception.reason}` : ""}
+                  <button
+                    type="button"
+                    className="ml-1 text-muted-foreground hover:text-destructive"
+                    aria-label={`Remove ${exception.date}`}
+                    disabled={busyKey === exception.id}
+                    onClick={() =>
+                      void run(
+                        exception.id,
+                        () =>
+                          apiRequest(
+                            "DELETE",
+                            `/api/professor/schedule/exceptions/${exception.id}`,
+                          ),
+                        "Holiday removed",
+                      )
+                    }
+                  >
+                    ×
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <form className="flex flex-wrap items-end gap-2" onSubmit={handleAddException}>
+              <Input
+                type="date"
+                className="w-44"
+                aria-label="Exception date"
+                value={exceptionDraft.date}
+                onChange={(event) =>
+                  setExceptionDraft((prev) => ({ ...prev, date: event.target.value }))
+                }
+              />
+              <Input
+                className="flex-1 min-w-[160px]"
+                placeholder="Reason (optional)"
+                value={exceptionDraft.reason}
+                onChange={(event) =>
+                  setExceptionDraft((prev) => ({ ...prev, reason: event.target.value }))
+                }
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={!groupId || !exceptionDraft.date || busyKey === "exception"}
+              >
+                Add holiday
+              </Button>
+            </form>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
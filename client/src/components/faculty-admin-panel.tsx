@@ -0,0 +1,386 @@
+import { useState, type FormEvent } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Building2, Download, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type FacultyDepartment = {
+  id: string;
+  code: string;
+  name: string;
+  courseCount: number;
+  professorCount: number;
+};
+
+type Faculty = {
+  id: string;
+  code: string;
+  name: string;
+  departments: FacultyDepartment[];
+};
+
+type AdminCourse = {
+  id: string;
+  code: string;
+  name: string;
+  term: string;
+  departmentId: string | null;
+  professorName: string;
+};
+
+type ReportTotals = {
+  courses: number;
+  enrolledStudents: number;
+  sessionsHeld: number;
+  attendancePercent: number | null;
+  atRiskStudents: number;
+  overLimitStudents: number;
+};
+
+type FacultyReport = {
+  faculty: { id: string; code: string; name: string };
+  departments: Array<ReportTotals & { id: string; code: string; name: string }>;
+  totals: ReportTotals;
+};
+
+const UNASSIGNED = "none";
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${value}%`;
+}
+
+export default function FacultyAdminPanel() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [facultyDraft, setFacultyDraft] = useState({ code: "", name: "" });
+  const [departmentDraft, setDepartmentDraft] = useState({ code: "", name: "" });
+  const [selectedFacultyId, setSelectedFacultyId] = useState<string>("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const facultiesQuery = useQuery<{ faculties: Faculty[] }>({
+    queryKey: ["admin", "faculties"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/faculties");
+      return res.json();
+    },
+  });
+
+  const coursesQuery = useQuery<{ courses: AdminCourse[] }>({
+    queryKey: ["admin", "courses"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/courses");
+      return res.json();
+    },
+  });
+
+  const faculties = facultiesQuery.data?.faculties ?? [];
+  const selectedFaculty =
+    faculties.find((faculty) => faculty.id === selectedFacultyId) ?? faculties[0] ?? null;
+
+  const reportQuery = useQuery<FacultyReport>({
+    queryKey: ["admin", "faculties", selectedFaculty?.id, "report"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/faculties/${selectedFaculty!.id}/report`);
+      return res.json();
+    },
+    enabled: Boolean(selectedFaculty),
+  });
+
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["admin", "faculties"] }),
+      queryClient.invalidateQueries({ queryKey: ["admin", "courses"] }),
+      queryClient.invalidateQueries({ queryKey: ["admin", "professors"] }),
+    ]);
+
+  const runAction = async (title: string, action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await refresh();
+      toast({ title });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateFaculty = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void runAction("Faculty created", async () => {
+      const res = await apiRequest("POST", "/api/admin/faculties", facultyDraft);
+      const data = (await res.json()) as { faculty: { id: string } };
+      setSelectedFacultyId(data.faculty.id);
+      setFacultyDraft({ code: "", name: "" });
+    });
+  };
+
+  const handleCreateDepartment = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!selectedFaculty) return;
+    void runAction("Department created", async () => {
+      await apiRequest(
+        "POST",
+        `/api/admin/faculties/${selectedFaculty.id}/departments`,
+        departmentDraft,
+      );
+      setDepartmentDraft({ code: "", name: "" });
+    });
+  };
+
+  const handleDeleteFaculty = (faculty: Faculty) => {
+    if (!window.confirm(`Delete faculty ${faculty.name}?`)) return;
+    void runAction("Faculty deleted", async () => {
+      await apiRequest("DELETE", `/api/admin/faculties/${faculty.id}`);
+      setSelectedFacultyId("");
+    });
+  };
+
+  const handleDeleteDepartment = (department: FacultyDepartment) => {
+    if (!window.confirm(`Delete department ${department.name}?`)) return;
+    void runAction("Department deleted", () =>
+      apiRequest("DELETE", `/api/admin/departments/${department.id}`),
+    );
+  };
+
+  const handleAssignCourse = (course: AdminCourse, value: string) => {
+    void runAction(`${course.code} updated`, () =>
+      apiRequest("PUT", `/api/admin/courses/${course.id}/department`, {
+        departmentId: value === UNASSIGNED ? null : value,
+      }),
+    );
+  };
+
+  const handleExportReport = async () => {
+    if (!selectedFaculty) return;
+    try {
+      const res = await apiRequest(
+        "GET",
+        `/api/admin/faculties/${selectedFaculty.id}/report/export`,
+      );
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `faculty-${selectedFaculty.code}-attendance.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const allDepartments = faculties.flatMap((faculty) =>
+    faculty.departments.map((department) => ({ ...department, facultyCode: faculty.code })),
+  );
+  const report = reportQuery.data;
+
+  return (
+    <Card className="border-border/70 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Faculties and departments
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Courses inherit faculty attendance policies through their department, or through
+          their professor's department when none is set.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreateFaculty} className="flex flex-wrap gap-2">
+          <Input
+            className="w-32"
+            placeholder="Code"
+            value={facultyDraft.code}
+            onChange={(event) => setFacultyDraft({ ...facultyDraft, code: event.target.value })}
+          />
+          <Input
+            className="min-w-[200px] flex-1"
+            placeholder="Faculty name"
+            value={facultyDraft.name}
+            onChange={(event) => setFacultyDraft({ ...facultyDraft, name: event.target.value })}
+          />
+          <Button type="submit" disabled={isSaving}>
+            Add faculty
+          </Button>
+        </form>
+
+        {facultiesQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading faculties...</p>
+        ) : selectedFaculty ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={selectedFaculty.id} onValueChange={setSelectedFacultyId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {faculties.map((faculty) => (
+                    <SelectItem key={faculty.id} value={faculty.id}>
+                      {faculty.code} - {faculty.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={handleExportReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Export report
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => handleDeleteFaculty(selectedFaculty)}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {report ? (
+              <p className="text-sm text-muted-foreground">
+                {report.totals.courses} courses · {report.totals.enrolledStudents} enrolled ·{" "}
+                {report.totals.sessionsHeld} sessions · attendance{" "}
+                {formatPercent(report.totals.attendancePercent)} ·{" "}
+                {report.totals.overLimitStudents} over the absence limit
+              </p>
+            ) : null}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Courses</TableHead>
+                  <TableHead>Professors</TableHead>
+                  <TableHead>Attendance</TableHead>
+                  <TableHead>At risk</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedFaculty.departments.map((department) => {
+                  const rollUp = report?.departments.find((row) => row.id === department.id);
+                  return (
+                    <TableRow key={department.id}>
+                      <TableCell className="font-medium">
+                        {department.code} - {department.name}
+                      </TableCell>
+                      <TableCell>{department.courseCount}</TableCell>
+                      <TableCell>{department.professorCount}</TableCell>
+                      <TableCell>{formatPercent(rollUp?.attendancePercent ?? null)}</TableCell>
+                      <TableCell>{rollUp?.atRiskStudents ?? 0}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={isSaving}
+                          onClick={() => handleDeleteDepartment(department)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <form onSubmit={handleCreateDepartment} className="flex flex-wrap gap-2">
+              <Input
+                className="w-32"
+                placeholder="Code"
+                value={departmentDraft.code}
+                onChange={(event) =>
+                  setDepartmentDraft({ ...departmentDraft, code: event.target.value })
+                }
+              />
+              <Input
+                className="min-w-[200px] flex-1"
+                placeholder="Department name"
+                value={departmentDraft.name}
+                onChange={(event) =>
+                  setDepartmentDraft({ ...departmentDraft, name: event.target.value })
+                }
+              />
+              <Button type="submit" variant="outline" disabled={isSaving}>
+                Add department
+              </Button>
+            </form>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No faculties yet.</p>
+        )}
+
+        {coursesQuery.data?.courses.length && allDepartments.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Professor</TableHead>
+                <TableHead className="w-64">Department</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coursesQuery.data.courses.map((course) => (
+                <TableRow key={course.id}>
+                  <TableCell className="font-medium">
+                    {course.code} - {course.name}
+                  </TableCell>
+                  <TableCell>{course.professorName}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={course.departmentId ?? UNASSIGNED}
+                      onValueChange={(value) => handleAssignCourse(course, value)}
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Professor's department</SelectItem>
+                        {allDepartments.map((department) => (
+                          <SelectItem key={department.id} value={department.id}>
+                            {department.facultyCode} / {department.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
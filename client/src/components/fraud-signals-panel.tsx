@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ShieldAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type FraudSignal = {
+  id: string;
+  type: string;
+  severity: "low" | "medium" | "high";
+  status: string;
+  roundId: string | null;
+  roundNumber: number | null;
+  studentId: string | null;
+  studentUsername: string | null;
+  studentName: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  resolutionNote: string | null;
+};
+
+type Resolution = "dismissed" | "confirmed" | "attendance_revoked";
+
+type ReviewDraft = {
+  signalId: string;
+  resolution: Resolution;
+  roundId: string;
+  note: string;
+};
+
+const ALL = "all";
+const SIGNAL_TYPES = [
+  "buddy_punching",
+  "rapid_burst",
+  "multiple_device",
+  "gps_cluster",
+  "edge_scan",
+];
+const RESOLUTION_LABELS: Record<Resolution, string> = {
+  dismissed: "Dismiss",
+  confirmed: "Confirm",
+  attendance_revoked: "Confirm & revoke attendance",
+};
+
+function formatLabel(value: string) {
+  return value.replace(/_/g, " ");
+}
+
+function formatDetails(details: FraudSignal["details"]) {
+  if (!details) return "";
+  return Object.entries(details)
+    .map(([key, value]) =>
+      `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`,
+    )
+    .join(", ");
+}
+
+export default function FraudSignalsPanel({
+  sessionId,
+  rounds = [],
+}: {
+  sessionId: string;
+  rounds?: Array<{ roundId: string; roundNumber: number }>;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState("open");
+  const [severity, setSeverity] = useState(ALL);
+  const [type, setType] = useState(ALL);
+  const [student, setStudent] = useState<{ id: string; name: string } | null>(null);
+  const [draft, setDraft] = useState<ReviewDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const signalsQuery = useQuery<{ signals: FraudSignal[] }>({
+    queryKey: ["professor", "fraud-signals", sessionId, status, severity, type, student?.id],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sessionId });
+      if (status !== ALL) params.set("status", status);
+      if (severity !== ALL) params.set("severity", severity);
+      if (type !== ALL) params.set("type", type);
+      if (student) params.set("studentId", student.id);
+      const res = await apiRequest("GET", `/api/professor/fraud-signals?${params}`);
+      return res.json();
+    },
+    enabled: Boolean(sessionId),
+  });
+
+  const handleResolve = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await apiRequest("PATCH", `/api/professor/fraud-signals/${draft.signalId}/resolve`, {
+        resolution: draft.resolution,
+        note: draft.note.trim() || undefined,
+        roundId: draft.roundId || undefined,
+      });
+      setDraft(null);
+      await queryClient.invalidateQueries({ queryKey: ["professor", "fraud-signals"] });
+      if (draft.resolution === "attendance_revoked") {
+        await queryClient.invalidateQueries({ queryKey: ["professor", "session", sessionId] });
+      }
+      toast({ title: "Signal resolved" });
+    } catch (error: any) {
+      toast({
+        title: "Could not resolve signal",
+        description: error?.message ?? "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const signals = signalsQuery.data?.signals ?? [];
+
+  return (
+    <Card className="p-6 border-border">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4" />
+            Fraud signals
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Review suspicious scans. Every resolution is recorded in the audit log.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-36" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="confirmed">Confirmed</SelectItem>
+              <SelectItem value="attendance_revoked">Revoked</SelectItem>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={severity} onValueChange={setSeverity}>
+            <SelectTrigger className="w-32" aria-label="Severity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any severity</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="w-40" aria-label="Type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any type</SelectItem>
+              {SIGNAL_TYPES.map((signalType) => (
+                <SelectItem key={signalType} value={signalType}>
+                  {formatLabel(signalType)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {student ? (
+            <Button size="sm" variant="outline" onClick={() => setStudent(null)}>
+              {student.name}
+              <X className="w-3 h-3 ml-1" />
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {signalsQuery.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading signals…</p>
+      ) : !signals.length ? (
+        <p className="text-sm text-muted-foreground">No signals match these filters.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Signal</TableHead>
+              <TableHead>Student</TableHead>
+              <TableHead>Round</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Review</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {signals.map((signal) => {
+              const isEditing = draft?.signalId === signal.id;
+              const canRevoke =
+                Boolean(signal.studentId) && (Boolean(signal.roundId) || rounds.length > 0);
+              return (
+                <TableRow key={signal.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium capitalize">{formatLabel(signal.type)}</span>
+                      <Badge variant={signal.severity === "low" ? "secondary" : "destructive"}>
+                        {signal.severity}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(signal.createdAt).toLocaleTimeString()}
+                      {signal.details ? ` · ${formatDetails(signal.details)}` : ""}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {signal.studentId ? (
+                      <button
+                        type="button"
+                        className="text-left hover:underline"
+                        onClick={() =>
+                          setStudent({
+                            id: signal.studentId!,
+                            name: signal.studentName ?? signal.studentUsername ?? "Student",
+                          })
+                        }
+                      >
+                        <p className="font-medium">{signal.studentName}</p>
+                        <p className="text-xs text-muted-foreground">{signal.studentUsername}</p>
+                      </button>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {signal.roundNumber ? `Round ${signal.roundNumber}` : "Session"}
+                  </TableCell>
+                  <TableCell>
+                    <span className="capitalize">{formatLabel(signal.status)}</span>
+                    {signal.resolutionNote ? (
+                      <p className="text-xs text-muted-foreground">{signal.resolutionNote}</p>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {signal.status !== "open" ? null : isEditing ? (
+                      <div className="flex flex-col items-end gap-2">
+                        <Select
+                          value={draft.resolution}
+                          onValueChange={(value) =>
+                            setDraft({ ...draft, resolution: value as Resolution })
+                          }
+                        >
+                          <SelectTrigger className="w-56" aria-label="Resolution">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="dismissed">{RESOLUTION_LABELS.dismissed}</SelectItem>
+                            <SelectItem value="confirmed">{RESOLUTION_LABELS.confirmed}</SelectItem>
+                            {canRevoke ? (
+                              <SelectItem value="attendance_revoked">
+                                {RESOLUTION_LABELS.attendance_revoked}
+                              </SelectItem>
+                            ) : null}
+                          </SelectContent>
+                        </Select>
+                        {draft.resolution === "attendance_revoked" && !signal.roundId ? (
+                          <Select
+                            value={draft.roundId || undefined}
+                            onValueChange={(value) => setDraft({ ...draft, roundId: value })}
+                          >
+                            <SelectTrigger className="w-56" aria-label="Round to revoke">
+                              <SelectValue placeholder="Pick a round" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {rounds.map((round) => (
+                                <SelectItem key={round.roundId} value={round.roundId}>
+                                  Round {round.roundNumber}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : null}
+                        <Input
+                          className="w-56"
+                          placeholder="Note (optional)"
+                          value={draft.note}
+                          onChange={(event) => setDraft({ ...draft, note: event.target.value })}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={handleResolve}
+                            disabled={
+                              saving ||
+                              (draft.resolution === "attendance_revoked" &&
+                                !signal.roundId &&
+                                !draft.roundId)
+                            }
+                          >
+                            Save
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          setDraft({
+                            signalId: signal.id,
+                            resolution: "dismissed",
+                            roundId: "",
+                            note: "",
+                          })
+                        }
+                      >
+                        Review
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
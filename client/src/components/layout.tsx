@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import Background3D from "./background-3d";
 import { apiRequest } from "@/lib/queryClient";
 import { useQueryClient } from "@tanstack/react-query";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import AppLogo from "./app-logo";
 
 interface LayoutProps {
@@ -15,6 +16,7 @@ interface LayoutProps {
 export default function Layout({ children, role = "guest" }: LayoutProps) {
   const [location, setLocation] = useLocation();
   const queryClient = useQueryClient();
+  const { data: user } = useCurrentUser();
   const footerTapCountRef = useRef(0);
   const footerTapTimerRef = useRef<number | null>(null);
 
@@ -78,6 +80,16 @@ export default function Layout({ children, role = "guest" }: LayoutProps) {
                 >
                   Roster
                 </Link>
+                {user?.role === "admin" && (
+                  <Link
+                    href="/admin/audit-logs"
+                    className={`text-sm font-medium transition-colors ${
+                      location === "/admin/audit-logs" ? "text-primary" : "text-muted-foreground"
+                    }`}
+                  >
+                    Audit log
+                  </Link>
+                )}
                 <div className="hidden sm:block h-4 w-px bg-border mx-2" />
               </>
             )}
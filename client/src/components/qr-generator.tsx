@@ -5,12 +5,15 @@ interface QRCodeGeneratorProps {
   payload: string | null;
   expiresAt?: string | null;
   roundNumber?: number | null;
+  /** Upper bound for the rendered QR in pixels; kiosk screens raise it. */
+  maxSize?: number;
 }
 
 export default function QRCodeGenerator({
   payload,
   expiresAt,
   roundNumber,
+  maxSize = 360,
 }: QRCodeGeneratorProps) {
   const [qrSize, setQrSize] = useState(240);
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
@@ -19,9 +22,9 @@ export default function QRCodeGenerator({
   useEffect(() => {
     const updateSize = () => {
       if (typeof window === "undefined") return;
-      const availableWidth = window.innerWidth - 64;
+      const availableWidth = Math.min(window.innerWidth - 64, window.innerHeight - 240);
       const calculated = Math.min(
-        360,
+        maxSize,
         Math.max(180, Math.floor(availableWidth * 0.8)),
       );
       setQrSize(calculated);
@@ -30,7 +33,7 @@ export default function QRCodeGenerator({
     updateSize();
     window.addEventListener("resize", updateSize);
     return () => window.removeEventListener("resize", updateSize);
-  }, []);
+  }, [maxSize]);
 
   useEffect(() => {
     if (!expiresAt) {
@@ -6,7 +6,7 @@ export interface CurrentUser {
   email: string;
   username: string;
   display_name: string;
-  role: "professor" | "student" | "admin";
+  role: "professor" | "ta" | "student" | "admin";
   must_change_password?: boolean;
 }
 
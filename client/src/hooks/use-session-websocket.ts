@@ -1,5 +1,9 @@
 import { useEffect, useEffectEvent } from "react";
-import { buildWebSocketUrl } from "@/lib/queryClient";
+import {
+  buildKioskWebSocketUrl,
+  buildStudentWebSocketUrl,
+  buildWebSocketUrl,
+} from "@/lib/queryClient";
 
 type SessionSocketEvent =
   | {
@@ -54,17 +58,48 @@ type SessionSocketEvent =
       };
     };
 
-type Options = {
+// Student channel: round lifecycle for enrolled groups (never the QR token) plus personal events.
+export type StudentSocketEvent =
+  | Extract<SessionSocketEvent, { event: "round:started" | "round:closed" | "session:ended" }>
+  | {
+      event: "scan:confirmed";
+      payload: {
+        sessionId: string;
+        roundId: string;
+        status: string;
+        recordedAt: string;
+      };
+    }
+  | {
+      event: "excuse:reviewed";
+      payload: {
+        excuseId: string;
+        roundId: string;
+        status: string;
+        reviewedAt: string;
+      };
+    };
+
+// Kiosk channel: same events as the professor's session channel, but `session:refresh`
+// arrives without student details.
+export type KioskSocketEvent = SessionSocketEvent;
+
+type Options<Message> = {
   enabled?: boolean;
-  onMessage: (message: SessionSocketEvent) => void;
+  onMessage: (message: Message) => void;
 };
 
-export function useSessionWebSocket(sessionId: string | undefined, options: Options) {
+// `hello` is sent as the first message after every (re)connect.
+function useReconnectingSocket<Message>(
+  url: string | null,
+  options: Options<Message>,
+  hello?: string,
+) {
   const { enabled = true, onMessage } = options;
   const handleMessage = useEffectEvent(onMessage);
 
   useEffect(() => {
-    if (!sessionId || !enabled) {
+    if (!url || !enabled) {
       return;
     }
 
@@ -73,11 +108,16 @@ export function useSessionWebSocket(sessionId: string | undefined, options: Opti
     let socket: WebSocket | null = null;
 
     const connect = () => {
-      socket = new WebSocket(buildWebSocketUrl(sessionId));
+      socket = new WebSocket(url);
+
+      if (hello) {
+        const opened = socket;
+        opened.onopen = () => opened.send(hello);
+      }
 
       socket.onmessage = (event) => {
         try {
-          handleMessage(JSON.parse(event.data) as SessionSocketEvent);
+          handleMessage(JSON.parse(event.data) as Message);
         } catch (error) {
           console.error("ws message error", error);
         }
@@ -100,5 +140,30 @@ export function useSessionWebSocket(sessionId: string | undefined, options: Opti
       }
       socket?.close();
     };
-  }, [enabled, handleMessage, sessionId]);
+  }, [enabled, handleMessage, hello, url]);
+}
+
+export function useSessionWebSocket(
+  sessionId: string | undefined,
+  options: Options<SessionSocketEvent>,
+) {
+  useReconnectingSocket(sessionId ? buildWebSocketUrl(sessionId) : null, options);
+}
+
+export function useStudentWebSocket(options: Options<StudentSocketEvent>) {
+  useReconnectingSocket(
+    typeof window === "undefined" ? null : buildStudentWebSocketUrl(),
+    options,
+  );
+}
+
+export function useKioskWebSocket(
+  token: string | undefined,
+  options: Options<KioskSocketEvent>,
+) {
+  useReconnectingSocket(
+    token ? buildKioskWebSocketUrl() : null,
+    options,
+    token ? JSON.stringify({ type: "kiosk_auth", token }) : undefined,
+  );
 }
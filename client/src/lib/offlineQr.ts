@@ -0,0 +1,49 @@
+export type OfflineQrConfig = {
+  roundId: string;
+  secret: string;
+  stepSeconds: number;
+};
+
+const encoder = new TextEncoder();
+
+async function hmacHex(secret: string, message: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Renders the QR payload for the current time step from the round secret, without
+ * the server. Must match buildTotpQrPayload in server/services/qrService.ts.
+ */
+export async function buildOfflineQrPayload(config: OfflineQrConfig, now = Date.now()) {
+  const stepMs = config.stepSeconds * 1000;
+  const step = Math.floor(now / stepMs);
+  const code = (await hmacHex(config.secret, `${config.roundId}.${step}`)).slice(0, 32);
+  const token = `totp.${step}.${code}`;
+  const issuedAt = new Date(step * stepMs).toISOString();
+  const expiresAt = new Date((step + 1) * stepMs).toISOString();
+  const signature = await hmacHex(
+    config.secret,
+    `${config.roundId}.${token}.${issuedAt}.${expiresAt}`,
+  );
+
+  return {
+    expiresAt,
+    qrPayload: JSON.stringify({
+      roundId: config.roundId,
+      token,
+      issuedAt,
+      expiresAt,
+      signature,
+    }),
+  };
+}
@@ -18,21 +18,33 @@ export function buildApiUrl(path: string) {
   return apiBaseUrl ? `${apiBaseUrl}${path}` : path;
 }
 
-export function buildWebSocketUrl(sessionId: string) {
+function buildWebSocketBase() {
   const wsBase = (import.meta.env.VITE_WS_URL as string | undefined)?.trim();
   if (wsBase) {
-    return `${wsBase.replace(/\/+$/, "")}/?sessionId=${encodeURIComponent(sessionId)}`;
+    return wsBase.replace(/\/+$/, "");
   }
 
   if (apiBaseUrl) {
-    const wsFromApiBase = apiBaseUrl
+    return apiBaseUrl
       .replace(/^https:\/\//i, "wss://")
       .replace(/^http:\/\//i, "ws://");
-    return `${wsFromApiBase}/?sessionId=${encodeURIComponent(sessionId)}`;
   }
 
   const protocol = window.location.protocol === "https:" ? "wss" : "ws";
-  return `${protocol}://${window.location.host}/?sessionId=${encodeURIComponent(sessionId)}`;
+  return `${protocol}://${window.location.host}`;
+}
+
+export function buildWebSocketUrl(sessionId: string) {
+  return `${buildWebSocketBase()}/?sessionId=${encodeURIComponent(sessionId)}`;
+}
+
+export function buildStudentWebSocketUrl() {
+  return `${buildWebSocketBase()}/?channel=student`;
+}
+
+// The kiosk view token is sent as the socket's first message, never in the URL.
+export function buildKioskWebSocketUrl() {
+  return `${buildWebSocketBase()}/?channel=kiosk`;
 }
 
 async function throwIfResNotOk(res: Response) {
@@ -0,0 +1,65 @@
+import { buildApiUrl } from "@/lib/queryClient";
+
+export const OFFLINE_SCAN_SYNC_TAG = "offline-scans";
+
+export type OfflineScansSyncedMessage = {
+  type: "offline-scans-synced";
+  results: Array<{ clientScanId: string | null; outcome: string }>;
+};
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Registers /sw.js in production builds. The worker learns the API origin from its
+ * query string because it cannot read Vite env vars.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return;
+  }
+  const apiBase = buildApiUrl("/").replace(/\/$/, "");
+  const url = apiBase ? `/sw.js?api=${encodeURIComponent(apiBase)}` : "/sw.js";
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(url, { scope: "/" }).catch((error) => {
+      console.warn("[sw] registration failed", error);
+    });
+  });
+}
+
+/**
+ * Asks the service worker to replay the offline queue once the device is back online,
+ * even if the page has been closed by then. Returns false where Background Sync is
+ * unsupported; the page's own `online` listener covers that case.
+ */
+export async function requestOfflineScanSync() {
+  if (!("serviceWorker" in navigator)) {
+    return false;
+  }
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | SyncCapableRegistration
+      | undefined;
+    if (!registration?.sync) {
+      return false;
+    }
+    await registration.sync.register(OFFLINE_SCAN_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function onOfflineScansSynced(listener: (message: OfflineScansSyncedMessage) => void) {
+  if (!("serviceWorker" in navigator)) {
+    return () => undefined;
+  }
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === "offline-scans-synced") {
+      listener(event.data as OfflineScansSyncedMessage);
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", handler);
+  return () => navigator.serviceWorker.removeEventListener("message", handler);
+}
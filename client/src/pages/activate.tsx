@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, KeyRound, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { buildApiUrl } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import Background3D from "@/components/background-3d";
+import AppLogo from "@/components/app-logo";
+
+type ActivationInfo = {
+  username: string;
+  display_name: string;
+  expiresAt: string;
+};
+
+// Read the server's message directly; the visitor is not signed in yet.
+async function requestActivation<T>(path: string, body?: unknown): Promise<T> {
+  const res = await fetch(buildApiUrl(path), {
+    method: body ? "POST" : "GET",
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.message ?? res.statusText);
+  }
+  return res.json();
+}
+
+export default function Activate() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [typedCode, setTypedCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const code = params.code ? decodeURIComponent(params.code) : "";
+
+  const activationQuery = useQuery<ActivationInfo>({
+    queryKey: ["activation", code],
+    queryFn: () => requestActivation("/api/auth/activation", { code }),
+    enabled: Boolean(code),
+  });
+  const activation = activationQuery.data;
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = typedCode.trim();
+    if (trimmed) {
+      setLocation(`/activate/${encodeURIComponent(trimmed)}`);
+    }
+  };
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast({ variant: "destructive", title: "Passwords do not match" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const authed = await requestActivation<{ display_name: string }>("/api/auth/activate", {
+        code,
+        password,
+      });
+      queryClient.setQueryData(["me"], authed);
+      void queryClient.invalidateQueries({ queryKey: ["me"] });
+      toast({ title: "Account activated", description: `Welcome, ${authed.display_name}.` });
+      setLocation("/student/scan");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Activation failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 relative overflow-hidden">
+      <Background3D />
+      <div className="w-full max-w-md">
+        <Card className="relative glass-card border-border/70 shadow-2xl overflow-hidden">
+          <CardHeader className="text-center pb-3 space-y-4">
+            <div className="mx-auto">
+              <AppLogo compact className="justify-center" />
+            </div>
+            <CardTitle className="text-3xl font-black tracking-tight text-foreground">
+              Activate Account
+            </CardTitle>
+            <p className="text-muted-foreground text-sm">
+              {activation
+                ? `Hi ${activation.display_name}. Choose a password for ${activation.username}.`
+                : "Enter the activation code from the slip your professor gave you."}
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {!code && (
+              <form onSubmit={handleCodeSubmit} className="space-y-4">
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    placeholder="XXXX-XXXX-XXXX"
+                    value={typedCode}
+                    onChange={(e) => setTypedCode(e.target.value)}
+                    className="pl-10 h-11 rounded-lg font-mono uppercase"
+                    autoComplete="one-time-code"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full h-11">
+                  Continue
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+              </form>
+            )}
+
+            {code && activationQuery.isLoading && (
+              <p className="text-center text-sm text-muted-foreground">Checking code...</p>
+            )}
+
+            {code && activationQuery.isError && (
+              <div className="space-y-3 text-center">
+                <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+                  {(activationQuery.error as Error).message}
+                </div>
+                <Link href="/activate" className="text-xs underline underline-offset-4 hover:text-primary">
+                  Enter a different code
+                </Link>
+              </div>
+            )}
+
+            {activation && (
+              <form onSubmit={handleActivate} className="space-y-4">
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="password"
+                    placeholder="New password (at least 8 characters)"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10 h-11 rounded-lg"
+                    autoComplete="new-password"
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    type="password"
+                    placeholder="Confirm password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10 h-11 rounded-lg"
+                    autoComplete="new-password"
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={saving} className="w-full h-11">
+                  {saving ? "Saving..." : "Set Password"}
+                  {!saving && <ArrowRight className="ml-2 h-4 w-4" />}
+                </Button>
+                <p className="text-center text-xs text-muted-foreground">
+                  This code works once and expires {new Date(activation.expiresAt).toLocaleString()}.
+                </p>
+              </form>
+            )}
+
+            <div className="text-center text-xs text-muted-foreground">
+              <Link href="/student/login" className="underline underline-offset-4 hover:text-primary">
+                Already activated? Sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { Download, ScrollText } from "lucide-react";
+import { useEffect, useState, type FormEvent } from "react";
+import { useLocation } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import Layout from "@/components/layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type AuditLogChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+type AuditLog = {
+  id: string;
+  createdAt: string;
+  actorId: string | null;
+  actorUsername: string | null;
+  actorName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  reason: string | null;
+  changes: AuditLogChange[];
+};
+
+type AuditLogPage = {
+  logs: AuditLog[];
+  nextCursor: string | null;
+};
+
+type Filters = {
+  actorId: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  actorId: "",
+  action: "",
+  entityType: "",
+  entityId: "",
+  from: "",
+  to: "",
+};
+
+const FILTER_FIELDS: Array<{ key: keyof Filters; label: string; type?: string }> = [
+  { key: "action", label: "Action" },
+  { key: "actorId", label: "Actor ID" },
+  { key: "entityType", label: "Entity type" },
+  { key: "entityId", label: "Entity ID" },
+  { key: "from", label: "From", type: "date" },
+  { key: "to", label: "To", type: "date" },
+];
+
+function buildQuery(filters: Filters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams();
+  Object.entries({ ...filters, ...extra }).forEach(([key, value]) => {
+    if (value.trim()) params.set(key, value.trim());
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function AdminAuditLogs() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: user, isLoading: isUserLoading } = useCurrentUser();
+  const isAdmin = user?.role === "admin";
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isUserLoading) return;
+    if (!user || user.role !== "admin") {
+      setLocation("/professor/login");
+    }
+  }, [isUserLoading, user, setLocation]);
+
+  const logsQuery = useInfiniteQuery<AuditLogPage>({
+    queryKey: ["admin", "audit-logs", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest(
+        "GET",
+        `/api/admin/audit-logs${buildQuery(filters, pageParam ? { cursor: String(pageParam) } : {})}`,
+      );
+      return res.json();
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: isAdmin,
+  });
+
+  const logs = logsQuery.data?.pages.flatMap((page) => page.logs) ?? [];
+
+  const handleApplyFilters = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    try {
+      const res = await apiRequest(
+        "GET",
+        `/api/admin/audit-logs/export${buildQuery(filters, { format })}`,
+      );
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-logs.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  return (
+    <Layout role="professor">
+      <div className="space-y-6">
+        <Card className="border-border/70 shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5" />
+              Audit log
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Every policy change, session and round event, excuse review and account change,
+              newest first.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              onSubmit={handleApplyFilters}
+              className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6"
+            >
+              {FILTER_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`audit-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`audit-${field.key}`}
+                    type={field.type ?? "text"}
+                    value={draft[field.key]}
+                    onChange={(event) =>
+                      setDraft({ ...draft, [field.key]: event.target.value })
+                    }
+                  />
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2 sm:col-span-3 lg:col-span-6">
+                <Button type="submit">Apply filters</Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setDraft(EMPTY_FILTERS);
+                    setFilters(EMPTY_FILTERS);
+                  }}
+                >
+                  Clear
+                </Button>
+                <div className="ml-auto flex gap-2">
+                  <Button type="button" variant="outline" onClick={() => handleExport("csv")}>
+                    <Download className="mr-2 h-4 w-4" />
+                    CSV
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => handleExport("json")}>
+                    <Download className="mr-2 h-4 w-4" />
+                    JSON
+                  </Button>
+                </div>
+              </div>
+            </form>
+
+            {logsQuery.isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading audit log...</p>
+            ) : logsQuery.isError ? (
+              <p className="text-sm text-destructive">
+                {logsQuery.error instanceof Error
+                  ? logsQuery.error.message
+                  : "Failed to load the audit log."}
+              </p>
+            ) : logs.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log) => (
+                    <TableRow
+                      key={log.id}
+                      className="cursor-pointer align-top"
+                      onClick={() =>
+                        setExpandedLogId(expandedLogId === log.id ? null : log.id)
+                      }
+                    >
+                      <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                        {new Date(log.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {log.actorName ?? (log.actorId ? log.actorId : "System")}
+                        {log.actorUsername ? (
+                          <div className="font-mono text-xs text-muted-foreground">
+                            {log.actorUsername}
+                          </div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{log.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div>{log.entityType}</div>
+                        {log.entityId ? (
+                          <div className="font-mono text-muted-foreground">{log.entityId}</div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {log.reason ? <div className="italic">{log.reason}</div> : null}
+                        {log.changes.length === 0 ? (
+                          <span className="text-muted-foreground">No field changes</span>
+                        ) : expandedLogId === log.id ? (
+                          <ul className="space-y-1">
+                            {log.changes.map((change) => (
+                              <li key={change.path} className="font-mono">
+                                {change.path}:{" "}
+                                <span className="text-destructive line-through">
+                                  {formatValue(change.before)}
+                                </span>{" "}
+                                → <span className="text-primary">{formatValue(change.after)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {log.changes.length} field
+                            {log.changes.length === 1 ? "" : "s"} changed
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No audit entries match.</p>
+            )}
+
+            {logsQuery.hasNextPage ? (
+              <Button
+                variant="outline"
+                disabled={logsQuery.isFetchingNextPage}
+                onClick={() => logsQuery.fetchNextPage()}
+              >
+                {logsQuery.isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            ) : null}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
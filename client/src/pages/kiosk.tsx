@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Maximize, Minimize } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import QRCodeGenerator from "@/components/qr-generator";
+import { buildApiUrl } from "@/lib/queryClient";
+import { useKioskWebSocket } from "@/hooks/use-session-websocket";
+
+type KioskState = {
+  session: {
+    id: string;
+    isActive: boolean;
+    courseCode: string;
+    courseName: string;
+    groupName: string;
+  };
+  round: { id: string; roundNumber: number; isBreakRound: boolean } | null;
+  qr: { qrPayload: string; expiresAt: string } | null;
+  counts: { scanned: number; enrolled: number };
+};
+
+// The kiosk is not logged in, so it sends its view token instead of the session cookie.
+async function fetchKioskState(token: string): Promise<KioskState> {
+  const res = await fetch(buildApiUrl("/api/kiosk/state"), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message ?? res.statusText);
+  }
+  return res.json();
+}
+
+export default function Kiosk() {
+  const { token } = useParams();
+  const [qr, setQr] = useState<KioskState["qr"]>(null);
+  const [scanned, setScanned] = useState(0);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const stateQuery = useQuery<KioskState>({
+    queryKey: ["kiosk", token],
+    queryFn: () => fetchKioskState(token!),
+    enabled: Boolean(token),
+    staleTime: 0,
+    // Socket events keep the screen live; the poll only corrects missed updates.
+    refetchInterval: 30_000,
+  });
+  const state = stateQuery.data;
+  const roundId = state?.round?.id ?? null;
+
+  useEffect(() => {
+    if (!state) return;
+    setQr(state.qr);
+    setScanned(state.counts.scanned);
+  }, [state]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  useKioskWebSocket(token, {
+    enabled: Boolean(token && state?.session.isActive),
+    onMessage: (message) => {
+      if (message.event === "round:qr-updated") {
+        if (message.payload.roundId === roundId) {
+          setQr({ qrPayload: message.payload.qrPayload, expiresAt: message.payload.expiresAt });
+        } else {
+          void stateQuery.refetch();
+        }
+        return;
+      }
+      if (
+        message.event === "session:refresh" &&
+        message.payload.reason === "scan_recorded" &&
+        message.payload.roundId === roundId
+      ) {
+        setScanned((current) => current + 1);
+        return;
+      }
+      void stateQuery.refetch();
+    },
+  });
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+    } else {
+      void document.documentElement.requestFullscreen().catch(() => undefined);
+    }
+  };
+
+  if (stateQuery.isError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-2 bg-background p-8 text-center">
+        <h1 className="text-2xl font-semibold">Kiosk unavailable</h1>
+        <p className="text-muted-foreground">
+          {(stateQuery.error as Error).message}. Ask the professor for a new kiosk link.
+        </p>
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
+  const { session, round, counts } = state;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background p-6 sm:p-10">
+      <header className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm uppercase tracking-wider text-muted-foreground">
+            {session.courseCode} · {session.groupName}
+          </p>
+          <h1 className="text-2xl sm:text-3xl font-heading font-bold">{session.courseName}</h1>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={toggleFullscreen}
+          aria-label={isFullscreen ? "Exit full screen" : "Full screen"}
+        >
+          {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+        </Button>
+      </header>
+
+      <main className="flex-1 flex flex-col lg:flex-row items-center justify-center gap-10">
+        {session.isActive ? (
+          <QRCodeGenerator
+            payload={qr?.qrPayload ?? null}
+            expiresAt={qr?.expiresAt ?? null}
+            roundNumber={round?.roundNumber ?? null}
+            maxSize={720}
+          />
+        ) : (
+          <p className="text-xl text-muted-foreground">This session has ended.</p>
+        )}
+
+        {round ? (
+          <div className="text-center lg:text-left">
+            <p className="text-sm uppercase tracking-wider text-muted-foreground">
+              Round {round.roundNumber}
+              {round.isBreakRound ? " · after break" : ""}
+            </p>
+            <p className="text-7xl font-bold tabular-nums">
+              {scanned}
+              <span className="text-3xl text-muted-foreground"> / {counts.enrolled}</span>
+            </p>
+            <p className="text-muted-foreground">students checked in</p>
+          </div>
+        ) : null}
+      </main>
+    </div>
+  );
+}
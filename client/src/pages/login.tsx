@@ -37,8 +37,8 @@ export default function Login() {
   const queryClient = useQueryClient();
   const { data: user, isLoading: isUserLoading } = useCurrentUser();
   const forcedRole = parseForcedRoleFromPath(location);
-  const portalRoleForUser = (role: "professor" | "student" | "admin") =>
-    role === "admin" ? "professor" : role;
+  const portalRoleForUser = (role: "professor" | "ta" | "student" | "admin") =>
+    role === "admin" || role === "ta" ? "professor" : role;
   const navigateAfterLogin = (role: PortalRole) => {
     const destination = role === "professor" ? "/professor/dashboard" : "/student/scan";
     setLocation(destination);
@@ -92,14 +92,14 @@ export default function Login() {
     try {
       const res = await apiRequest("POST", "/api/auth/login", { username, password });
       const authed = (await res.json()) as {
-        role: "professor" | "student" | "admin";
+        role: "professor" | "ta" | "student" | "admin";
         display_name: string;
         id: string;
         email: string;
         username: string;
         must_change_password?: boolean;
       };
-      const role = authed.role as "professor" | "student" | "admin";
+      const role = authed.role as "professor" | "ta" | "student" | "admin";
 
       const portalRole = portalRoleForUser(role);
       if (portalRole !== selectedRole) {
@@ -205,6 +205,14 @@ export default function Login() {
                 {!loading && <ArrowRight className="ml-2 h-4 w-4" />}
               </Button>
             </form>
+
+            {forcedRole !== "professor" && (
+              <div className="text-center text-xs text-muted-foreground">
+                <Link href="/activate" className="underline underline-offset-4 hover:text-primary">
+                  Have an activation code? Activate your account
+                </Link>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -33,6 +33,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import Layout from "@/components/layout";
+import ClassSchedule from "@/components/class-schedule";
 import { apiRequest, buildApiUrl } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
@@ -97,13 +98,17 @@ type CourseSummaryResponse = {
     missedClasses: number;
     totalClasses: number;
     attendancePercent: number;
-    status: "pass" | "fail";
+    excusedRounds: number;
+    absences: number;
+    maxAbsences: number | null;
+    remainingAbsences: number | null;
+    absenceStatus: "ok" | "at_risk" | "over_limit";
   }>;
 };
 
 type ManagedUser = {
   id: string;
-  role: "professor" | "student" | "admin";
+  role: "professor" | "ta" | "student" | "admin";
   username: string;
   email: string;
   display_name: string;
@@ -124,6 +129,9 @@ export default function ProfessorDashboard() {
   const queryClient = useQueryClient();
   const { data: user, isLoading: isUserLoading } = useCurrentUser();
   const isProfessor = user?.role === "professor" || user?.role === "admin";
+  // TAs see the courses they staff but cannot create courses or accounts.
+  const isTa = user?.role === "ta";
+  const isStaff = isProfessor || isTa;
   const createFormRef = useRef<HTMLFormElement | null>(null);
   const coursesQuery = useQuery<{ courses: DashboardCourse[] }>({
     queryKey: ["professor", "courses"],
@@ -131,7 +139,7 @@ export default function ProfessorDashboard() {
       const res = await apiRequest("GET", "/api/professor/courses");
       return res.json();
     },
-    enabled: user?.role === "professor",
+    enabled: user?.role === "professor" || isTa,
   });
   const courses = coursesQuery.data?.courses ?? [];
   const [selectedCourseId, setSelectedCourseId] = useState("");
@@ -148,7 +156,7 @@ export default function ProfessorDashboard() {
     email: "",
     username: "",
     display_name: "",
-    password: "00000000",
+    password: "",
   });
   const [creatingAccount, setCreatingAccount] = useState(false);
   const [creatingCourse, setCreatingCourse] = useState(false);
@@ -181,7 +189,7 @@ export default function ProfessorDashboard() {
       const res = await apiRequest("GET", "/api/professor/attendance-log/dates");
       return res.json();
     },
-    enabled: isProfessor,
+    enabled: isStaff,
   });
 
   const attendanceLogQuery = useQuery<AttendanceLogResponse>({
@@ -193,7 +201,7 @@ export default function ProfessorDashboard() {
       );
       return res.json();
     },
-    enabled: isProfessor && Boolean(selectedLogDate),
+    enabled: isStaff && Boolean(selectedLogDate),
   });
 
   const courseSummaryQuery = useQuery<CourseSummaryResponse>({
@@ -205,7 +213,7 @@ export default function ProfessorDashboard() {
       );
       return res.json();
     },
-    enabled: isProfessor && Boolean(selectedCourseId),
+    enabled: isStaff && Boolean(selectedCourseId),
   });
 
   const managedUsersQuery = useQuery<{ users: ManagedUser[] }>({
@@ -225,7 +233,7 @@ export default function ProfessorDashboard() {
       setLocation("/professor/login");
       return;
     }
-    if (user && user.role !== "professor" && user.role !== "admin") {
+    if (user && !isStaff) {
       setLocation("/professor/login");
     }
   }, [isUserLoading, user, setLocation]);
@@ -444,7 +452,7 @@ export default function ProfessorDashboard() {
       toast({
         variant: "destructive",
         title: "Missing fields",
-        description: "Professor accounts require email and password.",
+        description: "Professor and TA accounts require email and password.",
       });
       return;
     }
@@ -459,23 +467,29 @@ export default function ProfessorDashboard() {
     setCreatingAccount(true);
 
     try {
-      await apiRequest("POST", "/api/professor/users", {
+      const res = await apiRequest("POST", "/api/professor/users", {
         role: accountState.role,
         username: accountState.username.trim(),
         display_name: accountState.display_name.trim(),
         email: accountState.email.trim() || undefined,
         password: accountState.password.trim() || undefined,
       });
+      const created = (await res.json()) as {
+        username: string;
+        activation?: { code: string; expiresAt: string };
+      };
       toast({
         title: "Account created",
-        description: `${accountState.display_name} (${accountState.role}) is ready to login.`,
+        description: created.activation
+          ? `${created.username} activation code: ${created.activation.code}. The student sets their own password with it.`
+          : `${accountState.display_name} (${accountState.role}) is ready to login.`,
       });
       setAccountState({
         role: "student",
         email: "",
         username: "",
         display_name: "",
-        password: "00000000",
+        password: "",
       });
     } catch (error) {
       toast({
@@ -1100,6 +1114,11 @@ export default function ProfessorDashboard() {
           </div>
         </div>
 
+        <div>
+          <h2 className="text-2xl font-heading font-semibold mb-6">Class schedule</h2>
+          <ClassSchedule courses={courses} />
+        </div>
+
         <div>
           <h2 className="text-2xl font-heading font-semibold mb-6">
             Add students to a group
@@ -1467,6 +1486,7 @@ export default function ProfessorDashboard() {
                       <TableHead>Missed</TableHead>
                       <TableHead>Total</TableHead>
                       <TableHead>Percent</TableHead>
+                      <TableHead>Absences</TableHead>
                       <TableHead>Status</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -1480,16 +1500,27 @@ export default function ProfessorDashboard() {
                         <TableCell>{student.missedClasses}</TableCell>
                         <TableCell>{student.totalClasses}</TableCell>
                         <TableCell>{student.attendancePercent}%</TableCell>
+                        <TableCell>
+                          {student.maxAbsences == null
+                            ? student.absences
+                            : `${student.absences} / ${student.maxAbsences}`}
+                        </TableCell>
                         <TableCell>
                           <Badge
                             variant="outline"
                             className={
-                              student.status === "fail"
+                              student.absenceStatus === "over_limit"
                                 ? "border-destructive text-destructive"
-                                : "border-primary/50 text-primary"
+                                : student.absenceStatus === "at_risk"
+                                  ? "border-amber-500 text-amber-600"
+                                  : "border-primary/50 text-primary"
                             }
                           >
-                            {student.status === "fail" ? "Fail" : "Pass"}
+                            {student.absenceStatus === "over_limit"
+                              ? "Over limit"
+                              : student.absenceStatus === "at_risk"
+                                ? "At risk"
+                                : "OK"}
                           </Badge>
                         </TableCell>
                       </TableRow>
@@ -1505,152 +1536,161 @@ export default function ProfessorDashboard() {
           </Card>
         </div>
 
-        <div>
-          <h2 className="text-2xl font-heading font-semibold mb-6">Create user accounts</h2>
-          <Card className="border-border/70 shadow-sm">
-            <CardHeader>
-              <CardTitle>Create students & professor logins</CardTitle>
-              <p className="text-sm text-muted-foreground">
-                Securely provision new Anas-style accounts right from your dashboard.
-              </p>
-            </CardHeader>
-            <CardContent>
-              <form className="space-y-4" onSubmit={handleAccountSubmit}>
-                <div className="grid gap-4 md:grid-cols-2">
-                  <div className="space-y-1">
-                    <Label htmlFor="account-role">Role</Label>
-                    <select
-                      id="account-role"
-                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary/40"
-                      value={accountState.role}
-                      onChange={(event) =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          role: event.target.value,
-                        }))
-                      }
-                    >
-                      <option value="student">Student</option>
-                      <option value="professor">Professor</option>
-                    </select>
-                  </div>
-                  <div className="space-y-1">
-                    <Label htmlFor="account-display-name">Display name</Label>
-                    <Input
-                      id="account-display-name"
-                      placeholder="Full name"
-                      value={accountState.display_name}
-                      onChange={(event) =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          display_name: event.target.value,
-                        }))
-                      }
-                      autoComplete="name"
-                    />
-                  </div>
-                </div>
-                <div className="grid gap-4 md:grid-cols-2">
-                  <div className="space-y-1">
-                    <Label htmlFor="account-username">Username</Label>
-                  <Input
-                    id="account-username"
-                    placeholder="username"
-                    value={accountState.username}
-                    onChange={(event) =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          username: event.target.value,
-                        }))
-                      }
-                      autoComplete="username"
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <Label htmlFor="account-email">Email</Label>
-                  <Input
-                    id="account-email"
-                    placeholder="email@university.edu"
-                    value={accountState.email}
-                    onChange={(event) =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          email: event.target.value,
-                        }))
-                      }
-                      autoComplete="email"
-                    />
-                  </div>
-                </div>
-                <div className="space-y-1">
-                  <Label htmlFor="account-password">Password</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="account-password"
-                      placeholder="password"
-                      type="password"
-                      value={accountState.password}
-                      onChange={(event) =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          password: event.target.value,
-                        }))
-                      }
-                      autoComplete="new-password"
-                    />
+        {!isTa && (
+          <>
+            <div>
+              <h2 className="text-2xl font-heading font-semibold mb-6">Create user accounts</h2>
+              <Card className="border-border/70 shadow-sm">
+                <CardHeader>
+                  <CardTitle>Create students & professor logins</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Securely provision new Anas-style accounts right from your dashboard.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <form className="space-y-4" onSubmit={handleAccountSubmit}>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="account-role">Role</Label>
+                        <select
+                          id="account-role"
+                          className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary/40"
+                          value={accountState.role}
+                          onChange={(event) =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              role: event.target.value,
+                            }))
+                          }
+                        >
+                          <option value="student">Student</option>
+                          <option value="ta">Teaching assistant</option>
+                          <option value="professor">Professor</option>
+                        </select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="account-display-name">Display name</Label>
+                        <Input
+                          id="account-display-name"
+                          placeholder="Full name"
+                          value={accountState.display_name}
+                          onChange={(event) =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              display_name: event.target.value,
+                            }))
+                          }
+                          autoComplete="name"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="account-username">Username</Label>
+                      <Input
+                        id="account-username"
+                        placeholder="username"
+                        value={accountState.username}
+                        onChange={(event) =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              username: event.target.value,
+                            }))
+                          }
+                          autoComplete="username"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="account-email">Email</Label>
+                      <Input
+                        id="account-email"
+                        placeholder="email@university.edu"
+                        value={accountState.email}
+                        onChange={(event) =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              email: event.target.value,
+                            }))
+                          }
+                          autoComplete="email"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="account-password">Password</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="account-password"
+                          placeholder={
+                            accountState.role === "student"
+                              ? "Blank issues an activation code"
+                              : "password"
+                          }
+                          type="password"
+                          value={accountState.password}
+                          onChange={(event) =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              password: event.target.value,
+                            }))
+                          }
+                          autoComplete="new-password"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() =>
+                            setAccountState((prev) => ({
+                              ...prev,
+                              password: generateRandomPassword(),
+                            }))
+                          }
+                        >
+                          <Wand2 className="w-4 h-4 mr-1" />
+                          Random
+                        </Button>
+                      </div>
+                    </div>
                     <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() =>
-                        setAccountState((prev) => ({
-                          ...prev,
-                          password: generateRandomPassword(),
-                        }))
-                      }
+                      type="submit"
+                      className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      disabled={creatingAccount}
                     >
-                      <Wand2 className="w-4 h-4 mr-1" />
-                      Random
+                      {creatingAccount ? "Creating account..." : "Create account"}
                     </Button>
-                  </div>
-                </div>
-                <Button
-                  type="submit"
-                  className="bg-primary hover:bg-primary/90 text-primary-foreground"
-                  disabled={creatingAccount}
-                >
-                  {creatingAccount ? "Creating account..." : "Create account"}
-                </Button>
-              </form>
-            </CardContent>
-          </Card>
-        </div>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
 
-        <div>
-          <h2 className="text-2xl font-heading font-semibold mb-6">Create a new class</h2>
-          <Card className="border-border/70 shadow-sm">
-            <CardContent className="pt-6">
-              <form className="space-y-4" onSubmit={handleCreateCourse} ref={createFormRef}>
-                <div className="grid gap-4 md:grid-cols-3">
-                  <div className="space-y-1">
-                    <Label htmlFor="course-code">Course code</Label>
-                    <Input id="course-code" name="course-code" placeholder="CS-101" />
-                  </div>
-                  <div className="space-y-1 md:col-span-2">
-                    <Label htmlFor="course-name">Course name</Label>
-                    <Input id="course-name" name="course-name" placeholder="Foundations of Computing" />
-                  </div>
-                </div>
-                <div className="space-y-1">
-                  <Label htmlFor="course-term">Term / schedule</Label>
-                  <Input id="course-term" name="course-term" placeholder="Fall 2024" />
-                </div>
-                <Button type="submit" className="bg-primary hover:bg-primary/90 text-primary-foreground" disabled={creatingCourse}>
-                  {creatingCourse ? "Creating class..." : "Create class"}
-                </Button>
-              </form>
-            </CardContent>
-          </Card>
-        </div>
+            <div>
+              <h2 className="text-2xl font-heading font-semibold mb-6">Create a new class</h2>
+              <Card className="border-border/70 shadow-sm">
+                <CardContent className="pt-6">
+                  <form className="space-y-4" onSubmit={handleCreateCourse} ref={createFormRef}>
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="course-code">Course code</Label>
+                        <Input id="course-code" name="course-code" placeholder="CS-101" />
+                      </div>
+                      <div className="space-y-1 md:col-span-2">
+                        <Label htmlFor="course-name">Course name</Label>
+                        <Input id="course-name" name="course-name" placeholder="Foundations of Computing" />
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="course-term">Term / schedule</Label>
+                      <Input id="course-term" name="course-term" placeholder="Fall 2024" />
+                    </div>
+                    <Button type="submit" className="bg-primary hover:bg-primary/90 text-primary-foreground" disabled={creatingCourse}>
+                      {creatingCourse ? "Creating class..." : "Create class"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
       </div>
     </Layout>
   );
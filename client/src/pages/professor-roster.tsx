@@ -1,7 +1,17 @@
-import { Users, UserPlus, Trash2, SlidersHorizontal, Upload, Download, Mail } from "lucide-react";
+import {
+  Users,
+  UserPlus,
+  Trash2,
+  SlidersHorizontal,
+  Upload,
+  Download,
+  Mail,
+  Printer,
+} from "lucide-react";
 import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import FacultyAdminPanel from "@/components/faculty-admin-panel";
 import Layout from "@/components/layout";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -65,18 +75,99 @@ type RosterFile = {
   size: number;
 };
 
+type IssuedActivation = {
+  code: string;
+  expiresAt: string;
+};
+
+type ActivationSlip = IssuedActivation & {
+  username: string;
+  display_name: string;
+};
+
 type RosterImportResult = {
   created: Array<{
     id: string;
     email: string;
     username: string;
     display_name: string;
-    temporaryPassword: string;
+    activation: IssuedActivation | null;
     enrolled: boolean;
+    moved: boolean;
     wasExisting: boolean;
   }>;
+  removed: RosterRemoval[];
+  skipped: number;
 };
 
+type RosterField = "displayName" | "username" | "email" | "studentNumber" | "group";
+
+type RosterImportMode = "add" | "sync";
+
+type RosterRemoval = {
+  enrollmentId: string;
+  studentId: string;
+  username: string;
+  displayName: string;
+  group: { id: string; name: string };
+};
+
+type ColumnMapping = { hasHeader: boolean } & Record<RosterField, number | null>;
+
+type RosterRowAction = "create" | "match" | "move" | "error";
+
+type RosterImportPreview = {
+  fileName: string;
+  originalName: string;
+  mode: RosterImportMode;
+  groupId: string | null;
+  courseId: string | null;
+  columns: Array<{ index: number; header: string; samples: string[] }>;
+  mapping: ColumnMapping;
+  rows: Array<{
+    rowNumber: number;
+    username: string | null;
+    displayName: string;
+    email: string | null;
+    studentNumber: string | null;
+    action: RosterRowAction;
+    errors: string[];
+    studentId: string | null;
+    group: { id: string; name: string } | null;
+    alreadyInGroup: boolean;
+    fromGroup: { id: string; name: string } | null;
+  }>;
+  removals: RosterRemoval[];
+  summary: Record<RosterRowAction | "remove", number>;
+  planHash: string;
+};
+
+const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  displayName: "Full name",
+  username: "Username",
+  email: "Email",
+  studentNumber: "Student number",
+  group: "Group",
+};
+
+const ROW_ACTION_LABELS: Record<RosterRowAction, string> = {
+  create: "Create",
+  match: "Existing",
+  move: "Move",
+  error: "Skip",
+};
+
+const ROW_ACTION_VARIANTS: Record<RosterRowAction, "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  match: "secondary",
+  move: "outline",
+  error: "destructive",
+};
+
+function activationLink(code: string) {
+  return `${window.location.origin}${window.location.pathname}#/activate/${code}`;
+}
+
 type ManagedUser = {
   id: string;
   role: "professor" | "student" | "admin";
@@ -103,6 +194,13 @@ type AdminProfessor = {
   last_login_at: string | null;
   courseCount: number;
   studentCount: number;
+  departmentId: string | null;
+};
+
+type AdminFaculty = {
+  id: string;
+  code: string;
+  departments: Array<{ id: string; code: string; name: string }>;
 };
 
 type RosterSettings = {
@@ -134,8 +232,9 @@ export default function ProfessorRoster() {
   const [createStudentState, setCreateStudentState] = useState({
     display_name: "",
     username: "",
-    password: "00000000",
+    password: "",
   });
+  const [activationSlips, setActivationSlips] = useState<ActivationSlip[]>([]);
   const [bulkRosterText, setBulkRosterText] = useState("");
   const [bulkResults, setBulkResults] = useState<
     Array<{
@@ -145,7 +244,12 @@ export default function ProfessorRoster() {
     }>
   >([]);
   const [sheetFile, setSheetFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<RosterImportPreview | null>(null);
+  const [importMode, setImportMode] = useState<RosterImportMode>("add");
+  // "group" imports into the selected group; "course" places rows by their group column.
+  const [importScope, setImportScope] = useState<"group" | "course">("group");
   const [lastImport, setLastImport] = useState<RosterImportResult | null>(null);
+  const [lastImportGroupId, setLastImportGroupId] = useState<string | null>(null);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   const [editState, setEditState] = useState({
     username: "",
@@ -154,7 +258,9 @@ export default function ProfessorRoster() {
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isUploadingSheet, setIsUploadingSheet] = useState(false);
+  const [isConfirmingImport, setIsConfirmingImport] = useState(false);
   const [isDownloadingAccounts, setIsDownloadingAccounts] = useState(false);
+  const [isPrintingSlips, setIsPrintingSlips] = useState(false);
   const [sendingCredentialId, setSendingCredentialId] = useState<string | null>(null);
   const [assigningStudentId, setAssigningStudentId] = useState<string | null>(
     null,
@@ -308,6 +414,26 @@ export default function ProfessorRoster() {
     enabled: isAdmin,
   });
 
+  const adminFacultiesQuery = useQuery<{ faculties: AdminFaculty[] }>({
+    queryKey: ["admin", "faculties"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/faculties");
+      return res.json();
+    },
+    enabled: isAdmin,
+  });
+
+  const departmentOptions = useMemo(
+    () =>
+      (adminFacultiesQuery.data?.faculties ?? []).flatMap((faculty) =>
+        faculty.departments.map((department) => ({
+          value: department.id,
+          label: `${faculty.code} / ${department.name}`,
+        })),
+      ),
+    [adminFacultiesQuery.data],
+  );
+
   const courseOptions = useMemo(() => {
     const courses = coursesQuery.data?.courses ?? [];
     return courses.map((course) => ({
@@ -428,9 +554,14 @@ export default function ProfessorRoster() {
         role: "student",
         display_name: createStudentState.display_name.trim(),
         username: createStudentState.username.trim(),
-        password: createStudentState.password,
+        password: createStudentState.password || undefined,
       });
-      const createdUser: { id: string; username: string } = await res.json();
+      const createdUser: {
+        id: string;
+        username: string;
+        display_name: string;
+        activation?: IssuedActivation;
+      } = await res.json();
 
       await apiRequest(
         "POST",
@@ -438,14 +569,19 @@ export default function ProfessorRoster() {
         { studentId: createdUser.id },
       );
 
+      if (createdUser.activation) {
+        rememberActivations([{ ...createdUser, ...createdUser.activation }]);
+      }
       toast({
         title: "Student enrolled",
-        description: `${createdUser.username} is ready to scan attendance.`,
+        description: createdUser.activation
+          ? `${createdUser.username} activation code: ${createdUser.activation.code}`
+          : `${createdUser.username} is ready to scan attendance.`,
       });
       setCreateStudentState({
         display_name: "",
         username: "",
-        password: "00000000",
+        password: "",
       });
       await invalidateRosterQueries();
     } catch (error) {
@@ -481,6 +617,7 @@ export default function ProfessorRoster() {
 
     setIsSubmitting(true);
     const results: Array<{ row: string; status: "created" | "failed"; message: string }> = [];
+    const issued: ActivationSlip[] = [];
     try {
       for (const row of parsed) {
         try {
@@ -488,9 +625,13 @@ export default function ProfessorRoster() {
             role: "student",
             display_name: row.fullName,
             username: row.studentId,
-            password: "00000000",
           });
-          const createdUser: { id: string; username: string } = await res.json();
+          const createdUser: {
+            id: string;
+            username: string;
+            display_name: string;
+            activation?: IssuedActivation;
+          } = await res.json();
           await apiRequest(
             "POST",
             `/api/professor/groups/${selectedGroupId}/enrollments`,
@@ -499,8 +640,13 @@ export default function ProfessorRoster() {
           results.push({
             row: row.raw,
             status: "created",
-            message: `${createdUser.username} created with temporary password 00000000`,
+            message: createdUser.activation
+              ? `${createdUser.username} created, activation code ${createdUser.activation.code}`
+              : `${createdUser.username} already exists, enrolled`,
           });
+          if (createdUser.activation) {
+            issued.push({ ...createdUser, ...createdUser.activation });
+          }
         } catch (error) {
           results.push({
             row: row.raw,
@@ -511,6 +657,7 @@ export default function ProfessorRoster() {
       }
 
       setBulkResults(results);
+      rememberActivations(issued);
       await invalidateRosterQueries();
       toast({
         title: "Bulk create complete",
@@ -534,13 +681,16 @@ export default function ProfessorRoster() {
 
     const formData = new FormData();
     formData.append("sheet", sheetFile);
-    if (selectedGroupId) {
+    formData.append("mode", importMode);
+    if (importScope === "course" && selectedCourseId) {
+      formData.append("courseId", selectedCourseId);
+    } else if (selectedGroupId) {
       formData.append("groupId", selectedGroupId);
     }
     setIsUploadingSheet(true);
 
     try {
-      const res = await fetch(buildApiUrl("/api/professor/roster-files/import"), {
+      const res = await fetch(buildApiUrl("/api/professor/roster-files/preview"), {
         method: "POST",
         credentials: "include",
         body: formData,
@@ -549,19 +699,13 @@ export default function ProfessorRoster() {
         const errorText = await res.text();
         throw new Error(errorText || "Upload failed");
       }
-      const result = (await res.json()) as RosterImportResult;
-      setLastImport(result);
-      const createdNow = result.created.filter((row) => !row.wasExisting).length;
-      toast({
-        title: "Students imported",
-        description: `${createdNow} accounts created from ${sheetFile.name}.`,
-      });
+      setImportPreview((await res.json()) as RosterImportPreview);
+      setLastImport(null);
       setSheetFile(null);
       if (uploadInputRef.current) {
         uploadInputRef.current.value = "";
       }
       await rosterFilesQuery.refetch();
-      await invalidateRosterQueries();
     } catch (error) {
       toast({
         variant: "destructive",
@@ -573,6 +717,80 @@ export default function ProfessorRoster() {
     }
   };
 
+  const handleRemapPreview = async (mapping: ColumnMapping) => {
+    if (!importPreview) return;
+    setIsUploadingSheet(true);
+    try {
+      const res = await apiRequest("POST", "/api/professor/roster-files/preview", {
+        fileName: importPreview.fileName,
+        mode: importPreview.mode,
+        groupId: importPreview.groupId ?? undefined,
+        courseId: importPreview.groupId ? undefined : (importPreview.courseId ?? undefined),
+        mapping,
+      });
+      setImportPreview((await res.json()) as RosterImportPreview);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsUploadingSheet(false);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importPreview) return;
+    if (
+      importPreview.removals.length &&
+      !window.confirm(
+        `Unenroll ${importPreview.removals.length} student(s) who are not on the sheet? Their accounts and attendance history are kept.`,
+      )
+    ) {
+      return;
+    }
+    setIsConfirmingImport(true);
+    try {
+      const res = await apiRequest("POST", "/api/professor/roster-files/import", {
+        fileName: importPreview.fileName,
+        mode: importPreview.mode,
+        groupId: importPreview.groupId ?? undefined,
+        courseId: importPreview.groupId ? undefined : (importPreview.courseId ?? undefined),
+        mapping: importPreview.mapping,
+        planHash: importPreview.planHash,
+      });
+      const result = (await res.json()) as RosterImportResult;
+      setLastImport(result);
+      setLastImportGroupId(importPreview.groupId);
+      rememberActivations(
+        result.created.flatMap((row) => (row.activation ? [{ ...row, ...row.activation }] : [])),
+      );
+      const createdNow = result.created.filter((row) => !row.wasExisting).length;
+      toast({
+        title: importPreview.mode === "sync" ? "Roster synced" : "Students imported",
+        description: `${createdNow} accounts created from ${importPreview.originalName}${
+          result.removed.length ? `, ${result.removed.length} unenrolled` : ""
+        }.`,
+      });
+      setImportPreview(null);
+      await invalidateRosterQueries();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      // The sheet or the accounts changed since the preview: show the fresh plan instead.
+      if (message.startsWith("409")) {
+        await handleRemapPreview(importPreview.mapping);
+      }
+      toast({
+        variant: "destructive",
+        title: message.startsWith("409") ? "Roster changed, review the preview again" : "Import failed",
+        description: message,
+      });
+    } finally {
+      setIsConfirmingImport(false);
+    }
+  };
+
   const handleRemove = async (enrollmentId: string) => {
     setIsSubmitting(true);
     try {
@@ -590,14 +808,21 @@ export default function ProfessorRoster() {
     }
   };
 
-  const handleResetPassword = async (studentId: string, username: string) => {
+  const handleResetPassword = async (
+    studentId: string,
+    username: string,
+    displayName: string,
+  ) => {
     setIsSubmitting(true);
     try {
       const res = await apiRequest("PATCH", `/api/professor/users/${studentId}/password`);
-      const result = (await res.json()) as { temporaryPassword: string };
+      const result = (await res.json()) as { activation: IssuedActivation };
+      rememberActivations([
+        { username, display_name: displayName, ...result.activation },
+      ]);
       toast({
         title: "Password reset",
-        description: `${username} temporary password: ${result.temporaryPassword}`,
+        description: `${username} activation code: ${result.activation.code}`,
       });
     } catch (error) {
       toast({
@@ -610,6 +835,31 @@ export default function ProfessorRoster() {
     }
   };
 
+  // Newest first; a newer code for the same student replaces the old one.
+  const rememberActivations = (slips: ActivationSlip[]) => {
+    if (!slips.length) return;
+    setActivationSlips((prev) => [
+      ...slips,
+      ...prev.filter((slip) => !slips.some((next) => next.username === slip.username)),
+    ]);
+  };
+
+  const handleCopyActivationLink = async (slip: ActivationSlip) => {
+    try {
+      await navigator.clipboard.writeText(activationLink(slip.code));
+      toast({
+        title: "Link copied",
+        description: `Activation link for ${slip.username} copied.`,
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Copy failed",
+        description: activationLink(slip.code),
+      });
+    }
+  };
+
   const handleSendCredential = async (studentId: string) => {
     setSendingCredentialId(studentId);
     try {
@@ -623,10 +873,18 @@ export default function ProfessorRoster() {
         username: string;
         password: string;
         hasPassword: boolean;
+        revealedAt: string | null;
       };
       if (!data.email) {
         throw new Error("Student email is missing.");
       }
+      if (!data.hasPassword) {
+        throw new Error(
+          data.revealedAt
+            ? `This password was already revealed on ${new Date(data.revealedAt).toLocaleString()}. Reset the password to issue a new one.`
+            : "No temporary password is on file. Reset the password to issue a new one.",
+        );
+      }
       const subject = `Your attendance login credentials`;
       const body = [
         `Hello ${data.displayName},`,
@@ -634,7 +892,7 @@ export default function ProfessorRoster() {
         "Here are your login credentials:",
         `Username: ${data.username}`,
         `Email: ${data.email}`,
-        `Password: ${data.password || "(password unavailable)"}`,
+        `Password: ${data.password}`,
         "",
         "Please change your password after logging in.",
       ].join("\n");
@@ -711,6 +969,28 @@ export default function ProfessorRoster() {
     }
   };
 
+  const handleAssignProfessorDepartment = async (
+    professor: AdminProfessor,
+    departmentId: string | null,
+  ) => {
+    if (!isAdmin) return;
+    try {
+      await apiRequest("PUT", `/api/admin/professors/${professor.id}/department`, {
+        departmentId,
+      });
+      await Promise.all([
+        adminProfessorsQuery.refetch(),
+        queryClient.invalidateQueries({ queryKey: ["admin", "faculties"] }),
+      ]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
   const handleResetProfessorPassword = async (professor: AdminProfessor) => {
     if (!isAdmin) return;
     const confirm = window.confirm(
@@ -771,6 +1051,50 @@ export default function ProfessorRoster() {
     }
   };
 
+  // Without `activations` the server issues new codes, so earlier slips stop working.
+  const handlePrintSlips = async (
+    groupId: string,
+    activations?: Array<{ studentId: string; code: string }>,
+  ) => {
+    if (
+      !activations &&
+      !window.confirm(
+        "Print new activation slips for students in this group who have not activated yet? Codes handed out earlier will stop working.",
+      )
+    ) {
+      return;
+    }
+    setIsPrintingSlips(true);
+    try {
+      const res = await apiRequest(
+        "POST",
+        `/api/professor/groups/${groupId}/activation-slips`,
+        activations ? { activations } : {},
+      );
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ??
+        "activation-slips.pdf";
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({
+        title: "Slips ready",
+        description: "Print the PDF and cut along the dashed lines.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Slips failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsPrintingSlips(false);
+    }
+  };
+
   const handleDownloadAccounts = async () => {
     setIsDownloadingAccounts(true);
     try {
@@ -784,7 +1108,8 @@ export default function ProfessorRoster() {
       URL.revokeObjectURL(url);
       toast({
         title: "Download started",
-        description: "Student accounts CSV is being downloaded.",
+        description:
+          "Student accounts CSV is being downloaded. Temporary passwords appear in one export only.",
       });
     } catch (error) {
       toast({
@@ -1154,37 +1479,23 @@ export default function ProfessorRoster() {
                       </div>
                     </div>
                     <div className="space-y-1">
-                      <Label htmlFor="student-password">Temporary password</Label>
-                      <div className="flex gap-2">
-                        <Input
-                          id="student-password"
-                          value={createStudentState.password}
-                          onChange={(event) =>
-                            setCreateStudentState((prev) => ({
-                              ...prev,
-                              password: event.target.value,
-                            }))
-                          }
-                          placeholder="00000000"
-                          type="password"
-                          autoComplete="new-password"
-                          required
-                        />
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={() =>
-                            setCreateStudentState((prev) => ({
-                              ...prev,
-                              password: "00000000",
-                            }))
-                          }
-                        >
-                          Use standard
-                        </Button>
-                      </div>
+                      <Label htmlFor="student-password">Temporary password (optional)</Label>
+                      <Input
+                        id="student-password"
+                        value={createStudentState.password}
+                        onChange={(event) =>
+                          setCreateStudentState((prev) => ({
+                            ...prev,
+                            password: event.target.value,
+                          }))
+                        }
+                        placeholder="Leave blank to issue an activation code"
+                        type="password"
+                        autoComplete="new-password"
+                      />
                       <p className="text-xs text-muted-foreground">
-                        Default temporary password is 00000000.
+                        Without a password the student gets a single-use activation code and
+                        chooses their own password.
                       </p>
                     </div>
                     <Button
@@ -1276,6 +1587,43 @@ export default function ProfessorRoster() {
                       </div>
                     )}
                 </div>
+
+                {activationSlips.length > 0 && (
+                  <div className="mt-6 space-y-3 rounded-lg border border-border/70 p-4">
+                    <p className="text-sm font-medium">Activation codes</p>
+                    <p className="text-xs text-muted-foreground">
+                      Each code works once. Students open the link, or enter the code under
+                      Activate on the student login, and choose their own password. Codes are
+                      only shown here until you leave this page.
+                    </p>
+                    <div className="max-h-56 space-y-2 overflow-auto text-xs">
+                      {activationSlips.map((slip) => (
+                        <div
+                          key={slip.username}
+                          className="flex items-center justify-between gap-3 rounded-md border border-border/70 px-3 py-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-medium truncate">
+                              {slip.display_name} ({slip.username})
+                            </p>
+                            <p className="font-mono text-sm">{slip.code}</p>
+                            <p className="text-muted-foreground">
+                              Expires {new Date(slip.expiresAt).toLocaleString()}
+                            </p>
+                          </div>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleCopyActivationLink(slip)}
+                          >
+                            Copy link
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -1289,7 +1637,7 @@ export default function ProfessorRoster() {
                 Upload student sheet
               </CardTitle>
               <p className="text-sm text-muted-foreground">
-                Upload Excel/CSV files with username + full name columns (email optional) to auto-create students and enroll them in the selected group.
+                Upload an Excel/CSV sheet, check the preview, then confirm to create students and enroll them in the selected group, or across the course using a group column.
               </p>
             </CardHeader>
             <CardContent className="space-y-5">
@@ -1297,7 +1645,7 @@ export default function ProfessorRoster() {
                 <div className="space-y-1">
                   <Label htmlFor="sheet-file">Excel or CSV file</Label>
                   <p className="text-xs text-muted-foreground">
-                    Required columns: username, full name. Optional: email.
+                    Needs a full name plus a username, email or student number. Columns are matched in the preview.
                   </p>
                   <Input
                     id="sheet-file"
@@ -1307,14 +1655,236 @@ export default function ProfessorRoster() {
                     onChange={(event) => setSheetFile(event.target.files?.[0] ?? null)}
                   />
                 </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label>Apply to</Label>
+                    <Select
+                      value={importScope}
+                      onValueChange={(value) => setImportScope(value as "group" | "course")}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="group">Selected group</SelectItem>
+                        <SelectItem value="course">Whole course (sheet has a group column)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="import-sync-mode">Sync</Label>
+                    <div className="flex items-center gap-2 pt-1">
+                      <Switch
+                        id="import-sync-mode"
+                        checked={importMode === "sync"}
+                        onCheckedChange={(checked) => setImportMode(checked ? "sync" : "add")}
+                      />
+                      <span className="text-xs text-muted-foreground">
+                        The sheet is the full list: unenroll everyone not on it.
+                      </span>
+                    </div>
+                  </div>
+                </div>
                 <Button type="submit" disabled={isUploadingSheet}>
-                  {isUploadingSheet ? "Importing..." : "Import sheet and create accounts"}
+                  {isUploadingSheet ? "Reading sheet..." : "Preview import"}
                 </Button>
               </form>
 
+              {importPreview && (
+                <div className="space-y-4 rounded-lg border border-border/70 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {importPreview.mode === "sync" ? "Sync preview" : "Preview"}:{" "}
+                        {importPreview.originalName}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Nothing is saved until you confirm.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(ROW_ACTION_LABELS) as RosterRowAction[]).map((action) => (
+                        <Badge key={action} variant={ROW_ACTION_VARIANTS[action]}>
+                          {ROW_ACTION_LABELS[action]}: {importPreview.summary[action]}
+                        </Badge>
+                      ))}
+                      {importPreview.mode === "sync" && (
+                        <Badge variant="destructive">Unenroll: {importPreview.summary.remove}</Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                    {(Object.keys(ROSTER_FIELD_LABELS) as RosterField[])
+                      .filter((field) => field !== "group" || !importPreview.groupId)
+                      .map((field) => (
+                        <div key={field} className="space-y-1">
+                          <Label>{ROSTER_FIELD_LABELS[field]}</Label>
+                          <Select
+                            value={
+                              importPreview.mapping[field] === null
+                                ? "none"
+                                : String(importPreview.mapping[field])
+                            }
+                            onValueChange={(value) =>
+                              handleRemapPreview({
+                                ...importPreview.mapping,
+                                [field]: value === "none" ? null : Number(value),
+                              })
+                            }
+                            disabled={isUploadingSheet || isConfirmingImport}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Not in file</SelectItem>
+                              {importPreview.columns.map((column) => (
+                                <SelectItem key={column.index} value={String(column.index)}>
+                                  {column.header}
+                                  {column.samples[0] ? ` (e.g. ${column.samples[0]})` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="preview-has-header"
+                      checked={importPreview.mapping.hasHeader}
+                      onCheckedChange={(checked) =>
+                        handleRemapPreview({ ...importPreview.mapping, hasHeader: checked })
+                      }
+                      disabled={isUploadingSheet || isConfirmingImport}
+                    />
+                    <Label htmlFor="preview-has-header">First row is a header</Label>
+                  </div>
+
+                  <div className="max-h-80 overflow-auto rounded-md border border-border/70">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Username</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Student no.</TableHead>
+                          <TableHead>Group</TableHead>
+                          <TableHead>Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {importPreview.rows.map((row) => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {row.rowNumber}
+                            </TableCell>
+                            <TableCell>{row.displayName || "-"}</TableCell>
+                            <TableCell>{row.username ?? "-"}</TableCell>
+                            <TableCell>{row.email ?? "-"}</TableCell>
+                            <TableCell>{row.studentNumber ?? "-"}</TableCell>
+                            <TableCell>{row.group?.name ?? "-"}</TableCell>
+                            <TableCell className="space-y-1">
+                              <Badge variant={ROW_ACTION_VARIANTS[row.action]}>
+                                {ROW_ACTION_LABELS[row.action]}
+                              </Badge>
+                              {row.action === "move" && row.fromGroup && (
+                                <p className="text-xs text-muted-foreground">
+                                  From group {row.fromGroup.name}
+                                </p>
+                              )}
+                              {row.alreadyInGroup && (
+                                <p className="text-xs text-muted-foreground">Already in group</p>
+                              )}
+                              {row.errors.map((message) => (
+                                <p key={message} className="text-xs text-destructive">
+                                  {message}
+                                </p>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {importPreview.removals.length > 0 && (
+                    <div className="space-y-1 rounded-md border border-destructive/30 bg-destructive/5 p-3">
+                      <p className="text-sm font-medium">
+                        Not on the sheet: will be unenrolled (accounts and history are kept)
+                      </p>
+                      <div className="max-h-40 space-y-1 overflow-auto text-xs">
+                        {importPreview.removals.map((removal) => (
+                          <p key={removal.enrollmentId}>
+                            <span className="font-medium">{removal.displayName}</span> (
+                            {removal.username}) - group {removal.group.name}
+                          </p>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {importPreview.mode === "sync" && importPreview.summary.error > 0 && (
+                    <p className="text-xs text-destructive">
+                      Fix the rows marked Skip before syncing; a sync needs the complete list.
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      type="button"
+                      onClick={handleConfirmImport}
+                      disabled={
+                        isConfirmingImport ||
+                        isUploadingSheet ||
+                        importPreview.rows.every((row) => row.action === "error") ||
+                        (importPreview.mode === "sync" && importPreview.summary.error > 0)
+                      }
+                    >
+                      {isConfirmingImport
+                        ? "Importing..."
+                        : `Confirm import (${importPreview.rows.length - importPreview.summary.error} rows)`}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setImportPreview(null)}
+                      disabled={isConfirmingImport}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {lastImport && (
                 <div className="space-y-2 rounded-lg border border-border/70 p-3">
-                  <p className="text-sm font-medium">Latest imported accounts</p>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-medium">Latest imported accounts</p>
+                    {lastImportGroupId &&
+                      lastImport.created.some((row) => row.activation) && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={isPrintingSlips}
+                          onClick={() =>
+                            handlePrintSlips(
+                              lastImportGroupId,
+                              lastImport.created.flatMap((row) =>
+                                row.activation
+                                  ? [{ studentId: row.id, code: row.activation.code }]
+                                  : [],
+                              ),
+                            )
+                          }
+                        >
+                          <Printer className="mr-2 h-4 w-4" />
+                          Download slips (PDF)
+                        </Button>
+                      )}
+                  </div>
                   <div className="max-h-56 space-y-2 overflow-auto">
                     {lastImport.created.map((row) => (
                       <div
@@ -1327,8 +1897,8 @@ export default function ProfessorRoster() {
                         <p className="text-muted-foreground">
                           {row.wasExisting
                             ? "Existing student reused"
-                            : `Temporary password: ${row.temporaryPassword}`}{" "}
-                          {row.enrolled ? "- enrolled" : ""}
+                            : `Activation code: ${row.activation?.code ?? "-"}`}{" "}
+                          {row.moved ? "- moved to this group" : row.enrolled ? "- enrolled" : ""}
                         </p>
                       </div>
                     ))}
@@ -1375,7 +1945,21 @@ export default function ProfessorRoster() {
         {settings.showEnrolledStudents && (
           <Card className="border-border/70 shadow-sm">
             <CardHeader>
-              <CardTitle>Enrolled students</CardTitle>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle>Enrolled students</CardTitle>
+                {selectedGroupId && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePrintSlips(selectedGroupId)}
+                    disabled={isPrintingSlips}
+                  >
+                    <Printer className="mr-2 h-4 w-4" />
+                    {isPrintingSlips ? "Preparing..." : "Print activation slips"}
+                  </Button>
+                )}
+              </div>
               <p className="text-sm text-muted-foreground">
                 These students can scan attendance in the selected group.
               </p>
@@ -1432,7 +2016,11 @@ export default function ProfessorRoster() {
                             variant="outline"
                             disabled={isSubmitting}
                             onClick={() =>
-                              handleResetPassword(row.student.id, row.student.username)
+                              handleResetPassword(
+                                row.student.id,
+                                row.student.username,
+                                row.student.display_name,
+                              )
                             }
                           >
                             Reset
@@ -1656,6 +2244,7 @@ export default function ProfessorRoster() {
                       <TableHead>Email</TableHead>
                       <TableHead>Courses</TableHead>
                       <TableHead>Students</TableHead>
+                      <TableHead>Department</TableHead>
                       <TableHead>Last login</TableHead>
                       <TableHead className="w-40"></TableHead>
                     </TableRow>
@@ -1672,6 +2261,29 @@ export default function ProfessorRoster() {
                         <TableCell>{professor.email}</TableCell>
                         <TableCell>{professor.courseCount}</TableCell>
                         <TableCell>{professor.studentCount}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={professor.departmentId ?? "none"}
+                            onValueChange={(value) =>
+                              handleAssignProfessorDepartment(
+                                professor,
+                                value === "none" ? null : value,
+                              )
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Unassigned</SelectItem>
+                              {departmentOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
                         <TableCell className="text-xs text-muted-foreground">
                           {professor.last_login_at
                             ? new Date(professor.last_login_at).toLocaleString()
@@ -1710,6 +2322,8 @@ export default function ProfessorRoster() {
             </CardContent>
           </Card>
         )}
+
+        {isAdmin && <FacultyAdminPanel />}
       </div>
     </Layout>
   );
@@ -1,13 +1,31 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, Clock, ShieldCheck, XCircle, RefreshCcw, PauseCircle, Loader2 } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Clock, ShieldCheck, XCircle, RefreshCcw, PauseCircle, Loader2, Pencil, Presentation } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import Layout from "@/components/layout";
 import QRCodeGenerator from "@/components/qr-generator";
+import FraudSignalsPanel from "@/components/fraud-signals-panel";
 import { apiRequest } from "@/lib/queryClient";
+import { buildOfflineQrPayload, type OfflineQrConfig } from "@/lib/offlineQr";
 import { useToast } from "@/hooks/use-toast";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { useSessionWebSocket } from "@/hooks/use-session-websocket";
@@ -36,6 +54,7 @@ type SessionDetailResponse = {
     qrPayload: string;
     roundId: string;
   } | null;
+  offlineQr: OfflineQrConfig | null;
   totals: {
     attendanceCount: number;
   };
@@ -92,14 +111,45 @@ type ExcuseListResponse = {
   }>;
 };
 
+type RoundRecordsResponse = {
+  round: { id: string; roundNumber: number; isActive: boolean };
+  records: Array<{
+    studentId: string;
+    username: string;
+    displayName: string;
+    recordId: string | null;
+    status: string | null;
+    recordedAt: string | null;
+  }>;
+};
+
+type ManualStatus = "on_time" | "late" | "absent";
+
+const RECORD_STATUS_LABELS: Record<string, string> = {
+  on_time: "On time",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+};
+
+// Grace after the live code expires before this page starts generating its own.
+const OFFLINE_QR_FALLBACK_MS = 2_000;
+
 export default function ProfessorSession() {
   const { id: sessionId } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { data: user, isLoading: isUserLoading } = useCurrentUser();
-  const isProfessor = user?.role === "professor" || user?.role === "admin";
+  const isProfessor =
+    user?.role === "professor" || user?.role === "ta" || user?.role === "admin";
   const [qrPayload, setQrPayload] = useState<string | null>(null);
   const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [offlineQr, setOfflineQr] = useState<OfflineQrConfig | null>(null);
+  const [offlineCode, setOfflineCode] = useState<{
+    qrPayload: string;
+    expiresAt: string;
+  } | null>(null);
   const [activeRoundId, setActiveRoundId] = useState<string | null>(null);
   const [activeRoundNumber, setActiveRoundNumber] = useState<number | null>(null);
   const [attendees, setAttendees] = useState<number>(0);
@@ -117,6 +167,13 @@ export default function ProfessorSession() {
   const [startingRound, setStartingRound] = useState(false);
   const [closingRound, setClosingRound] = useState(false);
   const [isBreakRound, setIsBreakRound] = useState(false);
+  const [recordsRoundId, setRecordsRoundId] = useState<string | null>(null);
+  const [editingRecord, setEditingRecord] = useState<{
+    studentId: string;
+    status: ManualStatus;
+    reason: string;
+  } | null>(null);
+  const [savingRecord, setSavingRecord] = useState(false);
   useEffect(() => {
     if (isUserLoading) {
       return;
@@ -125,7 +182,7 @@ export default function ProfessorSession() {
       setLocation("/professor/login");
       return;
     }
-    if (user && user.role !== "professor" && user.role !== "admin") {
+    if (user && !isProfessor) {
       setLocation("/professor/login");
     }
   }, [isUserLoading, user, setLocation]);
@@ -170,6 +227,31 @@ export default function ProfessorSession() {
     enabled: Boolean(sessionId),
   });
 
+  const sortedRounds = useMemo(
+    () =>
+      [...(statsQuery.data?.rounds ?? [])].sort(
+        (a, b) => a.roundNumber - b.roundNumber,
+      ),
+    [statsQuery.data?.rounds],
+  );
+  const selectedRecordsRoundId =
+    recordsRoundId ??
+    activeRoundId ??
+    sortedRounds[sortedRounds.length - 1]?.roundId ??
+    null;
+
+  const roundRecordsQuery = useQuery<RoundRecordsResponse>({
+    queryKey: ["professor", "session", sessionId, "records", selectedRecordsRoundId],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/professor/sessions/${sessionId}/rounds/${selectedRecordsRoundId}/records`,
+      );
+      return res.json();
+    },
+    enabled: Boolean(sessionId && selectedRecordsRoundId),
+  });
+
   useEffect(() => {
     const detail = sessionDetailQuery.data;
     if (!detail) return;
@@ -190,6 +272,7 @@ export default function ProfessorSession() {
       setExpiresAt(null);
       setActiveRoundId(null);
     }
+    setOfflineQr(detail.offlineQr ?? null);
 
     if (detail.activeRound) {
       setActiveRoundNumber(detail.activeRound.roundNumber);
@@ -200,6 +283,40 @@ export default function ProfessorSession() {
     }
   }, [sessionDetailQuery.data, sessionId]);
 
+  // When the server stops rotating codes (no network, socket down), render
+  // time-based codes locally from the round secret until fresh ones arrive.
+  useEffect(() => {
+    if (!offlineQr || offlineQr.roundId !== activeRoundId) {
+      setOfflineCode(null);
+      return;
+    }
+    let cancelled = false;
+    const tick = async () => {
+      const liveExpired =
+        !expiresAt || Date.parse(expiresAt) + OFFLINE_QR_FALLBACK_MS < Date.now();
+      if (navigator.onLine && !liveExpired) {
+        setOfflineCode(null);
+        return;
+      }
+      try {
+        const next = await buildOfflineQrPayload(offlineQr);
+        if (!cancelled) {
+          setOfflineCode((current) =>
+            current?.qrPayload === next.qrPayload ? current : next,
+          );
+        }
+      } catch (error) {
+        console.warn("[qr] offline code generation failed", error);
+      }
+    };
+    void tick();
+    const interval = window.setInterval(() => void tick(), 1_000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [offlineQr, activeRoundId, expiresAt]);
+
   useEffect(() => {
     if (!statsQuery.data || !activeRoundId) return;
     const activeRound = statsQuery.data.rounds.find(
@@ -276,6 +393,8 @@ export default function ProfessorSession() {
         void sessionDetailQuery.refetch();
         void statsQuery.refetch();
         void excusesQuery.refetch();
+        void roundRecordsQuery.refetch();
+        void queryClient.invalidateQueries({ queryKey: ["professor", "fraud-signals"] });
         return;
       }
 
@@ -352,6 +471,41 @@ export default function ProfessorSession() {
     }
   };
 
+  // The kiosk link carries a read-only view token, so a TA can project it without
+  // the professor's login. It is also copied for sending to another device.
+  const handleOpenKiosk = async () => {
+    if (!sessionId) return;
+    // Opened before the request so popup blockers still see a user gesture.
+    const kioskWindow = window.open("", "_blank");
+    try {
+      const res = await apiRequest("POST", `/api/professor/sessions/${sessionId}/kiosk`);
+      const { token, expiresAt: linkExpiresAt } = (await res.json()) as {
+        token: string;
+        expiresAt: string;
+      };
+      const link = `${window.location.origin}${window.location.pathname}#/kiosk/${token}`;
+      if (kioskWindow) {
+        kioskWindow.opener = null;
+        kioskWindow.location.href = link;
+      }
+      await navigator.clipboard?.writeText(link).catch(() => undefined);
+      toast({
+        title: "Kiosk opened",
+        description: `The kiosk link was copied. It works until ${new Date(
+          linkExpiresAt,
+        ).toLocaleString()}.`,
+      });
+    } catch (error) {
+      kioskWindow?.close();
+      toast({
+        variant: "destructive",
+        title: "Could not open kiosk",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
   const handleEndSession = async () => {
     if (!sessionId) return;
     setEndingSession(true);
@@ -398,6 +552,70 @@ export default function ProfessorSession() {
     }
   };
 
+  const handleSaveRecord = async () => {
+    if (!sessionId || !selectedRecordsRoundId || !editingRecord) return;
+    if (!editingRecord.reason.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Reason required",
+        description: "Explain why this attendance is being changed.",
+      });
+      return;
+    }
+    setSavingRecord(true);
+    try {
+      await apiRequest(
+        "PUT",
+        `/api/professor/sessions/${sessionId}/rounds/${selectedRecordsRoundId}/records/${editingRecord.studentId}`,
+        { status: editingRecord.status, reason: editingRecord.reason.trim() },
+      );
+      toast({ title: "Attendance updated" });
+      setEditingRecord(null);
+      await Promise.all([roundRecordsQuery.refetch(), statsQuery.refetch()]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not update attendance",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setSavingRecord(false);
+    }
+  };
+
+  const handleRevokeRecord = async () => {
+    if (!sessionId || !selectedRecordsRoundId || !editingRecord) return;
+    if (!editingRecord.reason.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Reason required",
+        description: "Explain why this record is being revoked.",
+      });
+      return;
+    }
+    setSavingRecord(true);
+    try {
+      await apiRequest(
+        "DELETE",
+        `/api/professor/sessions/${sessionId}/rounds/${selectedRecordsRoundId}/records/${editingRecord.studentId}`,
+        { reason: editingRecord.reason.trim() },
+      );
+      toast({ title: "Attendance revoked" });
+      setEditingRecord(null);
+      await Promise.all([roundRecordsQuery.refetch(), statsQuery.refetch()]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not revoke attendance",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setSavingRecord(false);
+    }
+  };
+
   const stats = statsQuery.data;
   const topStudents = useMemo(() => {
     if (!stats?.students) return [];
@@ -503,6 +721,14 @@ export default function ProfessorSession() {
               )}
               {closingRound ? "Closing…" : "Close Round"}
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleOpenKiosk}
+              disabled={!detail.session.is_active}
+            >
+              <Presentation className="w-4 h-4 mr-2" aria-hidden="true" />
+              Kiosk
+            </Button>
             <Button 
               variant="destructive" 
               onClick={handleEndSession}
@@ -521,10 +747,15 @@ export default function ProfessorSession() {
             <Card className="p-5 sm:p-8 border-border shadow-2xl shadow-primary/5 bg-card/95 flex flex-col items-center justify-center min-h-[360px] sm:min-h-[420px] md:min-h-[500px]">
               <div className="w-full max-w-md mx-auto">
                 <QRCodeGenerator
-                  payload={qrPayload}
-                  expiresAt={expiresAt}
+                  payload={offlineCode?.qrPayload ?? qrPayload}
+                  expiresAt={offlineCode?.expiresAt ?? expiresAt}
                   roundNumber={activeRoundNumber}
                 />
+                {offlineCode ? (
+                  <p className="text-xs text-muted-foreground text-center mt-3">
+                    Offline mode: codes are generated on this device and checked when scans sync.
+                  </p>
+                ) : null}
               </div>
             </Card>
           </div>
@@ -670,6 +901,159 @@ export default function ProfessorSession() {
             </Card>
           </div>
         </div>
+
+        <Card className="p-6 border-border">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div>
+              <h3 className="font-semibold">Round records</h3>
+              <p className="text-xs text-muted-foreground">
+                Mark students by hand when they could not scan. Every change needs a reason and is audited.
+              </p>
+            </div>
+            <Select
+              value={selectedRecordsRoundId ?? undefined}
+              onValueChange={(value) => {
+                setRecordsRoundId(value);
+                setEditingRecord(null);
+              }}
+              disabled={!sortedRounds.length}
+            >
+              <SelectTrigger className="w-full sm:w-48" aria-label="Round">
+                <SelectValue placeholder="No rounds yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedRounds.map((round) => (
+                  <SelectItem key={round.roundId} value={round.roundId}>
+                    Round {round.roundNumber}
+                    {round.isActive ? " (open)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {roundRecordsQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading records…</p>
+          ) : !roundRecordsQuery.data?.records.length ? (
+            <p className="text-sm text-muted-foreground">No enrolled students for this round.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Recorded</TableHead>
+                  <TableHead className="text-right">Edit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roundRecordsQuery.data.records.map((row) => {
+                  const isEditing = editingRecord?.studentId === row.studentId;
+                  return (
+                    <TableRow key={row.studentId}>
+                      <TableCell>
+                        <p className="font-medium">{row.displayName}</p>
+                        <p className="text-xs text-muted-foreground">{row.username}</p>
+                      </TableCell>
+                      <TableCell>
+                        {isEditing ? (
+                          <Select
+                            value={editingRecord.status}
+                            onValueChange={(value) =>
+                              setEditingRecord({
+                                ...editingRecord,
+                                status: value as ManualStatus,
+                              })
+                            }
+                          >
+                            <SelectTrigger className="w-32" aria-label="Status">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="on_time">On time</SelectItem>
+                              <SelectItem value="late">Late</SelectItem>
+                              <SelectItem value="absent">Absent</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="outline">
+                            {row.status ? RECORD_STATUS_LABELS[row.status] ?? row.status : "No record"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {isEditing ? (
+                          <Input
+                            value={editingRecord.reason}
+                            onChange={(event) =>
+                              setEditingRecord({
+                                ...editingRecord,
+                                reason: event.target.value,
+                              })
+                            }
+                            placeholder="Reason (required)"
+                            maxLength={500}
+                            aria-label="Reason"
+                          />
+                        ) : row.recordedAt && row.status !== "absent" ? (
+                          new Date(row.recordedAt).toLocaleTimeString()
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isEditing ? (
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={handleSaveRecord} disabled={savingRecord}>
+                              {savingRecord ? "Saving…" : "Save"}
+                            </Button>
+                            {row.status && row.status !== "absent" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={handleRevokeRecord}
+                                disabled={savingRecord}
+                              >
+                                Revoke
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setEditingRecord(null)}
+                              disabled={savingRecord}
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            aria-label={`Edit attendance for ${row.displayName}`}
+                            onClick={() =>
+                              setEditingRecord({
+                                studentId: row.studentId,
+                                status:
+                                  row.status === "late" || row.status === "absent"
+                                    ? row.status
+                                    : "on_time",
+                                reason: "",
+                              })
+                            }
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        {sessionId ? <FraudSignalsPanel sessionId={sessionId} rounds={sortedRounds} /> : null}
       </div>
     </Layout>
   );
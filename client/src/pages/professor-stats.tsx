@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
 import Layout from "@/components/layout";
+import FraudSignalsPanel from "@/components/fraud-signals-panel";
 import { apiRequest } from "@/lib/queryClient";
 import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip } from "recharts";
 import { useCurrentUser } from "@/hooks/use-current-user";
@@ -32,17 +33,20 @@ type StatsResponse = {
     endsAt: string | null;
     isActive: boolean;
     attendanceCount: number;
+    absentCount: number;
   }>;
   students: Array<{
     studentId: string;
     username: string;
     displayName: string;
     attendanceCount: number;
+    absentCount: number;
   }>;
   totals: {
     totalRounds: number;
     totalStudents: number;
     totalAttendance: number;
+    totalAbsent: number;
   };
 };
 
@@ -89,7 +93,7 @@ export default function ProfessorStats() {
       setLocation("/professor/login");
       return;
     }
-    if (user && user.role !== "professor" && user.role !== "admin") {
+    if (user && user.role !== "professor" && user.role !== "ta" && user.role !== "admin") {
       setLocation("/professor/login");
     }
   }, [isUserLoading, user, setLocation]);
@@ -116,7 +120,7 @@ export default function ProfessorStats() {
   });
 
   useSessionWebSocket(id, {
-    enabled: Boolean(id) && user?.role === "professor",
+    enabled: Boolean(id) && (user?.role === "professor" || user?.role === "ta"),
     onMessage: (message) => {
       if (
         message.event === "session:refresh" ||
@@ -129,6 +133,7 @@ export default function ProfessorStats() {
         void queryClient.invalidateQueries({
           queryKey: ["professor", "session", id, "analytics"],
         });
+        void queryClient.invalidateQueries({ queryKey: ["professor", "fraud-signals"] });
         return;
       }
 
@@ -248,14 +253,10 @@ export default function ProfessorStats() {
     };
   });
   const totalStudentsCount = stats.totals.totalStudents || stats.students.length;
-  const averageAttendancePercent =
-    totalStudentsCount && stats.totals.totalRounds
-      ? Math.round(
-          (stats.totals.totalAttendance /
-            (stats.totals.totalRounds * totalStudentsCount)) *
-            100,
-        )
-      : 0;
+  const recordedScans = stats.totals.totalAttendance + stats.totals.totalAbsent;
+  const averageAttendancePercent = recordedScans
+    ? Math.round((stats.totals.totalAttendance / recordedScans) * 100)
+    : 0;
   const potentialScans =
     totalStudentsCount * (stats.totals.totalRounds || 1);
   const scanCoveragePercent = potentialScans
@@ -425,6 +426,8 @@ export default function ProfessorStats() {
           </CardContent>
         </Card>
 
+        <FraudSignalsPanel sessionId={stats.sessionId} rounds={stats.rounds} />
+
         {/* Student Table */}
         <Card className="shadow-sm border-border">
           <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
@@ -453,9 +456,11 @@ export default function ProfessorStats() {
                   const analyticsRow = studentAnalyticsMap.get(student.studentId);
                   const attendanceRate =
                     analyticsRow?.attendancePercent ??
-                    (stats.totals.totalRounds > 0
+                    (student.attendanceCount + student.absentCount > 0
                       ? Math.round(
-                          (student.attendanceCount / stats.totals.totalRounds) * 100,
+                          (student.attendanceCount /
+                            (student.attendanceCount + student.absentCount)) *
+                            100,
                         )
                       : 0);
                   return (
@@ -20,7 +20,14 @@ import QRScanner, { type ScanResult } from "@/components/qr-scanner";
 import { apiRequest, buildApiUrl } from "@/lib/queryClient";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { useToast } from "@/hooks/use-toast";
-import { deleteQueuedScan, getQueueCount, getQueuedScans } from "@/lib/offlineQueue";
+import { useStudentWebSocket } from "@/hooks/use-session-websocket";
+import {
+  deleteQueuedScan,
+  getQueueCount,
+  getQueuedScans,
+  queueScan,
+} from "@/lib/offlineQueue";
+import { onOfflineScansSynced, requestOfflineScanSync } from "@/lib/serviceWorker";
 
 type EnrollmentResponse = {
   enrollments: Array<{
@@ -48,6 +55,10 @@ type AttendanceResponse = {
     totalRounds: number;
     attendedRounds: number;
     attendancePercentage: number;
+    absences: number;
+    maxAbsences: number | null;
+    remainingAbsences: number | null;
+    absenceStatus: "ok" | "at_risk" | "over_limit";
   }>;
 };
 
@@ -70,6 +81,15 @@ type ScanFeedItem = {
   message: string;
 };
 
+type OfflineSyncResult = {
+  clientScanId: string | null;
+  outcome: "recorded" | "duplicate" | "expired" | "rejected";
+  reason?: string;
+};
+
+// Matches the server's per-request limit for POST /api/me/scans/batch.
+const OFFLINE_SYNC_BATCH_SIZE = 50;
+
 function makeFeedItem(
   status: ScanFeedItem["status"],
   message: string,
@@ -184,69 +204,64 @@ export default function StudentScan() {
     }
 
     setOfflineStatus("syncing");
-    for (const scan of scans) {
+    for (let index = 0; index < scans.length; index += OFFLINE_SYNC_BATCH_SIZE) {
+      const batch = scans.slice(index, index + OFFLINE_SYNC_BATCH_SIZE);
+      let results: OfflineSyncResult[];
       try {
-        const res = await fetch(buildApiUrl(`/api/rounds/${scan.roundId}/scans`), {
+        const res = await fetch(buildApiUrl("/api/me/scans/batch"), {
           method: "POST",
           credentials: "include",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            token: scan.token,
-            latitude: scan.latitude,
-            longitude: scan.longitude,
-            deviceFingerprint: scan.deviceFingerprint,
-            client_scan_id: scan.client_scan_id,
-            offlineCapturedAt: scan.capturedAt,
-            qrSignature: scan.qrSignature,
-            qrIssuedAt: scan.qrIssuedAt,
-            qrExpiresAt: scan.qrExpiresAt,
-          }),
+          body: JSON.stringify({ scans: batch }),
         });
-
-        if (res.ok) {
-          await deleteQueuedScan(scan.client_scan_id);
-          setScanFeed((prev) => [
-            makeFeedItem("synced", "Queued scan synced successfully."),
-            ...prev,
-          ].slice(0, 20));
-          continue;
-        }
-
-        let body: any = null;
-        try {
-          body = await res.json();
-        } catch {
-          body = null;
-        }
-        const code = body?.code as string | undefined;
-        if (
-          code === "token_expired" ||
-          code === "token_already_consumed" ||
-          code === "invalid_qr_signature" ||
-          code === "invalid_qr_timestamp"
-        ) {
-          await deleteQueuedScan(scan.client_scan_id);
+        if (!res.ok) {
+          setOfflineStatus("failed");
           setScanFeed((prev) => [
-            makeFeedItem("failed", "Queued scan could not be verified."),
+            makeFeedItem("failed", "Queued scan sync failed."),
             ...prev,
           ].slice(0, 20));
-          continue;
+          return;
         }
-        setOfflineStatus("failed");
-        setScanFeed((prev) => [
-          makeFeedItem("failed", "Queued scan sync failed."),
-          ...prev,
-        ].slice(0, 20));
-        return;
+        results = ((await res.json()) as { results: OfflineSyncResult[] }).results;
       } catch {
         setOfflineStatus("failed");
         setScanFeed((prev) => [
-          makeFeedItem("failed", "No internet. Could not sync queued scan."),
+          makeFeedItem("failed", "No internet. Could not sync queued scans."),
           ...prev,
         ].slice(0, 20));
         return;
       }
 
+      // Every item has a final outcome, rejected ones included, so the whole batch
+      // leaves the queue.
+      for (const result of results) {
+        if (result.clientScanId) {
+          await deleteQueuedScan(result.clientScanId);
+        }
+      }
+      const synced = results.filter(
+        (result) => result.outcome === "recorded" || result.outcome === "duplicate",
+      ).length;
+      const failed = results.length - synced;
+      setScanFeed((prev) => [
+        ...(failed
+          ? [
+              makeFeedItem(
+                "failed",
+                `${failed} queued scan${failed === 1 ? "" : "s"} could not be verified.`,
+              ),
+            ]
+          : []),
+        ...(synced
+          ? [
+              makeFeedItem(
+                "synced",
+                `${synced} queued scan${synced === 1 ? "" : "s"} synced successfully.`,
+              ),
+            ]
+          : []),
+        ...prev,
+      ].slice(0, 20));
     }
 
     setOfflineStatus("synced");
@@ -268,6 +283,45 @@ export default function StudentScan() {
     }
   }, [isUserLoading, user, setLocation]);
 
+  useStudentWebSocket({
+    enabled: user?.role === "student",
+    onMessage: (message) => {
+      if (message.event === "round:started") {
+        void enrollmentsQuery.refetch();
+        toast({
+          title: `Round ${message.payload.roundNumber} is open`,
+          description: "Scan the QR code shown in class.",
+        });
+        return;
+      }
+
+      if (message.event === "round:closed" || message.event === "session:ended") {
+        void enrollmentsQuery.refetch();
+        void attendanceQuery.refetch();
+        void attendanceHistoryQuery.refetch();
+        return;
+      }
+
+      if (message.event === "scan:confirmed") {
+        void attendanceQuery.refetch();
+        void attendanceHistoryQuery.refetch();
+        return;
+      }
+
+      if (message.event === "excuse:reviewed") {
+        const approved = message.payload.status === "APPROVED";
+        toast({
+          title: approved ? "Excuse approved" : "Excuse rejected",
+          description: approved
+            ? "The round now counts as excused."
+            : "Your professor rejected this excuse.",
+        });
+        void attendanceQuery.refetch();
+        void attendanceHistoryQuery.refetch();
+      }
+    },
+  });
+
   useEffect(() => {
     refreshQueueCount();
     syncQueued();
@@ -276,6 +330,25 @@ export default function StudentScan() {
     return () => window.removeEventListener("online", onlineHandler);
   }, [refreshQueueCount, syncQueued]);
 
+  useEffect(
+    () =>
+      onOfflineScansSynced(async ({ results }) => {
+        await refreshQueueCount();
+        if (!results.length) return;
+        setOfflineStatus("synced");
+        setScanFeed((prev) => [
+          makeFeedItem(
+            "synced",
+            `${results.length} queued scan${results.length === 1 ? "" : "s"} synced in the background.`,
+          ),
+          ...prev,
+        ].slice(0, 20));
+        await attendanceQuery.refetch();
+        await attendanceHistoryQuery.refetch();
+      }),
+    [attendanceHistoryQuery, attendanceQuery, refreshQueueCount],
+  );
+
   const selectedEnrollment = useMemo(
     () => {
       const enrollments = enrollmentsQuery.data?.enrollments ?? [];
@@ -350,14 +423,28 @@ export default function StudentScan() {
         };
 
         if (!navigator.onLine) {
-          const message = "Offline scanning is disabled. Please reconnect and try again.";
-          toast({ variant: "destructive", title: "Scan failed", description: message });
-          setOfflineStatus("failed");
+          await queueScan({
+            client_scan_id: clientScanId,
+            roundId,
+            token,
+            qrSignature,
+            qrIssuedAt,
+            qrExpiresAt,
+            latitude: coords?.latitude,
+            longitude: coords?.longitude,
+            deviceFingerprint,
+            capturedAt,
+          });
+          await requestOfflineScanSync();
+          await refreshQueueCount();
+          const message = "You are offline. The scan is saved and will sync automatically.";
+          toast({ title: "Scan saved offline", description: message });
+          setOfflineStatus("saved");
           setScanFeed((prev) => [
-            makeFeedItem("failed", message),
+            makeFeedItem("saved", message),
             ...prev,
           ].slice(0, 20));
-          return { success: false, message };
+          return { success: true, message };
         }
 
         const res = await fetch(buildApiUrl(`/api/rounds/${roundId}/scans`), {
@@ -503,7 +590,7 @@ export default function StudentScan() {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Change your password</AlertDialogTitle>
                   <AlertDialogDescription>
-                    Your account is using the temporary password 00000000.
+                    Your account is using a temporary password set by your professor.
                     Update it now before using attendance features.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
@@ -521,7 +608,7 @@ export default function StudentScan() {
                           currentPassword: event.target.value,
                         }))
                       }
-                      placeholder="00000000"
+                      placeholder="Temporary password"
                       required
                     />
                   </div>
@@ -606,6 +693,24 @@ export default function StudentScan() {
                   <p className="text-sm text-muted-foreground">
                     Offline queue: {queuedCount} - {offlineLabel}
                   </p>
+                  {attendanceSummary
+                    .filter((item) => item.absenceStatus !== "ok")
+                    .map((item) => (
+                      <p
+                        key={item.courseId}
+                        className={
+                          item.absenceStatus === "over_limit"
+                            ? "text-sm font-medium text-destructive"
+                            : "text-sm font-medium text-amber-600"
+                        }
+                      >
+                        {item.courseName}: {item.absences} of {item.maxAbsences} allowed
+                        absences
+                        {item.absenceStatus === "over_limit"
+                          ? " - over the limit"
+                          : ` - ${item.remainingAbsences ?? 0} left`}
+                      </p>
+                    ))}
                 </CardContent>
               </Card>
             </div>
@@ -54,9 +54,11 @@ CREATE TABLE account_credentials (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   student_id uuid NOT NULL REFERENCES users(id),
   created_by_professor_id uuid NOT NULL REFERENCES users(id),
-  plain_password text NOT NULL,
+  plain_password text,
+  password_ciphertext text,
   source text NOT NULL DEFAULT 'manual_create',
   is_active boolean NOT NULL DEFAULT true,
+  revealed_at timestamptz,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 CREATE INDEX account_credentials_student_idx ON account_credentials(student_id);
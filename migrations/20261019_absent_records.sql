@@ -0,0 +1,9 @@
+-- Backfill explicit "absent" records for rounds that closed before absences were stored.
+INSERT INTO attendance_records (round_id, student_id, status, recorded_at)
+SELECT ar.id, e.student_id, 'absent', COALESCE(ar.ends_at, s.ends_at, ar.starts_at)
+FROM attendance_rounds ar
+JOIN sessions s ON s.id = ar.session_id
+JOIN enrollments e ON e.group_id = s.group_id AND e.course_id = s.course_id
+LEFT JOIN attendance_records rec ON rec.round_id = ar.id AND rec.student_id = e.student_id
+WHERE ar.is_active = false
+  AND rec.id IS NULL;
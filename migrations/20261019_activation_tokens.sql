@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS activation_tokens (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  user_id TEXT NOT NULL REFERENCES users(id),
+  token_hash TEXT NOT NULL,
+  source TEXT NOT NULL,
+  created_by TEXT REFERENCES users(id),
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS activation_tokens_hash_unique ON activation_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS activation_tokens_user_idx ON activation_tokens(user_id);
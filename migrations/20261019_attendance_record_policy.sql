@@ -0,0 +1,2 @@
+ALTER TABLE attendance_records ADD COLUMN policy_id TEXT REFERENCES attendance_policies(id);
+ALTER TABLE attendance_records ADD COLUMN policy_version INTEGER;
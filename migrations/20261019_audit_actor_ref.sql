@@ -0,0 +1,4 @@
+ALTER TABLE audit_logs ADD COLUMN actor_ref TEXT;
+UPDATE audit_logs SET actor_ref = actor_id;
+-- The hash chain covers actor_ref, which survives deleting the acting user
+-- (actor_id is nulled then to satisfy its foreign key).
@@ -0,0 +1,6 @@
+ALTER TABLE audit_logs ADD COLUMN chain_seq INTEGER;
+ALTER TABLE audit_logs ADD COLUMN prev_hash TEXT;
+ALTER TABLE audit_logs ADD COLUMN hash TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS audit_logs_chain_seq_unique ON audit_logs(chain_seq);
+-- Existing rows are sealed into the chain, oldest first, by the first audit entry
+-- written after this migration (see auditService).
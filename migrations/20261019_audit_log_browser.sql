@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS audit_logs_created_idx ON audit_logs(created_at, id);
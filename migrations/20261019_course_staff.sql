@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS course_staff (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  course_id TEXT NOT NULL REFERENCES courses(id),
+  user_id TEXT NOT NULL REFERENCES users(id),
+  can_run_sessions INTEGER NOT NULL DEFAULT 0,
+  can_review_excuses INTEGER NOT NULL DEFAULT 0,
+  can_view_reports INTEGER NOT NULL DEFAULT 0,
+  can_manage_roster INTEGER NOT NULL DEFAULT 0,
+  added_by TEXT REFERENCES users(id),
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS course_staff_course_user_unique ON course_staff(course_id, user_id);
+CREATE INDEX IF NOT EXISTS course_staff_user_idx ON course_staff(user_id);
@@ -0,0 +1,6 @@
+ALTER TABLE account_credentials ADD COLUMN password_ciphertext TEXT;
+ALTER TABLE account_credentials ADD COLUMN revealed_at TEXT;
+ALTER TABLE account_credentials ALTER COLUMN plain_password DROP NOT NULL;
+-- Existing plaintext passwords are encrypted (or, for inactive rows, dropped) by the
+-- app on startup, since the vault key is deliberately not available to SQL
+-- (see accountCredentialService.encryptLegacyCredentials).
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS faculties (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS faculties_code_unique ON faculties(code);
+
+CREATE TABLE IF NOT EXISTS departments (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  faculty_id TEXT NOT NULL REFERENCES faculties(id),
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS departments_faculty_code_unique ON departments(faculty_id, code);
+
+ALTER TABLE courses ADD COLUMN department_id TEXT REFERENCES departments(id);
+ALTER TABLE professor_profiles ADD COLUMN department_id TEXT REFERENCES departments(id);
+CREATE INDEX IF NOT EXISTS courses_department_idx ON courses(department_id);
@@ -0,0 +1,5 @@
+ALTER TABLE fraud_signals ADD COLUMN status TEXT NOT NULL DEFAULT 'open';
+ALTER TABLE fraud_signals ADD COLUMN resolved_by TEXT REFERENCES users(id);
+ALTER TABLE fraud_signals ADD COLUMN resolved_at TEXT;
+ALTER TABLE fraud_signals ADD COLUMN resolution_note TEXT;
+CREATE INDEX IF NOT EXISTS fraud_signals_status_idx ON fraud_signals(status);
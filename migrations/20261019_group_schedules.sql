@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS group_schedule_slots (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  group_id TEXT NOT NULL REFERENCES groups(id),
+  weekday INTEGER NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  room TEXT,
+  starts_on TEXT NOT NULL,
+  ends_on TEXT NOT NULL,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE INDEX IF NOT EXISTS group_schedule_slots_group_idx ON group_schedule_slots(group_id);
+
+CREATE TABLE IF NOT EXISTS group_schedule_exceptions (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  group_id TEXT NOT NULL REFERENCES groups(id),
+  date TEXT NOT NULL,
+  reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS group_schedule_exceptions_unique ON group_schedule_exceptions(group_id, date);
+
+ALTER TABLE sessions ADD COLUMN schedule_slot_id TEXT REFERENCES group_schedule_slots(id);
+ALTER TABLE sessions ADD COLUMN scheduled_end_at TEXT;
+ALTER TABLE sessions ADD COLUMN room TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS sessions_slot_start_unique ON sessions(schedule_slot_id, starts_at);
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS kiosk_tokens (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  token_hash TEXT NOT NULL,
+  created_by TEXT REFERENCES users(id),
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS kiosk_tokens_hash_unique ON kiosk_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS kiosk_tokens_session_idx ON kiosk_tokens(session_id);
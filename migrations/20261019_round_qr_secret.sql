@@ -0,0 +1 @@
+ALTER TABLE attendance_rounds ADD COLUMN qr_secret TEXT;
@@ -13,6 +13,7 @@ import {
   users,
   fraud_signals,
 } from "@shared/schema";
+import { auditService } from "../server/services/auditService";
 import { logger } from "../server/utils/logger";
 
 const KEY_LENGTH = 64;
@@ -390,29 +391,28 @@ async function runSeed() {
     },
   ]);
 
-  await db.insert(audit_logs).values([
-    {
-      actor_id: profAnas.id,
-      action: "session_create",
-      entity_type: "session",
-      entity_id: sessionA1.id,
-      after_json: JSON.stringify({ sessionA1 }),
-    },
-    {
-      actor_id: profAnas.id,
-      action: "round_create",
-      entity_type: "attendance_round",
-      entity_id: roundA1.id,
-      after_json: JSON.stringify({ geofence_enabled: true }),
-    },
-    {
-      actor_id: profMina.id,
-      action: "policy_assign_course",
-      entity_type: "course",
-      entity_id: courseHist.id,
-      reason: "Department standard",
-    },
-  ]);
+  // Through auditService so the seeded entries are part of the hash chain.
+  await auditService.log({
+    actorId: profAnas.id,
+    action: "session_create",
+    entityType: "session",
+    entityId: sessionA1.id,
+    after: { sessionA1 },
+  });
+  await auditService.log({
+    actorId: profAnas.id,
+    action: "round_create",
+    entityType: "attendance_round",
+    entityId: roundA1.id,
+    after: { geofence_enabled: true },
+  });
+  await auditService.log({
+    actorId: profMina.id,
+    action: "policy_assign_course",
+    entityType: "course",
+    entityId: courseHist.id,
+    reason: "Department standard",
+  });
 
   console.log("Seed complete");
   console.log("Professor IDs:", profAnas.id, profMina.id);
@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { auditService } from "../server/services/auditService";
+import { logger } from "../server/utils/logger";
+
+function usage() {
+  return [
+    "Usage:",
+    "  npx tsx script/verify-audit-chain.ts [--json]",
+    "",
+    "Walks the audit_logs hash chain and reports the first broken link.",
+    "Exits with status 2 when the chain does not verify.",
+  ].join("\n");
+}
+
+async function main() {
+  if (process.argv.includes("--help")) {
+    console.log(usage());
+    return;
+  }
+
+  const report = await auditService.verifyChain();
+  if (process.argv.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (report.ok) {
+    console.log(`Audit chain intact: ${report.checkedEntries} entries verified.`);
+    console.log(`Head: #${report.headSeq ?? "-"} ${report.headHash ?? "(empty)"}`);
+  } else {
+    const broken = report.firstBrokenLink!;
+    console.error(
+      `Audit chain broken at entry ${broken.entryId} (#${broken.chainSeq ?? "unchained"}): ${broken.reason}.`,
+    );
+    console.error(`${report.checkedEntries} entries verified before the break.`);
+  }
+
+  if (!report.ok) {
+    process.exit(2);
+  }
+}
+
+main().catch((error) => {
+  logger.error("verify-audit-chain failed", { error });
+  process.exit(1);
+});
@@ -0,0 +1,262 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_policies,
+  attendance_policy_history,
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  course_policy_assignments,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { absenceService } from "../services/absenceService";
+import { attendanceService } from "../services/attendanceService";
+import { policyService } from "../services/policyService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+import { ApiError } from "../errors/apiError";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(course_policy_assignments);
+  await db.delete(attendance_policy_history);
+  await db.delete(attendance_policies);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", label: string) {
+  const suffix = `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: label,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+/**
+ * Seeds a course with four closed rounds and three students:
+ * - "Present" attends every round,
+ * - "Excused" misses two rounds but one is excused,
+ * - "Absent" attends only the first round.
+ * Absent rows are written for every missed round, as when the rounds close.
+ */
+async function seedCourse(maxAbsences: number | null) {
+  const professor = await insertUser("professor", "Prof");
+  const present = await insertUser("student", "Present");
+  const excused = await insertUser("student", "Excused");
+  const absent = await insertUser("student", "Absent");
+
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: `CS-ABS-${Date.now()}`,
+      name: "Absence Course",
+      term: "Fall",
+    })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+
+  for (const student of [present, excused, absent]) {
+    await db.insert(enrollments).values({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    });
+  }
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: false,
+      status: "closed",
+    })
+    .returning();
+
+  const rounds = [];
+  for (let roundNumber = 1; roundNumber <= 4; roundNumber += 1) {
+    const [round] = await db
+      .insert(attendance_rounds)
+      .values({
+        session_id: session.id,
+        round_number: roundNumber,
+        is_active: false,
+        ends_at: new Date().toISOString(),
+      })
+      .returning();
+    rounds.push(round);
+  }
+
+  const record = (roundId: string, studentId: string, status: string) =>
+    db.insert(attendance_records).values({
+      round_id: roundId,
+      student_id: studentId,
+      status,
+    });
+
+  for (const round of rounds) {
+    await record(round.id, present.id, "on_time");
+  }
+  await record(rounds[0].id, excused.id, "late");
+  await record(rounds[1].id, excused.id, "on_time");
+  await record(rounds[2].id, excused.id, "excused");
+  await record(rounds[0].id, absent.id, "on_time");
+  // Closing a round writes the absent rows the reports count.
+  await roundService.recordAbsences(rounds.map((round) => round.id));
+
+  const policy = await policyService.createPolicy({
+    scopeType: "course",
+    scopeId: course.id,
+    rules: {
+      lateAfterMinutes: { first_hour: 20, break: 10 },
+      graceMinutes: 0,
+      maxAbsences,
+    },
+  });
+  await policyService.assignPolicyToCourse(policy.id, course.id);
+
+  return { professor, course, group, present, excused, absent };
+}
+
+describe("absenceService", () => {
+  beforeEach(resetDb);
+
+  it("counts excused rounds separately and flags students against maxAbsences", async () => {
+    const seed = await seedCourse(3);
+
+    const summaries = await absenceService.getCourseAbsences(seed.course.id);
+    const byStudent = new Map(summaries.map((row) => [row.studentId, row]));
+
+    expect(byStudent.get(seed.present.id)).toMatchObject({
+      totalRounds: 4,
+      attendedRounds: 4,
+      excusedRounds: 0,
+      absences: 0,
+      absenceStatus: "ok",
+    });
+    expect(byStudent.get(seed.excused.id)).toMatchObject({
+      attendedRounds: 2,
+      excusedRounds: 1,
+      absences: 1,
+      remainingAbsences: 2,
+      absenceStatus: "ok",
+    });
+    expect(byStudent.get(seed.absent.id)).toMatchObject({
+      attendedRounds: 1,
+      absences: 3,
+      maxAbsences: 3,
+      remainingAbsences: 0,
+      absenceStatus: "at_risk",
+    });
+  });
+
+  it("marks students over the limit and never flags without a limit", async () => {
+    const limited = await seedCourse(2);
+    const [overLimit] = (await absenceService.getCourseAbsences(limited.course.id)).filter(
+      (row) => row.studentId === limited.absent.id,
+    );
+    expect(overLimit.absenceStatus).toBe("over_limit");
+
+    const unlimited = await seedCourse(null);
+    const summaries = await absenceService.getCourseAbsences(unlimited.course.id);
+    expect(summaries.every((row) => row.absenceStatus === "ok")).toBe(true);
+    expect(summaries.every((row) => row.maxAbsences === null)).toBe(true);
+  });
+
+  it("surfaces flags in the course summary, student attendance and at-risk list", async () => {
+    const seed = await seedCourse(2);
+
+    const summary = await sessionService.getCourseAttendanceSummary(
+      seed.professor.id,
+      seed.course.id,
+    );
+    const absentRow = summary.students.find((row) => row.studentId === seed.absent.id);
+    expect(absentRow?.absenceStatus).toBe("over_limit");
+    expect(absentRow?.absences).toBe(3);
+
+    const [mine] = await attendanceService.getMyAttendance(seed.absent.id);
+    expect(mine.absenceStatus).toBe("over_limit");
+    expect(mine.maxAbsences).toBe(2);
+
+    const atRisk = await absenceService.listAtRiskStudents(seed.professor.id);
+    expect(atRisk.map((row) => row.studentId)).toEqual([
+      seed.absent.id,
+      seed.excused.id,
+    ]);
+    expect(atRisk[0].courseCode).toBe(seed.course.code);
+  });
+
+  it("counts only absent rows, so students enrolled after the rounds closed owe nothing", async () => {
+    const seed = await seedCourse(2);
+    const late = await insertUser("student", "Latecomer");
+    await db.insert(enrollments).values({
+      student_id: late.id,
+      course_id: seed.course.id,
+      group_id: seed.group.id,
+    });
+
+    const [absences] = (await absenceService.getCourseAbsences(seed.course.id)).filter(
+      (row) => row.studentId === late.id,
+    );
+    expect(absences).toMatchObject({ totalRounds: 0, absences: 0, absenceStatus: "ok" });
+
+    const summary = await sessionService.getCourseAttendanceSummary(
+      seed.professor.id,
+      seed.course.id,
+    );
+    expect(summary.students.find((row) => row.studentId === late.id)).toMatchObject({
+      attendedClasses: 0,
+      missedClasses: 0,
+      totalClasses: 0,
+    });
+
+    const [session] = await db.select().from(sessions);
+    const analytics = await sessionService.getSessionAnalytics(seed.professor.id, session.id);
+    expect(analytics.students.find((row) => row.studentId === late.id)?.absences).toBe(0);
+    expect(analytics.students.find((row) => row.studentId === seed.absent.id)?.absences).toBe(3);
+    expect(analytics.rounds.map((round) => round.absent)).toEqual([0, 1, 1, 2]);
+
+    const stats = await sessionService.getSessionStats(seed.professor.id, session.id);
+    expect(stats.totals).toMatchObject({ totalAttendance: 8, totalAbsent: 4 });
+  });
+
+  it("rejects at-risk queries for courses the professor does not own", async () => {
+    const seed = await seedCourse(2);
+    const other = await insertUser("professor", "Other");
+
+    await expect(
+      absenceService.listAtRiskStudents(other.id, seed.course.id),
+    ).rejects.toBeInstanceOf(ApiError);
+  });
+});
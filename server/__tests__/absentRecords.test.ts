@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  excuse_requests,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { excuseService } from "../services/excuseService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(excuse_requests);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", name: string) {
+  const suffix = `${name.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: name,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedSession() {
+  const professor = await insertUser("professor", "Prof");
+  const present = await insertUser("student", "Present");
+  const missing = await insertUser("student", "Missing");
+
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: "CS-ABS-REC",
+      name: "Absent Records",
+      term: "Fall",
+    })
+    .returning();
+
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+
+  await db.insert(enrollments).values(
+    [present, missing].map((student) => ({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    })),
+  );
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+
+  return { professor, present, missing, session };
+}
+
+async function recordFor(roundId: string, studentId: string) {
+  const [record] = await db
+    .select()
+    .from(attendance_records)
+    .where(
+      and(
+        eq(attendance_records.round_id, roundId),
+        eq(attendance_records.student_id, studentId),
+      ),
+    );
+  return record;
+}
+
+describe("absent records", () => {
+  beforeEach(resetDb);
+
+  it("writes absent rows when a round closes without counting them as attendance", async () => {
+    const seed = await seedSession();
+    const { round, token } = await roundService.createRound(seed.session.id);
+    await attendanceService.recordScan(seed.present.id, round.id, token.rawToken);
+
+    await sessionService.closeRound(seed.professor.id, seed.session.id, round.id);
+
+    const absent = await recordFor(round.id, seed.missing.id);
+    expect(absent?.status).toBe("absent");
+    expect(absent?.qr_token_id).toBeNull();
+    expect((await recordFor(round.id, seed.present.id))?.status).toBe("on_time");
+
+    const stats = await sessionService.getSessionStats(seed.professor.id, seed.session.id);
+    expect(stats.totals.totalAttendance).toBe(1);
+    expect(stats.rounds[0].attendanceCount).toBe(1);
+    expect(
+      stats.students.find((row) => row.studentId === seed.missing.id)?.attendanceCount,
+    ).toBe(0);
+    expect(stats.recentScans.map((scan) => scan.studentId)).toEqual([seed.present.id]);
+
+    const analytics = await sessionService.getSessionAnalytics(
+      seed.professor.id,
+      seed.session.id,
+    );
+    expect(analytics.rounds[0]).toMatchObject({ present: 1, absent: 1 });
+
+    const exported = await sessionService.getSessionExport(seed.professor.id, seed.session.id);
+    const missingRow = exported.records.find(
+      (row: (typeof exported.records)[number]) => row.studentUsername === seed.missing.username,
+    );
+    expect(missingRow).toMatchObject({ status: "absent", recordedAt: null });
+  });
+
+  it("marks absentees for every round closed by a new round or the session end", async () => {
+    const seed = await seedSession();
+    const { round: first } = await roundService.createRound(seed.session.id);
+    const { round: second } = await roundService.createRound(seed.session.id);
+
+    expect((await recordFor(first.id, seed.missing.id))?.status).toBe("absent");
+    expect(await recordFor(second.id, seed.missing.id)).toBeUndefined();
+
+    await sessionService.endSession(seed.professor.id, seed.session.id);
+
+    const rows = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.status, "absent"));
+    expect(rows).toHaveLength(4);
+  });
+
+  it("turns an absent row into excused when the excuse is approved", async () => {
+    const seed = await seedSession();
+    const { round } = await roundService.createRound(seed.session.id);
+    await sessionService.endSession(seed.professor.id, seed.session.id);
+    expect((await recordFor(round.id, seed.missing.id))?.status).toBe("absent");
+
+    const excuse = await excuseService.submitExcuse(seed.missing.id, {
+      roundId: round.id,
+      reason: "Medical appointment",
+      category: "absence",
+    });
+    await excuseService.reviewExcuse(seed.professor.id, excuse.id, "approve");
+
+    const rows = await db
+      .select()
+      .from(attendance_records)
+      .where(
+        and(
+          eq(attendance_records.round_id, round.id),
+          eq(attendance_records.student_id, seed.missing.id),
+        ),
+      );
+    expect(rows).toHaveLength(1);
+    expect(rows[0].status).toBe("excused");
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import { account_credentials, activation_tokens, audit_logs, users } from "@shared/schema";
+import { activationService } from "../services/activationService";
+import { authService } from "../services/authService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(account_credentials);
+  await db.delete(activation_tokens);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", createdBy?: string) {
+  const suffix = `${role}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: suffix,
+      password: authService.hashPassword("Initial-pass1"),
+      role,
+      created_by_professor_id: createdBy,
+    })
+    .returning();
+  return user;
+}
+
+describe("account activation", () => {
+  beforeEach(resetDb);
+
+  it("lets a student set their own password once with the code", async () => {
+    const professor = await insertUser("professor");
+    const student = await insertUser("student", professor.id);
+    const { code, expiresAt } = await activationService.issueToken(
+      professor.id,
+      student.id,
+      "manual_create",
+    );
+    expect(code).toMatch(/^[0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4}$/);
+    expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+
+    const [stored] = await db.select().from(activation_tokens);
+    expect(stored.token_hash).not.toContain(code.replace(/-/g, ""));
+
+    // Typed without dashes and in lower case still resolves.
+    const typed = code.replace(/-/g, "").toLowerCase();
+    await expect(activationService.resolve(typed)).resolves.toMatchObject({
+      user: { id: student.id },
+    });
+
+    await expect(authService.activateAccount(code, "short")).rejects.toMatchObject({
+      status: 400,
+    });
+    const activated = await authService.activateAccount(code, "My-own-pass-1");
+    expect(activated.must_change_password).toBe(false);
+    await expect(
+      authService.validateUser(student.username, "My-own-pass-1"),
+    ).resolves.toMatchObject({ id: student.id });
+
+    await expect(authService.activateAccount(code, "Another-pass-2")).rejects.toMatchObject({
+      status: 410,
+      code: "activation_token_used",
+    });
+    const actions = (await db.select().from(audit_logs)).map((entry) => entry.action);
+    expect(actions).toEqual(["activation_token_issue", "account_activate"]);
+  });
+
+  it("rejects expired and unknown codes", async () => {
+    const professor = await insertUser("professor");
+    const student = await insertUser("student", professor.id);
+    const { code } = await activationService.issueToken(professor.id, student.id, "import");
+    await db
+      .update(activation_tokens)
+      .set({ expires_at: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(activation_tokens.user_id, student.id));
+
+    await expect(activationService.resolve(code)).rejects.toMatchObject({
+      status: 410,
+      code: "activation_token_expired",
+    });
+    await expect(activationService.resolve("AAAA-BBBB-CCCC")).rejects.toMatchObject({
+      status: 404,
+      code: "invalid_activation_token",
+    });
+  });
+
+  it("resets a password by locking the old one and replacing pending codes", async () => {
+    const professor = await insertUser("professor");
+    const student = await insertUser("student", professor.id);
+    const first = await authService.resetStudentPasswordByProfessor(professor.id, student.id);
+    const second = await authService.resetStudentPasswordByProfessor(professor.id, student.id);
+    expect(second).not.toHaveProperty("temporaryPassword");
+
+    expect(await authService.validateUser(student.username, "Initial-pass1")).toBeNull();
+    const [locked] = await db.select().from(users).where(eq(users.id, student.id));
+    expect(locked.must_change_password).toBe(false);
+
+    await expect(activationService.resolve(first.activation!.code)).rejects.toMatchObject({
+      status: 404,
+    });
+    await authService.activateAccount(second.activation!.code, "Fresh-pass-123");
+
+    // Setting an explicit temporary password revokes a code still pending.
+    const third = await authService.resetStudentPasswordByProfessor(professor.id, student.id);
+    await authService.resetStudentPasswordByProfessor(professor.id, student.id, "Temp-pass-123");
+    await expect(activationService.resolve(third.activation!.code)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
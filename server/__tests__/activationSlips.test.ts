@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  activation_tokens,
+  audit_logs,
+  course_staff,
+  courses,
+  enrollments,
+  groups,
+  users,
+  type UserRole,
+} from "@shared/schema";
+import { activationService } from "../services/activationService";
+import { activationSlipService } from "../services/activationSlipService";
+import { authService } from "../services/authService";
+import { courseStaffService } from "../services/courseStaffService";
+import { inspectPdf, sniffContentType } from "../utils/fileSniffing";
+import { encodeQrCode } from "../utils/qrCode";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(activation_tokens);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(course_staff);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: UserRole, displayName?: string) {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: displayName ?? `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedGroup() {
+  const professor = await insertUser("professor");
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "CS-101", name: "Programming", term: "Fall" })
+    .returning();
+  const [group] = await db.insert(groups).values({ course_id: course.id, name: "A" }).returning();
+  const students = [
+    await insertUser("student", "Ambra Boçi"),
+    await insertUser("student"),
+    await insertUser("student"),
+  ];
+  await db.insert(enrollments).values(
+    students.map((student) => ({ student_id: student.id, course_id: course.id, group_id: group.id })),
+  );
+  return { professor, course, group, students };
+}
+
+describe("activation slips", () => {
+  beforeEach(resetDb);
+
+  it("reissues codes for students who have not activated and renders them as a PDF", async () => {
+    const { professor, group, students } = await seedGroup();
+    const [pending, activated] = students;
+    const imported = await activationService.issueToken(professor.id, pending.id, "import");
+    const used = await activationService.issueToken(professor.id, activated.id, "import");
+    await authService.activateAccount(used.code, "Chosen-pass-1");
+
+    const { course, slips } = await activationSlipService.prepareGroupSlips(
+      professor.id,
+      group.id,
+    );
+    // Accounts with no code and no temporary password were never handed out.
+    expect(slips.map((slip) => slip.studentId)).toEqual([pending.id]);
+    await expect(activationService.resolve(imported.code)).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(activationService.resolve(slips[0].code)).resolves.toMatchObject({
+      user: { id: pending.id },
+    });
+
+    const pdf = activationSlipService.renderPdf({
+      course,
+      group,
+      slips,
+      appUrl: "https://atendo.example.edu/",
+    });
+    expect(sniffContentType(pdf)).toBe("application/pdf");
+    expect(() => inspectPdf(pdf)).not.toThrow();
+    const text = pdf.toString("latin1");
+    expect(text).toContain("(Ambra Bo\xe7i)");
+    expect(text).toContain(`(${slips[0].code})`);
+    expect(text).toContain(`(https://atendo.example.edu/#/activate/${slips[0].code})`);
+    expect(text).toContain("/Count 1");
+  });
+
+  it("prints the codes an import returned without reissuing them", async () => {
+    const { professor, group, students } = await seedGroup();
+    const issued = await Promise.all(
+      students.map(async (student) => ({
+        studentId: student.id,
+        ...(await activationService.issueToken(professor.id, student.id, "import")),
+      })),
+    );
+    await authService.activateAccount(issued[2].code, "Chosen-pass-1");
+
+    const { slips } = await activationSlipService.prepareGroupSlips(professor.id, group.id, {
+      activations: issued,
+    });
+    expect(slips.map((slip) => slip.code).sort()).toEqual(
+      [issued[0].code, issued[1].code].sort(),
+    );
+    await expect(activationService.resolve(issued[0].code)).resolves.toBeTruthy();
+  });
+
+  it("lets TAs print slips only with manage_roster", async () => {
+    const { professor, course, group, students } = await seedGroup();
+    await activationService.issueToken(professor.id, students[0].id, "import");
+    const ta = await insertUser("ta");
+    const member = await courseStaffService.addStaff(professor.id, course.id, {
+      username: ta.username,
+      permissions: ["run_sessions"],
+    });
+    await expect(
+      activationSlipService.prepareGroupSlips(ta.id, group.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    await courseStaffService.updateStaff(professor.id, course.id, member.id, ["manage_roster"]);
+    const { slips } = await activationSlipService.prepareGroupSlips(ta.id, group.id);
+    expect(slips).toHaveLength(1);
+  });
+
+  it("encodes QR codes with finder patterns in three corners", () => {
+    const modules = encodeQrCode("https://atendo.example.edu/#/activate/ABCD-EFGH-JKMN");
+    expect(modules).toHaveLength(33);
+    for (const [x, y] of [
+      [0, 0],
+      [26, 0],
+      [0, 26],
+    ]) {
+      expect(modules[y][x] && modules[y + 6][x + 6] && modules[y + 3][x + 3]).toBe(true);
+      expect(modules[y + 1][x + 1]).toBe(false);
+    }
+  });
+});
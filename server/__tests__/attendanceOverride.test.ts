@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceOverrideService } from "../services/attendanceOverrideService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", name: string) {
+  const suffix = `${name.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: name,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedRound() {
+  const professor = await insertUser("professor", "Prof");
+  const student = await insertUser("student", "Student");
+
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: "CS-OVR",
+      name: "Overrides",
+      term: "Fall",
+    })
+    .returning();
+
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+
+  await db.insert(enrollments).values({
+    student_id: student.id,
+    course_id: course.id,
+    group_id: group.id,
+  });
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+
+  const { round } = await roundService.createRound(session.id);
+  return { professor, student, session, round };
+}
+
+async function recordFor(roundId: string, studentId: string) {
+  const [record] = await db
+    .select()
+    .from(attendance_records)
+    .where(
+      and(
+        eq(attendance_records.round_id, roundId),
+        eq(attendance_records.student_id, studentId),
+      ),
+    );
+  return record;
+}
+
+describe("attendanceOverrideService", () => {
+  beforeEach(resetDb);
+
+  it("requires a reason and ownership before changing attendance", async () => {
+    const seed = await seedRound();
+    const other = await insertUser("professor", "Other");
+
+    await expect(
+      attendanceOverrideService.setRecord(
+        seed.professor.id,
+        seed.session.id,
+        seed.round.id,
+        seed.student.id,
+        { status: "on_time", reason: "   " },
+      ),
+    ).rejects.toMatchObject({ status: 400 });
+
+    await expect(
+      attendanceOverrideService.setRecord(
+        other.id,
+        seed.session.id,
+        seed.round.id,
+        seed.student.id,
+        { status: "on_time", reason: "Phone battery died" },
+      ),
+    ).rejects.toMatchObject({ status: 403 });
+
+    expect(await recordFor(seed.round.id, seed.student.id)).toBeUndefined();
+  });
+
+  it("creates and changes a record with before/after audit entries", async () => {
+    const seed = await seedRound();
+
+    const created = await attendanceOverrideService.setRecord(
+      seed.professor.id,
+      seed.session.id,
+      seed.round.id,
+      seed.student.id,
+      { status: "on_time", reason: "Phone battery died" },
+    );
+    expect(created.status).toBe("on_time");
+    expect(created.qr_token_id).toBeNull();
+
+    await attendanceOverrideService.setRecord(
+      seed.professor.id,
+      seed.session.id,
+      seed.round.id,
+      seed.student.id,
+      { status: "late", reason: "Arrived after the break" },
+    );
+    expect((await recordFor(seed.round.id, seed.student.id))?.status).toBe("late");
+
+    const logs = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "attendance_override"));
+    expect(logs).toHaveLength(2);
+    const first = logs.find((log) => log.before_json === null);
+    const second = logs.find((log) => log.before_json !== null);
+    expect(first?.reason).toBe("Phone battery died");
+    expect(JSON.parse(second?.before_json ?? "{}").status).toBe("on_time");
+    expect(JSON.parse(second?.after_json ?? "{}").status).toBe("late");
+    expect(second?.actor_id).toBe(seed.professor.id);
+  });
+
+  it("revokes to absent once the round is closed", async () => {
+    const seed = await seedRound();
+    await attendanceOverrideService.setRecord(
+      seed.professor.id,
+      seed.session.id,
+      seed.round.id,
+      seed.student.id,
+      { status: "on_time", reason: "Camera failed" },
+    );
+    await sessionService.endSession(seed.professor.id, seed.session.id);
+
+    await attendanceOverrideService.revokeRecord(
+      seed.professor.id,
+      seed.session.id,
+      seed.round.id,
+      seed.student.id,
+      "Student was not in the room",
+    );
+
+    expect((await recordFor(seed.round.id, seed.student.id))?.status).toBe("absent");
+    const [log] = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "attendance_revoke"));
+    expect(log.reason).toBe("Student was not in the room");
+    expect(JSON.parse(log.before_json ?? "{}").status).toBe("on_time");
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { randomUUID } from "crypto";
 import { eq } from "drizzle-orm";
 import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
@@ -217,14 +217,22 @@ describe("qrService.validateAndConsumeToken", () => {
 });
 
 describe("lateness thresholds", () => {
-  beforeEach(resetDb);
+  beforeEach(async () => {
+    await resetDb();
+    // Freeze the clock so boundary checks do not straddle a second tick.
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date());
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
 
-  it("marks late after 15 minutes for first-hour rounds", async () => {
+  it("marks late after 20 minutes for first-hour rounds", async () => {
     const seed = await seedRound();
-    const sixteenMinutesAgo = new Date(Date.now() - 16 * 60 * 1000).toISOString();
+    const twentyOneMinutesAgo = new Date(Date.now() - 21 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: sixteenMinutesAgo, is_break_round: false })
+      .set({ starts_at: twentyOneMinutesAgo, is_break_round: false })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -236,12 +244,12 @@ describe("lateness thresholds", () => {
     expect(result.status).toBe("late");
   });
 
-  it("does not mark late at exactly 15 minutes for first-hour rounds", async () => {
+  it("does not mark late at exactly 20 minutes for first-hour rounds", async () => {
     const seed = await seedRound();
-    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
+    const twentyMinutesAgo = new Date(Date.now() - 20 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: fifteenMinutesAgo, is_break_round: false })
+      .set({ starts_at: twentyMinutesAgo, is_break_round: false })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -253,12 +261,12 @@ describe("lateness thresholds", () => {
     expect(result.status).toBe("on_time");
   });
 
-  it("marks late after 15 minutes for break rounds", async () => {
+  it("marks late after 10 minutes for break rounds", async () => {
     const seed = await seedRound();
-    const sixteenMinutesAgo = new Date(Date.now() - 16 * 60 * 1000).toISOString();
+    const elevenMinutesAgo = new Date(Date.now() - 11 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: sixteenMinutesAgo, is_break_round: true })
+      .set({ starts_at: elevenMinutesAgo, is_break_round: true })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -270,12 +278,12 @@ describe("lateness thresholds", () => {
     expect(result.status).toBe("late");
   });
 
-  it("on-time at exactly 15 minutes for break rounds", async () => {
+  it("on-time at exactly 10 minutes for break rounds", async () => {
     const seed = await seedRound();
-    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: fifteenMinutesAgo, is_break_round: true })
+      .set({ starts_at: tenMinutesAgo, is_break_round: true })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -287,7 +295,7 @@ describe("lateness thresholds", () => {
     expect(result.status).toBe("on_time");
   });
 
-  it("keeps fixed threshold even with course policy overrides", async () => {
+  it("applies course policy threshold plus grace", async () => {
     const seed = await seedRound();
     const coursePolicy = await policyService.createPolicy({
       scopeType: "course",
@@ -299,10 +307,10 @@ describe("lateness thresholds", () => {
     });
     await policyService.assignPolicyToCourse(coursePolicy.id, seed.course.id);
 
-    const sixteenMinutesAgo = new Date(Date.now() - 16 * 60 * 1000).toISOString();
+    const eightMinutesAgo = new Date(Date.now() - 8 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: sixteenMinutesAgo, is_break_round: false })
+      .set({ starts_at: eightMinutesAgo, is_break_round: false })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -313,9 +321,14 @@ describe("lateness thresholds", () => {
     );
 
     expect(result.status).toBe("late");
+    const [record] = await db.select().from(attendance_records).where(
+      eq(attendance_records.round_id, seed.round.id),
+    );
+    expect(record.policy_id).toBe(coursePolicy.id);
+    expect(record.policy_version).toBe(coursePolicy.version);
   });
 
-  it("is on-time at exact 15-minute boundary even with course policy", async () => {
+  it("is on-time at the course policy boundary including grace", async () => {
     const seed = await seedRound();
     const coursePolicy = await policyService.createPolicy({
       scopeType: "course",
@@ -327,10 +340,10 @@ describe("lateness thresholds", () => {
     });
     await policyService.assignPolicyToCourse(coursePolicy.id, seed.course.id);
 
-    const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
+    const sevenMinutesAgo = new Date(Date.now() - 7 * 60 * 1000).toISOString();
     await db
       .update(attendance_rounds)
-      .set({ starts_at: fifteenMinutesAgo, is_break_round: false })
+      .set({ starts_at: sevenMinutesAgo, is_break_round: false })
       .where(eq(attendance_rounds.id, seed.round.id));
 
     const token = await qrService.generateToken(seed.round.id);
@@ -343,7 +356,7 @@ describe("lateness thresholds", () => {
     expect(result.status).toBe("on_time");
   });
 
-  it("stores offlineCapturedAt but uses server clock for lateness", async () => {
+  it("stores offlineCapturedAt but never times a scan before its code was issued", async () => {
     const seed = await seedRound();
     const twentyFiveMinutesAgo = new Date(Date.now() - 25 * 60 * 1000).toISOString();
     await db
@@ -454,3 +467,127 @@ describe("lateness thresholds", () => {
     ).rejects.toBeInstanceOf(ApiError);
   });
 });
+
+describe("attendanceService.syncOfflineScans", () => {
+  beforeEach(async () => {
+    await resetDb();
+  });
+
+  it("returns an outcome for every queued scan", async () => {
+    const seed = await seedRound();
+    const [laterSession] = await db
+      .insert(sessions)
+      .values({
+        group_id: seed.group.id,
+        course_id: seed.course.id,
+        professor_id: seed.professor.id,
+        starts_at: new Date().toISOString(),
+        is_active: true,
+        status: "active",
+      })
+      .returning();
+    const later = await roundService.createRound(laterSession.id);
+    await db
+      .update(qr_tokens)
+      .set({ expires_at: new Date(Date.now() - 5_000).toISOString() })
+      .where(eq(qr_tokens.id, later.token.id));
+    const retry = await qrService.generateToken(seed.round.id);
+
+    const capturedAt = (offsetMs: number) =>
+      new Date(Date.now() - 60_000 + offsetMs).toISOString();
+    const results = await attendanceService.syncOfflineScans(seed.student.id, [
+      {
+        client_scan_id: "expired",
+        roundId: later.round.id,
+        token: later.token.rawToken,
+        capturedAt: capturedAt(3),
+      },
+      {
+        client_scan_id: "second",
+        roundId: seed.round.id,
+        token: retry.rawToken,
+        capturedAt: capturedAt(2),
+      },
+      {
+        client_scan_id: "first",
+        roundId: seed.round.id,
+        token: seed.token.rawToken,
+        capturedAt: capturedAt(1),
+      },
+      {
+        client_scan_id: "forged",
+        roundId: later.round.id,
+        token: "not-a-real-token",
+        capturedAt: capturedAt(4),
+      },
+    ]);
+
+    expect(
+      results.map((result) => [result.clientScanId, result.outcome, result.code]),
+    ).toEqual([
+      ["first", "recorded", undefined],
+      ["second", "duplicate", undefined],
+      ["expired", "expired", "token_expired"],
+      ["forged", "rejected", "invalid_token"],
+    ]);
+    expect(results[1].status).toBe(results[0].status);
+
+    const rows = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.student_id, seed.student.id));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].client_scan_id).toBe("first");
+  });
+
+  it("rejects malformed items one by one and still records the rest", async () => {
+    const seed = await seedRound();
+
+    const results = await attendanceService.syncOfflineScans(seed.student.id, [
+      "not-an-object",
+      { client_scan_id: "no-token", roundId: seed.round.id, capturedAt: new Date().toISOString() },
+      {
+        client_scan_id: "bad-coordinates",
+        roundId: seed.round.id,
+        token: seed.token.rawToken,
+        capturedAt: new Date().toISOString(),
+        latitude: "north",
+        longitude: 10,
+      },
+      {
+        client_scan_id: "valid",
+        roundId: seed.round.id,
+        token: seed.token.rawToken,
+        capturedAt: new Date().toISOString(),
+      },
+    ]);
+
+    expect(results.map((result) => [result.clientScanId, result.outcome])).toEqual([
+      [null, "rejected"],
+      ["no-token", "rejected"],
+      ["bad-coordinates", "rejected"],
+      ["valid", "recorded"],
+    ]);
+    expect(results[2]).toMatchObject({ code: "invalid_scan", reason: expect.any(String) });
+    const rows = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.student_id, seed.student.id));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].client_scan_id).toBe("valid");
+  });
+
+  it("caps the batch size", async () => {
+    const seed = await seedRound();
+    const items = Array.from({ length: 51 }, (_, index) => ({
+      client_scan_id: `scan-${index}`,
+      roundId: seed.round.id,
+      token: seed.token.rawToken,
+      capturedAt: new Date().toISOString(),
+    }));
+
+    await expect(
+      attendanceService.syncOfflineScans(seed.student.id, items),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
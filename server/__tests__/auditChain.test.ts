@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { asc, eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import { audit_logs, users } from "@shared/schema";
+import { auditService, GENESIS_HASH } from "../services/auditService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(users);
+}
+
+async function logExcuseReviews(count: number) {
+  for (let index = 1; index <= count; index += 1) {
+    await auditService.log({
+      action: "excuse_review",
+      entityType: "excuse_request",
+      entityId: `excuse-${index}`,
+      before: { status: "pending" },
+      after: { status: "approved" },
+    });
+  }
+  return db.select().from(audit_logs).orderBy(asc(audit_logs.chain_seq));
+}
+
+describe("audit hash chain", () => {
+  beforeEach(resetDb);
+  afterEach(() => vi.restoreAllMocks());
+
+  it("links entries in order, including ones written before the chain existed", async () => {
+    await db.insert(audit_logs).values([
+      { action: "legacy_b", entity_type: "course", created_at: "2026-01-02T00:00:00.000Z" },
+      { action: "legacy_a", entity_type: "course", created_at: "2026-01-01T00:00:00.000Z" },
+    ]);
+    expect(await auditService.verifyChain()).toMatchObject({ ok: true, checkedEntries: 0 });
+
+    await Promise.all([
+      auditService.log({ action: "session_start", entityType: "session" }),
+      auditService.log({ action: "session_end", entityType: "session" }),
+    ]);
+
+    const rows = await db.select().from(audit_logs).orderBy(asc(audit_logs.chain_seq));
+    expect(rows.map((row) => row.chain_seq)).toEqual([1, 2, 3, 4]);
+    expect(rows.slice(0, 2).map((row) => row.action)).toEqual(["legacy_a", "legacy_b"]);
+    expect(rows[0].prev_hash).toBe(GENESIS_HASH);
+    rows.slice(1).forEach((row, index) => expect(row.prev_hash).toBe(rows[index].hash));
+
+    expect(await auditService.verifyChain()).toEqual({
+      ok: true,
+      checkedEntries: 4,
+      headSeq: 4,
+      headHash: rows[3].hash,
+      firstBrokenLink: null,
+    });
+  });
+
+  it("keeps an entry when another instance takes its chain position first", async () => {
+    await auditService.log({ action: "session_start", entityType: "session" });
+    const realInsert = db.insert.bind(db);
+    vi.spyOn(db, "insert").mockImplementationOnce((table) => {
+      // Another process appends between this writer reading the head and inserting.
+      db.$client
+        .prepare(
+          "INSERT INTO audit_logs (id, action, entity_type, created_at, chain_seq, prev_hash, hash) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        )
+        .run(
+          "other-instance",
+          "session_end",
+          "session",
+          new Date().toISOString(),
+          2,
+          "x",
+          "f".repeat(64),
+        );
+      return realInsert(table);
+    });
+
+    await auditService.log({ action: "excuse_review", entityType: "excuse_request" });
+
+    const rows = await db.select().from(audit_logs).orderBy(asc(audit_logs.chain_seq));
+    expect(rows.map((row) => [row.chain_seq, row.action])).toEqual([
+      [1, "session_start"],
+      [2, "session_end"],
+      [3, "excuse_review"],
+    ]);
+    expect(rows[2].prev_hash).toBe("f".repeat(64));
+  });
+
+  it("reports the first rewritten entry", async () => {
+    const rows = await logExcuseReviews(4);
+    await db
+      .update(audit_logs)
+      .set({ after_json: JSON.stringify({ status: "rejected" }) })
+      .where(eq(audit_logs.id, rows[1].id));
+
+    expect(await auditService.verifyChain()).toMatchObject({
+      ok: false,
+      checkedEntries: 1,
+      firstBrokenLink: { chainSeq: 2, entryId: rows[1].id, reason: "hash_mismatch" },
+    });
+
+    await db
+      .update(audit_logs)
+      .set({ after_json: rows[1].after_json })
+      .where(eq(audit_logs.id, rows[1].id));
+    expect((await auditService.verifyChain()).ok).toBe(true);
+
+    await db
+      .update(audit_logs)
+      .set({ prev_hash: GENESIS_HASH })
+      .where(eq(audit_logs.id, rows[2].id));
+    expect((await auditService.verifyChain()).firstBrokenLink).toEqual({
+      chainSeq: 3,
+      entryId: rows[2].id,
+      reason: "prev_hash_mismatch",
+    });
+  });
+
+  it("stays valid when the acting user is deleted", async () => {
+    const [professor] = await db
+      .insert(users)
+      .values({
+        email: "audited-prof@example.com",
+        username: "audited-prof",
+        display_name: "Audited Prof",
+        password: "hashed",
+        role: "professor",
+      })
+      .returning();
+    await auditService.log({
+      actorId: professor.id,
+      action: "course_create",
+      entityType: "course",
+      entityId: "course-1",
+    });
+
+    // What deleting a professor does to satisfy the actor_id foreign key.
+    await db.update(audit_logs).set({ actor_id: null }).where(eq(audit_logs.actor_id, professor.id));
+    await db.delete(users).where(eq(users.id, professor.id));
+    expect((await auditService.verifyChain()).ok).toBe(true);
+    const { logs } = await auditService.listLogs({ actorId: professor.id }, {});
+    expect(logs.map((log) => log.actorId)).toEqual([professor.id]);
+
+    await db.update(audit_logs).set({ actor_ref: "someone-else" });
+    expect((await auditService.verifyChain()).firstBrokenLink).toMatchObject({
+      chainSeq: 1,
+      reason: "hash_mismatch",
+    });
+  });
+
+  it("detects deleted and injected entries", async () => {
+    const rows = await logExcuseReviews(3);
+    await db.delete(audit_logs).where(eq(audit_logs.id, rows[1].id));
+    expect((await auditService.verifyChain()).firstBrokenLink).toEqual({
+      chainSeq: 3,
+      entryId: rows[2].id,
+      reason: "missing_entry",
+    });
+
+    await resetDb();
+    await logExcuseReviews(2);
+    const [injected] = await db
+      .insert(audit_logs)
+      .values({ action: "attendance_override", entity_type: "attendance_record" })
+      .returning();
+    expect(await auditService.verifyChain()).toMatchObject({
+      ok: false,
+      checkedEntries: 2,
+      firstBrokenLink: { chainSeq: null, entryId: injected.id, reason: "unchained_entry" },
+    });
+  });
+});
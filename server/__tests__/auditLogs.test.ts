@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import { audit_logs, users } from "@shared/schema";
+import { auditService } from "../services/auditService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(users);
+}
+
+async function insertUser(role: "admin" | "professor") {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function insertLog(values: {
+  actorId: string | null;
+  action: string;
+  entityType?: string;
+  entityId?: string;
+  createdAt: string;
+  before?: unknown;
+  after?: unknown;
+}) {
+  await db.insert(audit_logs).values({
+    actor_id: values.actorId,
+    action: values.action,
+    entity_type: values.entityType ?? "course",
+    entity_id: values.entityId ?? null,
+    before_json: values.before ? JSON.stringify(values.before) : null,
+    after_json: values.after ? JSON.stringify(values.after) : null,
+    created_at: values.createdAt,
+  });
+}
+
+describe("audit log browser", () => {
+  beforeEach(resetDb);
+
+  it("pages newest first with a cursor and applies filters", async () => {
+    const admin = await insertUser("admin");
+    const professor = await insertUser("professor");
+    for (let day = 1; day <= 5; day += 1) {
+      await insertLog({
+        actorId: day % 2 ? professor.id : admin.id,
+        action: day === 5 ? "course_delete" : "session_start",
+        entityType: day === 5 ? "course" : "session",
+        entityId: `entity-${day}`,
+        createdAt: `2026-03-0${day}T10:00:00.000Z`,
+      });
+    }
+
+    const first = await auditService.listLogs({}, { limit: 2 });
+    expect(first.logs.map((log) => log.entityId)).toEqual(["entity-5", "entity-4"]);
+    expect(first.logs[0]).toMatchObject({
+      action: "course_delete",
+      actorUsername: professor.username,
+    });
+    const second = await auditService.listLogs({}, { limit: 2, cursor: first.nextCursor! });
+    expect(second.logs.map((log) => log.entityId)).toEqual(["entity-3", "entity-2"]);
+    const third = await auditService.listLogs({}, { limit: 2, cursor: second.nextCursor! });
+    expect(third.logs.map((log) => log.entityId)).toEqual(["entity-1"]);
+    expect(third.nextCursor).toBeNull();
+
+    const filtered = await auditService.listLogs({
+      actorId: professor.id,
+      action: "session_start",
+      from: "2026-03-02",
+      to: "2026-03-03",
+    });
+    expect(filtered.logs.map((log) => log.entityId)).toEqual(["entity-3"]);
+    expect(
+      (await auditService.listLogs({ entityType: "session", entityId: "entity-2" })).logs,
+    ).toHaveLength(1);
+
+    await expect(auditService.listLogs({ from: "yesterday-ish" })).rejects.toMatchObject({
+      status: 400,
+    });
+    await expect(auditService.listLogs({}, { cursor: "not-a-cursor" })).rejects.toMatchObject({
+      status: 400,
+    });
+    await expect(auditService.listLogs({}, { limit: 500 })).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it("diffs before and after snapshots and exports them", async () => {
+    const admin = await insertUser("admin");
+    await insertLog({
+      actorId: admin.id,
+      action: "policy_update",
+      entityType: "attendance_policy",
+      entityId: "policy-1",
+      createdAt: "2026-03-02T10:00:00.000Z",
+      before: { isActive: true, rules: { graceMinutes: 0, maxAbsences: 3 } },
+      after: { isActive: false, rules: { graceMinutes: 5, maxAbsences: 3 } },
+    });
+    await insertLog({
+      actorId: null,
+      action: "course_create",
+      createdAt: "2026-03-01T10:00:00.000Z",
+      after: { code: "CS101", name: "Intro, part 1" },
+    });
+
+    const { logs } = await auditService.listLogs();
+    expect(logs[0].changes).toEqual([
+      { path: "isActive", before: true, after: false },
+      { path: "rules.graceMinutes", before: 0, after: 5 },
+    ]);
+    expect(logs[1].changes).toEqual([
+      { path: "code", before: null, after: "CS101" },
+      { path: "name", before: null, after: "Intro, part 1" },
+    ]);
+
+    const csv = await auditService.exportLogs({}, "csv");
+    const lines = csv.body.split("\n");
+    expect(csv.contentType).toBe("text/csv");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain("policy_update");
+    expect(lines[1]).toContain("rules.graceMinutes: 0 -> 5");
+
+    const json = await auditService.exportLogs({ action: "course_create" }, "json");
+    expect(JSON.parse(json.body)).toHaveLength(1);
+    await expect(auditService.exportLogs({}, "xml")).rejects.toMatchObject({ status: 400 });
+  });
+});
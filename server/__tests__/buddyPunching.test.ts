@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { roundService } from "../services/roundService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", name: string) {
+  const suffix = `${name.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: name,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedCourse() {
+  const professor = await insertUser("professor", "Prof");
+  const scanner = await insertUser("student", "Scanner");
+  const friend = await insertUser("student", "Friend");
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "CS-BDY", name: "Buddies", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  for (const student of [scanner, friend]) {
+    await db.insert(enrollments).values({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    });
+  }
+
+  const openSession = async () => {
+    const [session] = await db
+      .insert(sessions)
+      .values({
+        group_id: group.id,
+        course_id: course.id,
+        professor_id: professor.id,
+        starts_at: new Date().toISOString(),
+        is_active: true,
+        status: "active",
+      })
+      .returning();
+    const { round, token } = await roundService.createRound(session.id);
+    return { session, round, token };
+  };
+
+  return { scanner, friend, openSession };
+}
+
+async function insertScan(
+  roundId: string,
+  studentId: string,
+  recordedAt: Date,
+  fingerprint: string | null,
+) {
+  await db.insert(attendance_records).values({
+    round_id: roundId,
+    student_id: studentId,
+    status: "on_time",
+    recorded_at: recordedAt.toISOString(),
+    device_fingerprint: fingerprint,
+  });
+}
+
+async function buddySignals() {
+  return db.select().from(fraud_signals).where(eq(fraud_signals.type, "buddy_punching"));
+}
+
+describe("buddy-punching detection", () => {
+  beforeEach(resetDb);
+
+  it("flags students co-scanning from one device across several sessions", async () => {
+    const seed = await seedCourse();
+    for (let index = 0; index < 2; index += 1) {
+      const { round } = await seed.openSession();
+      const at = new Date(Date.now() - (index + 1) * 86_400_000);
+      await insertScan(round.id, seed.scanner.id, at, "phone-1");
+      await insertScan(round.id, seed.friend.id, new Date(at.getTime() + 5_000), "phone-1");
+    }
+
+    const { round, token } = await seed.openSession();
+    await insertScan(round.id, seed.scanner.id, new Date(), "phone-1");
+    await attendanceService.recordScan(seed.friend.id, round.id, token.rawToken, null, "phone-1");
+
+    const [signal] = await buddySignals();
+    expect(signal).toMatchObject({
+      severity: "high",
+      student_id: seed.friend.id,
+      round_id: round.id,
+    });
+    const details = JSON.parse(signal.details_json ?? "{}");
+    expect(details.correlatedStudentIds).toEqual([seed.scanner.id, seed.friend.id].sort());
+    expect(details.sessionCounts[seed.scanner.id]).toBe(3);
+    expect(details.matchedBy).toEqual(["device"]);
+  });
+
+  it("ignores co-scans seen in too few sessions or too far apart", async () => {
+    const seed = await seedCourse();
+    const earlier = await seed.openSession();
+    const at = new Date(Date.now() - 86_400_000);
+    await insertScan(earlier.round.id, seed.scanner.id, at, "phone-1");
+    // A minute apart is not a co-scan, even on the same device.
+    await insertScan(earlier.round.id, seed.friend.id, new Date(at.getTime() + 60_000), "phone-1");
+
+    const { round, token } = await seed.openSession();
+    await insertScan(round.id, seed.scanner.id, new Date(), "phone-1");
+    await attendanceService.recordScan(seed.friend.id, round.id, token.rawToken, null, "phone-1");
+
+    expect(await buddySignals()).toHaveLength(0);
+  });
+});
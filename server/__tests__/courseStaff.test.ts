@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  course_staff,
+  courses,
+  enrollments,
+  excuse_requests,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+  type UserRole,
+} from "@shared/schema";
+import { requireRole } from "../middleware/auth";
+import { courseService } from "../services/courseService";
+import { courseStaffService } from "../services/courseStaffService";
+import { enrollmentService } from "../services/enrollmentService";
+import { excuseService } from "../services/excuseService";
+import { sessionService } from "../services/sessionService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(excuse_requests);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(course_staff);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: UserRole) {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedCourse() {
+  const owner = await insertUser("professor");
+  const ta = await insertUser("ta");
+  const student = await insertUser("student");
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: owner.id, code: "TA101", name: "Sections", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  return { owner, ta, student, course, group };
+}
+
+function runMiddleware(role: UserRole, allowed: UserRole[]) {
+  const req = {
+    isAuthenticated: () => true,
+    user: { id: "user-1", role },
+  } as unknown as Request;
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+  const next = vi.fn();
+  requireRole(...allowed)(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe("course staff", () => {
+  beforeEach(resetDb);
+
+  it("lets a TA run sessions for the owner's course only with run_sessions", async () => {
+    const seed = await seedCourse();
+    await expect(
+      sessionService.startSession(seed.ta.id, seed.group.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    await courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+      username: seed.ta.username,
+      permissions: ["run_sessions"],
+    });
+    const { session } = await sessionService.startSession(seed.ta.id, seed.group.id);
+    expect(session.professor_id).toBe(seed.owner.id);
+
+    const [startLog] = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "session_start"));
+    expect(startLog.actor_id).toBe(seed.ta.id);
+
+    await expect(
+      sessionService.getSessionDetail(seed.ta.id, session.id),
+    ).resolves.toMatchObject({ session: expect.anything() });
+    await expect(
+      excuseService.listSessionExcuses(seed.ta.id, session.id),
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(
+      sessionService.getSessionAnalytics(seed.ta.id, session.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    await sessionService.endSession(seed.ta.id, session.id);
+  });
+
+  it("scopes roster changes and course listings to the granted permissions", async () => {
+    const seed = await seedCourse();
+    const member = await courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+      username: seed.ta.username,
+      permissions: ["view_reports"],
+    });
+    await expect(
+      enrollmentService.addToGroup(seed.ta.id, seed.group.id, { studentId: seed.student.id }),
+    ).rejects.toMatchObject({ status: 403 });
+
+    await courseStaffService.updateStaff(seed.owner.id, seed.course.id, member.id, [
+      "view_reports",
+      "manage_roster",
+    ]);
+    await enrollmentService.addToGroup(seed.ta.id, seed.group.id, {
+      studentId: seed.student.id,
+    });
+
+    const listed = await courseService.listProfessorCourses(seed.ta.id);
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({
+      id: seed.course.id,
+      staffPermissions: ["view_reports", "manage_roster"],
+      totalStudents: 1,
+    });
+    const [owned] = await courseService.listProfessorCourses(seed.owner.id);
+    expect(owned.staffPermissions).toBeNull();
+
+    await courseStaffService.removeStaff(seed.owner.id, seed.course.id, member.id);
+    expect(await courseService.listProfessorCourses(seed.ta.id)).toEqual([]);
+  });
+
+  it("leaves staff management to the course owner", async () => {
+    const seed = await seedCourse();
+    const other = await insertUser("ta");
+    await courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+      username: seed.ta.username,
+      permissions: ["run_sessions", "manage_roster"],
+    });
+
+    await expect(
+      courseStaffService.addStaff(seed.ta.id, seed.course.id, {
+        username: other.username,
+        permissions: [],
+      }),
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(
+      courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+        username: seed.ta.username,
+        permissions: [],
+      }),
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+        username: seed.student.username,
+        permissions: [],
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(
+      courseStaffService.addStaff(seed.owner.id, seed.course.id, {
+        username: other.username,
+        permissions: ["delete_course"],
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+    await expect(
+      courseService.deleteCourse(seed.ta.id, seed.course.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    const actions = (await db.select().from(audit_logs)).map((log) => log.action);
+    expect(actions).toEqual(["course_staff_add"]);
+  });
+
+  it("requireRole accepts any listed role and always admits admins", () => {
+    expect(runMiddleware("ta", ["professor", "ta"]).next).toHaveBeenCalled();
+    expect(runMiddleware("admin", ["professor"]).next).toHaveBeenCalled();
+
+    const denied = runMiddleware("ta", ["professor"]);
+    expect(denied.next).not.toHaveBeenCalled();
+    expect(denied.res.status).toHaveBeenCalledWith(403);
+  });
+});
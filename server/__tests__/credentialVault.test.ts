@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import { account_credentials, audit_logs, users } from "@shared/schema";
+import { accountCredentialService } from "../services/accountCredentialService";
+import { authService } from "../services/authService";
+import { professorAccountService } from "../services/professorAccountService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(account_credentials);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", createdBy?: string) {
+  const suffix = `${role}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: suffix,
+      password: authService.hashPassword("Initial-pass1"),
+      role,
+      created_by_professor_id: createdBy,
+      must_change_password: role === "student",
+    })
+    .returning();
+  return user;
+}
+
+describe("credential vault", () => {
+  beforeEach(resetDb);
+
+  it("stores temporary passwords encrypted and reveals them once", async () => {
+    const professor = await insertUser("professor");
+    const student = await insertUser("student", professor.id);
+    await accountCredentialService.recordCredential(
+      professor.id,
+      student.id,
+      "Temp-pass-123",
+      "manual_create",
+    );
+
+    const [stored] = await db.select().from(account_credentials);
+    expect(stored.plain_password).toBeNull();
+    expect(stored.password_ciphertext).toMatch(/^v1\./);
+    expect(stored.password_ciphertext).not.toContain("Temp-pass-123");
+
+    // A sealed password copied onto another student's row does not decrypt.
+    const other = await insertUser("student", professor.id);
+    await db.insert(account_credentials).values({
+      student_id: other.id,
+      created_by_professor_id: professor.id,
+      password_ciphertext: stored.password_ciphertext,
+    });
+    const [copied] = await accountCredentialService.revealForStudents(
+      professor.id,
+      [other.id],
+      "credential",
+    );
+    expect(copied.password).toBeNull();
+
+    const first = await professorAccountService.getStudentCredential(professor.id, student.id);
+    expect(first).toMatchObject({ password: "Temp-pass-123", hasPassword: true, revealedAt: null });
+
+    const second = await professorAccountService.getStudentCredential(professor.id, student.id);
+    expect(second).toMatchObject({ password: "", hasPassword: false });
+    expect(second.revealedAt).toEqual(expect.any(String));
+
+    const [afterReveal] = await db
+      .select()
+      .from(account_credentials)
+      .where(eq(account_credentials.student_id, student.id));
+    expect(afterReveal.password_ciphertext).toBeNull();
+
+    const reveals = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "credential_revealed"));
+    expect(reveals).toHaveLength(1);
+    expect(reveals[0]).toMatchObject({ actor_id: professor.id, entity_id: student.id });
+    expect(reveals[0].after_json).not.toContain("Temp-pass-123");
+  });
+
+  it("expires the credential when the student changes their password", async () => {
+    const professor = await insertUser("professor");
+    const student = await insertUser("student", professor.id);
+    await authService.resetStudentPasswordByProfessor(professor.id, student.id, "Reset-pass-123");
+    await authService.changeOwnPassword(student.id, "Reset-pass-123", "Own-password-456");
+
+    const credential = await professorAccountService.getStudentCredential(professor.id, student.id);
+    expect(credential).toMatchObject({ password: "", hasPassword: false, revealedAt: null });
+
+    const csv = await professorAccountService.exportManagedStudentsCsv(professor.id);
+    expect(csv).not.toContain("Reset-pass-123");
+  });
+
+  it("moves legacy plaintext rows into the vault", async () => {
+    const professor = await insertUser("professor");
+    const active = await insertUser("student", professor.id);
+    const replaced = await insertUser("student", professor.id);
+    await db.insert(account_credentials).values([
+      {
+        student_id: active.id,
+        created_by_professor_id: professor.id,
+        plain_password: "Legacy-pass-1",
+        source: "import",
+      },
+      {
+        student_id: replaced.id,
+        created_by_professor_id: professor.id,
+        plain_password: "Legacy-pass-2",
+        is_active: false,
+      },
+    ]);
+
+    expect(await accountCredentialService.encryptLegacyCredentials()).toBe(2);
+    expect(await accountCredentialService.encryptLegacyCredentials()).toBe(0);
+
+    const rows = await db.select().from(account_credentials);
+    expect(rows.every((row) => row.plain_password === null)).toBe(true);
+    const sealed = rows.find((row) => row.student_id === active.id)!;
+    expect(sealed.password_ciphertext).toMatch(/^v1\./);
+    expect(rows.find((row) => row.student_id === replaced.id)!.password_ciphertext).toBeNull();
+
+    const csv = await professorAccountService.exportManagedStudentsCsv(professor.id);
+    expect(csv).toContain("Legacy-pass-1");
+    expect(await professorAccountService.exportManagedStudentsCsv(professor.id)).not.toContain(
+      "Legacy-pass-1",
+    );
+  });
+});
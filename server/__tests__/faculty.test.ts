@@ -0,0 +1,266 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_policies,
+  attendance_policy_history,
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  course_policy_assignments,
+  courses,
+  departments,
+  enrollments,
+  faculties,
+  fraud_signals,
+  groups,
+  professor_profiles,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { facultyService } from "../services/facultyService";
+import { policyService } from "../services/policyService";
+import { roundService } from "../services/roundService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(course_policy_assignments);
+  await db.delete(attendance_policy_history);
+  await db.delete(attendance_policies);
+  await db.delete(courses);
+  await db.delete(professor_profiles);
+  await db.delete(departments);
+  await db.delete(faculties);
+  await db.delete(users);
+}
+
+async function insertUser(role: "admin" | "professor" | "student") {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function insertCourse(professorId: string, code: string) {
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professorId, code, name: `Course ${code}`, term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  return { course, group };
+}
+
+async function seedFaculty(adminId: string, code: string) {
+  const faculty = await facultyService.createFaculty(adminId, { code, name: `Faculty ${code}` });
+  const department = await facultyService.createDepartment(adminId, faculty.id, {
+    code: `${code}-D1`,
+    name: `Department ${code}`,
+  });
+  return { faculty, department };
+}
+
+/** Held session with one closed round; `present` students get an on-time record. */
+async function insertHeldSession(
+  course: { id: string; professor_id: string },
+  groupId: string,
+  enrolled: string[],
+  present: string[],
+) {
+  for (const studentId of enrolled) {
+    await db
+      .insert(enrollments)
+      .values({ student_id: studentId, course_id: course.id, group_id: groupId })
+      .onConflictDoNothing();
+  }
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: groupId,
+      course_id: course.id,
+      professor_id: course.professor_id,
+      starts_at: new Date().toISOString(),
+      is_active: false,
+      status: "ended",
+    })
+    .returning();
+  const [round] = await db
+    .insert(attendance_rounds)
+    .values({ session_id: session.id, round_number: 1, is_active: false })
+    .returning();
+  await db.insert(attendance_records).values(
+    enrolled.map((studentId) => ({
+      round_id: round.id,
+      student_id: studentId,
+      status: present.includes(studentId) ? "on_time" : "absent",
+    })),
+  );
+  return session;
+}
+
+describe("faculties and departments", () => {
+  beforeEach(resetDb);
+
+  it("applies faculty policies through the course or professor department", async () => {
+    const admin = await insertUser("admin");
+    const professor = await insertUser("professor");
+    const student = await insertUser("student");
+    const { faculty, department } = await seedFaculty(admin.id, "ENG");
+    const { course, group } = await insertCourse(professor.id, "ENG101");
+    const { course: otherCourse } = await insertCourse(professor.id, "ENG102");
+
+    const facultyPolicy = await policyService.createPolicy({
+      scopeType: "faculty",
+      scopeId: faculty.id,
+      rules: { lateAfterMinutes: { first_hour: 0, break: 0 }, graceMinutes: 0 },
+    });
+    await expect(
+      policyService.createPolicy({
+        scopeType: "faculty",
+        scopeId: professor.id,
+        rules: { lateAfterMinutes: { first_hour: 5, break: 5 }, graceMinutes: 0 },
+      }),
+    ).rejects.toMatchObject({ status: 404 });
+
+    expect((await policyService.getActivePolicyForCourse(course.id)).scopeType).toBe("global");
+
+    await facultyService.assignCourse(admin.id, course.id, department.id);
+    expect((await policyService.getActivePolicyForCourse(course.id)).id).toBe(facultyPolicy.id);
+
+    await facultyService.assignProfessor(admin.id, professor.id, department.id);
+    expect((await policyService.getActivePolicyForCourse(otherCourse.id)).id).toBe(
+      facultyPolicy.id,
+    );
+
+    // A scan a minute into the round is late under the faculty's zero-minute threshold.
+    await db.insert(enrollments).values({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    });
+    const [session] = await db
+      .insert(sessions)
+      .values({
+        group_id: group.id,
+        course_id: course.id,
+        professor_id: professor.id,
+        starts_at: new Date().toISOString(),
+        is_active: true,
+        status: "active",
+      })
+      .returning();
+    const { round, token } = await roundService.createRound(session.id);
+    await db
+      .update(attendance_rounds)
+      .set({ starts_at: new Date(Date.now() - 60_000).toISOString() })
+      .where(eq(attendance_rounds.id, round.id));
+    await attendanceService.recordScan(student.id, round.id, token.rawToken);
+
+    const [record] = await db.select().from(attendance_records);
+    expect(record).toMatchObject({ status: "late", policy_id: facultyPolicy.id });
+  });
+
+  it("guards deletes and duplicate codes", async () => {
+    const admin = await insertUser("admin");
+    const professor = await insertUser("professor");
+    const { faculty, department } = await seedFaculty(admin.id, "SCI");
+    const { course } = await insertCourse(professor.id, "SCI101");
+
+    await expect(
+      facultyService.createFaculty(admin.id, { code: "sci", name: "Duplicate" }),
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(facultyService.deleteFaculty(admin.id, faculty.id)).rejects.toMatchObject({
+      status: 409,
+    });
+
+    await facultyService.assignCourse(admin.id, course.id, department.id);
+    await expect(
+      facultyService.deleteDepartment(admin.id, department.id),
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      facultyService.assignCourse(admin.id, course.id, "missing-department"),
+    ).rejects.toMatchObject({ status: 404 });
+
+    await facultyService.assignCourse(admin.id, course.id, null);
+    await facultyService.deleteDepartment(admin.id, department.id);
+    await facultyService.deleteFaculty(admin.id, faculty.id);
+    expect(await facultyService.listFaculties()).toEqual([]);
+
+    const actions = (await db.select().from(audit_logs)).map((log) => log.action);
+    expect(actions).toContain("course_department_assign");
+    expect(actions).toContain("faculty_delete");
+  });
+
+  it("rolls up attendance for every course in the faculty", async () => {
+    const admin = await insertUser("admin");
+    const professorA = await insertUser("professor");
+    const professorB = await insertUser("professor");
+    const students = [
+      await insertUser("student"),
+      await insertUser("student"),
+      await insertUser("student"),
+      await insertUser("student"),
+    ];
+    const studentIds = students.map((student) => student.id);
+    const { faculty, department } = await seedFaculty(admin.id, "ART");
+    const { department: otherDepartment } = await seedFaculty(admin.id, "LAW");
+
+    const first = await insertCourse(professorA.id, "ART101");
+    const second = await insertCourse(professorB.id, "ART201");
+    const outside = await insertCourse(professorA.id, "LAW101");
+    await facultyService.assignCourse(admin.id, first.course.id, department.id);
+    await facultyService.assignProfessor(admin.id, professorB.id, department.id);
+    await facultyService.assignCourse(admin.id, outside.course.id, otherDepartment.id);
+
+    // ART101: 2 sessions x 2 students, 3 present. ART201: 1 session x 4 students, 1 present.
+    await insertHeldSession(first.course, first.group.id, studentIds.slice(0, 2), studentIds);
+    await insertHeldSession(first.course, first.group.id, studentIds.slice(0, 2), [studentIds[0]]);
+    await insertHeldSession(second.course, second.group.id, studentIds, [studentIds[3]]);
+    await insertHeldSession(outside.course, outside.group.id, studentIds, studentIds);
+
+    const report = await facultyService.getFacultyReport(faculty.id);
+    expect(report.courses.map((row) => row.code)).toEqual(["ART101", "ART201"]);
+    expect(report.courses[0]).toMatchObject({
+      enrolledStudents: 2,
+      sessionsHeld: 2,
+      attendancePercent: 75,
+      departmentName: department.name,
+    });
+    expect(report.courses[1]).toMatchObject({ sessionsHeld: 1, attendancePercent: 25 });
+    expect(report.totals).toMatchObject({
+      courses: 2,
+      enrolledStudents: 6,
+      sessionsHeld: 3,
+      attendancePercent: 50,
+    });
+    expect(report.departments[0]).toMatchObject({ id: department.id, courses: 2 });
+
+    const { csv } = await facultyService.exportFacultyReportCsv(faculty.id);
+    const lines = csv.split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[3]).toContain("TOTAL,ART");
+  });
+});
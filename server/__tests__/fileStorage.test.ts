@@ -0,0 +1,354 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import type { AddressInfo } from "net";
+import type { Readable } from "stream";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  excuse_requests,
+  groups,
+  sessions,
+  users,
+} from "@shared/schema";
+import { excuseService } from "../services/excuseService";
+import { rosterFileService } from "../services/rosterFileService";
+import { purgeExpiredUploads } from "../services/uploadRetentionService";
+import { LocalDiskStorage, setFileStorage } from "../storage/fileStorage";
+import { S3Storage } from "../storage/s3Storage";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(audit_logs);
+  await db.delete(excuse_requests);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function readAll(stream: Readable) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Just enough of the S3 API (path-style object PUT/GET/DELETE and ListObjectsV2, one
+ * key per page) to exercise S3Storage without a real MinIO.
+ */
+function startS3StandIn() {
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+  const requests: http.IncomingMessage[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req);
+    const url = new URL(req.url!, "http://localhost");
+    const [, bucket, ...keyParts] = url.pathname.split("/");
+    const key = keyParts.map(decodeURIComponent).join("/");
+    if (bucket !== "attachments") {
+      res.writeHead(404).end("<Error><Code>NoSuchBucket</Code></Error>");
+      return;
+    }
+    if (req.method === "GET" && !key && url.searchParams.get("list-type") === "2") {
+      const prefix = url.searchParams.get("prefix") ?? "";
+      const keys = Array.from(objects.keys())
+        .filter((candidate) => candidate.startsWith(prefix))
+        .sort();
+      const start = Number(url.searchParams.get("continuation-token") ?? 0);
+      const page = keys.slice(start, start + 1);
+      const truncated = start + 1 < keys.length;
+      res.writeHead(200, { "content-type": "application/xml" }).end(
+        `<ListBucketResult>${page
+          .map(
+            (pageKey) =>
+              `<Contents><Key>${pageKey}</Key><LastModified>2026-01-01T00:00:00.000Z</LastModified><Size>${objects.get(pageKey)!.body.length}</Size></Contents>`,
+          )
+          .join("")}<IsTruncated>${truncated}</IsTruncated>${
+          truncated ? `<NextContinuationToken>${start + 1}</NextContinuationToken>` : ""
+        }</ListBucketResult>`,
+      );
+      return;
+    }
+    if (req.method === "PUT") {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => {
+        objects.set(key, {
+          body: Buffer.concat(chunks),
+          contentType: req.headers["content-type"] ?? "application/octet-stream",
+        });
+        res.writeHead(200).end();
+      });
+      return;
+    }
+    const object = objects.get(key);
+    if (req.method === "DELETE") {
+      objects.delete(key);
+      res.writeHead(204).end();
+    } else if (!object) {
+      res.writeHead(404).end("<Error><Code>NoSuchKey</Code></Error>");
+    } else {
+      res
+        .writeHead(200, {
+          "content-type": object.contentType,
+          "content-length": object.body.length,
+          "last-modified": new Date("2026-01-01T00:00:00Z").toUTCString(),
+        })
+        .end(object.body);
+    }
+  });
+  return { server, objects, requests };
+}
+
+async function seedExcuseRound() {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [professor] = await db
+    .insert(users)
+    .values({
+      email: `prof-${suffix}@example.com`,
+      username: `prof-${suffix}`,
+      display_name: "Prof",
+      password: "hashed",
+      role: "professor",
+    })
+    .returning();
+  const [student] = await db
+    .insert(users)
+    .values({
+      email: `student-${suffix}@example.com`,
+      username: `student-${suffix}`,
+      display_name: "Student",
+      password: "hashed",
+      role: "student",
+    })
+    .returning();
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "ST101", name: "Storage", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db
+    .insert(enrollments)
+    .values({ student_id: student.id, course_id: course.id, group_id: group.id });
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+  const [round] = await db
+    .insert(attendance_rounds)
+    .values({ session_id: session.id, round_number: 1, is_active: true })
+    .returning();
+  return { professor, student, round };
+}
+
+describe("LocalDiskStorage", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-storage-"));
+  });
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it("stores, streams, lists and deletes files under its root", async () => {
+    const storage = new LocalDiskStorage(root);
+    await storage.put("excuses/1-note.pdf", Buffer.from("%PDF-1.4 note"), "application/pdf");
+    await storage.put("rosters/a__1__list.csv", Buffer.from("a,b"), "text/csv");
+
+    const file = await storage.get("excuses/1-note.pdf");
+    expect(file).toMatchObject({ size: 13, contentType: "application/pdf" });
+    expect(await readAll(file!.body)).toBe("%PDF-1.4 note");
+    expect((await storage.list("rosters/a__")).map((entry) => entry.key)).toEqual([
+      "rosters/a__1__list.csv",
+    ]);
+
+    await storage.delete("excuses/1-note.pdf");
+    expect(await storage.get("excuses/1-note.pdf")).toBeNull();
+    await expect(storage.get("../outside.txt")).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("S3Storage", () => {
+  const standIn = startS3StandIn();
+  let storage: S3Storage;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => standIn.server.listen(0, "127.0.0.1", resolve));
+    const { port } = standIn.server.address() as AddressInfo;
+    storage = new S3Storage({
+      bucket: "attachments",
+      region: "us-east-1",
+      accessKeyId: "minio",
+      secretAccessKey: "minio-secret",
+      endpoint: `http://127.0.0.1:${port}`,
+    });
+  });
+  afterAll(() => new Promise<void>((resolve) => standIn.server.close(() => resolve())));
+
+  it("talks signed S3 requests to an S3-compatible endpoint", async () => {
+    const body = Buffer.from("%PDF-1.4 remote note");
+    await storage.put("excuses/2-note.pdf", body, "application/pdf");
+    await storage.put("excuses/3-scan.png", Buffer.from("png"), "image/png");
+
+    const putRequest = standIn.requests[0];
+    expect(putRequest.url).toBe("/attachments/excuses/2-note.pdf");
+    expect(putRequest.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minio\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+    expect(putRequest.headers["x-amz-content-sha256"]).toBe(
+      createHash("sha256").update(body).digest("hex"),
+    );
+
+    const file = await storage.get("excuses/2-note.pdf");
+    expect(file).toMatchObject({ size: body.length, contentType: "application/pdf" });
+    expect(await readAll(file!.body)).toBe("%PDF-1.4 remote note");
+    expect(await storage.get("excuses/missing.pdf")).toBeNull();
+
+    // The stand-in pages one key at a time, so this follows continuation tokens.
+    expect((await storage.list("excuses/")).map((entry) => entry.key)).toEqual([
+      "excuses/2-note.pdf",
+      "excuses/3-scan.png",
+    ]);
+
+    await storage.delete("excuses/2-note.pdf");
+    expect(Array.from(standIn.objects.keys())).toEqual(["excuses/3-scan.png"]);
+  });
+});
+
+describe("stored uploads", () => {
+  let root: string;
+  let storage: LocalDiskStorage;
+
+  beforeEach(async () => {
+    await resetDb();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-uploads-"));
+    storage = new LocalDiskStorage(root);
+    setFileStorage(storage);
+  });
+  afterEach(() => {
+    setFileStorage(null);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("stores excuse attachments and serves them to authorized users", async () => {
+    const { professor, student, round } = await seedExcuseRound();
+    await expect(
+      excuseService.submitExcuse(student.id, {
+        roundId: round.id,
+        reason: "Doctor appointment",
+        attachment: {
+          originalName: "note.html",
+          mimetype: "application/pdf",
+          buffer: Buffer.from("<script>"),
+        },
+      }),
+    ).rejects.toMatchObject({ status: 415, code: "unsupported_file_type" });
+
+    const excuse = await excuseService.submitExcuse(student.id, {
+      roundId: round.id,
+      reason: "Doctor appointment",
+      attachment: {
+        originalName: "doctor note.pdf",
+        mimetype: "application/pdf",
+        buffer: Buffer.from("%PDF-1.4 signed\n%%EOF\n"),
+      },
+    });
+    expect(excuse.attachment_path).toMatch(/^excuses\/\d+-doctor_note\.pdf$/);
+
+    const file = await excuseService.openAttachmentForAuthorizedUser(
+      professor.id,
+      "professor",
+      excuse.id,
+    );
+    expect(await readAll(file.body)).toBe("%PDF-1.4 signed\n%%EOF\n");
+
+    // Rows from before the storage backend hold an absolute path under uploads/excuses.
+    const legacyName = excuse.attachment_path!.split("/")[1];
+    await db
+      .update(excuse_requests)
+      .set({ attachment_path: `/srv/app/uploads/excuses/${legacyName}` })
+      .where(eq(excuse_requests.id, excuse.id));
+    const legacy = await excuseService.openAttachmentForAuthorizedUser(
+      student.id,
+      "student",
+      excuse.id,
+    );
+    expect(legacy.key).toBe(`excuses/${legacyName}`);
+    expect(await readAll(legacy.body)).toBe("%PDF-1.4 signed\n%%EOF\n");
+  });
+
+  it("keeps roster files per owner and purges expired uploads", async () => {
+    const { student, round } = await seedExcuseRound();
+    const saved = await rosterFileService.saveFile("owner-1", {
+      originalName: "group a.csv",
+      buffer: Buffer.from("username,name"),
+    });
+    expect(saved.originalName).toBe("group_a.csv");
+    expect(await rosterFileService.listFiles("owner-2")).toEqual([]);
+    await expect(rosterFileService.openFile("owner-2", saved.fileName)).rejects.toMatchObject({
+      status: 403,
+    });
+    const { file } = await rosterFileService.openFile("owner-1", saved.fileName);
+    expect(await readAll(file.body)).toBe("username,name");
+
+    const excuse = await excuseService.submitExcuse(student.id, {
+      roundId: round.id,
+      reason: "Family emergency",
+      attachment: {
+        originalName: "proof.png",
+        mimetype: "image/png",
+        buffer: Buffer.concat([
+          Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+          Buffer.from(`0000000d49484452${"00".repeat(17)}0000000049454e44ae426082`, "hex"),
+        ]),
+      },
+    });
+    await db
+      .update(excuse_requests)
+      .set({ status: "APPROVED", reviewed_at: "2024-01-01T00:00:00.000Z" })
+      .where(eq(excuse_requests.id, excuse.id));
+    await storage.put("excuses/1-orphan.pdf", Buffer.from("orphan"), "application/pdf");
+
+    const old = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    for (const key of ["excuses/1-orphan.pdf", `rosters/${saved.fileName}`]) {
+      fs.utimesSync(path.join(root, key), old, old);
+    }
+
+    expect(await purgeExpiredUploads()).toEqual({
+      excuseAttachments: 1,
+      orphanedAttachments: 1,
+      rosterFiles: 1,
+      quarantinedFiles: 0,
+    });
+    expect(await storage.list("rosters/")).toEqual([]);
+    expect(await storage.list("excuses/")).toEqual([]);
+    const [purged] = await db
+      .select()
+      .from(excuse_requests)
+      .where(eq(excuse_requests.id, excuse.id));
+    expect(purged).toMatchObject({ status: "APPROVED", attachment_path: null });
+  });
+});
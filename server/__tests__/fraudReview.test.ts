@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  course_staff,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { courseStaffService } from "../services/courseStaffService";
+import { fraudService } from "../services/fraudService";
+import { roundService } from "../services/roundService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(course_staff);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student" | "admin" | "ta", name: string) {
+  const suffix = `${name.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: name,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedSignal(type = "gps_cluster", severity = "low") {
+  const professor = await insertUser("professor", "Prof");
+  const student = await insertUser("student", "Student");
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: "CS-FRD",
+      name: "Fraud",
+      term: "Fall",
+    })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db.insert(enrollments).values({
+    student_id: student.id,
+    course_id: course.id,
+    group_id: group.id,
+  });
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+  const { round } = await roundService.createRound(session.id);
+  const [record] = await db
+    .insert(attendance_records)
+    .values({
+      round_id: round.id,
+      student_id: student.id,
+      status: "on_time",
+      recorded_at: new Date().toISOString(),
+    })
+    .returning();
+  const [signal] = await db
+    .insert(fraud_signals)
+    .values({
+      type,
+      severity,
+      session_id: session.id,
+      round_id: round.id,
+      student_id: student.id,
+      details_json: JSON.stringify({ withinSeconds: 120 }),
+    })
+    .returning();
+
+  return { professor, student, course, session, round, record, signal };
+}
+
+describe("fraud signal review", () => {
+  beforeEach(resetDb);
+
+  it("scopes and filters the queue for professors and admins", async () => {
+    const mine = await seedSignal("gps_cluster", "low");
+    const theirs = await seedSignal("multiple_device", "medium");
+    const admin = await insertUser("admin", "Admin");
+
+    const own = await fraudService.listSignals(mine.professor.id, "professor");
+    expect(own.map((signal) => signal.id)).toEqual([mine.signal.id]);
+    expect(own[0]).toMatchObject({
+      status: "open",
+      studentName: "Student",
+      courseCode: "CS-FRD",
+      roundNumber: 1,
+      details: { withinSeconds: 120 },
+    });
+
+    const all = await fraudService.listSignals(admin.id, "admin");
+    expect(all).toHaveLength(2);
+    const medium = await fraudService.listSignals(admin.id, "admin", {
+      severity: "medium",
+    });
+    expect(medium.map((signal) => signal.id)).toEqual([theirs.signal.id]);
+
+    await expect(
+      fraudService.resolveSignal(mine.professor.id, "professor", theirs.signal.id, {
+        resolution: "dismissed",
+      }),
+    ).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("dismisses once and audits the resolution", async () => {
+    const seed = await seedSignal();
+
+    const { signal } = await fraudService.resolveSignal(
+      seed.professor.id,
+      "professor",
+      seed.signal.id,
+      { resolution: "dismissed", note: "Shared lab table" },
+    );
+    expect(signal).toMatchObject({
+      status: "dismissed",
+      resolved_by: seed.professor.id,
+      resolution_note: "Shared lab table",
+    });
+
+    await expect(
+      fraudService.resolveSignal(seed.professor.id, "professor", seed.signal.id, {
+        resolution: "confirmed",
+      }),
+    ).rejects.toMatchObject({ status: 409 });
+
+    const [log] = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "fraud_signal_resolve"));
+    expect(log.entity_id).toBe(seed.signal.id);
+    expect(JSON.parse(log.before_json ?? "{}").status).toBe("open");
+    expect(JSON.parse(log.after_json ?? "{}").status).toBe("dismissed");
+  });
+
+  it("revokes the linked attendance record", async () => {
+    const seed = await seedSignal();
+
+    const { revokedRecord } = await fraudService.resolveSignal(
+      seed.professor.id,
+      "professor",
+      seed.signal.id,
+      { resolution: "attendance_revoked", note: "Friend scanned for them" },
+    );
+    expect(revokedRecord?.id).toBe(seed.record.id);
+
+    const [record] = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.id, seed.record.id));
+    expect(record.status).toBe("absent");
+
+    const actions = (await db.select().from(audit_logs)).map((log) => log.action);
+    expect(actions.sort()).toEqual(["attendance_revoke", "fraud_signal_resolve"]);
+  });
+
+  it("lets a report-only TA see signals but not resolve them", async () => {
+    const seed = await seedSignal();
+    const ta = await insertUser("ta", "TA");
+    await courseStaffService.addStaff(seed.professor.id, seed.course.id, {
+      username: ta.username,
+      permissions: ["view_reports"],
+    });
+
+    const listed = await fraudService.listSignals(ta.id, "ta", {});
+    expect(listed.map((signal) => signal.id)).toEqual([seed.signal.id]);
+    await expect(
+      fraudService.resolveSignal(ta.id, "ta", seed.signal.id, {
+        resolution: "attendance_revoked",
+      }),
+    ).rejects.toMatchObject({ status: 403 });
+
+    const [record] = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.id, seed.record.id));
+    expect(record.status).toBe("on_time");
+  });
+
+  it("lets only one of two concurrent reviews resolve the signal", async () => {
+    const seed = await seedSignal();
+
+    const results = await Promise.allSettled([
+      fraudService.resolveSignal(seed.professor.id, "professor", seed.signal.id, {
+        resolution: "confirmed",
+      }),
+      fraudService.resolveSignal(seed.professor.id, "professor", seed.signal.id, {
+        resolution: "attendance_revoked",
+      }),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ status: 409 });
+
+    const [signal] = await db
+      .select()
+      .from(fraud_signals)
+      .where(eq(fraud_signals.id, seed.signal.id));
+    expect(signal.status).toBe("confirmed");
+    const [record] = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.id, seed.record.id));
+    expect(record.status).not.toBe("absent");
+
+    const actions = (await db.select().from(audit_logs)).map((log) => log.action);
+    expect(actions).toEqual(["fraud_signal_resolve"]);
+  });
+});
@@ -150,6 +150,26 @@ describe("geofence validation", () => {
       ),
     ).rejects.toBeInstanceOf(ApiError);
   });
+
+  it("rejects coordinates that are not finite numbers", async () => {
+    const seed = await seedSession();
+    const { round, token } = await roundService.createRound(seed.session.id, {
+      geofenceEnabled: true,
+      latitude: 40.0,
+      longitude: -74.0,
+      geofenceRadiusM: 150,
+    });
+
+    await expect(
+      attendanceService.recordScan(seed.student.id, round.id, token.rawToken, {
+        latitude: Number.NaN,
+        longitude: Number.NaN,
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+
+    const rows = await db.select().from(attendance_records);
+    expect(rows).toHaveLength(0);
+  });
 });
 
 describe("excuse workflow", () => {
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket as WebSocketClient, type WebSocket } from "ws";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  kiosk_tokens,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { kioskService } from "../services/kioskService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+import {
+  emitSessionRefresh,
+  registerKioskSocket,
+  unregisterKioskSocket,
+} from "../websocket/manager";
+import { setupWebSocketServer } from "../websocket/server";
+
+// Kiosk sockets carry no login session, so the store behind the middleware is not needed.
+vi.mock("../middleware/session", () => ({
+  sessionMiddleware: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(kiosk_tokens);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+function fakeSocket() {
+  const messages: Array<{ event: string; payload: Record<string, unknown> }> = [];
+  const socket = {
+    readyState: 1,
+    send: vi.fn((raw: string) => messages.push(JSON.parse(raw))),
+  };
+  return { socket: socket as unknown as WebSocket, messages };
+}
+
+async function insertUser(role: "professor" | "student") {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedSession() {
+  const professor = await insertUser("professor");
+  const students = [await insertUser("student"), await insertUser("student")];
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "KSK101", name: "Kiosk", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db.insert(enrollments).values(
+    students.map((student) => ({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    })),
+  );
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+  return { professor, students, session };
+}
+
+describe("kioskService", () => {
+  const cleanups: Array<() => void> = [];
+
+  beforeEach(resetDb);
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+  });
+
+  it("serves the QR and counter to a view token and stops after revocation", async () => {
+    const seed = await seedSession();
+    await expect(
+      kioskService.createViewToken(seed.students[0].id, seed.session.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    const { token } = await kioskService.createViewToken(seed.professor.id, seed.session.id);
+    const [stored] = await db.select().from(kiosk_tokens);
+    expect(stored.token_hash).not.toBe(token);
+
+    const { socket, messages } = fakeSocket();
+    registerKioskSocket(seed.session.id, "test-token", socket);
+    cleanups.push(() => unregisterKioskSocket(seed.session.id, "test-token", socket));
+    const { round, token: qrToken } = await roundService.createRound(seed.session.id);
+    await attendanceService.recordScan(seed.students[0].id, round.id, qrToken.rawToken);
+    const rotations = messages
+      .filter((message) => message.event === "round:qr-updated")
+      .map((message) => message.payload);
+
+    const state = await kioskService.getKioskState(token);
+    expect(state.session).toMatchObject({ id: seed.session.id, isActive: true, courseCode: "KSK101" });
+    expect(state.round).toMatchObject({ id: round.id, roundNumber: 1 });
+    expect(JSON.parse(state.qr!.qrPayload)).toMatchObject({ roundId: round.id });
+    expect(state.qr).toEqual({
+      qrPayload: rotations.at(-1)?.qrPayload,
+      expiresAt: rotations.at(-1)?.expiresAt,
+    });
+    const tokenCount = (await db.select().from(qr_tokens)).length;
+    await kioskService.getKioskState(token);
+    await kioskService.getKioskState(token);
+    expect(await db.select().from(qr_tokens)).toHaveLength(tokenCount);
+    expect(state.counts).toEqual({ scanned: 1, enrolled: 2 });
+    expect(JSON.stringify(state)).not.toContain(seed.students[0].username);
+
+    await kioskService.revokeViewTokens(seed.professor.id, seed.session.id);
+    await expect(kioskService.getKioskState(token)).rejects.toMatchObject({
+      status: 401,
+      code: "invalid_kiosk_token",
+    });
+  });
+
+  it("rejects expired tokens", async () => {
+    const seed = await seedSession();
+    const { token } = await kioskService.createViewToken(seed.professor.id, seed.session.id);
+    await db
+      .update(kiosk_tokens)
+      .set({ expires_at: new Date(Date.now() - 1000).toISOString() })
+      .where(eq(kiosk_tokens.session_id, seed.session.id));
+
+    await expect(kioskService.resolveViewToken(token)).rejects.toMatchObject({ status: 401 });
+    await expect(kioskService.resolveViewToken("")).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("authenticates kiosk sockets from the first message instead of the URL", async () => {
+    const seed = await seedSession();
+    const { token } = await kioskService.createViewToken(seed.professor.id, seed.session.id);
+
+    const server = createServer();
+    setupWebSocketServer(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    cleanups.push(() => server.close());
+    const { port } = server.address() as AddressInfo;
+
+    const connect = (hello: unknown) => {
+      const client = new WebSocketClient(`ws://127.0.0.1:${port}/?channel=kiosk`);
+      cleanups.push(() => client.terminate());
+      client.once("open", () => client.send(JSON.stringify(hello)));
+      return client;
+    };
+
+    const rejected = connect({ token });
+    const closeCode = await new Promise<number>((resolve) =>
+      rejected.once("close", (code) => resolve(code)),
+    );
+    expect(closeCode).toBe(1008);
+
+    const accepted = connect({ type: "kiosk_auth", token });
+    const received: Array<{ event: string }> = [];
+    accepted.on("message", (data) => received.push(JSON.parse(data.toString())));
+    // Registration finishes after the token lookup, so keep nudging the channel until
+    // the socket hears it.
+    await vi.waitFor(() => {
+      emitSessionRefresh(seed.session.id, { sessionId: seed.session.id, reason: "ping" });
+      expect(received.map((message) => message.event)).toContain("session:refresh");
+    });
+  });
+
+  it("closes a connected kiosk socket when its token is revoked", async () => {
+    const seed = await seedSession();
+    const { token } = await kioskService.createViewToken(seed.professor.id, seed.session.id);
+
+    const server = createServer();
+    setupWebSocketServer(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    cleanups.push(() => server.close());
+    const { port } = server.address() as AddressInfo;
+
+    const client = new WebSocketClient(`ws://127.0.0.1:${port}/?channel=kiosk`);
+    cleanups.push(() => client.terminate());
+    client.once("open", () => client.send(JSON.stringify({ type: "kiosk_auth", token })));
+    const received: Array<{ event: string }> = [];
+    client.on("message", (data) => received.push(JSON.parse(data.toString())));
+    await vi.waitFor(() => {
+      emitSessionRefresh(seed.session.id, { sessionId: seed.session.id, reason: "ping" });
+      expect(received.map((message) => message.event)).toContain("session:refresh");
+    });
+
+    const closed = new Promise<number>((resolve) =>
+      client.once("close", (code) => resolve(code)),
+    );
+    await kioskService.revokeViewTokens(seed.professor.id, seed.session.id);
+    expect(await closed).toBe(1008);
+
+    received.length = 0;
+    await roundService.createRound(seed.session.id);
+    expect(received).toEqual([]);
+  });
+
+  it("pushes QR rotations and scan counts to kiosk sockets without student details", async () => {
+    const seed = await seedSession();
+    const { socket, messages } = fakeSocket();
+    registerKioskSocket(seed.session.id, "test-token", socket);
+    cleanups.push(() => unregisterKioskSocket(seed.session.id, "test-token", socket));
+
+    const { round, token } = await roundService.createRound(seed.session.id);
+    await attendanceService.recordScan(seed.students[0].id, round.id, token.rawToken);
+    await sessionService.endSession(seed.professor.id, seed.session.id);
+
+    const events = messages.map((message) => message.event);
+    expect(events).toContain("round:started");
+    expect(events).toContain("round:qr-updated");
+    expect(events).toContain("session:ended");
+    const scanRefresh = messages.find(
+      (message) =>
+        message.event === "session:refresh" && message.payload.reason === "scan_recorded",
+    );
+    expect(scanRefresh?.payload).toEqual({
+      sessionId: seed.session.id,
+      reason: "scan_recorded",
+      roundId: round.id,
+    });
+    expect(JSON.stringify(messages)).not.toContain(seed.students[0].id);
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+
+// The grace window is read when qrService loads, so set it before the imports run.
+vi.hoisted(() => {
+  process.env.QR_OFFLINE_GRACE_SECONDS = "3600";
+});
+
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { buildQrPayload, qrService } from "../services/qrService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+const MINUTE_MS = 60_000;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student") {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedSession() {
+  const professor = await insertUser("professor");
+  const student = await insertUser("student");
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "OFF101", name: "Offline", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db.insert(enrollments).values({
+    student_id: student.id,
+    course_id: course.id,
+    group_id: group.id,
+  });
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+  return { professor, student, session };
+}
+
+/** Issues a rotating code at the current (fake) time and returns what the scanner saw. */
+async function scanCode(roundId: string) {
+  const token = await qrService.generateToken(roundId);
+  const payload = JSON.parse(
+    buildQrPayload({
+      roundId,
+      token: token.rawToken,
+      issuedAt: token.issuedAt,
+      expiresAt: token.expiresAt.toISOString(),
+    }),
+  );
+  return {
+    token: token.rawToken,
+    capturedAt: new Date().toISOString(),
+    qrSignature: payload.signature as string,
+    qrIssuedAt: payload.issuedAt as string,
+    qrExpiresAt: payload.expiresAt as string,
+  };
+}
+
+describe("offline scan sync", () => {
+  const startedAt = Date.now();
+
+  beforeEach(async () => {
+    await resetDb();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(startedAt);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("times queued scans by their capture, not by when the queue synced", async () => {
+    const seed = await seedSession();
+    const { round } = await roundService.createRound(seed.session.id);
+
+    vi.setSystemTime(startedAt + 5 * MINUTE_MS);
+    const scan = await scanCode(round.id);
+
+    vi.setSystemTime(startedAt + 30 * MINUTE_MS);
+    const [result] = await attendanceService.syncOfflineScans(seed.student.id, [
+      { client_scan_id: "queued", roundId: round.id, ...scan },
+    ]);
+
+    expect(result).toMatchObject({ outcome: "recorded", status: "on_time" });
+  });
+
+  it("never times a scan before its code was issued", async () => {
+    const seed = await seedSession();
+    const { round } = await roundService.createRound(seed.session.id);
+
+    // Issued just past the 20 minute threshold; the claimed capture is within the
+    // allowed clock skew but before the code existed.
+    vi.setSystemTime(startedAt + 20 * MINUTE_MS + 10_000);
+    const scan = await scanCode(round.id);
+
+    vi.setSystemTime(startedAt + 30 * MINUTE_MS);
+    const [result] = await attendanceService.syncOfflineScans(seed.student.id, [
+      {
+        client_scan_id: "backdated",
+        roundId: round.id,
+        ...scan,
+        capturedAt: new Date(startedAt + 19 * MINUTE_MS + 50_000).toISOString(),
+      },
+    ]);
+
+    expect(result).toMatchObject({ outcome: "recorded", status: "late" });
+  });
+
+  it("accepts rounds that closed within the grace window and replaces the absent row", async () => {
+    const seed = await seedSession();
+    const { round } = await roundService.createRound(seed.session.id);
+
+    vi.setSystemTime(startedAt + 2 * MINUTE_MS);
+    const beforeClose = await scanCode(round.id);
+
+    vi.setSystemTime(startedAt + 10 * MINUTE_MS);
+    await sessionService.closeRound(seed.professor.id, seed.session.id, round.id);
+    const [absent] = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.round_id, round.id));
+    expect(absent.status).toBe("absent");
+
+    vi.setSystemTime(startedAt + 20 * MINUTE_MS);
+    const results = await attendanceService.syncOfflineScans(seed.student.id, [
+      {
+        client_scan_id: "after-close",
+        roundId: round.id,
+        ...beforeClose,
+        capturedAt: new Date(startedAt + 11 * MINUTE_MS).toISOString(),
+      },
+      { client_scan_id: "before-close", roundId: round.id, ...beforeClose },
+    ]);
+
+    expect(results.map((result) => [result.clientScanId, result.outcome])).toEqual([
+      ["before-close", "recorded"],
+      ["after-close", "duplicate"],
+    ]);
+    expect(results[0].status).toBe("on_time");
+    const rows = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.round_id, round.id));
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ status: "on_time", client_scan_id: "before-close" });
+  });
+
+  it("rejects scans captured after the round closed or synced past the grace window", async () => {
+    const seed = await seedSession();
+    const { round } = await roundService.createRound(seed.session.id);
+
+    vi.setSystemTime(startedAt + 2 * MINUTE_MS);
+    const scan = await scanCode(round.id);
+
+    vi.setSystemTime(startedAt + 10 * MINUTE_MS);
+    await sessionService.closeRound(seed.professor.id, seed.session.id, round.id);
+
+    vi.setSystemTime(startedAt + 20 * MINUTE_MS);
+    const [afterClose] = await attendanceService.syncOfflineScans(seed.student.id, [
+      {
+        client_scan_id: "after-close",
+        roundId: round.id,
+        ...scan,
+        capturedAt: new Date(startedAt + 11 * MINUTE_MS).toISOString(),
+      },
+    ]);
+    expect(afterClose).toMatchObject({ outcome: "expired", code: "round_not_active" });
+
+    vi.setSystemTime(startedAt + 90 * MINUTE_MS);
+    const [tooLate] = await attendanceService.syncOfflineScans(seed.student.id, [
+      { client_scan_id: "too-late", roundId: round.id, ...scan },
+    ]);
+    expect(tooLate).toMatchObject({ outcome: "expired", code: "round_not_active" });
+  });
+});
@@ -5,6 +5,8 @@ import {
   attendance_policy_history,
   course_policy_assignments,
   courses,
+  departments,
+  faculties,
   users,
   audit_logs,
   fraud_signals,
@@ -18,6 +20,8 @@ async function resetDb() {
   await db.delete(attendance_policy_history);
   await db.delete(attendance_policies);
   await db.delete(courses);
+  await db.delete(departments);
+  await db.delete(faculties);
   await db.delete(users);
 }
 
@@ -43,24 +47,29 @@ async function seedProfessorAndCourse() {
     })
     .returning();
 
-  return { professor, course };
+  const [faculty] = await db
+    .insert(faculties)
+    .values({ code: `F-${Date.now()}`, name: "Faculty" })
+    .returning();
+
+  return { professor, course, faculty };
 }
 
 describe("policyService.getActivePolicyForRound", () => {
   beforeEach(resetDb);
 
   it("falls back course -> faculty -> global", async () => {
-    const { professor, course } = await seedProfessorAndCourse();
+    const { course, faculty } = await seedProfessorAndCourse();
 
     const globalPolicy = await policyService.getActivePolicyForRound(
       course.id,
-      professor.id,
+      faculty.id,
     );
     expect(globalPolicy.rules.lateAfterMinutes.first_hour).toBe(20);
 
     const facultyPolicy = await policyService.createPolicy({
       scopeType: "faculty",
-      scopeId: professor.id,
+      scopeId: faculty.id,
       rules: {
         lateAfterMinutes: { first_hour: 15, break: 8 },
         graceMinutes: 0,
@@ -69,7 +78,7 @@ describe("policyService.getActivePolicyForRound", () => {
 
     const facultyResult = await policyService.getActivePolicyForRound(
       course.id,
-      professor.id,
+      faculty.id,
     );
     expect(facultyResult.id).toBe(facultyPolicy.id);
 
@@ -85,18 +94,18 @@ describe("policyService.getActivePolicyForRound", () => {
 
     const courseResult = await policyService.getActivePolicyForRound(
       course.id,
-      professor.id,
+      faculty.id,
     );
     expect(courseResult.id).toBe(coursePolicy.id);
     expect(courseResult.rules.lateAfterMinutes.first_hour).toBe(12);
   });
 
   it("selects the highest active version for a scope", async () => {
-    const { professor } = await seedProfessorAndCourse();
+    const { faculty } = await seedProfessorAndCourse();
 
     const v1 = await policyService.createPolicy({
       scopeType: "faculty",
-      scopeId: professor.id,
+      scopeId: faculty.id,
       rules: {
         lateAfterMinutes: { first_hour: 22, break: 11 },
         graceMinutes: 0,
@@ -105,14 +114,14 @@ describe("policyService.getActivePolicyForRound", () => {
 
     const v2 = await policyService.createPolicy({
       scopeType: "faculty",
-      scopeId: professor.id,
+      scopeId: faculty.id,
       rules: {
         lateAfterMinutes: { first_hour: 18, break: 9 },
         graceMinutes: 2,
       },
     });
 
-    const result = await policyService.getActivePolicyForRound(undefined, professor.id);
+    const result = await policyService.getActivePolicyForRound(undefined, faculty.id);
     expect(result.id).toBe(v2.id);
     expect(result.version).toBe(v2.version);
     expect(result.rules.lateAfterMinutes.first_hour).toBe(18);
@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { buildTotpQrPayload, qrService } from "../services/qrService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student") {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${role}-${suffix}@example.com`,
+      username: `${role}-${suffix}`,
+      display_name: `${role} ${suffix}`,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedRound() {
+  const professor = await insertUser("professor");
+  const students = [await insertUser("student"), await insertUser("student")];
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professor.id, code: "TOTP101", name: "Offline QR", term: "Fall" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db.insert(enrollments).values(
+    students.map((student) => ({
+      student_id: student.id,
+      course_id: course.id,
+      group_id: group.id,
+    })),
+  );
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+  const { round } = await roundService.createRound(session.id);
+  const { secret } = await qrService.getRoundSecret(round.id);
+  return { professor, students, session, round, secret };
+}
+
+function parsePayload(payload: string) {
+  return JSON.parse(payload) as {
+    roundId: string;
+    token: string;
+    issuedAt: string;
+    expiresAt: string;
+    signature: string;
+  };
+}
+
+describe("offline rotating QR codes", () => {
+  beforeEach(resetDb);
+
+  it("hands the round secret to the owning professor only and keeps it out of audit logs", async () => {
+    const seed = await seedRound();
+    expect(seed.round).not.toHaveProperty("qr_secret");
+
+    const detail = await sessionService.getSessionDetail(seed.professor.id, seed.session.id);
+    expect(detail.offlineQr).toEqual({
+      roundId: seed.round.id,
+      secret: seed.secret,
+      stepSeconds: expect.any(Number),
+    });
+    await expect(
+      sessionService.getSessionDetail(seed.students[0].id, seed.session.id),
+    ).rejects.toMatchObject({ status: 403 });
+
+    const closed = await sessionService.closeRound(
+      seed.professor.id,
+      seed.session.id,
+      seed.round.id,
+    );
+    expect(closed.round).not.toHaveProperty("qr_secret");
+
+    const logs = await db.select().from(audit_logs);
+    expect(logs.some((entry) => entry.action === "round_close")).toBe(true);
+    expect(JSON.stringify(logs)).not.toContain(seed.secret);
+  });
+
+  it("lets the whole room scan a projected code but blocks replay by the same student", async () => {
+    const seed = await seedRound();
+    const payload = parsePayload(buildTotpQrPayload({ roundId: seed.round.id, secret: seed.secret }));
+    const scan = (studentId: string) =>
+      attendanceService.recordScan(
+        studentId,
+        seed.round.id,
+        payload.token,
+        null,
+        null,
+        null,
+        null,
+        payload.signature,
+        payload.issuedAt,
+        payload.expiresAt,
+      );
+
+    await scan(seed.students[0].id);
+    await scan(seed.students[1].id);
+    const records = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.round_id, seed.round.id));
+    expect(records.map((record) => record.student_id).sort()).toEqual(
+      [seed.students[0].id, seed.students[1].id].sort(),
+    );
+    expect(records.every((record) => record.qr_token_id)).toBe(true);
+
+    await expect(
+      qrService.validateAndConsumeToken(seed.round.id, payload.token, {
+        studentId: seed.students[0].id,
+      }),
+    ).rejects.toMatchObject({ status: 409, code: "token_already_consumed" });
+  });
+
+  it("rejects forged, stale and tampered codes", async () => {
+    const seed = await seedRound();
+    const studentId = seed.students[0].id;
+    const current = parsePayload(buildTotpQrPayload({ roundId: seed.round.id, secret: seed.secret }));
+
+    const forged = parsePayload(
+      buildTotpQrPayload({ roundId: seed.round.id, secret: "not-the-round-secret" }),
+    );
+    await expect(
+      qrService.validateAndConsumeToken(seed.round.id, forged.token, { studentId }),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+
+    const stale = parsePayload(
+      buildTotpQrPayload({
+        roundId: seed.round.id,
+        secret: seed.secret,
+        at: new Date(Date.now() - 5 * 60_000),
+      }),
+    );
+    await expect(
+      qrService.validateAndConsumeToken(seed.round.id, stale.token, { studentId }),
+    ).rejects.toMatchObject({ code: "token_expired" });
+
+    await expect(
+      qrService.validateAndConsumeToken(seed.round.id, current.token, {
+        studentId,
+        qrSignature: forged.signature,
+      }),
+    ).rejects.toMatchObject({ code: "invalid_qr_signature" });
+
+    await db
+      .update(attendance_rounds)
+      .set({ qr_secret: "rotated" })
+      .where(eq(attendance_rounds.id, seed.round.id));
+    await expect(
+      qrService.validateAndConsumeToken(seed.round.id, current.token, { studentId }),
+    ).rejects.toMatchObject({ code: "invalid_token" });
+  });
+
+  it("accepts an offline capture when it is synced shortly after", async () => {
+    const seed = await seedRound();
+    const capturedAt = new Date(Date.now() - 20_000);
+    const payload = parsePayload(
+      buildTotpQrPayload({ roundId: seed.round.id, secret: seed.secret, at: capturedAt }),
+    );
+
+    const results = await attendanceService.syncOfflineScans(seed.students[0].id, [
+      {
+        client_scan_id: "offline-totp-1",
+        roundId: seed.round.id,
+        token: payload.token,
+        capturedAt: capturedAt.toISOString(),
+        qrSignature: payload.signature,
+        qrIssuedAt: payload.issuedAt,
+        qrExpiresAt: payload.expiresAt,
+      },
+    ]);
+    expect(results[0]).toMatchObject({ clientScanId: "offline-totp-1", outcome: "recorded" });
+  });
+});
@@ -0,0 +1,83 @@
+import { EventEmitter } from "events";
+import { describe, expect, it, vi } from "vitest";
+import type { Client } from "pg";
+import type { BrokerMessage } from "../websocket/broker";
+import { PostgresBroker } from "../websocket/postgresBroker";
+
+class FakePgClient extends EventEmitter {
+  queries: Array<{ text: string; values?: unknown[] }> = [];
+  lockAvailable = true;
+  connect = vi.fn(async () => {});
+  end = vi.fn(async () => {});
+
+  async query(text: string, values?: unknown[]) {
+    this.queries.push({ text, values });
+    if (text.startsWith("SELECT pg_notify")) {
+      // Postgres echoes the notification back to every listener, including the sender.
+      this.emit("notification", {
+        channel: values?.[0],
+        payload: values?.[1],
+      });
+    }
+    if (text.includes("pg_try_advisory_lock")) {
+      return { rows: [{ acquired: this.lockAvailable }] };
+    }
+    return { rows: [] };
+  }
+}
+
+function createBroker() {
+  const clients: FakePgClient[] = [];
+  const delivered: BrokerMessage[] = [];
+  const broker = new PostgresBroker(
+    () => {
+      const client = new FakePgClient();
+      clients.push(client);
+      return client as unknown as Client;
+    },
+    (message) => delivered.push(message),
+  );
+  return { broker, clients, delivered };
+}
+
+describe("PostgresBroker", () => {
+  it("listens on start and delivers published messages through NOTIFY", async () => {
+    const { broker, clients, delivered } = createBroker();
+    await broker.start();
+    expect(clients[0].queries[0].text).toBe("LISTEN atendo_realtime");
+
+    const message = {
+      channel: "session-1",
+      event: "round:closed",
+      payload: { sessionId: "session-1", roundId: "round-1", endedAt: "now" },
+    };
+    await broker.publish(message);
+
+    expect(delivered).toEqual([message]);
+    await broker.close();
+  });
+
+  it("holds leadership through an advisory lock until the connection drops", async () => {
+    const { broker, clients } = createBroker();
+
+    expect(await broker.tryAcquireLeadership("qr-rotation")).toBe(true);
+    expect(await broker.tryAcquireLeadership("qr-rotation")).toBe(true);
+    const lockQueries = clients[0].queries.filter((query) =>
+      query.text.includes("pg_try_advisory_lock"),
+    );
+    expect(lockQueries).toHaveLength(1);
+
+    vi.useFakeTimers();
+    try {
+      clients[0].emit("end");
+      await vi.advanceTimersByTimeAsync(2_000);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(clients).toHaveLength(2);
+    clients[1].lockAvailable = false;
+    expect(await broker.tryAcquireLeadership("qr-rotation")).toBe(false);
+    await broker.close();
+  });
+});
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { riskScoreService } from "../services/riskScoreService";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+async function insertUser(role: "professor" | "student", name: string) {
+  const suffix = `${name.toLowerCase()}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${suffix}@example.com`,
+      username: suffix,
+      display_name: name,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
+async function seedCourse(professorId: string, code: string) {
+  const [course] = await db
+    .insert(courses)
+    .values({ professor_id: professorId, code, name: code, term: "Spring" })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  const insertSession = async () => {
+    const [session] = await db
+      .insert(sessions)
+      .values({
+        group_id: group.id,
+        course_id: course.id,
+        professor_id: professorId,
+        starts_at: NOW.toISOString(),
+        is_active: false,
+        status: "ended",
+      })
+      .returning();
+    return session;
+  };
+  return { course, sessions: [await insertSession(), await insertSession()] };
+}
+
+async function insertSignal(params: {
+  sessionId: string;
+  studentId: string;
+  type: string;
+  severity: string;
+  daysAgo: number;
+  status?: string;
+}) {
+  await db.insert(fraud_signals).values({
+    type: params.type,
+    severity: params.severity,
+    session_id: params.sessionId,
+    student_id: params.studentId,
+    status: params.status ?? "open",
+    created_at: new Date(NOW.getTime() - params.daysAgo * DAY_MS).toISOString(),
+  });
+}
+
+describe("riskScoreService", () => {
+  beforeEach(resetDb);
+
+  it("weights severity and type and halves a signal's weight every 14 days", async () => {
+    const professor = await insertUser("professor", "Prof");
+    const student = await insertUser("student", "Student");
+    const {
+      course,
+      sessions: [first, second],
+    } = await seedCourse(professor.id, "CS-RSK");
+
+    await insertSignal({
+      sessionId: first.id,
+      studentId: student.id,
+      type: "multiple_device",
+      severity: "medium",
+      daysAgo: 0,
+    });
+    await insertSignal({
+      sessionId: second.id,
+      studentId: student.id,
+      type: "multiple_device",
+      severity: "medium",
+      daysAgo: 14,
+    });
+    await insertSignal({
+      sessionId: second.id,
+      studentId: student.id,
+      type: "gps_cluster",
+      severity: "low",
+      daysAgo: 0,
+      status: "dismissed",
+    });
+
+    const [score] = await riskScoreService.getCourseRiskScores(course.id, NOW);
+    // 3 (medium) * 2 (multiple_device) today, plus half of that from two weeks ago.
+    expect(score.score).toBe(9);
+    expect(score.signalCount).toBe(2);
+    expect(score.sessionCount).toBe(2);
+    expect(score.signalsByType).toEqual({ multiple_device: 2 });
+  });
+
+  it("ranks repeat offenders above one-off edge scans in owned courses only", async () => {
+    const professor = await insertUser("professor", "Prof");
+    const other = await insertUser("professor", "Other");
+    const repeat = await insertUser("student", "Repeat");
+    const oneOff = await insertUser("student", "OneOff");
+    const {
+      sessions: [first, second],
+    } = await seedCourse(professor.id, "CS-OWN");
+    const foreign = await seedCourse(other.id, "CS-FOR");
+
+    for (const session of [first, second]) {
+      await insertSignal({
+        sessionId: session.id,
+        studentId: repeat.id,
+        type: "gps_cluster",
+        severity: "low",
+        daysAgo: 1,
+      });
+      await insertSignal({
+        sessionId: session.id,
+        studentId: repeat.id,
+        type: "rapid_burst",
+        severity: "medium",
+        daysAgo: 1,
+      });
+    }
+    await insertSignal({
+      sessionId: first.id,
+      studentId: oneOff.id,
+      type: "edge_scan",
+      severity: "low",
+      daysAgo: 0,
+    });
+    await insertSignal({
+      sessionId: foreign.sessions[0].id,
+      studentId: oneOff.id,
+      type: "multiple_device",
+      severity: "high",
+      daysAgo: 0,
+    });
+
+    const ranked = await riskScoreService.listSuspiciousStudents(professor.id, {
+      minScore: 0,
+      now: NOW,
+    });
+    expect(ranked.map((row) => row.displayName)).toEqual(["Repeat", "OneOff"]);
+    expect(ranked[0]).toMatchObject({ courseCode: "CS-OWN", sessionCount: 2 });
+    expect(ranked[1].score).toBe(0.5);
+
+    const flagged = await riskScoreService.listSuspiciousStudents(professor.id, { now: NOW });
+    expect(flagged.map((row) => row.studentId)).toEqual([repeat.id]);
+
+    await expect(
+      riskScoreService.listSuspiciousStudents(professor.id, {
+        courseId: foreign.course.id,
+      }),
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
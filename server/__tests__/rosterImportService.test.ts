@@ -1,12 +1,13 @@
 import fs from "fs";
 import os from "os";
 import path from "path";
-import { beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { and, eq } from "drizzle-orm";
 import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
 import { db as runtimeDb } from "../db";
 import {
   account_credentials,
+  activation_tokens,
   attendance_records,
   attendance_rounds,
   audit_logs,
@@ -15,10 +16,13 @@ import {
   groups,
   qr_tokens,
   sessions,
+  student_profiles,
   users,
   fraud_signals,
 } from "@shared/schema";
+import { rosterFileService } from "../services/rosterFileService";
 import { rosterImportService } from "../services/rosterImportService";
+import { LocalDiskStorage, setFileStorage } from "../storage/fileStorage";
 
 type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
 const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
@@ -27,6 +31,7 @@ async function resetDb() {
   await db.delete(fraud_signals);
   await db.delete(audit_logs);
   await db.delete(account_credentials);
+  await db.delete(activation_tokens);
   await db.delete(attendance_records);
   await db.delete(qr_tokens);
   await db.delete(attendance_rounds);
@@ -34,9 +39,24 @@ async function resetDb() {
   await db.delete(enrollments);
   await db.delete(groups);
   await db.delete(courses);
+  await db.delete(student_profiles);
   await db.delete(users);
 }
 
+async function insertUser(role: "professor" | "student", username: string) {
+  const [user] = await db
+    .insert(users)
+    .values({
+      email: `${username}@example.com`,
+      username,
+      display_name: username,
+      password: "hashed",
+      role,
+    })
+    .returning();
+  return user;
+}
+
 describe("rosterImportService.provisionFromFile", () => {
   beforeEach(resetDb);
 
@@ -70,10 +90,7 @@ describe("rosterImportService.provisionFromFile", () => {
       })
       .returning();
 
-    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-roster-"));
-    const filePath = path.join(tempDir, "students.csv");
-    fs.writeFileSync(
-      filePath,
+    const content = Buffer.from(
       [
         "username\tFull Name",
         "040223029\tAmbra Boci",
@@ -82,33 +99,415 @@ describe("rosterImportService.provisionFromFile", () => {
       "utf8",
     );
 
-    try {
-      const result = await rosterImportService.provisionFromFile({
-        professorId: professor.id,
-        groupId: group.id,
-        filePath,
-      });
-
-      expect(result.created).toHaveLength(2);
-      expect(result.created.map((row) => row.username).sort()).toEqual([
-        "040223029",
-        "040223058",
-      ]);
-
-      const [first] = await db
-        .select()
-        .from(users)
-        .where(eq(users.username, "040223029"))
-        .limit(1);
-      expect(first.email).toBe("040223029@unyt.edu.al");
-
-      const enrollRows = await db
-        .select()
-        .from(enrollments)
-        .where(and(eq(enrollments.course_id, course.id), eq(enrollments.group_id, group.id)));
-      expect(enrollRows).toHaveLength(2);
-    } finally {
-      fs.rmSync(tempDir, { recursive: true, force: true });
+    const result = await rosterImportService.provisionFromFile({
+      professorId: professor.id,
+      groupId: group.id,
+      fileName: "students.csv",
+      content,
+    });
+
+    expect(result.created).toHaveLength(2);
+    expect(result.created.map((row) => row.username).sort()).toEqual([
+      "040223029",
+      "040223058",
+    ]);
+    for (const row of result.created) {
+      expect(row.activation?.code).toMatch(/^[0-9A-Z]{4}-[0-9A-Z]{4}-[0-9A-Z]{4}$/);
     }
+
+    const [first] = await db
+      .select()
+      .from(users)
+      .where(eq(users.username, "040223029"))
+      .limit(1);
+    expect(first.email).toBe("040223029@unyt.edu.al");
+
+    const enrollRows = await db
+      .select()
+      .from(enrollments)
+      .where(and(eq(enrollments.course_id, course.id), eq(enrollments.group_id, group.id)));
+    expect(enrollRows).toHaveLength(2);
+  });
+});
+
+describe("rosterImportService preview and confirm", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    await resetDb();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-roster-import-"));
+    setFileStorage(new LocalDiskStorage(root));
+  });
+
+  afterEach(() => {
+    setFileStorage(null);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  async function seed() {
+    const professor = await insertUser("professor", "prof-preview");
+    const [course] = await db
+      .insert(courses)
+      .values({ professor_id: professor.id, code: "CS-RI-2", name: "Preview", term: "Fall" })
+      .returning();
+    const [groupA, groupB] = await db
+      .insert(groups)
+      .values([
+        { course_id: course.id, name: "A" },
+        { course_id: course.id, name: "B" },
+      ])
+      .returning();
+    const inOtherGroup = await insertUser("student", "mover");
+    await db.insert(enrollments).values({
+      student_id: inOtherGroup.id,
+      course_id: course.id,
+      group_id: groupB.id,
+    });
+    const numbered = await insertUser("student", "numbered");
+    await db.insert(student_profiles).values({ user_id: numbered.id, student_number: "S-100" });
+    await insertUser("professor", "colleague");
+    return { professor, groupA, groupB, inOtherGroup, numbered };
+  }
+
+  async function upload(professorId: string, csv: string) {
+    const content = Buffer.from(csv, "utf8");
+    const stored = await rosterFileService.saveFile(professorId, {
+      originalName: "students.csv",
+      buffer: content,
+    });
+    return { fileName: stored.fileName, content };
+  }
+
+  it("previews creates, matches, moves and row errors without writing anything", async () => {
+    const { professor, groupA, groupB, inOtherGroup, numbered } = await seed();
+    const { fileName, content } = await upload(
+      professor.id,
+      [
+        "Matriculation Number,Student Name,Mail",
+        "S-200,Dea Hoxha,dea@example.edu",
+        "S-100,Numbered Student,",
+        ",Moving Student,mover@example.com",
+        ",,nobody@example.edu",
+        "S-300,Bad Mail,not-an-email",
+        "S-200,Dea Again,",
+        ",Colleague,colleague@example.com",
+      ].join("\n"),
+    );
+
+    const preview = await rosterImportService.previewFile({
+      professorId: professor.id,
+      fileName,
+      originalName: "students.csv",
+      content,
+      groupId: groupA.id,
+    });
+
+    expect(preview.mapping).toEqual({
+      hasHeader: true,
+      username: null,
+      displayName: 1,
+      email: 2,
+      studentNumber: 0,
+      group: null,
+    });
+    expect(preview.columns.map((column) => column.header)).toEqual([
+      "Matriculation Number",
+      "Student Name",
+      "Mail",
+    ]);
+    expect(preview.rows.map((row) => [row.rowNumber, row.action])).toEqual([
+      [2, "create"],
+      [3, "match"],
+      [4, "move"],
+      [5, "error"],
+      [6, "error"],
+      [7, "error"],
+      [8, "error"],
+    ]);
+    expect(preview.rows[0].username).toBe("dea");
+    expect(preview.rows[1].studentId).toBe(numbered.id);
+    expect(preview.rows[2]).toMatchObject({
+      studentId: inOtherGroup.id,
+      fromGroup: { id: groupB.id, name: "B" },
+    });
+    expect(preview.rows[3].errors).toContain("Full name is missing.");
+    expect(preview.rows[4].errors[0]).toMatch(/Invalid email/);
+    expect(preview.rows[5].errors).toContain("Duplicate of row 2.");
+    expect(preview.rows[6].errors[0]).toMatch(/non-student/);
+    expect(preview.summary).toEqual({ create: 1, match: 1, move: 1, error: 4, remove: 0 });
+
+    const students = await db.select().from(users).where(eq(users.role, "student"));
+    expect(students).toHaveLength(2);
+  });
+
+  it("applies a confirmed plan and refuses one that changed since the preview", async () => {
+    const { professor, groupA, inOtherGroup, numbered } = await seed();
+    const { fileName } = await upload(
+      professor.id,
+      [
+        "Dea Hoxha,dea@example.edu",
+        "Numbered Student,numbered@example.com",
+        "Moving Student,mover@example.com",
+      ].join("\n"),
+    );
+
+    const preview = await rosterImportService.previewStoredFile({
+      professorId: professor.id,
+      fileName,
+      groupId: groupA.id,
+      mapping: { hasHeader: false, displayName: 0, email: 1, username: null, studentNumber: null },
+    });
+    expect(preview.summary).toEqual({ create: 1, match: 1, move: 1, error: 0, remove: 0 });
+
+    // Someone moves the student in the meantime: the confirmed plan is stale.
+    await db
+      .update(enrollments)
+      .set({ group_id: groupA.id })
+      .where(eq(enrollments.student_id, inOtherGroup.id));
+    await expect(
+      rosterImportService.confirmImport({
+        professorId: professor.id,
+        fileName,
+        groupId: groupA.id,
+        mapping: preview.mapping,
+        planHash: preview.planHash,
+      }),
+    ).rejects.toMatchObject({ status: 409, code: "roster_plan_changed" });
+
+    const fresh = await rosterImportService.previewStoredFile({
+      professorId: professor.id,
+      fileName,
+      groupId: groupA.id,
+      mapping: preview.mapping,
+    });
+    const result = await rosterImportService.confirmImport({
+      professorId: professor.id,
+      fileName,
+      groupId: groupA.id,
+      mapping: fresh.mapping,
+      planHash: fresh.planHash,
+    });
+    expect(result.created.map((row) => [row.username, row.wasExisting])).toEqual([
+      ["dea", false],
+      ["numbered", true],
+      ["mover", true],
+    ]);
+
+    const enrolled = await db
+      .select()
+      .from(enrollments)
+      .where(eq(enrollments.group_id, groupA.id));
+    expect(enrolled.map((row) => row.student_id).sort()).toEqual(
+      [result.created[0].id, numbered.id, inOtherGroup.id].sort(),
+    );
+  });
+
+  it("stores student numbers and matches later imports by them", async () => {
+    const { professor } = await seed();
+    const first = await upload(professor.id, "name,student id\nDea Hoxha,S-555");
+    const created = await rosterImportService.provisionFromFile({
+      professorId: professor.id,
+      fileName: "students.csv",
+      content: first.content,
+    });
+    const [profile] = await db
+      .select()
+      .from(student_profiles)
+      .where(eq(student_profiles.user_id, created.created[0].id));
+    expect(profile.student_number).toBe("S-555");
+
+    const second = await upload(professor.id, "name,student id\nDea H.,S-555");
+    const preview = await rosterImportService.previewStoredFile({
+      professorId: professor.id,
+      fileName: second.fileName,
+    });
+    expect(preview.rows[0]).toMatchObject({
+      action: "match",
+      studentId: created.created[0].id,
+    });
+  });
+});
+
+describe("rosterImportService sync mode", () => {
+  let root: string;
+
+  beforeEach(async () => {
+    await resetDb();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-roster-sync-"));
+    setFileStorage(new LocalDiskStorage(root));
+  });
+
+  afterEach(() => {
+    setFileStorage(null);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  async function seedCourse() {
+    const professor = await insertUser("professor", "prof-sync");
+    const [course] = await db
+      .insert(courses)
+      .values({ professor_id: professor.id, code: "CS-RS-1", name: "Sync", term: "Fall" })
+      .returning();
+    const [groupA, groupB] = await db
+      .insert(groups)
+      .values([
+        { course_id: course.id, name: "A" },
+        { course_id: course.id, name: "B" },
+      ])
+      .returning();
+    const stays = await insertUser("student", "stays");
+    const switches = await insertUser("student", "switches");
+    const dropped = await insertUser("student", "dropped");
+    await db.insert(enrollments).values([
+      { student_id: stays.id, course_id: course.id, group_id: groupA.id },
+      { student_id: switches.id, course_id: course.id, group_id: groupA.id },
+      { student_id: dropped.id, course_id: course.id, group_id: groupB.id },
+    ]);
+    const [session] = await db
+      .insert(sessions)
+      .values({
+        group_id: groupB.id,
+        course_id: course.id,
+        professor_id: professor.id,
+        starts_at: new Date().toISOString(),
+        is_active: false,
+        status: "closed",
+      })
+      .returning();
+    const [round] = await db
+      .insert(attendance_rounds)
+      .values({ session_id: session.id, round_number: 1, is_active: false })
+      .returning();
+    await db
+      .insert(attendance_records)
+      .values({ round_id: round.id, student_id: dropped.id, status: "on_time" });
+    return { professor, course, groupA, groupB, stays, switches, dropped };
+  }
+
+  async function preview(
+    professorId: string,
+    csv: string,
+    scope: { groupId?: string; courseId?: string },
+  ) {
+    const content = Buffer.from(csv, "utf8");
+    const stored = await rosterFileService.saveFile(professorId, {
+      originalName: "registrar.csv",
+      buffer: content,
+    });
+    return rosterImportService.previewFile({
+      professorId,
+      fileName: stored.fileName,
+      originalName: "registrar.csv",
+      content,
+      mode: "sync",
+      ...scope,
+    });
+  }
+
+  it("fans a multi-group sheet out across the course, moving and unenrolling students", async () => {
+    const { professor, course, groupA, groupB, stays, switches, dropped } = await seedCourse();
+    const plan = await preview(
+      professor.id,
+      [
+        "username,name,group",
+        "stays,Stays Put,A",
+        "switches,Switches Group,b",
+        "newcomer,New Comer,B",
+      ].join("\n"),
+      { courseId: course.id },
+    );
+
+    expect(plan.mapping.group).toBe(2);
+    expect(plan.rows.map((row) => [row.username, row.action, row.group?.name])).toEqual([
+      ["stays", "match", "A"],
+      ["switches", "move", "B"],
+      ["newcomer", "create", "B"],
+    ]);
+    expect(plan.removals).toEqual([
+      expect.objectContaining({ studentId: dropped.id, group: { id: groupB.id, name: "B" } }),
+    ]);
+
+    const result = await rosterImportService.confirmImport({
+      professorId: professor.id,
+      fileName: plan.fileName,
+      courseId: course.id,
+      mode: "sync",
+      mapping: plan.mapping,
+      planHash: plan.planHash,
+    });
+    expect(result.removed.map((removal) => removal.studentId)).toEqual([dropped.id]);
+
+    const memberships = await db
+      .select({ studentId: enrollments.student_id, groupId: enrollments.group_id })
+      .from(enrollments)
+      .where(eq(enrollments.course_id, course.id));
+    const newcomer = result.created.find((row) => row.username === "newcomer")!;
+    expect(memberships.sort((a, b) => a.studentId.localeCompare(b.studentId))).toEqual(
+      [
+        { studentId: stays.id, groupId: groupA.id },
+        { studentId: switches.id, groupId: groupB.id },
+        { studentId: newcomer.id, groupId: groupB.id },
+      ].sort((a, b) => a.studentId.localeCompare(b.studentId)),
+    );
+
+    // Unenrolling keeps the account and its attendance history.
+    const [account] = await db.select().from(users).where(eq(users.id, dropped.id));
+    expect(account).toBeTruthy();
+    const history = await db
+      .select()
+      .from(attendance_records)
+      .where(eq(attendance_records.student_id, dropped.id));
+    expect(history).toHaveLength(1);
+
+    const [entry] = await db
+      .select()
+      .from(audit_logs)
+      .where(eq(audit_logs.action, "roster_sync"));
+    expect(entry.entity_id).toBe(course.id);
+    expect(JSON.parse(entry.after_json!).removed).toEqual([
+      expect.objectContaining({ studentId: dropped.id, groupId: groupB.id }),
+    ]);
+  });
+
+  it("syncs a single group without touching the others", async () => {
+    const { professor, groupA, stays, switches, dropped } = await seedCourse();
+    const plan = await preview(professor.id, "username,name\nstays,Stays Put", {
+      groupId: groupA.id,
+    });
+    expect(plan.removals.map((removal) => removal.studentId)).toEqual([switches.id]);
+
+    await rosterImportService.confirmImport({
+      professorId: professor.id,
+      fileName: plan.fileName,
+      groupId: groupA.id,
+      mode: "sync",
+      mapping: plan.mapping,
+      planHash: plan.planHash,
+    });
+    const remaining = await db.select({ studentId: enrollments.student_id }).from(enrollments);
+    expect(remaining.map((row) => row.studentId).sort()).toEqual([stays.id, dropped.id].sort());
+  });
+
+  it("refuses to sync a sheet with invalid rows or unknown groups", async () => {
+    const { professor, course } = await seedCourse();
+    const plan = await preview(
+      professor.id,
+      ["username,name,group", "stays,Stays Put,A", "switches,Switches Group,Z"].join("\n"),
+      { courseId: course.id },
+    );
+    expect(plan.rows[1].errors).toEqual(["Unknown group: Z"]);
+
+    await expect(
+      rosterImportService.confirmImport({
+        professorId: professor.id,
+        fileName: plan.fileName,
+        courseId: course.id,
+        mode: "sync",
+        mapping: plan.mapping,
+        planHash: plan.planHash,
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "roster_has_errors" });
+    const remaining = await db.select().from(enrollments);
+    expect(remaining).toHaveLength(3);
   });
 });
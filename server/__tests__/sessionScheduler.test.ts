@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  fraud_signals,
+  group_schedule_exceptions,
+  group_schedule_slots,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { scheduleService } from "../services/scheduleService";
+import { sessionService } from "../services/sessionService";
+import { runSessionSchedulerTick } from "../services/sessionSchedulerService";
+import { ApiError } from "../errors/apiError";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(group_schedule_exceptions);
+  await db.delete(group_schedule_slots);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+// Monday 19 October 2026, local time.
+const mondayAt = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+async function seedGroupWithSlot() {
+  const [professor] = await db
+    .insert(users)
+    .values({
+      email: `prof-${Date.now()}@example.com`,
+      username: `prof-${Date.now()}`,
+      display_name: "Prof",
+      password: "hashed",
+      role: "professor",
+    })
+    .returning();
+
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: "CS-SCH",
+      name: "Scheduled Course",
+      term: "Fall",
+    })
+    .returning();
+
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+
+  const [slot] = await db
+    .insert(group_schedule_slots)
+    .values({
+      group_id: group.id,
+      weekday: 1,
+      start_time: "10:00",
+      end_time: "11:00",
+      room: "B-204",
+      starts_on: "2026-10-01",
+      ends_on: "2026-12-31",
+    })
+    .returning();
+
+  return { professor, course, group, slot };
+}
+
+describe("session scheduler", () => {
+  beforeEach(resetDb);
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("generates sessions for matching weekdays and skips holiday exceptions", async () => {
+    const seed = await seedGroupWithSlot();
+    await db.insert(group_schedule_exceptions).values({
+      group_id: seed.group.id,
+      date: "2026-10-26",
+      reason: "Holiday",
+    });
+
+    const created = await scheduleService.generateUpcomingSessions(mondayAt(8));
+    expect(created).toBe(2);
+
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.group_id, seed.group.id))
+      .orderBy(sessions.starts_at);
+    expect(rows.map((row) => row.starts_at)).toEqual([
+      mondayAt(10).toISOString(),
+      new Date(2026, 10, 2, 10, 0).toISOString(),
+    ]);
+    expect(rows.every((row) => row.status === "scheduled" && !row.is_active)).toBe(true);
+    expect(rows[0].room).toBe("B-204");
+
+    expect(await scheduleService.generateUpcomingSessions(mondayAt(8))).toBe(0);
+  });
+
+  it("opens round 1 at the slot start and ends sessions left running past the slot", async () => {
+    const seed = await seedGroupWithSlot();
+
+    await runSessionSchedulerTick(mondayAt(10, 5));
+
+    const [opened] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.starts_at, mondayAt(10).toISOString()));
+    expect(opened.status).toBe("active");
+    expect(opened.is_active).toBe(true);
+    expect(opened.schedule_slot_id).toBe(seed.slot.id);
+
+    const rounds = await db
+      .select()
+      .from(attendance_rounds)
+      .where(eq(attendance_rounds.session_id, opened.id));
+    expect(rounds).toHaveLength(1);
+    expect(rounds[0].round_number).toBe(1);
+
+    await runSessionSchedulerTick(mondayAt(11, 5));
+
+    const [ended] = await db.select().from(sessions).where(eq(sessions.id, opened.id));
+    expect(ended.status).toBe("ended");
+    expect(ended.is_active).toBe(false);
+    const [closedRound] = await db
+      .select()
+      .from(attendance_rounds)
+      .where(eq(attendance_rounds.session_id, opened.id));
+    expect(closedRound.is_active).toBe(false);
+  });
+
+  it("never opens a cancelled session and only lets the owner cancel", async () => {
+    const seed = await seedGroupWithSlot();
+    await scheduleService.generateUpcomingSessions(mondayAt(8));
+    const [upcoming] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.starts_at, mondayAt(10).toISOString()));
+
+    const [otherProfessor] = await db
+      .insert(users)
+      .values({
+        email: `other-${Date.now()}@example.com`,
+        username: `other-${Date.now()}`,
+        display_name: "Other",
+        password: "hashed",
+        role: "professor",
+      })
+      .returning();
+    await expect(
+      sessionService.cancelScheduledSession(otherProfessor.id, upcoming.id),
+    ).rejects.toBeInstanceOf(ApiError);
+
+    await sessionService.cancelScheduledSession(seed.professor.id, upcoming.id, "Conference");
+    await runSessionSchedulerTick(mondayAt(10, 5));
+
+    const [row] = await db.select().from(sessions).where(eq(sessions.id, upcoming.id));
+    expect(row.status).toBe("cancelled");
+    expect(row.is_active).toBe(false);
+  });
+
+  it("reads slot times in the configured institution time zone", async () => {
+    vi.stubEnv("SCHEDULE_TIME_ZONE", "America/New_York");
+    const seed = await seedGroupWithSlot();
+    const [evening] = await db
+      .insert(group_schedule_slots)
+      .values({
+        group_id: seed.group.id,
+        weekday: 1,
+        start_time: "21:00",
+        end_time: "22:00",
+        starts_on: "2026-10-01",
+        ends_on: "2026-12-31",
+      })
+      .returning();
+
+    // 08:00 on Monday 19 October in New York; daylight saving time ends on 1 November.
+    await scheduleService.generateUpcomingSessions(new Date("2026-10-19T12:00:00Z"));
+    const startsAt = async (slotId: string) =>
+      (
+        await db
+          .select()
+          .from(sessions)
+          .where(eq(sessions.schedule_slot_id, slotId))
+          .orderBy(sessions.starts_at)
+      ).map((row) => row.starts_at);
+    expect(await startsAt(seed.slot.id)).toEqual([
+      "2026-10-19T14:00:00.000Z",
+      "2026-10-26T14:00:00.000Z",
+      "2026-11-02T15:00:00.000Z",
+    ]);
+
+    // 21:00 in New York is already Tuesday in UTC; the holiday still removes it.
+    await scheduleService.addException(seed.professor.id, seed.group.id, {
+      date: "2026-10-26",
+    });
+    expect(await startsAt(evening.id)).toEqual([
+      "2026-10-20T01:00:00.000Z",
+      "2026-11-03T02:00:00.000Z",
+    ]);
+  });
+
+  it("rejects slots whose end time is not after the start time", async () => {
+    const seed = await seedGroupWithSlot();
+
+    await expect(
+      scheduleService.addSlot(seed.professor.id, seed.group.id, {
+        weekday: 2,
+        startTime: "14:00",
+        endTime: "13:00",
+        startsOn: "2026-10-01",
+        endsOn: "2026-12-31",
+      }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
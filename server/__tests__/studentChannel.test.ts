@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  audit_logs,
+  courses,
+  enrollments,
+  excuse_requests,
+  fraud_signals,
+  groups,
+  qr_tokens,
+  sessions,
+  users,
+} from "@shared/schema";
+import { attendanceService } from "../services/attendanceService";
+import { excuseService } from "../services/excuseService";
+import { roundService } from "../services/roundService";
+import { sessionService } from "../services/sessionService";
+import { registerStudentSocket, unregisterStudentSocket } from "../websocket/manager";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+async function resetDb() {
+  await db.delete(fraud_signals);
+  await db.delete(audit_logs);
+  await db.delete(excuse_requests);
+  await db.delete(attendance_records);
+  await db.delete(qr_tokens);
+  await db.delete(attendance_rounds);
+  await db.delete(sessions);
+  await db.delete(enrollments);
+  await db.delete(groups);
+  await db.delete(courses);
+  await db.delete(users);
+}
+
+function fakeSocket() {
+  const messages: Array<{ event: string; payload: Record<string, unknown> }> = [];
+  const socket = {
+    readyState: 1,
+    send: vi.fn((raw: string) => messages.push(JSON.parse(raw))),
+  };
+  return { socket: socket as unknown as WebSocket, messages };
+}
+
+async function seedSession() {
+  const suffix = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [professor] = await db
+    .insert(users)
+    .values({
+      email: `prof-${suffix}@example.com`,
+      username: `prof-${suffix}`,
+      display_name: "Prof",
+      password: "hashed",
+      role: "professor",
+    })
+    .returning();
+  const [student] = await db
+    .insert(users)
+    .values({
+      email: `stud-${suffix}@example.com`,
+      username: `stud-${suffix}`,
+      display_name: "Student",
+      password: "hashed",
+      role: "student",
+    })
+    .returning();
+  const [course] = await db
+    .insert(courses)
+    .values({
+      professor_id: professor.id,
+      code: "CS-WS",
+      name: "Realtime",
+      term: "Fall",
+    })
+    .returning();
+  const [group] = await db
+    .insert(groups)
+    .values({ course_id: course.id, name: "G1" })
+    .returning();
+  await db.insert(enrollments).values({
+    student_id: student.id,
+    course_id: course.id,
+    group_id: group.id,
+  });
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      group_id: group.id,
+      course_id: course.id,
+      professor_id: professor.id,
+      starts_at: new Date().toISOString(),
+      is_active: true,
+      status: "active",
+    })
+    .returning();
+
+  return { professor, student, group, session };
+}
+
+describe("student websocket channel", () => {
+  const cleanups: Array<() => void> = [];
+
+  beforeEach(resetDb);
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+  });
+
+  it("pushes round lifecycle to enrolled groups without the QR token", async () => {
+    const seed = await seedSession();
+    const { socket, messages } = fakeSocket();
+    registerStudentSocket(seed.student.id, [seed.group.id], socket);
+    cleanups.push(() => unregisterStudentSocket(seed.student.id, [seed.group.id], socket));
+
+    const { round, token } = await roundService.createRound(seed.session.id);
+    await sessionService.closeRound(seed.professor.id, seed.session.id, round.id);
+    await sessionService.endSession(seed.professor.id, seed.session.id);
+
+    expect(messages.map((message) => message.event)).toEqual([
+      "round:started",
+      "round:closed",
+      "session:ended",
+    ]);
+    expect(messages[0].payload).toMatchObject({ roundId: round.id, roundNumber: 1 });
+    expect(JSON.stringify(messages)).not.toContain(token.rawToken);
+  });
+
+  it("sends scan confirmations and excuse reviews only to the student", async () => {
+    const seed = await seedSession();
+    const { socket, messages } = fakeSocket();
+    const other = fakeSocket();
+    registerStudentSocket(seed.student.id, [], socket);
+    registerStudentSocket("someone-else", [], other.socket);
+    cleanups.push(() => unregisterStudentSocket(seed.student.id, [], socket));
+    cleanups.push(() => unregisterStudentSocket("someone-else", [], other.socket));
+
+    const { round, token } = await roundService.createRound(seed.session.id);
+    await attendanceService.recordScan(seed.student.id, round.id, token.rawToken);
+
+    const excuse = await excuseService.submitExcuse(seed.student.id, {
+      roundId: round.id,
+      reason: "Arrived from the hospital",
+      category: "late",
+    });
+    await excuseService.reviewExcuse(seed.professor.id, excuse.id, "reject");
+
+    expect(messages.map((message) => message.event)).toEqual([
+      "scan:confirmed",
+      "excuse:reviewed",
+    ]);
+    expect(messages[0].payload).toMatchObject({ roundId: round.id, status: "on_time" });
+    expect(messages[1].payload).toMatchObject({ excuseId: excuse.id, status: "REJECTED" });
+    expect(other.messages).toHaveLength(0);
+  });
+});
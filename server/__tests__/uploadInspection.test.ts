@@ -0,0 +1,286 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { db as runtimeDb } from "../db";
+import { audit_logs } from "@shared/schema";
+import { uploadInspectionService } from "../services/uploadInspectionService";
+import { LocalDiskStorage, setFileStorage } from "../storage/fileStorage";
+import { sniffContentType, stripImageMetadata } from "../utils/fileSniffing";
+
+type SqliteTestDb = ReturnType<typeof drizzleSqlite>;
+const db: SqliteTestDb = runtimeDb as unknown as SqliteTestDb;
+
+const UPLOADER_ID = "student-1";
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([Buffer.from(type, "latin1"), data])));
+  return Buffer.concat([length, Buffer.from(type, "latin1"), data, crc]);
+}
+
+function jpegSegment(marker: number, data: Buffer) {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+function webpChunk(type: string, data: Buffer) {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, "latin1");
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+const GPS = Buffer.from("Exif\0\0GPSLatitude 41.3275 GPSLongitude 19.8187");
+
+const png = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  pngChunk("IHDR", Buffer.from("0000000100000001080200000000", "hex").subarray(0, 13)),
+  pngChunk("eXIf", GPS),
+  pngChunk("tEXt", Buffer.from("Author\0Student")),
+  pngChunk("IDAT", zlib.deflateSync(Buffer.from([0, 255, 0, 0]))),
+  pngChunk("IEND", Buffer.alloc(0)),
+]);
+
+const jpeg = Buffer.concat([
+  Buffer.from([0xff, 0xd8]),
+  jpegSegment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1")),
+  jpegSegment(0xe1, GPS),
+  jpegSegment(0xfe, Buffer.from("taken at home")),
+  jpegSegment(0xdb, Buffer.alloc(65, 1)),
+  jpegSegment(0xda, Buffer.from([1, 1, 0, 0, 63, 0])),
+  Buffer.from([0x12, 0x34, 0xff, 0x00, 0x56]),
+  Buffer.from([0xff, 0xd9]),
+]);
+
+function webp() {
+  const vp8x = Buffer.alloc(10);
+  vp8x[0] = 0x08 | 0x04;
+  const body = Buffer.concat([
+    webpChunk("VP8X", vp8x),
+    webpChunk("VP8L", Buffer.from([0x2f, 0, 0, 0, 0])),
+    webpChunk("EXIF", GPS),
+    webpChunk("XMP ", Buffer.from("<x:xmpmeta/>")),
+  ]);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+function pdf(objects: string, streams: Buffer[] = []) {
+  const parts = [Buffer.from(`%PDF-1.7\n1 0 obj\n${objects}\nendobj\n`, "latin1")];
+  streams.forEach((stream, index) => {
+    parts.push(
+      Buffer.from(`${index + 2} 0 obj\n<< /Type /ObjStm /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      zlib.deflateSync(stream),
+      Buffer.from("\nendstream\nendobj\n", "latin1"),
+    );
+  });
+  parts.push(Buffer.from("trailer\n<< /Root 1 0 R >>\n%%EOF\n", "latin1"));
+  return Buffer.concat(parts);
+}
+
+describe("file sniffing", () => {
+  it("detects types from content rather than the file name", () => {
+    expect(sniffContentType(png)).toBe("image/png");
+    expect(sniffContentType(jpeg)).toBe("image/jpeg");
+    expect(sniffContentType(webp())).toBe("image/webp");
+    expect(sniffContentType(pdf("<< /Type /Catalog >>"))).toBe("application/pdf");
+    expect(sniffContentType(Buffer.from("username,name\nst1,Ana\n"))).toBe("text/csv");
+    expect(sniffContentType(Buffer.from([0x4d, 0x5a, 0x90, 0x00]))).toBeNull();
+  });
+
+  it("rewrites images without their metadata", () => {
+    for (const [image, type] of [
+      [png, "image/png"],
+      [jpeg, "image/jpeg"],
+      [webp(), "image/webp"],
+    ] as const) {
+      const stripped = stripImageMetadata(image, type);
+      expect(stripped.includes("GPSLatitude")).toBe(false);
+      expect(sniffContentType(stripped)).toBe(type);
+    }
+    expect(stripImageMetadata(png, "image/png").includes("Author")).toBe(false);
+    expect(stripImageMetadata(jpeg, "image/jpeg").includes("JFIF")).toBe(true);
+    expect(stripImageMetadata(jpeg, "image/jpeg").includes("taken at home")).toBe(false);
+
+    const strippedWebp = stripImageMetadata(webp(), "image/webp");
+    expect(strippedWebp.readUInt32LE(4)).toBe(strippedWebp.length - 8);
+    expect(strippedWebp[20] & 0x0c).toBe(0);
+    expect(strippedWebp.includes("xmpmeta")).toBe(false);
+  });
+
+  it("drops data appended after the end of the image", () => {
+    const payload = Buffer.concat([Buffer.from("PK\x03\x04", "latin1"), Buffer.from("hidden")]);
+    for (const [image, type] of [
+      [png, "image/png"],
+      [jpeg, "image/jpeg"],
+      [webp(), "image/webp"],
+    ] as const) {
+      const clean = stripImageMetadata(image, type);
+      const stripped = stripImageMetadata(Buffer.concat([image, payload]), type);
+      expect(stripped.includes("hidden")).toBe(false);
+      expect(stripped.equals(clean)).toBe(true);
+    }
+    expect(stripImageMetadata(jpeg, "image/jpeg").subarray(-2)).toEqual(Buffer.from([0xff, 0xd9]));
+
+    // Progressive JPEGs carry several scans with tables between them.
+    const progressive = Buffer.concat([
+      jpeg.subarray(0, -2),
+      Buffer.from([0xff, 0xd0, 0x78]),
+      jpegSegment(0xc4, Buffer.alloc(20, 2)),
+      jpegSegment(0xda, Buffer.from([1, 1, 0, 0, 63, 0])),
+      Buffer.from([0x9a, 0xff, 0xff, 0xd9]),
+      payload,
+    ]);
+    const strippedProgressive = stripImageMetadata(progressive, "image/jpeg");
+    expect(strippedProgressive.includes("hidden")).toBe(false);
+    expect(strippedProgressive.includes(Buffer.from([0xff, 0xd0, 0x78, 0xff, 0xc4]))).toBe(true);
+    expect(strippedProgressive.subarray(-4)).toEqual(Buffer.from([0x9a, 0xff, 0xff, 0xd9]));
+  });
+});
+
+describe("upload inspection", () => {
+  let root: string;
+  let storage: LocalDiskStorage;
+
+  beforeEach(async () => {
+    await db.delete(audit_logs);
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "atendo-inspection-"));
+    storage = new LocalDiskStorage(root);
+    setFileStorage(storage);
+  });
+  afterEach(() => {
+    setFileStorage(null);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("accepts clean attachments and strips image metadata", async () => {
+    const cleanPdf = pdf("<< /Type /Catalog /Pages 2 0 R >>");
+    await expect(
+      uploadInspectionService.inspectAttachment(UPLOADER_ID, {
+        originalName: "note.pdf",
+        mimetype: "application/pdf",
+        buffer: cleanPdf,
+      }),
+    ).resolves.toEqual({ buffer: cleanPdf, contentType: "application/pdf" });
+
+    const photo = await uploadInspectionService.inspectAttachment(UPLOADER_ID, {
+      originalName: "photo.jpg",
+      mimetype: "image/jpg",
+      buffer: jpeg,
+    });
+    expect(photo.contentType).toBe("image/jpeg");
+    expect(photo.buffer.includes("GPSLatitude")).toBe(false);
+    expect(await storage.list("quarantine/")).toEqual([]);
+  });
+
+  it("rejects disguised files and PDFs with active content, quarantining them", async () => {
+    const attempts = [
+      {
+        upload: { originalName: "note.pdf", mimetype: "application/pdf", buffer: png },
+        rejection: { status: 400, code: "file_type_mismatch" },
+      },
+      {
+        upload: {
+          originalName: "setup.pdf",
+          mimetype: "application/pdf",
+          buffer: Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]),
+        },
+        rejection: { status: 415, code: "unsupported_file_type" },
+      },
+      {
+        upload: {
+          originalName: "note.pdf",
+          mimetype: "application/pdf",
+          buffer: pdf("<< /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>"),
+        },
+        rejection: { status: 422, code: "pdf_active_content" },
+      },
+      {
+        upload: {
+          originalName: "note.pdf",
+          mimetype: "application/pdf",
+          buffer: pdf("<< /OpenAction << /S /J#61vaScript >> >>"),
+        },
+        rejection: { status: 422, code: "pdf_active_content" },
+      },
+      {
+        upload: {
+          originalName: "note.pdf",
+          mimetype: "application/pdf",
+          buffer: pdf("<< /Type /Catalog >>", [Buffer.from("<< /S /Launch /F (cmd.exe) >>")]),
+        },
+        rejection: { status: 422, code: "pdf_active_content" },
+      },
+      {
+        upload: {
+          originalName: "note.pdf",
+          mimetype: "application/pdf",
+          buffer: Buffer.from("%PDF-1.7\n1 0 obj\n<< /Type /Catalog"),
+        },
+        rejection: { status: 422, code: "malformed_file" },
+      },
+      {
+        upload: { originalName: "scan.png", mimetype: "image/png", buffer: png.subarray(0, 40) },
+        rejection: { status: 422, code: "malformed_file" },
+      },
+    ];
+
+    for (const attempt of attempts) {
+      await expect(
+        uploadInspectionService.inspectAttachment(UPLOADER_ID, attempt.upload),
+      ).rejects.toMatchObject(attempt.rejection);
+    }
+
+    expect(await storage.list("quarantine/")).toHaveLength(attempts.length);
+    const entries = await db.select().from(audit_logs);
+    expect(entries).toHaveLength(attempts.length);
+    expect(entries[0]).toMatchObject({
+      actor_id: UPLOADER_ID,
+      action: "upload_quarantined",
+      entity_type: "upload",
+    });
+    expect(JSON.parse(entries[0].after_json!)).toMatchObject({
+      source: "excuse_attachment",
+      declaredType: "application/pdf",
+      detectedType: "image/png",
+      code: "file_type_mismatch",
+    });
+  });
+
+  it("checks roster sheets against their extension", async () => {
+    await expect(
+      uploadInspectionService.inspectRosterFile("professor-1", {
+        originalName: "group.csv",
+        buffer: Buffer.from("username,name\n"),
+      }),
+    ).resolves.toMatchObject({ contentType: "text/csv" });
+
+    await expect(
+      uploadInspectionService.inspectRosterFile("professor-1", {
+        originalName: "group.xlsx",
+        buffer: Buffer.from("username,name\n"),
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "file_type_mismatch" });
+
+    const macroWorkbook = Buffer.concat([
+      Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+      Buffer.from("xl/vbaProject.bin"),
+    ]);
+    await expect(
+      uploadInspectionService.inspectRosterFile("professor-1", {
+        originalName: "group.xlsx",
+        buffer: macroWorkbook,
+      }),
+    ).rejects.toMatchObject({ status: 422, code: "spreadsheet_macros" });
+    expect(await storage.list("quarantine/")).toHaveLength(2);
+  });
+});
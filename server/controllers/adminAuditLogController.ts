@@ -0,0 +1,55 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { auditService, type AuditLogFilters } from "../services/auditService";
+
+function queryString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseFilters(query: Request["query"]): AuditLogFilters {
+  return {
+    actorId: queryString(query.actorId),
+    action: queryString(query.action),
+    entityType: queryString(query.entityType),
+    entityId: queryString(query.entityId),
+    from: queryString(query.from),
+    to: queryString(query.to),
+  };
+}
+
+export const adminAuditLogController = {
+  async list(req: Request, res: Response, next: NextFunction) {
+    try {
+      const limit = queryString(req.query.limit);
+      const result = await auditService.listLogs(parseFilters(req.query), {
+        cursor: queryString(req.query.cursor),
+        limit: limit === undefined ? undefined : Number(limit),
+      });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async verify(_req: Request, res: Response, next: NextFunction) {
+    try {
+      const report = await auditService.verifyChain();
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async export(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { fileName, contentType, body } = await auditService.exportLogs(
+        parseFilters(req.query),
+        queryString(req.query.format) ?? "csv",
+      );
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.status(200).send(body);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
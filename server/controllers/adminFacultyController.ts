@@ -0,0 +1,141 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { facultyService } from "../services/facultyService";
+
+export const adminFacultyController = {
+  async list(_req: Request, res: Response, next: NextFunction) {
+    try {
+      const faculties = await facultyService.listFaculties();
+      res.json({ faculties });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async create(req: Request, res: Response, next: NextFunction) {
+    try {
+      const faculty = await facultyService.createFaculty(req.user!.id, {
+        code: req.body?.code,
+        name: req.body?.name,
+      });
+      res.status(201).json({ faculty });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async update(req: Request, res: Response, next: NextFunction) {
+    try {
+      const faculty = await facultyService.updateFaculty(req.user!.id, req.params.facultyId, {
+        code: req.body?.code,
+        name: req.body?.name,
+      });
+      res.json({ faculty });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async remove(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await facultyService.deleteFaculty(req.user!.id, req.params.facultyId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async createDepartment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const department = await facultyService.createDepartment(
+        req.user!.id,
+        req.params.facultyId,
+        { code: req.body?.code, name: req.body?.name },
+      );
+      res.status(201).json({ department });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async updateDepartment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const department = await facultyService.updateDepartment(
+        req.user!.id,
+        req.params.departmentId,
+        { code: req.body?.code, name: req.body?.name, facultyId: req.body?.facultyId },
+      );
+      res.json({ department });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async removeDepartment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await facultyService.deleteDepartment(
+        req.user!.id,
+        req.params.departmentId,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async listCourses(_req: Request, res: Response, next: NextFunction) {
+    try {
+      const courses = await facultyService.listCourses();
+      res.json({ courses });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async assignCourse(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await facultyService.assignCourse(
+        req.user!.id,
+        req.params.courseId,
+        req.body?.departmentId,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async assignProfessor(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await facultyService.assignProfessor(
+        req.user!.id,
+        req.params.professorId,
+        req.body?.departmentId,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async report(req: Request, res: Response, next: NextFunction) {
+    try {
+      const report = await facultyService.getFacultyReport(req.params.facultyId);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async exportReport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { fileName, csv } = await facultyService.exportFacultyReportCsv(
+        req.params.facultyId,
+      );
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.status(200).send(csv);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -1,5 +1,22 @@
 import { Request, Response, NextFunction } from "express";
-import { attendanceService } from "../services/attendanceService";
+import {
+  attendanceService,
+  MAX_OFFLINE_BATCH_SIZE,
+} from "../services/attendanceService";
+import { ApiError } from "../errors/apiError";
+
+// Coordinates must be finite numbers: NaN would compare false against the geofence
+// radius and let the scan through.
+function optionalCoordinate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const parsed = typeof value === "number" || typeof value === "string" ? Number(value) : NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new ApiError(400, `${field} must be a finite number.`);
+  }
+  return parsed;
+}
 
 export const attendanceController = {
   async scan(req: Request, res: Response, next: NextFunction) {
@@ -20,17 +37,14 @@ export const attendanceController = {
       if (typeof token !== "string" || token.trim() === "") {
         return res.status(400).json({ message: "Token is required" });
       }
+      const lat = optionalCoordinate(latitude, "latitude");
+      const lng = optionalCoordinate(longitude, "longitude");
 
       const result = await attendanceService.recordScan(
         req.user!.id,
         roundId,
         token,
-        latitude !== undefined && longitude !== undefined
-          ? {
-              latitude: Number(latitude),
-              longitude: Number(longitude),
-            }
-          : null,
+        lat !== null && lng !== null ? { latitude: lat, longitude: lng } : null,
         typeof deviceFingerprint === "string" && deviceFingerprint.length > 0
           ? deviceFingerprint
           : null,
@@ -57,6 +71,24 @@ export const attendanceController = {
     }
   },
 
+  async syncOfflineScans(req: Request, res: Response, next: NextFunction) {
+    try {
+      // Only the envelope is checked here; bad items get their own rejected outcome.
+      if (!Array.isArray(req.body?.scans)) {
+        return res.status(400).json({ message: "scans must be an array" });
+      }
+      if (req.body.scans.length > MAX_OFFLINE_BATCH_SIZE) {
+        return res.status(400).json({
+          message: `At most ${MAX_OFFLINE_BATCH_SIZE} scans can be synced at once.`,
+        });
+      }
+      const results = await attendanceService.syncOfflineScans(req.user!.id, req.body.scans);
+      res.json({ results });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   async getMyAttendance(req: Request, res: Response, next: NextFunction) {
     try {
       const stats = await attendanceService.getMyAttendance(req.user!.id);
@@ -0,0 +1,52 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { courseStaffService } from "../services/courseStaffService";
+
+export const courseStaffController = {
+  async list(req: Request, res: Response, next: NextFunction) {
+    try {
+      const staff = await courseStaffService.listStaff(req.user!.id, req.params.courseId);
+      res.json({ staff });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async add(req: Request, res: Response, next: NextFunction) {
+    try {
+      const member = await courseStaffService.addStaff(req.user!.id, req.params.courseId, {
+        username: req.body?.username,
+        permissions: req.body?.permissions,
+      });
+      res.status(201).json(member);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async update(req: Request, res: Response, next: NextFunction) {
+    try {
+      const member = await courseStaffService.updateStaff(
+        req.user!.id,
+        req.params.courseId,
+        req.params.staffId,
+        req.body?.permissions,
+      );
+      res.json(member);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async remove(req: Request, res: Response, next: NextFunction) {
+    try {
+      await courseStaffService.removeStaff(
+        req.user!.id,
+        req.params.courseId,
+        req.params.staffId,
+      );
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -1,19 +1,24 @@
 import { type NextFunction, type Request, type Response } from "express";
 import { excuseService } from "../services/excuseService";
-import { excuseUploadDir } from "../middleware/uploads";
-import path from "path";
-import fs from "fs";
+import { ALLOWED_MIME } from "../middleware/uploads";
+import { sendStoredFile } from "../storage/fileStorage";
 
 export const excuseController = {
   async submit(req: Request, res: Response, next: NextFunction) {
     try {
       const { attendanceRoundId, reason, category } = req.body;
-      const attachmentPath = (req as any).file?.path ?? null;
+      const uploaded = (req as any).file as Express.Multer.File | undefined;
       const excuse = await excuseService.submitExcuse(req.user!.id, {
         roundId: attendanceRoundId,
         reason,
         category,
-        attachmentPath,
+        attachment: uploaded
+          ? {
+              originalName: uploaded.originalname,
+              mimetype: uploaded.mimetype,
+              buffer: uploaded.buffer,
+            }
+          : null,
       });
       res.status(201).json(excuse);
     } catch (error) {
@@ -75,16 +80,16 @@ export const excuseController = {
 
   async downloadAttachment(req: Request, res: Response, next: NextFunction) {
     try {
-      const filePath = await excuseService.getAttachmentPathForAuthorizedUser(
+      const file = await excuseService.openAttachmentForAuthorizedUser(
         req.user!.id,
         req.user!.role,
         req.params.excuseId,
       );
-      const resolved = path.resolve(filePath.startsWith("/") ? filePath : path.join(excuseUploadDir, path.basename(filePath)));
-      if (!fs.existsSync(resolved)) {
-        return res.status(404).json({ message: "File not found" });
-      }
-      res.sendFile(resolved);
+      await sendStoredFile(res, file, {
+        fileName: file.key.split("/").pop() ?? "attachment",
+        allowedTypes: ALLOWED_MIME,
+        inline: true,
+      });
     } catch (error) {
       next(error);
     }
@@ -0,0 +1,41 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { fraudService } from "../services/fraudService";
+
+function queryString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export const fraudSignalController = {
+  async list(req: Request, res: Response, next: NextFunction) {
+    try {
+      const signals = await fraudService.listSignals(req.user!.id, req.user!.role, {
+        type: queryString(req.query.type),
+        severity: queryString(req.query.severity),
+        sessionId: queryString(req.query.sessionId),
+        studentId: queryString(req.query.studentId),
+        status: queryString(req.query.status),
+      });
+      res.json({ signals });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async resolve(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await fraudService.resolveSignal(
+        req.user!.id,
+        req.user!.role,
+        req.params.signalId,
+        {
+          resolution: req.body?.resolution,
+          note: req.body?.note,
+          roundId: req.body?.roundId,
+        },
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import { type NextFunction, type Request, type Response } from "express";
+import { kioskService } from "../services/kioskService";
+
+// Kiosk screens send their view token as a bearer token, never in the URL path,
+// so it does not end up in request logs.
+function bearerToken(req: Request) {
+  const header = req.headers.authorization;
+  if (typeof header !== "string" || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+export const kioskController = {
+  async createToken(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await kioskService.createViewToken(req.user!.id, req.params.sessionId);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async revokeTokens(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await kioskService.revokeViewTokens(req.user!.id, req.params.sessionId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async getState(req: Request, res: Response, next: NextFunction) {
+    try {
+      const state = await kioskService.getKioskState(bearerToken(req));
+      res.json(state);
+    } catch (error) {
+      next(error);
+    }
+  },
+};
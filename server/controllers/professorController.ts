@@ -4,14 +4,36 @@ import { courseService } from "../services/courseService";
 import { sessionService } from "../services/sessionService";
 import { authService } from "../services/authService";
 import { excuseService } from "../services/excuseService";
-import { professorRosterUploadDir } from "../middleware/uploads";
-import { rosterImportService } from "../services/rosterImportService";
+import { ALLOWED_ROSTER_MIME } from "../middleware/uploads";
+import { sendStoredFile } from "../storage/fileStorage";
+import { rosterFileService } from "../services/rosterFileService";
+import {
+  rosterImportService,
+  type RosterImportMode,
+} from "../services/rosterImportService";
 import { professorAccountService } from "../services/professorAccountService";
 import { buildFallbackStudentEmail } from "../utils/studentEmail";
 import { accountCredentialService } from "../services/accountCredentialService";
+import { activationService, type IssuedActivation } from "../services/activationService";
+import { activationSlipService } from "../services/activationSlipService";
+import { absenceService } from "../services/absenceService";
+import { riskScoreService } from "../services/riskScoreService";
+import { scheduleService } from "../services/scheduleService";
+import { attendanceOverrideService } from "../services/attendanceOverrideService";
 import { userRepository } from "../repositories/userRepository";
-import fs from "fs";
-import path from "path";
+
+function optionalId(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Multipart and JSON bodies alike: a group, or a whole course placed by its group column.
+function parseRosterImportScope(body: Record<string, unknown> | undefined) {
+  return {
+    groupId: optionalId(body?.groupId),
+    courseId: optionalId(body?.courseId),
+    mode: (optionalId(body?.mode) ?? "add") as RosterImportMode,
+  };
+}
 
 export const professorController = {
   async listCourses(req: Request, res: Response, next: NextFunction) {
@@ -160,6 +182,55 @@ export const professorController = {
     }
   },
 
+  async listRoundRecords(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { sessionId, roundId } = req.params;
+      const result = await attendanceOverrideService.listRoundRecords(
+        req.user!.id,
+        sessionId,
+        roundId,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async setRoundRecord(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { sessionId, roundId, studentId } = req.params;
+      const record = await attendanceOverrideService.setRecord(
+        req.user!.id,
+        sessionId,
+        roundId,
+        studentId,
+        {
+          status: req.body?.status,
+          reason: req.body?.reason,
+        },
+      );
+      res.json({ record });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async revokeRoundRecord(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { sessionId, roundId, studentId } = req.params;
+      const result = await attendanceOverrideService.revokeRecord(
+        req.user!.id,
+        sessionId,
+        roundId,
+        studentId,
+        req.body?.reason,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
   async endSession(req: Request, res: Response, next: NextFunction) {
     try {
       const { sessionId } = req.params;
@@ -170,6 +241,94 @@ export const professorController = {
     }
   },
 
+  async listUpcomingSessions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const sessions = await sessionService.listUpcomingSessions(req.user!.id);
+      res.json({ sessions });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async cancelSession(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { sessionId } = req.params;
+      const session = await sessionService.cancelScheduledSession(
+        req.user!.id,
+        sessionId,
+        typeof req.body?.reason === "string" ? req.body.reason : null,
+      );
+      res.status(200).json({ session });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async getGroupSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const schedule = await scheduleService.getGroupSchedule(
+        req.user!.id,
+        req.params.groupId,
+      );
+      res.json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async addScheduleSlot(req: Request, res: Response, next: NextFunction) {
+    try {
+      const slot = await scheduleService.addSlot(req.user!.id, req.params.groupId, {
+        weekday: Number(req.body?.weekday),
+        startTime: String(req.body?.startTime ?? ""),
+        endTime: String(req.body?.endTime ?? ""),
+        room: typeof req.body?.room === "string" ? req.body.room : null,
+        startsOn: String(req.body?.startsOn ?? ""),
+        endsOn: String(req.body?.endsOn ?? ""),
+      });
+      res.status(201).json({ slot });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async removeScheduleSlot(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await scheduleService.removeSlot(req.user!.id, req.params.slotId);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async addScheduleException(req: Request, res: Response, next: NextFunction) {
+    try {
+      const exception = await scheduleService.addException(
+        req.user!.id,
+        req.params.groupId,
+        {
+          date: String(req.body?.date ?? ""),
+          reason: typeof req.body?.reason === "string" ? req.body.reason : null,
+        },
+      );
+      res.status(201).json({ exception });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async removeScheduleException(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await scheduleService.removeException(
+        req.user!.id,
+        req.params.exceptionId,
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+
   async getSessionStats(req: Request, res: Response, next: NextFunction) {
     try {
       const { sessionId } = req.params;
@@ -201,8 +360,8 @@ export const professorController = {
         throw new ApiError(400, "Username, display name, and role are required.");
       }
 
-      if (role !== "student" && role !== "professor") {
-        throw new ApiError(400, "Role must be student or professor.");
+      if (role !== "student" && role !== "professor" && role !== "ta") {
+        throw new ApiError(400, "Role must be student, ta or professor.");
       }
 
       const normalizedUsername = String(username).trim();
@@ -213,19 +372,20 @@ export const professorController = {
           : role === "student"
             ? buildFallbackStudentEmail(normalizedUsername)
             : "";
-      const normalizedPassword =
-        typeof password === "string" && password.trim()
-          ? password.trim()
-          : role === "student"
-            ? authService.STANDARD_TEMP_PASSWORD
-            : "";
+      const explicitPassword =
+        typeof password === "string" && password.trim() ? password.trim() : "";
+      // Students without a password get an activation code and choose their own.
+      const awaitsActivation = role === "student" && !explicitPassword;
+      const normalizedPassword = awaitsActivation
+        ? activationService.placeholderPassword()
+        : explicitPassword;
 
       if (!normalizedEmail) {
-        throw new ApiError(400, "Email is required for professor accounts.");
+        throw new ApiError(400, "Email is required for professor and TA accounts.");
       }
 
       if (!normalizedPassword) {
-        throw new ApiError(400, "Password is required for professor accounts.");
+        throw new ApiError(400, "Password is required for professor and TA accounts.");
       }
 
       const existingByUsername = await userRepository.findByUsername(
@@ -257,9 +417,12 @@ export const professorController = {
         password: normalizedPassword,
         role,
         created_by_professor_id: role === "student" ? req.user!.id : undefined,
-        must_change_password: role === "student",
+        must_change_password: role === "student" && !awaitsActivation,
       });
-      if (role === "student") {
+      let activation: IssuedActivation | undefined;
+      if (awaitsActivation) {
+        activation = await activationService.issueToken(req.user!.id, user.id, "manual_create");
+      } else if (role === "student") {
         await accountCredentialService.recordCredential(
           req.user!.id,
           user.id,
@@ -274,6 +437,7 @@ export const professorController = {
         username: user.username,
         display_name: user.display_name,
         role: user.role,
+        ...(activation ? { activation } : {}),
       });
     } catch (error) {
       next(error);
@@ -441,33 +605,77 @@ export const professorController = {
       if (!uploaded) {
         throw new ApiError(400, "Roster file is required.");
       }
-      res.status(201).json({
-        fileName: uploaded.filename,
+      const stored = await rosterFileService.saveFile(req.user!.id, {
         originalName: uploaded.originalname,
-        uploadedAt: new Date().toISOString(),
-        size: uploaded.size,
+        buffer: uploaded.buffer,
       });
+      res.status(201).json(stored);
     } catch (error) {
       next(error);
     }
   },
 
-  async importRosterAccounts(req: Request, res: Response, next: NextFunction) {
+  async previewRosterImport(req: Request, res: Response, next: NextFunction) {
     try {
       const uploaded = (req as any).file as Express.Multer.File | undefined;
-      if (!uploaded) {
+      const { groupId, courseId, mode } = parseRosterImportScope(req.body);
+      const mapping = req.body?.mapping;
+
+      if (uploaded) {
+        const stored = await rosterFileService.saveFile(req.user!.id, {
+          originalName: uploaded.originalname,
+          buffer: uploaded.buffer,
+        });
+        const preview = await rosterImportService.previewFile({
+          professorId: req.user!.id,
+          fileName: stored.fileName,
+          originalName: stored.originalName,
+          content: uploaded.buffer,
+          groupId,
+          courseId,
+          mode,
+          mapping,
+        });
+        res.status(201).json(preview);
+        return;
+      }
+
+      if (typeof req.body?.fileName !== "string" || !req.body.fileName) {
         throw new ApiError(400, "Roster file is required.");
       }
+      const preview = await rosterImportService.previewStoredFile({
+        professorId: req.user!.id,
+        fileName: req.body.fileName,
+        groupId,
+        courseId,
+        mode,
+        mapping,
+      });
+      res.json(preview);
+    } catch (error) {
+      next(error);
+    }
+  },
 
-      const groupId =
-        typeof req.body?.groupId === "string" && req.body.groupId.trim()
-          ? req.body.groupId.trim()
-          : undefined;
+  async importRosterAccounts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { fileName, planHash, mapping } = req.body ?? {};
+      if (typeof fileName !== "string" || !fileName) {
+        throw new ApiError(400, "fileName is required.");
+      }
+      if (typeof planHash !== "string" || !planHash) {
+        throw new ApiError(400, "planHash is required. Preview the import first.");
+      }
+      const { groupId, courseId, mode } = parseRosterImportScope(req.body);
 
-      const result = await rosterImportService.provisionFromFile({
+      const result = await rosterImportService.confirmImport({
         professorId: req.user!.id,
+        fileName,
         groupId,
-        filePath: uploaded.path,
+        courseId,
+        mode,
+        mapping,
+        planHash,
       });
 
       res.status(201).json(result);
@@ -476,6 +684,43 @@ export const professorController = {
     }
   },
 
+  async printActivationSlips(req: Request, res: Response, next: NextFunction) {
+    try {
+      const studentIds = Array.isArray(req.body?.studentIds)
+        ? req.body.studentIds.filter((id: unknown): id is string => typeof id === "string")
+        : undefined;
+      const activations = Array.isArray(req.body?.activations)
+        ? req.body.activations.filter(
+            (item: unknown): item is { studentId: string; code: string } =>
+              typeof (item as { studentId?: unknown })?.studentId === "string" &&
+              typeof (item as { code?: unknown })?.code === "string",
+          )
+        : undefined;
+
+      const { course, group, slips } = await activationSlipService.prepareGroupSlips(
+        req.user!.id,
+        req.params.groupId,
+        { studentIds, activations },
+      );
+      // Slips link to the web app, which may be served from another origin than the API.
+      const appUrl =
+        process.env.APP_PUBLIC_URL?.trim() ||
+        req.get("origin") ||
+        `${req.protocol}://${req.get("host")}`;
+      const pdf = activationSlipService.renderPdf({ course, group, slips, appUrl });
+
+      const filename = `activation-slips-${course.code}-${group.name}`
+        .replace(/[^a-zA-Z0-9_-]+/g, "-")
+        .toLowerCase();
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  },
+
   async resetStudentPassword(req: Request, res: Response, next: NextFunction) {
     try {
       const studentId = req.params.studentId;
@@ -570,6 +815,42 @@ export const professorController = {
     }
   },
 
+  async listAtRiskStudents(req: Request, res: Response, next: NextFunction) {
+    try {
+      const courseId =
+        typeof req.query.courseId === "string" && req.query.courseId
+          ? req.query.courseId
+          : null;
+      const students = await absenceService.listAtRiskStudents(
+        req.user!.id,
+        courseId,
+      );
+      res.json({ students });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  async listSuspiciousStudents(req: Request, res: Response, next: NextFunction) {
+    try {
+      const courseId =
+        typeof req.query.courseId === "string" && req.query.courseId
+          ? req.query.courseId
+          : null;
+      const minScore =
+        typeof req.query.minScore === "string" && req.query.minScore
+          ? Number(req.query.minScore)
+          : undefined;
+      const students = await riskScoreService.listSuspiciousStudents(req.user!.id, {
+        courseId,
+        minScore,
+      });
+      res.json({ students });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   async updateManagedUser(req: Request, res: Response, next: NextFunction) {
     try {
       const updated = await professorAccountService.updateManagedUser(
@@ -593,27 +874,7 @@ export const professorController = {
 
   async listRosterFiles(req: Request, res: Response, next: NextFunction) {
     try {
-      const ownerPrefix = `${req.user!.id}__`;
-      const files = fs
-        .readdirSync(professorRosterUploadDir, { withFileTypes: true })
-        .filter((entry) => entry.isFile() && entry.name.startsWith(ownerPrefix))
-        .map((entry) => {
-          const fullPath = path.join(professorRosterUploadDir, entry.name);
-          const stats = fs.statSync(fullPath);
-          const [, timestampPart, ...nameParts] = entry.name.split("__");
-          const timestamp = Number(timestampPart);
-          const originalName = nameParts.join("__");
-          return {
-            fileName: entry.name,
-            originalName: originalName || entry.name,
-            size: stats.size,
-            uploadedAt: Number.isFinite(timestamp)
-              ? new Date(timestamp).toISOString()
-              : new Date(stats.mtimeMs).toISOString(),
-          };
-        })
-        .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
-
+      const files = await rosterFileService.listFiles(req.user!.id);
       res.json({ files });
     } catch (error) {
       next(error);
@@ -622,23 +883,14 @@ export const professorController = {
 
   async downloadRosterFile(req: Request, res: Response, next: NextFunction) {
     try {
-      const requested = path.basename(req.params.fileName);
-      const ownerPrefix = `${req.user!.id}__`;
-      if (!requested.startsWith(ownerPrefix)) {
-        throw new ApiError(403, "You can only download your own files.");
-      }
-
-      const resolved = path.resolve(professorRosterUploadDir, requested);
-      if (!resolved.startsWith(professorRosterUploadDir)) {
-        throw new ApiError(400, "Invalid file path.");
-      }
-      if (!fs.existsSync(resolved)) {
-        throw new ApiError(404, "File not found.");
-      }
-
-      const originalName = requested.split("__").slice(2).join("__") || requested;
-      res.setHeader("Content-Disposition", `attachment; filename="${originalName}"`);
-      res.sendFile(resolved);
+      const { file, originalName } = await rosterFileService.openFile(
+        req.user!.id,
+        req.params.fileName,
+      );
+      await sendStoredFile(res, file, {
+        fileName: originalName,
+        allowedTypes: ALLOWED_ROSTER_MIME,
+      });
     } catch (error) {
       next(error);
     }
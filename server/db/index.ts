@@ -7,7 +7,7 @@ import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
 import { randomUUID } from "crypto";
-import { Pool } from "pg";
+import { Client, Pool } from "pg";
 
 const databaseUrl =
   process.env.NODE_ENV === "test"
@@ -76,9 +76,11 @@ if (isPostgres) {
           id ${idType} PRIMARY KEY DEFAULT (gen_random_uuid()),
           student_id ${idType} NOT NULL REFERENCES users(id),
           created_by_professor_id ${idType} NOT NULL REFERENCES users(id),
-          plain_password TEXT NOT NULL,
+          plain_password TEXT,
+          password_ciphertext TEXT,
           source TEXT NOT NULL DEFAULT 'manual_create',
           is_active INTEGER NOT NULL DEFAULT 1,
+          revealed_at TEXT,
           created_at TEXT NOT NULL DEFAULT (now())
         );
         `,
@@ -92,6 +94,12 @@ if (isPostgres) {
           ADD COLUMN IF NOT EXISTS is_active INTEGER NOT NULL DEFAULT 1;
         ALTER TABLE account_credentials
           ADD COLUMN IF NOT EXISTS created_at TEXT NOT NULL DEFAULT (now());
+        ALTER TABLE account_credentials
+          ADD COLUMN IF NOT EXISTS password_ciphertext TEXT;
+        ALTER TABLE account_credentials
+          ADD COLUMN IF NOT EXISTS revealed_at TEXT;
+        ALTER TABLE account_credentials
+          ALTER COLUMN plain_password DROP NOT NULL;
         `,
       );
 
@@ -161,10 +169,28 @@ if (isPostgres) {
     last_login_at TEXT
   );
 
+  CREATE TABLE IF NOT EXISTS faculties (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS faculties_code_unique ON faculties(code);
+
+  CREATE TABLE IF NOT EXISTS departments (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    faculty_id TEXT NOT NULL REFERENCES faculties(id),
+    code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS departments_faculty_code_unique ON departments(faculty_id, code);
+
   CREATE TABLE IF NOT EXISTS professor_profiles (
     id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
     user_id TEXT NOT NULL UNIQUE REFERENCES users(id),
     department TEXT,
+    department_id TEXT REFERENCES departments(id),
     title TEXT,
     created_at TEXT NOT NULL DEFAULT (now())
   );
@@ -181,9 +207,11 @@ if (isPostgres) {
     id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
     student_id TEXT NOT NULL REFERENCES users(id),
     created_by_professor_id TEXT NOT NULL REFERENCES users(id),
-    plain_password TEXT NOT NULL,
+    plain_password TEXT,
+    password_ciphertext TEXT,
     source TEXT NOT NULL DEFAULT 'manual_create',
     is_active INTEGER NOT NULL DEFAULT 1,
+    revealed_at TEXT,
     created_at TEXT NOT NULL DEFAULT (now())
   );
   CREATE INDEX IF NOT EXISTS account_credentials_student_idx ON account_credentials(student_id);
@@ -197,6 +225,7 @@ if (isPostgres) {
     name TEXT NOT NULL,
     term TEXT NOT NULL,
     description TEXT,
+    department_id TEXT REFERENCES departments(id),
     created_at TEXT NOT NULL DEFAULT (now()),
     device_binding_enabled INTEGER NOT NULL DEFAULT 0,
     FOREIGN KEY (professor_id) REFERENCES users(id)
@@ -223,6 +252,43 @@ if (isPostgres) {
   );
   CREATE UNIQUE INDEX IF NOT EXISTS enrollments_student_course_unique ON enrollments(student_id, course_id);
 
+  CREATE TABLE IF NOT EXISTS course_staff (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    course_id TEXT NOT NULL REFERENCES courses(id),
+    user_id TEXT NOT NULL REFERENCES users(id),
+    can_run_sessions INTEGER NOT NULL DEFAULT 0,
+    can_review_excuses INTEGER NOT NULL DEFAULT 0,
+    can_view_reports INTEGER NOT NULL DEFAULT 0,
+    can_manage_roster INTEGER NOT NULL DEFAULT 0,
+    added_by TEXT REFERENCES users(id),
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS course_staff_course_user_unique ON course_staff(course_id, user_id);
+  CREATE INDEX IF NOT EXISTS course_staff_user_idx ON course_staff(user_id);
+
+  CREATE TABLE IF NOT EXISTS group_schedule_slots (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    group_id TEXT NOT NULL REFERENCES groups(id),
+    weekday INTEGER NOT NULL,
+    start_time TEXT NOT NULL,
+    end_time TEXT NOT NULL,
+    room TEXT,
+    starts_on TEXT NOT NULL,
+    ends_on TEXT NOT NULL,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE INDEX IF NOT EXISTS group_schedule_slots_group_idx ON group_schedule_slots(group_id);
+
+  CREATE TABLE IF NOT EXISTS group_schedule_exceptions (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    group_id TEXT NOT NULL REFERENCES groups(id),
+    date TEXT NOT NULL,
+    reason TEXT,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS group_schedule_exceptions_unique ON group_schedule_exceptions(group_id, date);
+
   CREATE TABLE IF NOT EXISTS sessions (
     id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
     group_id TEXT NOT NULL,
@@ -233,6 +299,9 @@ if (isPostgres) {
     is_active INTEGER NOT NULL DEFAULT 0,
     status TEXT NOT NULL DEFAULT 'scheduled',
     created_at TEXT NOT NULL DEFAULT (now()),
+    schedule_slot_id TEXT REFERENCES group_schedule_slots(id),
+    scheduled_end_at TEXT,
+    room TEXT,
     FOREIGN KEY (group_id) REFERENCES groups(id),
     FOREIGN KEY (course_id) REFERENCES courses(id),
     FOREIGN KEY (professor_id) REFERENCES users(id)
@@ -250,6 +319,7 @@ if (isPostgres) {
     latitude REAL,
     longitude REAL,
     is_break_round INTEGER NOT NULL DEFAULT 0,
+    qr_secret TEXT,
     created_at TEXT NOT NULL DEFAULT (now()),
     FOREIGN KEY (session_id) REFERENCES sessions(id)
   );
@@ -278,6 +348,8 @@ if (isPostgres) {
     recorded_longitude REAL,
     client_scan_id TEXT,
     recorded_at_client TEXT,
+    policy_id TEXT,
+    policy_version INTEGER,
     FOREIGN KEY (round_id) REFERENCES attendance_rounds(id),
     FOREIGN KEY (student_id) REFERENCES users(id),
     FOREIGN KEY (qr_token_id) REFERENCES qr_tokens(id)
@@ -306,16 +378,47 @@ if (isPostgres) {
   CREATE TABLE IF NOT EXISTS audit_logs (
     id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
     actor_id TEXT REFERENCES users(id),
+    actor_ref TEXT,
     action TEXT NOT NULL,
     entity_type TEXT NOT NULL,
     entity_id TEXT,
     before_json TEXT,
     after_json TEXT,
     reason TEXT,
-    created_at TEXT NOT NULL DEFAULT (now())
+    created_at TEXT NOT NULL DEFAULT (now()),
+    chain_seq INTEGER,
+    prev_hash TEXT,
+    hash TEXT
   );
   CREATE INDEX IF NOT EXISTS audit_logs_actor_idx ON audit_logs(actor_id);
   CREATE INDEX IF NOT EXISTS audit_logs_entity_idx ON audit_logs(entity_type, entity_id);
+  CREATE INDEX IF NOT EXISTS audit_logs_created_idx ON audit_logs(created_at, id);
+
+  CREATE TABLE IF NOT EXISTS kiosk_tokens (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    session_id TEXT NOT NULL REFERENCES sessions(id),
+    token_hash TEXT NOT NULL,
+    created_by TEXT REFERENCES users(id),
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS kiosk_tokens_hash_unique ON kiosk_tokens(token_hash);
+  CREATE INDEX IF NOT EXISTS kiosk_tokens_session_idx ON kiosk_tokens(session_id);
+
+  CREATE TABLE IF NOT EXISTS activation_tokens (
+    id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+    user_id TEXT NOT NULL REFERENCES users(id),
+    token_hash TEXT NOT NULL,
+    source TEXT NOT NULL,
+    created_by TEXT REFERENCES users(id),
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (now())
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS activation_tokens_hash_unique ON activation_tokens(token_hash);
+  CREATE INDEX IF NOT EXISTS activation_tokens_user_idx ON activation_tokens(user_id);
 
   CREATE TABLE IF NOT EXISTS fraud_signals (
     id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
@@ -325,6 +428,10 @@ if (isPostgres) {
     round_id TEXT REFERENCES attendance_rounds(id),
     student_id TEXT REFERENCES users(id),
     details_json TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    resolved_by TEXT REFERENCES users(id),
+    resolved_at TEXT,
+    resolution_note TEXT,
     created_at TEXT NOT NULL DEFAULT (now())
   );
   CREATE INDEX IF NOT EXISTS fraud_signals_session_idx ON fraud_signals(session_id);
@@ -440,7 +547,144 @@ if (isPostgres) {
     );
   }
 
+  if (!hasColumn("attendance_records", "policy_id")) {
+    sqlite.exec("ALTER TABLE attendance_records ADD COLUMN policy_id TEXT;");
+  }
+
+  if (!hasColumn("attendance_records", "policy_version")) {
+    sqlite.exec("ALTER TABLE attendance_records ADD COLUMN policy_version INTEGER;");
+  }
+
+  if (!hasColumn("sessions", "schedule_slot_id")) {
+    sqlite.exec(
+      "ALTER TABLE sessions ADD COLUMN schedule_slot_id TEXT REFERENCES group_schedule_slots(id);",
+    );
+  }
+
+  if (!hasColumn("sessions", "scheduled_end_at")) {
+    sqlite.exec("ALTER TABLE sessions ADD COLUMN scheduled_end_at TEXT;");
+  }
+
+  if (!hasColumn("sessions", "room")) {
+    sqlite.exec("ALTER TABLE sessions ADD COLUMN room TEXT;");
+  }
+
+  if (!hasColumn("fraud_signals", "status")) {
+    sqlite.exec("ALTER TABLE fraud_signals ADD COLUMN status TEXT NOT NULL DEFAULT 'open';");
+  }
+
+  if (!hasColumn("fraud_signals", "resolved_by")) {
+    sqlite.exec(
+      "ALTER TABLE fraud_signals ADD COLUMN resolved_by TEXT REFERENCES users(id);",
+    );
+  }
+
+  if (!hasColumn("fraud_signals", "resolved_at")) {
+    sqlite.exec("ALTER TABLE fraud_signals ADD COLUMN resolved_at TEXT;");
+  }
+
+  if (!hasColumn("fraud_signals", "resolution_note")) {
+    sqlite.exec("ALTER TABLE fraud_signals ADD COLUMN resolution_note TEXT;");
+  }
+
+  sqlite.exec(
+    "CREATE INDEX IF NOT EXISTS fraud_signals_status_idx ON fraud_signals(status);",
+  );
+
+  if (!hasColumn("attendance_rounds", "qr_secret")) {
+    sqlite.exec("ALTER TABLE attendance_rounds ADD COLUMN qr_secret TEXT;");
+  }
+
+  if (!hasColumn("courses", "department_id")) {
+    sqlite.exec("ALTER TABLE courses ADD COLUMN department_id TEXT REFERENCES departments(id);");
+  }
+
+  if (!hasColumn("professor_profiles", "department_id")) {
+    sqlite.exec(
+      "ALTER TABLE professor_profiles ADD COLUMN department_id TEXT REFERENCES departments(id);",
+    );
+  }
+
+  sqlite.exec(
+    "CREATE INDEX IF NOT EXISTS courses_department_idx ON courses(department_id);",
+  );
+
+  if (!hasColumn("audit_logs", "chain_seq")) {
+    sqlite.exec("ALTER TABLE audit_logs ADD COLUMN chain_seq INTEGER;");
+  }
+
+  if (!hasColumn("audit_logs", "prev_hash")) {
+    sqlite.exec("ALTER TABLE audit_logs ADD COLUMN prev_hash TEXT;");
+  }
+
+  if (!hasColumn("audit_logs", "hash")) {
+    sqlite.exec("ALTER TABLE audit_logs ADD COLUMN hash TEXT;");
+  }
+
+  sqlite.exec(
+    "CREATE UNIQUE INDEX IF NOT EXISTS audit_logs_chain_seq_unique ON audit_logs(chain_seq);",
+  );
+
+  if (!hasColumn("audit_logs", "actor_ref")) {
+    sqlite.exec(`
+      ALTER TABLE audit_logs ADD COLUMN actor_ref TEXT;
+      UPDATE audit_logs SET actor_ref = actor_id;
+    `);
+  }
+
+  const plainPasswordColumn = (
+    sqlite.prepare("PRAGMA table_info(account_credentials)").all() as Array<{
+      name: string;
+      notnull: number;
+    }>
+  ).find((column) => column.name === "plain_password");
+  if (plainPasswordColumn?.notnull) {
+    // SQLite cannot drop NOT NULL in place, so the table is rebuilt with the vault columns.
+    sqlite.exec(`
+      BEGIN;
+      CREATE TABLE account_credentials_vault (
+        id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+        student_id TEXT NOT NULL REFERENCES users(id),
+        created_by_professor_id TEXT NOT NULL REFERENCES users(id),
+        plain_password TEXT,
+        password_ciphertext TEXT,
+        source TEXT NOT NULL DEFAULT 'manual_create',
+        is_active INTEGER NOT NULL DEFAULT 1,
+        revealed_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (now())
+      );
+      INSERT INTO account_credentials_vault
+        (id, student_id, created_by_professor_id, plain_password, source, is_active, created_at)
+        SELECT id, student_id, created_by_professor_id, plain_password, source, is_active, created_at
+        FROM account_credentials;
+      DROP TABLE account_credentials;
+      ALTER TABLE account_credentials_vault RENAME TO account_credentials;
+      CREATE INDEX account_credentials_student_idx ON account_credentials(student_id);
+      CREATE INDEX account_credentials_professor_idx ON account_credentials(created_by_professor_id);
+      CREATE INDEX account_credentials_active_idx ON account_credentials(student_id, is_active);
+      COMMIT;
+    `);
+  }
+
+  sqlite.exec(
+    "CREATE UNIQUE INDEX IF NOT EXISTS sessions_slot_start_unique ON sessions(schedule_slot_id, starts_at);",
+  );
+
   db = drizzleSqlite(sqlite);
 }
 
-export { db };
+/**
+ * Opens a dedicated Postgres connection (not pooled) for LISTEN/NOTIFY and session-level
+ * advisory locks, which must stay on one connection to work.
+ */
+export function createPgClient() {
+  if (!isPostgres) {
+    throw new Error("A Postgres DATABASE_URL is required for a dedicated connection");
+  }
+  return new Client({
+    connectionString: databaseUrl,
+    ssl: { rejectUnauthorized: pgSslRejectUnauthorized },
+  });
+}
+
+export { db, isPostgres };
@@ -14,7 +14,11 @@ import { globalRateLimiter } from "./middleware/rateLimit";
 import helmet from "helmet";
 import { cleanupExpiredTokens } from "./services/qrService";
 import { startQrRotationScheduler } from "./services/qrRotationService";
+import { startSessionScheduler } from "./services/sessionSchedulerService";
+import { startUploadRetentionScheduler } from "./services/uploadRetentionService";
 import { bootstrapUsersFromEnv } from "./services/bootstrapService";
+import { accountCredentialService } from "./services/accountCredentialService";
+import { initRealtimeBroker } from "./websocket/broker";
 
 initSentry();
 import { logger } from "./utils/logger";
@@ -155,10 +159,16 @@ setInterval(() => {
   });
 }, 1000 * 60 * 60); // Every hour
 
-startQrRotationScheduler();
-
 async function bootstrap() {
+  await initRealtimeBroker();
+  startQrRotationScheduler();
+  startSessionScheduler();
+  startUploadRetentionScheduler();
   await bootstrapUsersFromEnv();
+  const sealedCredentials = await accountCredentialService.encryptLegacyCredentials();
+  if (sealedCredentials) {
+    logger.info("legacy plaintext credentials moved into the vault", { count: sealedCredentials });
+  }
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -9,16 +9,21 @@ export const requireAuth: RequestHandler = (req, res, next) => {
   res.status(401).json({ message: "Authentication required" });
 };
 
+/**
+ * Allows admins plus any of the listed roles. Passing "ta" only opens the route; the
+ * services still check course_staff permissions for each course a TA touches.
+ */
 export const requireRole =
-  (role: UserRole): RequestHandler =>
+  (...roles: UserRole[]): RequestHandler =>
   (req, res, next) => {
+    const required = roles.join(" or ");
     if (!req.isAuthenticated || !req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     if (!req.user) {
       return res.status(403).json({
-        message: `Insufficient permissions. Required role: ${role}, your role: none`,
+        message: `Insufficient permissions. Required role: ${required}, your role: none`,
       });
     }
 
@@ -26,9 +31,9 @@ export const requireRole =
       return next();
     }
 
-    if (req.user.role !== role) {
+    if (!roles.includes(req.user.role)) {
       return res.status(403).json({
-        message: `Insufficient permissions. Required role: ${role}, your role: ${req.user.role}`,
+        message: `Insufficient permissions. Required role: ${required}, your role: ${req.user.role}`,
       });
     }
 
@@ -46,3 +46,34 @@ export const scanRateLimiter = rateLimit({
       .json({ message: "Too many scans detected. Please try again in a minute." });
   },
 });
+
+// Offline batches carry up to 50 queued scans each, so they get their own budget.
+export const scanBatchRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 6,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const userId = req.user?.id;
+    return userId ?? req.ip ?? "anonymous";
+  },
+  handler: (_req, res) => {
+    res
+      .status(429)
+      .json({ message: "Too many sync attempts. Please try again in a minute." });
+  },
+});
+
+// Activation codes are guessable only by brute force, so lookups are throttled per IP.
+export const activationRateLimiter = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.ip ?? "unknown",
+  handler: (_req, res) => {
+    res.status(429).json({
+      message: "Too many activation attempts. Please wait a bit and try again.",
+    });
+  },
+});
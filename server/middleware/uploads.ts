@@ -1,22 +1,29 @@
+import { randomBytes } from "crypto";
 import multer from "multer";
-import fs from "fs";
 import path from "path";
-import type { Request } from "express";
+import { ApiError } from "../errors/apiError";
+import { sanitizeFileName } from "../storage/fileStorage";
 
-const uploadDir = path.resolve(process.cwd(), "uploads", "excuses");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+// Uploads are held in memory and written through the configured FileStorage by the
+// services, so nothing lands on the instance's disk.
+const storage = multer.memoryStorage();
+
+export function excuseAttachmentKey(originalName: string) {
+  return `excuses/${Date.now()}-${sanitizeFileName(originalName)}`;
 }
 
-const storage = multer.diskStorage({
-  destination: (_req: Request, _file: Express.Multer.File, cb) =>
-    cb(null, uploadDir),
-  filename: (_req: Request, file: Express.Multer.File, cb) => {
-    const timestamp = Date.now();
-    const sanitized = file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    cb(null, `${timestamp}-${sanitized}`);
-  },
-});
+export const ROSTER_KEY_PREFIX = "rosters/";
+
+export function rosterFileKey(ownerId: string, originalName: string) {
+  return `${ROSTER_KEY_PREFIX}${ownerId}__${Date.now()}__${sanitizeFileName(originalName)}`;
+}
+
+export const QUARANTINE_KEY_PREFIX = "quarantine/";
+
+export function quarantineKey(originalName: string) {
+  const suffix = randomBytes(4).toString("hex");
+  return `${QUARANTINE_KEY_PREFIX}${Date.now()}-${suffix}-${sanitizeFileName(originalName)}`;
+}
 
 export const ALLOWED_MIME = new Set([
   "application/pdf",
@@ -32,7 +39,7 @@ export function fileFilter(
   cb: multer.FileFilterCallback,
 ) {
   if (!ALLOWED_MIME.has(file.mimetype)) {
-    return cb(new Error("Only PDF or image uploads are allowed"));
+    return cb(new ApiError(415, "Only PDF or image uploads are allowed", "unsupported_file_type"));
   }
   cb(null, true);
 }
@@ -45,24 +52,6 @@ export const excuseUpload = multer({
   fileFilter,
 });
 
-export const excuseUploadDir = uploadDir;
-
-const rosterUploadDir = path.resolve(process.cwd(), "uploads", "rosters");
-if (!fs.existsSync(rosterUploadDir)) {
-  fs.mkdirSync(rosterUploadDir, { recursive: true });
-}
-
-const rosterStorage = multer.diskStorage({
-  destination: (_req: Request, _file: Express.Multer.File, cb) =>
-    cb(null, rosterUploadDir),
-  filename: (req: Request, file: Express.Multer.File, cb) => {
-    const timestamp = Date.now();
-    const sanitized = file.originalname.replace(/[^a-zA-Z0-9._-]/g, "_");
-    const owner = req.user?.id ?? "unknown";
-    cb(null, `${owner}__${timestamp}__${sanitized}`);
-  },
-});
-
 export const ALLOWED_ROSTER_MIME = new Set([
   "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
   "application/vnd.ms-excel",
@@ -77,15 +66,13 @@ export function rosterFileFilter(
   const ext = path.extname(file.originalname).toLowerCase();
   const allowedExt = ext === ".xlsx" || ext === ".xls" || ext === ".csv";
   if (!ALLOWED_ROSTER_MIME.has(file.mimetype) && !allowedExt) {
-    return cb(new Error("Only Excel or CSV uploads are allowed"));
+    return cb(new ApiError(415, "Only Excel or CSV uploads are allowed", "unsupported_file_type"));
   }
   cb(null, true);
 }
 
 export const rosterUpload = multer({
-  storage: rosterStorage,
+  storage,
   limits: { fileSize: 10 * 1024 * 1024 },
   fileFilter: rosterFileFilter,
 });
-
-export const professorRosterUploadDir = rosterUploadDir;
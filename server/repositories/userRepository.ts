@@ -33,7 +33,7 @@ export const userRepository = {
     password: string;
     created_by_professor_id?: string | null;
     must_change_password?: boolean;
-    role?: "professor" | "student" | "admin";
+    role?: "professor" | "ta" | "student" | "admin";
   }) {
     const [user] = await db.insert(users).values(payload).returning();
     return user;
@@ -71,7 +71,7 @@ export const userRepository = {
       username: string;
       display_name: string;
       password: string;
-      role: "professor" | "student" | "admin";
+      role: "professor" | "ta" | "student" | "admin";
     },
   ) {
     const [user] = await db
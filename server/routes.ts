@@ -6,6 +6,7 @@ import { registerProfessorRoutes } from "./routes/professor";
 import { registerStudentRoutes } from "./routes/student";
 import { registerAdminRoutes } from "./routes/admin";
 import { registerEnrollmentRoutes } from "./routes/enrollment";
+import { registerKioskRoutes } from "./routes/kiosk";
 import { db } from "./db";
 import { users } from "@shared/schema";
 
@@ -30,6 +31,7 @@ export async function registerRoutes(
   registerEnrollmentRoutes(apiRouter);
   registerProfessorRoutes(apiRouter);
   registerStudentRoutes(apiRouter);
+  registerKioskRoutes(apiRouter);
 
   apiRouter.use((_req, res) => {
     res.status(404).json({ message: "Not found" });
@@ -1,7 +1,10 @@
 import { Router } from "express";
 import { requireRole } from "../middleware/auth";
+import { adminAuditLogController } from "../controllers/adminAuditLogController";
+import { adminFacultyController } from "../controllers/adminFacultyController";
 import { adminPolicyController } from "../controllers/adminPolicyController";
 import { adminProfessorController } from "../controllers/adminProfessorController";
+import { fraudSignalController } from "../controllers/fraudSignalController";
 
 export function registerAdminRoutes(parent: Router) {
   const router = Router();
@@ -13,6 +16,29 @@ export function registerAdminRoutes(parent: Router) {
     "/professors/:professorId/password",
     adminProfessorController.resetPassword,
   );
+  router.put(
+    "/professors/:professorId/department",
+    adminFacultyController.assignProfessor,
+  );
+
+  router.get("/faculties", adminFacultyController.list);
+  router.post("/faculties", adminFacultyController.create);
+  router.patch("/faculties/:facultyId", adminFacultyController.update);
+  router.delete("/faculties/:facultyId", adminFacultyController.remove);
+  router.get("/faculties/:facultyId/report", adminFacultyController.report);
+  router.get("/faculties/:facultyId/report/export", adminFacultyController.exportReport);
+  router.post(
+    "/faculties/:facultyId/departments",
+    adminFacultyController.createDepartment,
+  );
+  router.patch("/departments/:departmentId", adminFacultyController.updateDepartment);
+  router.delete("/departments/:departmentId", adminFacultyController.removeDepartment);
+  router.get("/courses", adminFacultyController.listCourses);
+  router.put("/courses/:courseId/department", adminFacultyController.assignCourse);
+
+  router.get("/audit-logs", adminAuditLogController.list);
+  router.get("/audit-logs/export", adminAuditLogController.export);
+  router.get("/audit-logs/verify", adminAuditLogController.verify);
 
   router.get("/policies", adminPolicyController.list);
   router.post("/policies", adminPolicyController.create);
@@ -22,5 +48,8 @@ export function registerAdminRoutes(parent: Router) {
     adminPolicyController.assignToCourse,
   );
 
+  router.get("/fraud-signals", fraudSignalController.list);
+  router.patch("/fraud-signals/:signalId/resolve", fraudSignalController.resolve);
+
   parent.use("/admin", router);
 }
@@ -2,7 +2,9 @@ import { Router } from "express";
 import type { Express } from "express";
 import passport from "passport";
 import { requireAuth } from "../middleware/auth";
-import { loginRateLimiter } from "../middleware/rateLimit";
+import { activationRateLimiter, loginRateLimiter } from "../middleware/rateLimit";
+import { activationService } from "../services/activationService";
+import type { UserRole } from "@shared/schema";
 import { authService } from "../services/authService";
 
 export function registerAuthRoutes(parent: Router) {
@@ -81,5 +83,46 @@ export function registerAuthRoutes(parent: Router) {
     }
   });
 
+  // The code comes in the body, like on /activate, so it stays out of access logs.
+  router.post("/activation", activationRateLimiter, async (req, res, next) => {
+    try {
+      const code = typeof req.body?.code === "string" ? req.body.code : "";
+      const { token, user } = await activationService.resolve(code);
+      res.json({
+        username: user.username,
+        display_name: user.display_name,
+        expiresAt: token.expires_at,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post("/activate", activationRateLimiter, async (req, res, next) => {
+    try {
+      const code = typeof req.body?.code === "string" ? req.body.code : "";
+      const password =
+        typeof req.body?.password === "string" ? req.body.password : "";
+
+      const user = await authService.activateAccount(code, password);
+      const sessionUser: Express.User = {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        display_name: user.display_name,
+        role: user.role as UserRole,
+        must_change_password: user.must_change_password,
+      };
+      req.logIn(sessionUser, (loginErr) => {
+        if (loginErr) {
+          return next(loginErr);
+        }
+        return res.json(sessionUser);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   parent.use("/auth", router);
 }
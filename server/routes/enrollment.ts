@@ -11,7 +11,7 @@ const addEnrollmentSchema = z.union([
 
 export function registerEnrollmentRoutes(parent: Router) {
   const router = Router();
-  router.use(requireRole("professor"));
+  router.use(requireRole("professor", "ta"));
 
   router.get("/groups/:groupId/enrollments", async (req, res, next) => {
     try {
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { kioskController } from "../controllers/kioskController";
+
+// Public: kiosk screens authenticate with a view token instead of a login session.
+export function registerKioskRoutes(parent: Router) {
+  const router = Router();
+
+  router.get("/state", kioskController.getState);
+
+  parent.use("/kiosk", router);
+}
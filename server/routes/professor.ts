@@ -2,32 +2,86 @@ import { Router } from "express";
 import { requireRole } from "../middleware/auth";
 import { professorController } from "../controllers/professorController";
 import { excuseController } from "../controllers/excuseController";
+import { fraudSignalController } from "../controllers/fraudSignalController";
+import { kioskController } from "../controllers/kioskController";
+import { courseStaffController } from "../controllers/courseStaffController";
 import { rosterUpload } from "../middleware/uploads";
 
 export function registerProfessorRoutes(parent: Router) {
   const router = Router();
-  router.use(requireRole("professor"));
+  // TAs reach these routes too; services check their per-course permissions. Routes
+  // that create courses or accounts stay with professors.
+  router.use(requireRole("professor", "ta"));
+  const professorOnly = requireRole("professor");
 
   router.get("/courses", professorController.listCourses);
-  router.post("/courses", professorController.createCourse);
-  router.delete("/courses/:courseId", professorController.deleteCourse);
+  router.post("/courses", professorOnly, professorController.createCourse);
+  router.delete("/courses/:courseId", professorOnly, professorController.deleteCourse);
   router.post("/courses/:courseId/groups", professorController.createGroup);
+  router.get("/courses/:courseId/staff", professorOnly, courseStaffController.list);
+  router.post("/courses/:courseId/staff", professorOnly, courseStaffController.add);
+  router.patch(
+    "/courses/:courseId/staff/:staffId",
+    professorOnly,
+    courseStaffController.update,
+  );
+  router.delete(
+    "/courses/:courseId/staff/:staffId",
+    professorOnly,
+    courseStaffController.remove,
+  );
 
   router.post("/groups/:groupId/sessions", professorController.startSession);
+  router.post(
+    "/groups/:groupId/activation-slips",
+    professorController.printActivationSlips,
+  );
+  router.get("/groups/:groupId/schedule", professorController.getGroupSchedule);
+  router.post(
+    "/groups/:groupId/schedule/slots",
+    professorController.addScheduleSlot,
+  );
+  router.post(
+    "/groups/:groupId/schedule/exceptions",
+    professorController.addScheduleException,
+  );
+  router.delete("/schedule/slots/:slotId", professorController.removeScheduleSlot);
+  router.delete(
+    "/schedule/exceptions/:exceptionId",
+    professorController.removeScheduleException,
+  );
+  router.get("/sessions/upcoming", professorController.listUpcomingSessions);
+  router.patch("/sessions/:sessionId/cancel", professorController.cancelSession);
   router.post("/sessions/:sessionId/rounds", professorController.startRound);
   router.patch(
     "/sessions/:sessionId/rounds/:roundId/end",
     professorController.endRound,
   );
+  router.get(
+    "/sessions/:sessionId/rounds/:roundId/records",
+    professorController.listRoundRecords,
+  );
+  router.put(
+    "/sessions/:sessionId/rounds/:roundId/records/:studentId",
+    professorController.setRoundRecord,
+  );
+  router.delete(
+    "/sessions/:sessionId/rounds/:roundId/records/:studentId",
+    professorController.revokeRoundRecord,
+  );
   router.patch("/sessions/:sessionId/end", professorController.endSession);
   router.get("/sessions/:sessionId", professorController.getSessionDetail);
   router.get("/sessions/:sessionId/stats", professorController.getSessionStats);
+  router.post("/sessions/:sessionId/kiosk", kioskController.createToken);
+  router.delete("/sessions/:sessionId/kiosk", kioskController.revokeTokens);
   router.get("/sessions/:sessionId/export", professorController.exportSession);
   router.get("/sessions/:sessionId/excuses", excuseController.listForSession);
   router.patch("/excuses/:excuseId/approve", professorController.approveExcuse);
   router.patch("/excuses/:excuseId/reject", professorController.rejectExcuse);
   router.get("/excuses/:excuseId/attachment", excuseController.downloadAttachment);
   router.get("/sessions/:sessionId/analytics", professorController.getSessionAnalytics);
+  router.get("/fraud-signals", fraudSignalController.list);
+  router.patch("/fraud-signals/:signalId/resolve", fraudSignalController.resolve);
   router.get("/attendance-log/dates", professorController.listAttendanceLogDates);
   router.get("/attendance-log", professorController.getAttendanceLogByDate);
   router.get("/attendance-log/export", professorController.exportAttendanceLogByDate);
@@ -35,14 +89,16 @@ export function registerProfessorRoutes(parent: Router) {
     "/sessions/:sessionId/analytics/export",
     professorController.exportSessionAnalytics,
   );
-  router.post("/users", professorController.createUserAccount);
-  router.get("/users", professorController.listManagedUsers);
+  router.post("/users", professorOnly, professorController.createUserAccount);
+  router.get("/users", professorOnly, professorController.listManagedUsers);
   router.get(
     "/users/:studentId/credential",
+    professorOnly,
     professorController.getStudentCredential,
   );
   router.get(
     "/reports/accounts/export",
+    professorOnly,
     professorController.exportManagedAccounts,
   );
   router.get(
@@ -53,24 +109,34 @@ export function registerProfessorRoutes(parent: Router) {
     "/reports/course-summary",
     professorController.getCourseAttendanceSummary,
   );
-  router.patch("/users/:userId", professorController.updateManagedUser);
+  router.get("/reports/at-risk", professorController.listAtRiskStudents);
+  router.get(
+    "/reports/suspicious-students",
+    professorController.listSuspiciousStudents,
+  );
+  router.patch("/users/:userId", professorOnly, professorController.updateManagedUser);
   router.post(
     "/roster-files",
+    professorOnly,
     rosterUpload.single("sheet"),
     professorController.uploadRosterFile,
   );
   router.post(
-    "/roster-files/import",
+    "/roster-files/preview",
+    professorOnly,
     rosterUpload.single("sheet"),
-    professorController.importRosterAccounts,
+    professorController.previewRosterImport,
   );
-  router.get("/roster-files", professorController.listRosterFiles);
+  router.post("/roster-files/import", professorOnly, professorController.importRosterAccounts);
+  router.get("/roster-files", professorOnly, professorController.listRosterFiles);
   router.get(
     "/roster-files/:fileName",
+    professorOnly,
     professorController.downloadRosterFile,
   );
   router.patch(
     "/users/:studentId/password",
+    professorOnly,
     professorController.resetStudentPassword,
   );
 
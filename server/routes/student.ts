@@ -2,7 +2,7 @@ import { Router } from "express";
 import { requireRole } from "../middleware/auth";
 import { attendanceController } from "../controllers/attendanceController";
 import { studentController } from "../controllers/studentController";
-import { scanRateLimiter } from "../middleware/rateLimit";
+import { scanBatchRateLimiter, scanRateLimiter } from "../middleware/rateLimit";
 import { excuseController } from "../controllers/excuseController";
 import { excuseUpload } from "../middleware/uploads";
 
@@ -16,6 +16,11 @@ export function registerStudentRoutes(parent: Router) {
     scanRateLimiter,
     attendanceController.scan,
   );
+  router.post(
+    "/me/scans/batch",
+    scanBatchRateLimiter,
+    attendanceController.syncOfflineScans,
+  );
   router.get("/me/attendance", studentController.getMyAttendance);
   router.get("/me/attendance/history", attendanceController.getHistory);
   router.get("/me/enrollments", studentController.getEnrollments);
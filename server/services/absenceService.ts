@@ -0,0 +1,295 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  courses,
+  enrollments,
+  groups,
+  sessions,
+  users,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { courseStaffService } from "./courseStaffService";
+import { policyService } from "./policyService";
+
+export type AbsenceStatus = "ok" | "at_risk" | "over_limit";
+
+export type StudentAbsenceSummary = {
+  studentId: string;
+  courseId: string;
+  groupId: string;
+  totalRounds: number;
+  attendedRounds: number;
+  excusedRounds: number;
+  absences: number;
+  maxAbsences: number | null;
+  remainingAbsences: number | null;
+  absenceStatus: AbsenceStatus;
+};
+
+export type SessionOutcome = {
+  sessionId: string;
+  studentId: string;
+  attended: boolean;
+};
+
+// Students within this share of the limit (rounded up) are flagged as at risk.
+const AT_RISK_RATIO = 0.2;
+
+const ATTENDED_STATUSES = new Set(["on_time", "late"]);
+
+const STATUS_RANK: Record<AbsenceStatus, number> = {
+  over_limit: 0,
+  at_risk: 1,
+  ok: 2,
+};
+
+function classifyAbsences(absences: number, maxAbsences: number | null): AbsenceStatus {
+  if (maxAbsences == null) {
+    return "ok";
+  }
+  if (absences > maxAbsences) {
+    return "over_limit";
+  }
+  const margin = Math.ceil(maxAbsences * AT_RISK_RATIO);
+  if (absences > 0 && maxAbsences - absences <= margin) {
+    return "at_risk";
+  }
+  return "ok";
+}
+
+/**
+ * Counts each enrolled student's records in closed rounds of one course: attended,
+ * excused and the explicit absent rows written when a round closes. Those rows are the
+ * only source of absence, so open rounds and rounds before a student enrolled do not
+ * count against them.
+ */
+async function summarizeCourse(
+  courseId: string,
+  studentIds?: string[],
+): Promise<StudentAbsenceSummary[]> {
+  const enrollmentRows = await db
+    .select({
+      studentId: enrollments.student_id,
+      groupId: enrollments.group_id,
+    })
+    .from(enrollments)
+    .where(
+      studentIds
+        ? and(
+            eq(enrollments.course_id, courseId),
+            inArray(enrollments.student_id, studentIds),
+          )
+        : eq(enrollments.course_id, courseId),
+    );
+
+  if (!enrollmentRows.length) {
+    return [];
+  }
+
+  const policy = await policyService.getActivePolicyForCourse(courseId);
+  const maxAbsences = policy.rules.maxAbsences ?? null;
+
+  const countRows = await db
+    .select({
+      studentId: attendance_records.student_id,
+      status: attendance_records.status,
+      count: sql<number>`COUNT(*)`,
+    })
+    .from(attendance_records)
+    .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
+    .innerJoin(sessions, eq(attendance_rounds.session_id, sessions.id))
+    .where(
+      and(
+        eq(sessions.course_id, courseId),
+        eq(attendance_rounds.is_active, false),
+        inArray(
+          attendance_records.student_id,
+          enrollmentRows.map((row) => row.studentId),
+        ),
+      ),
+    )
+    .groupBy(attendance_records.student_id, attendance_records.status);
+
+  const countsByStudent = new Map<string, { attended: number; excused: number; absent: number }>();
+  for (const row of countRows) {
+    const counts = countsByStudent.get(row.studentId) ?? { attended: 0, excused: 0, absent: 0 };
+    const count = Number(row.count ?? 0);
+    if (ATTENDED_STATUSES.has(row.status)) {
+      counts.attended += count;
+    } else if (row.status === "excused") {
+      counts.excused += count;
+    } else if (row.status === "absent") {
+      counts.absent += count;
+    }
+    countsByStudent.set(row.studentId, counts);
+  }
+
+  return enrollmentRows.map((enrollment) => {
+    const counts = countsByStudent.get(enrollment.studentId) ?? {
+      attended: 0,
+      excused: 0,
+      absent: 0,
+    };
+    const absences = counts.absent;
+
+    return {
+      studentId: enrollment.studentId,
+      courseId,
+      groupId: enrollment.groupId,
+      totalRounds: counts.attended + counts.excused + absences,
+      attendedRounds: counts.attended,
+      excusedRounds: counts.excused,
+      absences,
+      maxAbsences,
+      remainingAbsences:
+        maxAbsences == null ? null : Math.max(0, maxAbsences - absences),
+      absenceStatus: classifyAbsences(absences, maxAbsences),
+    };
+  });
+}
+
+export const absenceService = {
+  /**
+   * Per session, whether each student with records there attended: yes when any round
+   * has a non-absent record, no when every record is an explicit absent row. Students
+   * without records (round still open, enrolled later) are left out rather than
+   * counted as missing.
+   */
+  async getSessionOutcomes(sessionIds: string[]): Promise<SessionOutcome[]> {
+    if (!sessionIds.length) {
+      return [];
+    }
+    const rows = await db
+      .select({
+        sessionId: attendance_rounds.session_id,
+        studentId: attendance_records.student_id,
+        attendedRounds: sql<number>`SUM(CASE WHEN ${attendance_records.status} = 'absent' THEN 0 ELSE 1 END)`,
+      })
+      .from(attendance_records)
+      .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
+      .where(inArray(attendance_rounds.session_id, sessionIds))
+      .groupBy(attendance_rounds.session_id, attendance_records.student_id);
+
+    return rows.map((row) => ({
+      sessionId: row.sessionId,
+      studentId: row.studentId,
+      attended: Number(row.attendedRounds ?? 0) > 0,
+    }));
+  },
+
+  /**
+   * Absence counts and limit flags for every student enrolled in a course.
+   */
+  async getCourseAbsences(courseId: string) {
+    const [course] = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(eq(courses.id, courseId))
+      .limit(1);
+    if (!course) {
+      throw new ApiError(404, "Course not found.");
+    }
+    return summarizeCourse(course.id);
+  },
+
+  /**
+   * Absence counts and limit flags for each course the student is enrolled in.
+   */
+  async getStudentAbsences(studentId: string) {
+    const rows = await db
+      .select({ courseId: courses.id })
+      .from(enrollments)
+      .innerJoin(courses, eq(enrollments.course_id, courses.id))
+      .where(eq(enrollments.student_id, studentId));
+
+    const summaries: StudentAbsenceSummary[] = [];
+    for (const row of rows) {
+      summaries.push(...(await summarizeCourse(row.courseId, [studentId])));
+    }
+    return summaries;
+  },
+
+  /**
+   * Students approaching or over their absence limit across the professor's courses,
+   * optionally narrowed to one course. Over-limit students are listed first.
+   */
+  async listAtRiskStudents(professorId: string, courseId?: string | null) {
+    const courseScope = await courseStaffService.accessibleCoursesFilter(
+      professorId,
+      "view_reports",
+    );
+    const courseRows = await db
+      .select({
+        id: courses.id,
+        code: courses.code,
+        name: courses.name,
+      })
+      .from(courses)
+      .where(courseId ? and(courseScope, eq(courses.id, courseId)) : courseScope);
+
+    if (courseId && !courseRows.length) {
+      const [course] = await db
+        .select({ id: courses.id })
+        .from(courses)
+        .where(eq(courses.id, courseId))
+        .limit(1);
+      if (!course) {
+        throw new ApiError(404, "Course not found.");
+      }
+      throw new ApiError(403, "You do not own this course.");
+    }
+
+    const flagged: Array<
+      StudentAbsenceSummary & { courseCode: string; courseName: string }
+    > = [];
+    for (const course of courseRows) {
+      const summaries = await summarizeCourse(course.id);
+      for (const summary of summaries) {
+        if (summary.absenceStatus !== "ok") {
+          flagged.push({ ...summary, courseCode: course.code, courseName: course.name });
+        }
+      }
+    }
+
+    if (!flagged.length) {
+      return [];
+    }
+
+    const studentIds = Array.from(new Set(flagged.map((row) => row.studentId)));
+    const groupIds = Array.from(new Set(flagged.map((row) => row.groupId)));
+    const [studentRows, groupRows] = await Promise.all([
+      db
+        .select({
+          id: users.id,
+          displayName: users.display_name,
+          username: users.username,
+        })
+        .from(users)
+        .where(inArray(users.id, studentIds)),
+      db
+        .select({ id: groups.id, name: groups.name })
+        .from(groups)
+        .where(inArray(groups.id, groupIds)),
+    ]);
+    const studentsById = new Map<string, { displayName: string; username: string }>(
+      studentRows.map((row) => [row.id, row]),
+    );
+    const groupNames = new Map(groupRows.map((row) => [row.id, row.name]));
+
+    return flagged
+      .map((row) => ({
+        ...row,
+        displayName: studentsById.get(row.studentId)?.displayName ?? "",
+        username: studentsById.get(row.studentId)?.username ?? "",
+        groupName: groupNames.get(row.groupId) ?? "",
+      }))
+      .sort(
+        (a, b) =>
+          STATUS_RANK[a.absenceStatus] - STATUS_RANK[b.absenceStatus] ||
+          b.absences - a.absences ||
+          a.displayName.localeCompare(b.displayName),
+      );
+  },
+};
@@ -1,6 +1,9 @@
-import { and, eq, inArray } from "drizzle-orm";
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "crypto";
+import { and, eq, inArray, isNotNull, isNull } from "drizzle-orm";
 import { db } from "../db";
 import { account_credentials } from "@shared/schema";
+import { logger } from "../utils/logger";
+import { auditService } from "./auditService";
 
 function shouldIgnoreCredentialError(error: unknown) {
   if (!error) return false;
@@ -21,6 +24,79 @@ function shouldIgnoreCredentialError(error: unknown) {
   );
 }
 
+export type CredentialReveal = {
+  studentId: string;
+  /** The temporary password, or null when there is nothing (left) to reveal. */
+  password: string | null;
+  /** Set when the credential was already revealed before this call. */
+  revealedAt: string | null;
+};
+
+const VAULT_FORMAT = "v1";
+const VAULT_CIPHER = "aes-256-gcm";
+
+let vaultKey: { key: Buffer; id: string } | null = null;
+
+/**
+ * The vault key never lives in the database: CREDENTIAL_VAULT_KEY (32 bytes, hex or
+ * base64), or one derived from SESSION_SECRET when that is not set.
+ */
+function getVaultKey() {
+  if (vaultKey) return vaultKey;
+  const configured = process.env.CREDENTIAL_VAULT_KEY?.trim();
+  let key: Buffer;
+  if (configured) {
+    key = /^[0-9a-f]{64}$/i.test(configured)
+      ? Buffer.from(configured, "hex")
+      : Buffer.from(configured, "base64");
+    if (key.length !== 32) {
+      throw new Error("CREDENTIAL_VAULT_KEY must be 32 bytes, hex or base64 encoded");
+    }
+  } else {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error("CREDENTIAL_VAULT_KEY or SESSION_SECRET is required for the credential vault");
+    }
+    key = Buffer.from(hkdfSync("sha256", secret, "", "atendo-credential-vault", 32));
+  }
+  vaultKey = { key, id: createHash("sha256").update(key).digest("hex").slice(0, 8) };
+  return vaultKey;
+}
+
+/** Sealed form: v1.<key id>.<iv>.<auth tag>.<ciphertext>, binary parts base64url. */
+function seal(plainPassword: string, studentId: string) {
+  const { key, id } = getVaultKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(VAULT_CIPHER, key, iv);
+  // Binding the student id stops a sealed password being copied onto another row.
+  cipher.setAAD(Buffer.from(studentId));
+  const ciphertext = Buffer.concat([cipher.update(plainPassword, "utf8"), cipher.final()]);
+  return [VAULT_FORMAT, id, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+}
+
+function open(sealed: string, studentId: string) {
+  const [format, keyId, iv, tag, ciphertext] = sealed.split(".");
+  const { key, id } = getVaultKey();
+  if (format !== VAULT_FORMAT || keyId !== id) {
+    logger.error("credential sealed with an unknown vault key", { studentId, keyId });
+    return null;
+  }
+  try {
+    const decipher = createDecipheriv(VAULT_CIPHER, key, Buffer.from(iv, "base64url"));
+    decipher.setAAD(Buffer.from(studentId));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (error) {
+    logger.error("credential failed to decrypt", { studentId, error });
+    return null;
+  }
+}
+
 export const accountCredentialService = {
   async recordCredential(
     professorId: string,
@@ -29,17 +105,14 @@ export const accountCredentialService = {
     source: "manual_create" | "import" | "reset",
   ) {
     try {
-      await db
-        .update(account_credentials)
-        .set({ is_active: false })
-        .where(eq(account_credentials.student_id, studentId));
+      await this.deactivateForStudent(studentId);
 
       const [row] = await db
         .insert(account_credentials)
         .values({
           student_id: studentId,
           created_by_professor_id: professorId,
-          plain_password: plainPassword,
+          password_ciphertext: seal(plainPassword, studentId),
           source,
           is_active: true,
         })
@@ -54,11 +127,12 @@ export const accountCredentialService = {
     }
   },
 
+  /** Called when a newer credential replaces it or the student sets their own password. */
   async deactivateForStudent(studentId: string) {
     try {
       await db
         .update(account_credentials)
-        .set({ is_active: false })
+        .set({ is_active: false, password_ciphertext: null, plain_password: null })
         .where(eq(account_credentials.student_id, studentId));
     } catch (error) {
       if (shouldIgnoreCredentialError(error)) {
@@ -68,19 +142,23 @@ export const accountCredentialService = {
     }
   },
 
-  async listActiveForStudents(studentIds: string[]) {
+  /**
+   * Hands out each student's active temporary password once. The first reveal wipes
+   * the stored copy and is audited; later calls only report when that happened.
+   */
+  async revealForStudents(
+    actorId: string,
+    studentIds: string[],
+    context: "credential" | "export",
+  ): Promise<CredentialReveal[]> {
     if (!studentIds.length) {
       return [];
     }
 
+    let rows: Array<typeof account_credentials.$inferSelect>;
     try {
-      return await db
-        .select({
-          studentId: account_credentials.student_id,
-          plainPassword: account_credentials.plain_password,
-          source: account_credentials.source,
-          createdAt: account_credentials.created_at,
-        })
+      rows = await db
+        .select()
         .from(account_credentials)
         .where(
           and(
@@ -94,5 +172,74 @@ export const accountCredentialService = {
       }
       throw error;
     }
+
+    const reveals: CredentialReveal[] = [];
+    for (const row of rows) {
+      if (row.revealed_at) {
+        reveals.push({ studentId: row.student_id, password: null, revealedAt: row.revealed_at });
+        continue;
+      }
+      // Rows not yet moved into the vault still hold the legacy plaintext.
+      const password = row.password_ciphertext
+        ? open(row.password_ciphertext, row.student_id)
+        : row.plain_password;
+      if (!password) {
+        reveals.push({ studentId: row.student_id, password: null, revealedAt: null });
+        continue;
+      }
+
+      const revealedAt = new Date().toISOString();
+      const [claimed] = await db
+        .update(account_credentials)
+        .set({ revealed_at: revealedAt, password_ciphertext: null, plain_password: null })
+        .where(and(eq(account_credentials.id, row.id), isNull(account_credentials.revealed_at)))
+        .returning({ id: account_credentials.id });
+      if (!claimed) {
+        // A concurrent request revealed it first.
+        reveals.push({ studentId: row.student_id, password: null, revealedAt });
+        continue;
+      }
+
+      await auditService.log({
+        actorId,
+        action: "credential_revealed",
+        entityType: "user",
+        entityId: row.student_id,
+        after: { credentialId: row.id, source: row.source, context },
+      });
+      reveals.push({ studentId: row.student_id, password, revealedAt: null });
+    }
+    return reveals;
+  },
+
+  /**
+   * Moves rows written before the vault out of plaintext: active, unrevealed ones are
+   * sealed, the rest just lose their plaintext. Idempotent; runs at startup.
+   */
+  async encryptLegacyCredentials() {
+    let rows: Array<typeof account_credentials.$inferSelect>;
+    try {
+      rows = await db
+        .select()
+        .from(account_credentials)
+        .where(isNotNull(account_credentials.plain_password));
+    } catch (error) {
+      if (shouldIgnoreCredentialError(error)) {
+        return 0;
+      }
+      throw error;
+    }
+
+    for (const row of rows) {
+      const keep = row.is_active && !row.revealed_at && row.plain_password;
+      await db
+        .update(account_credentials)
+        .set({
+          plain_password: null,
+          password_ciphertext: keep ? seal(row.plain_password!, row.student_id) : null,
+        })
+        .where(eq(account_credentials.id, row.id));
+    }
+    return rows.length;
   },
 };
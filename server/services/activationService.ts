@@ -0,0 +1,143 @@
+import { createHash, randomBytes } from "crypto";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { activation_tokens, users } from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { auditService } from "./auditService";
+
+export type ActivationSource = "manual_create" | "import" | "reset" | "slip";
+
+export type IssuedActivation = {
+  /** Shown once, grouped for reading off a printed slip (ABCD-EFGH-JKMN). */
+  code: string;
+  expiresAt: string;
+};
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or retyped.
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_LENGTH = 12;
+
+function activationTtlMs() {
+  const hours = Number(process.env.ACTIVATION_TOKEN_TTL_HOURS ?? 168);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 60 * 60 * 1000;
+}
+
+function generateCode() {
+  // 256 is a multiple of 32, so taking each byte modulo 32 is unbiased.
+  const bytes = randomBytes(CODE_LENGTH);
+  const raw = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+  return raw.match(/.{4}/g)!.join("-");
+}
+
+/** Accepts the code as typed: any case, with or without dashes, O/I/L for 0/1/1. */
+function normalizeCode(code: string) {
+  return code
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1");
+}
+
+function hashCode(code: string) {
+  return createHash("sha256").update(normalizeCode(code)).digest("hex");
+}
+
+export const activationService = {
+  /**
+   * Issues a single-use activation code for an account, replacing any code still
+   * pending for it. Only the hash is stored; the code is returned once.
+   */
+  async issueToken(
+    issuerId: string | null,
+    userId: string,
+    source: ActivationSource,
+  ): Promise<IssuedActivation> {
+    await this.revokeForUser(userId);
+
+    const code = generateCode();
+    const expiresAt = new Date(Date.now() + activationTtlMs()).toISOString();
+    const [row] = await db
+      .insert(activation_tokens)
+      .values({
+        user_id: userId,
+        token_hash: hashCode(code),
+        source,
+        created_by: issuerId,
+        expires_at: expiresAt,
+      })
+      .returning();
+
+    await auditService.log({
+      actorId: issuerId,
+      action: "activation_token_issue",
+      entityType: "user",
+      entityId: userId,
+      after: { activationTokenId: row.id, source, expiresAt },
+    });
+
+    return { code, expiresAt };
+  },
+
+  async revokeForUser(userId: string) {
+    await db
+      .update(activation_tokens)
+      .set({ revoked_at: new Date().toISOString() })
+      .where(
+        and(
+          eq(activation_tokens.user_id, userId),
+          isNull(activation_tokens.used_at),
+          isNull(activation_tokens.revoked_at),
+        ),
+      );
+  },
+
+  /** The pending token for a code and its account; 404/410 with a code otherwise. */
+  async resolve(code: string) {
+    const [row] = await db
+      .select({ token: activation_tokens, user: users })
+      .from(activation_tokens)
+      .innerJoin(users, eq(users.id, activation_tokens.user_id))
+      .where(eq(activation_tokens.token_hash, hashCode(code)))
+      .limit(1);
+
+    if (!row || row.token.revoked_at) {
+      throw new ApiError(404, "This activation link is not valid.", "invalid_activation_token");
+    }
+    if (row.token.used_at) {
+      throw new ApiError(
+        410,
+        "This activation link was already used. Sign in with the password you set.",
+        "activation_token_used",
+      );
+    }
+    if (Date.parse(row.token.expires_at) <= Date.now()) {
+      throw new ApiError(
+        410,
+        "This activation link has expired. Ask your professor for a new one.",
+        "activation_token_expired",
+      );
+    }
+    return row;
+  },
+
+  /** Marks the token used; false when a concurrent request got there first. */
+  async consume(tokenId: string) {
+    const [consumed] = await db
+      .update(activation_tokens)
+      .set({ used_at: new Date().toISOString() })
+      .where(
+        and(
+          eq(activation_tokens.id, tokenId),
+          isNull(activation_tokens.used_at),
+          isNull(activation_tokens.revoked_at),
+        ),
+      )
+      .returning({ id: activation_tokens.id });
+    return Boolean(consumed);
+  },
+
+  /** A random password nobody knows, for accounts that wait for activation. */
+  placeholderPassword() {
+    return randomBytes(32).toString("base64url");
+  },
+};
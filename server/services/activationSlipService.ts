@@ -0,0 +1,220 @@
+import { desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { activation_tokens, courses, groups, users } from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { A4_HEIGHT, A4_WIDTH, PdfDocument } from "../utils/pdf";
+import { encodeQrCode } from "../utils/qrCode";
+import { activationService } from "./activationService";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+import { professorAccountService } from "./professorAccountService";
+
+export type ActivationSlip = {
+  studentId: string;
+  displayName: string;
+  username: string;
+  code: string;
+  expiresAt: string;
+};
+
+const PAGE_MARGIN = 28;
+const SLIP_COLUMNS = 2;
+const SLIP_ROWS = 5;
+const SLIP_PADDING = 12;
+const QR_SIZE = 100;
+
+async function requireRosterGroup(userId: string, groupId: string) {
+  const [row] = await db
+    .select({ group: groups, course: courses })
+    .from(groups)
+    .innerJoin(courses, eq(groups.course_id, courses.id))
+    .where(eq(groups.id, groupId))
+    .limit(1);
+
+  if (!row) {
+    throw new ApiError(404, "Group not found");
+  }
+  if (!(await courseStaffService.canAccessCourse(userId, row.course, "manage_roster"))) {
+    throw new ApiError(403, "You cannot print slips for this group");
+  }
+  return row;
+}
+
+async function groupStudents(professorId: string, groupId: string) {
+  const managed = await professorAccountService.listManagedUsers(professorId);
+  return managed.filter(
+    (user) =>
+      user.role === "student" &&
+      user.assignments.some((assignment) => assignment.groupId === groupId),
+  );
+}
+
+/**
+ * Students who have not chosen their own password: still on a temporary password, or
+ * whose latest activation code was never used.
+ */
+async function awaitingActivation(studentIds: string[]) {
+  if (!studentIds.length) {
+    return new Set<string>();
+  }
+  const [accounts, tokens] = await Promise.all([
+    db
+      .select({ id: users.id, mustChange: users.must_change_password })
+      .from(users)
+      .where(inArray(users.id, studentIds)),
+    db
+      .select({ userId: activation_tokens.user_id, usedAt: activation_tokens.used_at })
+      .from(activation_tokens)
+      .where(inArray(activation_tokens.user_id, studentIds))
+      .orderBy(desc(activation_tokens.created_at)),
+  ]);
+
+  const latestUsed = new Map<string, boolean>();
+  for (const token of tokens) {
+    if (!latestUsed.has(token.userId)) latestUsed.set(token.userId, Boolean(token.usedAt));
+  }
+  return new Set(
+    accounts
+      .filter((account) => account.mustChange || latestUsed.get(account.id) === false)
+      .map((account) => account.id),
+  );
+}
+
+function formatDate(value: string) {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+export const activationSlipService = {
+  /**
+   * Slips for a group. With `activations` (the codes an import just returned) those
+   * codes are printed as they are; codes that are no longer pending are left out.
+   * Otherwise every student in the group who has not activated yet gets a new code,
+   * which replaces any code handed out before. `studentIds` narrows the group.
+   */
+  async prepareGroupSlips(
+    actorId: string,
+    groupId: string,
+    options: {
+      studentIds?: string[];
+      activations?: Array<{ studentId: string; code: string }>;
+    } = {},
+  ) {
+    const { group, course } = await requireRosterGroup(actorId, groupId);
+    let students = await groupStudents(course.professor_id, groupId);
+    if (options.studentIds) {
+      const wanted = new Set(options.studentIds);
+      students = students.filter((student) => wanted.has(student.id));
+    }
+
+    const slips: ActivationSlip[] = [];
+    if (options.activations) {
+      const byId = new Map<string, (typeof students)[number]>(
+        students.map((student) => [student.id, student]),
+      );
+      for (const activation of options.activations) {
+        const student = byId.get(activation.studentId);
+        if (!student) continue;
+        try {
+          const { token, user } = await activationService.resolve(activation.code);
+          if (user.id !== student.id) continue;
+          slips.push({
+            studentId: student.id,
+            displayName: student.display_name,
+            username: student.username,
+            code: activation.code,
+            expiresAt: token.expires_at,
+          });
+        } catch (error) {
+          if (error instanceof ApiError && (error.status === 404 || error.status === 410)) {
+            continue;
+          }
+          throw error;
+        }
+      }
+    } else {
+      const pending = await awaitingActivation(students.map((student) => student.id));
+      for (const student of students.filter((candidate) => pending.has(candidate.id))) {
+        const issued = await activationService.issueToken(actorId, student.id, "slip");
+        slips.push({
+          studentId: student.id,
+          displayName: student.display_name,
+          username: student.username,
+          ...issued,
+        });
+      }
+    }
+
+    if (!slips.length) {
+      throw new ApiError(
+        404,
+        "Every student in this group has already activated their account.",
+        "no_pending_activations",
+      );
+    }
+
+    await auditService.log({
+      actorId,
+      action: "activation_slips_print",
+      entityType: "group",
+      entityId: group.id,
+      after: {
+        courseId: course.id,
+        studentIds: slips.map((slip) => slip.studentId),
+        reissued: !options.activations,
+      },
+    });
+
+    return { course, group, slips };
+  },
+
+  /**
+   * One cut-out slip per student, ten to an A4 page: course and group, name, username,
+   * the activation code and a QR code of its link.
+   */
+  renderPdf(input: {
+    course: { code: string; name: string };
+    group: { name: string };
+    slips: ActivationSlip[];
+    /** Where the web app is served, e.g. https://atendo.example.edu */
+    appUrl: string;
+  }) {
+    const pdf = new PdfDocument();
+    const slipWidth = (A4_WIDTH - PAGE_MARGIN * 2) / SLIP_COLUMNS;
+    const slipHeight = (A4_HEIGHT - PAGE_MARGIN * 2) / SLIP_ROWS;
+    const perPage = SLIP_COLUMNS * SLIP_ROWS;
+    const appUrl = input.appUrl.replace(/\/+$/, "");
+
+    const sorted = [...input.slips].sort((a, b) => a.username.localeCompare(b.username));
+    sorted.forEach((slip, index) => {
+      if (index % perPage === 0) pdf.addPage();
+      const cell = index % perPage;
+      const x = PAGE_MARGIN + (cell % SLIP_COLUMNS) * slipWidth;
+      const y = PAGE_MARGIN + Math.floor(cell / SLIP_COLUMNS) * slipHeight;
+      const left = x + SLIP_PADDING;
+      const textWidth = slipWidth - SLIP_PADDING * 3 - QR_SIZE;
+      const fullWidth = slipWidth - SLIP_PADDING * 2;
+      const link = `${appUrl}/#/activate/${slip.code}`;
+
+      pdf
+        .rect(x, y, slipWidth, slipHeight, { dash: [4, 3] })
+        .text(left, y + 20, `${input.course.code} – ${input.course.name}`, {
+          size: 8,
+          maxWidth: textWidth,
+        })
+        .text(left, y + 31, `Group ${input.group.name}`, { size: 8, maxWidth: textWidth })
+        .text(left, y + 52, slip.displayName, { font: "bold", size: 12, maxWidth: textWidth })
+        .text(left, y + 67, `Username: ${slip.username}`, { size: 9, maxWidth: textWidth })
+        .text(left, y + 86, "Activation code", { size: 7 })
+        .text(left, y + 101, slip.code, { font: "mono", size: 13 })
+        .qrCode(x + slipWidth - SLIP_PADDING - QR_SIZE, y + 8, QR_SIZE, encodeQrCode(link))
+        .text(left, y + 122, "Scan the QR code or open the link, then choose your own password.", {
+          size: 6.5,
+          maxWidth: fullWidth,
+        })
+        .text(left, y + 132, link, { size: 6.5, maxWidth: fullWidth })
+        .text(left, y + 145, `Works once, until ${formatDate(slip.expiresAt)}.`, { size: 6.5 });
+    });
+
+    return pdf.toBuffer();
+  },
+};
@@ -3,6 +3,7 @@ import { ApiError } from "../errors/apiError";
 import { db } from "../db";
 import {
   account_credentials,
+  activation_tokens,
   attendance_policies,
   attendance_records,
   attendance_rounds,
@@ -10,6 +11,8 @@ import {
   courses,
   excuse_requests,
   fraud_signals,
+  course_staff,
+  kiosk_tokens,
   professor_profiles,
   qr_tokens,
   sessions,
@@ -28,8 +31,10 @@ export const adminProfessorService = {
         display_name: users.display_name,
         created_at: users.created_at,
         last_login_at: users.last_login_at,
+        departmentId: professor_profiles.department_id,
       })
       .from(users)
+      .leftJoin(professor_profiles, eq(professor_profiles.user_id, users.id))
       .where(eq(users.role, "professor"));
 
     if (!professorRows.length) {
@@ -95,6 +100,7 @@ export const adminProfessorService = {
     for (const course of courseRows) {
       await courseService.deleteCourse(professorId, course.id);
     }
+    await db.delete(course_staff).where(eq(course_staff.user_id, professorId));
 
     const sessionRows = await db
       .select({ id: sessions.id })
@@ -118,6 +124,7 @@ export const adminProfessorService = {
         await db.delete(fraud_signals).where(inArray(fraud_signals.round_id, roundIds));
       }
 
+      await db.delete(kiosk_tokens).where(inArray(kiosk_tokens.session_id, sessionIds));
       await db.delete(attendance_rounds).where(
         inArray(attendance_rounds.session_id, sessionIds),
       );
@@ -135,6 +142,11 @@ export const adminProfessorService = {
       .update(student_profiles)
       .set({ created_by_professor_id: null })
       .where(eq(student_profiles.created_by_professor_id, professorId));
+    await db
+      .update(activation_tokens)
+      .set({ created_by: null })
+      .where(eq(activation_tokens.created_by, professorId));
+    await db.delete(activation_tokens).where(eq(activation_tokens.user_id, professorId));
     await db
       .update(attendance_policies)
       .set({ created_by: null })
@@ -0,0 +1,271 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  enrollments,
+  sessions,
+  users,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { logger } from "../utils/logger";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+import { emitSessionRefresh } from "../websocket/manager";
+
+export type ManualAttendanceStatus = "on_time" | "late" | "absent";
+
+const MANUAL_STATUSES = new Set<string>(["on_time", "late", "absent"]);
+const MAX_REASON_LENGTH = 500;
+
+function requireReason(reason?: string | null) {
+  const trimmed = reason?.trim() ?? "";
+  if (!trimmed) {
+    throw new ApiError(400, "A reason is required for manual attendance changes.");
+  }
+  if (trimmed.length > MAX_REASON_LENGTH) {
+    throw new ApiError(400, `Reason must be at most ${MAX_REASON_LENGTH} characters.`);
+  }
+  return trimmed;
+}
+
+async function requireOwnedRound(professorId: string, sessionId: string, roundId: string) {
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.id, sessionId))
+    .limit(1);
+
+  if (!session) {
+    throw new ApiError(404, "Session not found");
+  }
+  if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
+    throw new ApiError(403, "You do not own this session");
+  }
+
+  const [round] = await db
+    .select()
+    .from(attendance_rounds)
+    .where(
+      and(eq(attendance_rounds.id, roundId), eq(attendance_rounds.session_id, sessionId)),
+    )
+    .limit(1);
+
+  if (!round) {
+    throw new ApiError(404, "Round not found for this session");
+  }
+
+  return { session, round };
+}
+
+async function requireEnrolledStudent(
+  session: { group_id: string; course_id: string },
+  studentId: string,
+) {
+  const [enrollment] = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(
+      and(
+        eq(enrollments.student_id, studentId),
+        eq(enrollments.group_id, session.group_id),
+        eq(enrollments.course_id, session.course_id),
+      ),
+    )
+    .limit(1);
+
+  if (!enrollment) {
+    throw new ApiError(400, "Student is not enrolled in this session's group");
+  }
+}
+
+async function findRecord(roundId: string, studentId: string) {
+  const [record] = await db
+    .select()
+    .from(attendance_records)
+    .where(
+      and(
+        eq(attendance_records.round_id, roundId),
+        eq(attendance_records.student_id, studentId),
+      ),
+    )
+    .limit(1);
+  return record;
+}
+
+export const attendanceOverrideService = {
+  /**
+   * Lists every enrolled student for a round with their current record, if any.
+   */
+  async listRoundRecords(professorId: string, sessionId: string, roundId: string) {
+    const { session, round } = await requireOwnedRound(professorId, sessionId, roundId);
+
+    const rows = await db
+      .select({
+        studentId: users.id,
+        username: users.username,
+        displayName: users.display_name,
+        recordId: attendance_records.id,
+        status: attendance_records.status,
+        recordedAt: attendance_records.recorded_at,
+      })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.student_id, users.id))
+      .leftJoin(
+        attendance_records,
+        and(
+          eq(attendance_records.round_id, roundId),
+          eq(attendance_records.student_id, enrollments.student_id),
+        ),
+      )
+      .where(
+        and(
+          eq(enrollments.group_id, session.group_id),
+          eq(enrollments.course_id, session.course_id),
+        ),
+      )
+      .orderBy(users.display_name);
+
+    return {
+      round: {
+        id: round.id,
+        roundNumber: round.round_number,
+        isActive: round.is_active,
+      },
+      records: rows.map((row) => ({
+        studentId: row.studentId,
+        username: row.username,
+        displayName: row.displayName,
+        recordId: row.recordId ?? null,
+        status: row.status ?? null,
+        recordedAt: row.recordedAt ?? null,
+      })),
+    };
+  },
+
+  /**
+   * Creates or changes a student's record for a round by hand (dead phone, broken camera).
+   * Always audited with the professor's reason and the before/after record.
+   */
+  async setRecord(
+    professorId: string,
+    sessionId: string,
+    roundId: string,
+    studentId: string,
+    payload: { status?: string; reason?: string | null },
+  ) {
+    const { session } = await requireOwnedRound(professorId, sessionId, roundId);
+    if (!payload.status || !MANUAL_STATUSES.has(payload.status)) {
+      throw new ApiError(400, "status must be one of on_time, late or absent.");
+    }
+    const status = payload.status as ManualAttendanceStatus;
+    const reason = requireReason(payload.reason);
+    await requireEnrolledStudent(session, studentId);
+
+    const existing = await findRecord(roundId, studentId);
+    if (existing?.status === status) {
+      throw new ApiError(409, `Attendance is already marked as ${status}`);
+    }
+
+    const recordedAt = new Date().toISOString();
+    const [record] = existing
+      ? await db
+          .update(attendance_records)
+          .set({ status, recorded_at: recordedAt })
+          .where(eq(attendance_records.id, existing.id))
+          .returning()
+      : await db
+          .insert(attendance_records)
+          .values({
+            round_id: roundId,
+            student_id: studentId,
+            qr_token_id: null,
+            status,
+            recorded_at: recordedAt,
+          })
+          .returning();
+
+    await auditService.log({
+      actorId: professorId,
+      action: "attendance_override",
+      entityType: "attendance_record",
+      entityId: record.id,
+      before: existing ?? null,
+      after: record,
+      reason,
+    });
+
+    logger.info("attendance overridden", {
+      professorId,
+      roundId,
+      studentId,
+      status,
+    });
+
+    emitSessionRefresh(sessionId, {
+      sessionId,
+      reason: "attendance_overridden",
+      roundId,
+      studentId,
+      status,
+    });
+
+    return record;
+  },
+
+  /**
+   * Revokes a student's record for a round. Open rounds drop the record so the student
+   * can still scan; closed rounds fall back to an explicit absent record.
+   */
+  async revokeRecord(
+    professorId: string,
+    sessionId: string,
+    roundId: string,
+    studentId: string,
+    reasonInput?: string | null,
+  ) {
+    const { round } = await requireOwnedRound(professorId, sessionId, roundId);
+    const reason = requireReason(reasonInput);
+
+    const existing = await findRecord(roundId, studentId);
+    if (!existing || existing.status === "absent") {
+      throw new ApiError(404, "No attendance record to revoke");
+    }
+
+    let record: typeof existing | null = null;
+    if (round.is_active) {
+      await db.delete(attendance_records).where(eq(attendance_records.id, existing.id));
+    } else {
+      [record] = await db
+        .update(attendance_records)
+        .set({
+          status: "absent",
+          recorded_at: round.ends_at ?? new Date().toISOString(),
+        })
+        .where(eq(attendance_records.id, existing.id))
+        .returning();
+    }
+
+    await auditService.log({
+      actorId: professorId,
+      action: "attendance_revoke",
+      entityType: "attendance_record",
+      entityId: existing.id,
+      before: existing,
+      after: record,
+      reason,
+    });
+
+    logger.info("attendance revoked", { professorId, roundId, studentId });
+
+    emitSessionRefresh(sessionId, {
+      sessionId,
+      reason: "attendance_overridden",
+      roundId,
+      studentId,
+      status: record?.status,
+    });
+
+    return { revoked: true, record };
+  },
+};
@@ -1,4 +1,4 @@
-import { and, desc, eq, sql } from "drizzle-orm";
+import { and, desc, eq, inArray, ne, sql, type SQL } from "drizzle-orm";
 import { db } from "../db";
 import {
   attendance_records,
@@ -7,34 +7,144 @@ import {
   sessions,
   groups,
   courses,
+  fraud_signals,
   users,
 } from "@shared/schema";
 import { ApiError } from "../errors/apiError";
-import { buildQrPayload, qrService } from "./qrService";
-import { emitRoundQrUpdated, emitSessionRefresh } from "../websocket/manager";
+import { buildQrPayload, OFFLINE_GRACE_MS, qrService } from "./qrService";
+import {
+  emitRoundQrUpdated,
+  emitScanConfirmed,
+  emitSessionRefresh,
+} from "../websocket/manager";
 import { logger } from "../utils/logger";
 import type { AttendanceRound, Session } from "@shared/schema";
 import { haversineDistanceMeters } from "../utils/geo";
 import { policyService } from "./policyService";
 import { fraudService } from "./fraudService";
 import { auditService } from "./auditService";
+import { absenceService } from "./absenceService";
 
 type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
 
+export type OfflineScanItem = {
+  clientScanId: string;
+  roundId: string;
+  token: string;
+  capturedAt: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  deviceFingerprint?: string | null;
+  qrSignature?: string | null;
+  qrIssuedAt?: string | null;
+  qrExpiresAt?: string | null;
+};
+
+export type OfflineScanOutcome = "recorded" | "duplicate" | "expired" | "rejected";
+
+export type OfflineScanResult = {
+  // Null only for malformed items that did not carry the field.
+  clientScanId: string | null;
+  roundId: string | null;
+  outcome: OfflineScanOutcome;
+  status?: string;
+  recordedAt?: string;
+  code?: string;
+  reason?: string;
+};
+
+export const MAX_OFFLINE_BATCH_SIZE = 50;
+
+const EXPIRED_SCAN_CODES = new Set(["token_expired", "round_not_active"]);
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/** Null when absent, undefined when present but not a finite number. */
+function optionalCoordinate(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const parsed = typeof value === "number" || typeof value === "string" ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Reads one queued scan from a batch body. A malformed item becomes its own
+ * `rejected` result instead of failing the batch, so it leaves the client's queue.
+ */
+function parseOfflineScan(
+  raw: unknown,
+): { item: OfflineScanItem } | { rejection: OfflineScanResult } {
+  const fields = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const clientScanId = optionalString(fields.client_scan_id);
+  const roundId = optionalString(fields.roundId);
+  const token = optionalString(fields.token);
+  const capturedAt = optionalString(fields.capturedAt);
+  const latitude = optionalCoordinate(fields.latitude);
+  const longitude = optionalCoordinate(fields.longitude);
+  const reject = (reason: string) => ({
+    rejection: {
+      clientScanId,
+      roundId,
+      outcome: "rejected" as const,
+      code: "invalid_scan",
+      reason,
+    },
+  });
+
+  if (!clientScanId || !roundId || !token || !capturedAt) {
+    return reject("Each scan needs client_scan_id, roundId, token and capturedAt.");
+  }
+  if (Number.isNaN(Date.parse(capturedAt))) {
+    return reject("capturedAt must be a valid timestamp.");
+  }
+  if (latitude === undefined || longitude === undefined) {
+    return reject("latitude and longitude must be finite numbers.");
+  }
+  return {
+    item: {
+      clientScanId,
+      roundId,
+      token,
+      capturedAt,
+      latitude,
+      longitude,
+      deviceFingerprint: optionalString(fields.deviceFingerprint),
+      qrSignature: optionalString(fields.qrSignature),
+      qrIssuedAt: optionalString(fields.qrIssuedAt),
+      qrExpiresAt: optionalString(fields.qrExpiresAt),
+    },
+  };
+}
+
+/**
+ * Whether a round or session that has ended can still take an offline scan: it closed
+ * within the offline grace window and the scan was captured before it closed.
+ */
+function closedWithinGrace(endsAt: string | null, offlineCapturedAt?: string | null) {
+  if (!endsAt || !offlineCapturedAt || OFFLINE_GRACE_MS <= 0) {
+    return false;
+  }
+  const endsMs = new Date(endsAt).getTime();
+  const capturedMs = Date.parse(offlineCapturedAt);
+  return capturedMs <= endsMs && Date.now() <= endsMs + OFFLINE_GRACE_MS;
+}
+
 async function requireActiveRound(
   executor: DbExecutor,
   roundId: string,
+  offlineCapturedAt?: string | null,
 ): Promise<AttendanceRound> {
   const [round] = await executor
     .select()
     .from(attendance_rounds)
-    .where(
-      and(eq(attendance_rounds.id, roundId), eq(attendance_rounds.is_active, true)),
-    )
+    .where(eq(attendance_rounds.id, roundId))
     .limit(1);
 
-  if (!round) {
-    throw new ApiError(404, "Round not active");
+  if (!round || (!round.is_active && !closedWithinGrace(round.ends_at, offlineCapturedAt))) {
+    throw new ApiError(404, "Round not active", "round_not_active");
   }
 
   return round;
@@ -43,6 +153,7 @@ async function requireActiveRound(
 async function requireActiveSession(
   executor: DbExecutor,
   sessionId: string,
+  offlineCapturedAt?: string | null,
 ): Promise<Session> {
   const [session] = await executor
     .select()
@@ -50,7 +161,10 @@ async function requireActiveSession(
     .where(eq(sessions.id, sessionId))
     .limit(1);
 
-  if (!session || !session.is_active) {
+  if (
+    !session ||
+    (!session.is_active && !closedWithinGrace(session.ends_at, offlineCapturedAt))
+  ) {
     throw new ApiError(400, "Session is not active");
   }
 
@@ -99,25 +213,55 @@ async function ensureStudentCanScan(
   }
 }
 
+/**
+ * Rejects a second scan for the round. A closed round already holds an absent row for
+ * every student who had not scanned; that row is returned so a late-synced offline
+ * scan can replace it.
+ */
 async function ensureNotAlreadyRecorded(
   executor: DbExecutor,
-  roundId: string,
+  round: AttendanceRound,
   studentId: string,
 ) {
-  const existing = await executor
+  const [existing] = await executor
     .select()
     .from(attendance_records)
     .where(
       and(
-        eq(attendance_records.round_id, roundId),
+        eq(attendance_records.round_id, round.id),
         eq(attendance_records.student_id, studentId),
       ),
     )
     .limit(1);
 
-  if (existing.length > 0) {
-    throw new ApiError(409, "Attendance already recorded for this round");
+  if (!existing) {
+    return null;
+  }
+  if (!round.is_active && existing.status === "absent") {
+    return existing;
   }
+  throw new ApiError(409, "Attendance already recorded for this round");
+}
+
+async function findAttendedRecord(
+  roundId: string,
+  studentId: string,
+): Promise<{ status: string; recordedAt: string } | null> {
+  const [record] = await db
+    .select({
+      status: attendance_records.status,
+      recordedAt: attendance_records.recorded_at,
+    })
+    .from(attendance_records)
+    .where(
+      and(
+        eq(attendance_records.round_id, roundId),
+        eq(attendance_records.student_id, studentId),
+        ne(attendance_records.status, "absent"),
+      ),
+    )
+    .limit(1);
+  return record ?? null;
 }
 
 async function detectRapidBurst(
@@ -138,6 +282,7 @@ async function detectRapidBurst(
       and(
         eq(attendance_rounds.session_id, sessionId),
         eq(attendance_records.student_id, studentId),
+        ne(attendance_records.status, "absent"),
         sql`${attendance_records.recorded_at} >= ${windowStartIso}`,
       ),
     );
@@ -260,6 +405,134 @@ async function detectMultipleDevices(
   }
 }
 
+// Scans by different students this close together from one device or spot are "co-scans".
+const BUDDY_WINDOW_SECONDS = 20;
+const BUDDY_MIN_SESSIONS = 3;
+const BUDDY_COORD_TOLERANCE = 0.0001;
+
+type CoScanRecord = {
+  studentId: string;
+  roundId: string;
+  recordedAt: string;
+  deviceFingerprint: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+function coScanMatch(a: CoScanRecord, b: CoScanRecord): "device" | "location" | null {
+  const gapMs = Math.abs(Date.parse(a.recordedAt) - Date.parse(b.recordedAt));
+  if (gapMs > BUDDY_WINDOW_SECONDS * 1000) return null;
+  if (a.deviceFingerprint && a.deviceFingerprint === b.deviceFingerprint) {
+    return "device";
+  }
+  if (
+    a.latitude != null &&
+    a.longitude != null &&
+    b.latitude != null &&
+    b.longitude != null &&
+    Math.abs(a.latitude - b.latitude) <= BUDDY_COORD_TOLERANCE &&
+    Math.abs(a.longitude - b.longitude) <= BUDDY_COORD_TOLERANCE
+  ) {
+    return "location";
+  }
+  return null;
+}
+
+async function selectCoScanRecords(
+  conditions: SQL[],
+): Promise<Array<CoScanRecord & { sessionId: string }>> {
+  return db
+    .select({
+      studentId: attendance_records.student_id,
+      roundId: attendance_records.round_id,
+      sessionId: attendance_rounds.session_id,
+      recordedAt: attendance_records.recorded_at,
+      deviceFingerprint: attendance_records.device_fingerprint,
+      latitude: attendance_records.recorded_latitude,
+      longitude: attendance_records.recorded_longitude,
+    })
+    .from(attendance_records)
+    .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
+    .innerJoin(sessions, eq(attendance_rounds.session_id, sessions.id))
+    .where(and(ne(attendance_records.status, "absent"), ...conditions));
+}
+
+/**
+ * Flags students whose scans keep landing within seconds of each other from the same
+ * device or coordinates in several sessions of a course, i.e. one person scanning for
+ * friends. Emits at most one signal per student and session.
+ */
+async function detectBuddyPunching(
+  studentId: string,
+  sessionId: string,
+  courseId: string,
+  roundId: string,
+) {
+  const roundRecords = await selectCoScanRecords([eq(attendance_records.round_id, roundId)]);
+  const current = roundRecords.find((record) => record.studentId === studentId);
+  if (!current) return;
+  const candidates = roundRecords
+    .filter((record) => record.studentId !== studentId && coScanMatch(current, record))
+    .map((record) => record.studentId);
+  if (!candidates.length) return;
+
+  const [existing] = await db
+    .select({ id: fraud_signals.id })
+    .from(fraud_signals)
+    .where(
+      and(
+        eq(fraud_signals.type, "buddy_punching"),
+        eq(fraud_signals.session_id, sessionId),
+        eq(fraud_signals.student_id, studentId),
+      ),
+    )
+    .limit(1);
+  if (existing) return;
+
+  const history = await selectCoScanRecords([
+    eq(sessions.course_id, courseId),
+    inArray(attendance_records.student_id, [studentId, ...candidates]),
+  ]);
+  const ownByRound = new Map(
+    history
+      .filter((record) => record.studentId === studentId)
+      .map((record) => [record.roundId, record]),
+  );
+  const sessionsByPartner = new Map<string, Set<string>>();
+  const matchedBy = new Set<string>();
+  for (const record of history) {
+    const own = ownByRound.get(record.roundId);
+    if (record.studentId === studentId || !own) continue;
+    const match = coScanMatch(own, record);
+    if (!match) continue;
+    matchedBy.add(match);
+    const seen = sessionsByPartner.get(record.studentId) ?? new Set<string>();
+    seen.add(record.sessionId);
+    sessionsByPartner.set(record.studentId, seen);
+  }
+
+  const partners = Array.from(sessionsByPartner.entries()).filter(
+    ([, seen]) => seen.size >= BUDDY_MIN_SESSIONS,
+  );
+  if (!partners.length) return;
+
+  await fraudService.emit({
+    type: "buddy_punching",
+    severity: "high",
+    sessionId,
+    roundId,
+    studentId,
+    details: {
+      correlatedStudentIds: [studentId, ...partners.map(([partnerId]) => partnerId)].sort(),
+      sessionCounts: Object.fromEntries(
+        partners.map(([partnerId, seen]) => [partnerId, seen.size]),
+      ),
+      matchedBy: Array.from(matchedBy).sort(),
+      windowSeconds: BUDDY_WINDOW_SECONDS,
+    },
+  });
+}
+
 export const attendanceService = {
   /**
    * Record a student's scan for a round, consuming the QR token and rotating the next one.
@@ -276,17 +549,17 @@ export const attendanceService = {
     qrIssuedAt?: string | null,
     qrExpiresAt?: string | null,
   ) {
-    const round = await requireActiveRound(db, roundId);
-    const session = await requireActiveSession(db, round.session_id);
+    const round = await requireActiveRound(db, roundId, offlineCapturedAt);
+    const session = await requireActiveSession(db, round.session_id, offlineCapturedAt);
     await ensureStudentCanScan(db, studentId);
     await ensureStudentEnrollment(db, studentId, session.group_id);
-    await ensureNotAlreadyRecorded(db, roundId, studentId);
+    const absentRecord = await ensureNotAlreadyRecorded(db, round, studentId);
 
     if (round.geofence_enabled) {
       if (
         !location ||
-        location.latitude === undefined ||
-        location.longitude === undefined
+        !Number.isFinite(location.latitude) ||
+        !Number.isFinite(location.longitude)
       ) {
         logger.warn("scan rejected: missing location", { roundId, userId: studentId });
         throw new ApiError(400, "Location required for this round.");
@@ -323,38 +596,60 @@ export const attendanceService = {
         qrSignature,
         qrIssuedAt,
         qrExpiresAt,
+        studentId,
       },
       db,
     );
     const nowMs = Date.now();
     const recordedAt = new Date(nowMs).toISOString();
+    // Offline scans are timed by their verified capture, not by when the queue synced.
+    const scannedMs = new Date(tokenEntry.scannedAt).getTime();
 
     const roundStartMs = round.starts_at
       ? new Date(round.starts_at).getTime()
-      : nowMs;
-    await policyService.getActivePolicyForRound(
-      session.course_id,
-      session.professor_id,
+      : scannedMs;
+    const policy = await policyService.getActivePolicyForCourse(session.course_id);
+    const thresholdSeconds = policyService.getLateThresholdSeconds(
+      policy.rules,
+      Boolean(round.is_break_round),
     );
-    const thresholdSeconds = 15 * 60;
-    const nowSeconds = Math.floor(nowMs / 1000);
+    const scannedSeconds = Math.floor(scannedMs / 1000);
     const startSeconds = Math.floor(roundStartMs / 1000);
-    const deltaSeconds = nowSeconds - startSeconds;
+    const deltaSeconds = scannedSeconds - startSeconds;
     const isLate = deltaSeconds > thresholdSeconds;
 
+    const recordValues = {
+      round_id: roundId,
+      student_id: studentId,
+      qr_token_id: tokenEntry.id,
+      status: isLate ? "late" : "on_time",
+      recorded_at: recordedAt,
+      device_fingerprint: deviceFingerprint ?? null,
+      recorded_latitude: location?.latitude ?? null,
+      recorded_longitude: location?.longitude ?? null,
+      client_scan_id: clientScanId ?? null,
+      recorded_at_client: offlineCapturedAt ?? null,
+      policy_id: policy.id ?? null,
+      policy_version: policy.version,
+    };
     try {
-      await db.insert(attendance_records).values({
-        round_id: roundId,
-        student_id: studentId,
-        qr_token_id: tokenEntry.id,
-        status: isLate ? "late" : "on_time",
-        recorded_at: recordedAt,
-        device_fingerprint: deviceFingerprint ?? null,
-        recorded_latitude: location?.latitude ?? null,
-        recorded_longitude: location?.longitude ?? null,
-        client_scan_id: clientScanId ?? null,
-        recorded_at_client: offlineCapturedAt ?? null,
-      });
+      if (absentRecord) {
+        const [replaced] = await db
+          .update(attendance_records)
+          .set(recordValues)
+          .where(
+            and(
+              eq(attendance_records.id, absentRecord.id),
+              eq(attendance_records.status, "absent"),
+            ),
+          )
+          .returning();
+        if (!replaced) {
+          throw new ApiError(409, "Attendance already recorded for this round");
+        }
+      } else {
+        await db.insert(attendance_records).values(recordValues);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "";
       if (message.includes("attendance_records_round_student_unique")) {
@@ -378,6 +673,7 @@ export const attendanceService = {
     );
     await detectEdgeScans(studentId, session.id, roundId, deltaSeconds, thresholdSeconds);
     await detectMultipleDevices(studentId, session.id, session.course_id, deviceFingerprint);
+    await detectBuddyPunching(studentId, session.id, session.course_id, roundId);
 
     const [student] = await db
       .select({
@@ -387,21 +683,24 @@ export const attendanceService = {
       .where(eq(users.id, studentId))
       .limit(1);
 
-    const nextToken = await qrService.generateToken(roundId, db);
-    const qrPayload = buildQrPayload({
-      roundId,
-      token: nextToken.rawToken,
-      issuedAt: nextToken.issuedAt,
-      expiresAt: nextToken.expiresAt.toISOString(),
-    });
+    // A round that already closed has no QR on screen to rotate.
+    if (round.is_active) {
+      const nextToken = await qrService.generateToken(roundId, db);
+      const qrPayload = buildQrPayload({
+        roundId,
+        token: nextToken.rawToken,
+        issuedAt: nextToken.issuedAt,
+        expiresAt: nextToken.expiresAt.toISOString(),
+      });
 
-    emitRoundQrUpdated(session.id, {
-      sessionId: session.id,
-      roundId,
-      token: nextToken.rawToken,
-      expiresAt: nextToken.expiresAt.toISOString(),
-      qrPayload,
-    });
+      emitRoundQrUpdated(session.id, {
+        sessionId: session.id,
+        roundId,
+        token: nextToken.rawToken,
+        expiresAt: nextToken.expiresAt.toISOString(),
+        qrPayload,
+      });
+    }
     emitSessionRefresh(session.id, {
       sessionId: session.id,
       reason: "scan_recorded",
@@ -413,6 +712,12 @@ export const attendanceService = {
     });
 
     const status = isLate ? "late" : "on_time";
+    emitScanConfirmed(studentId, {
+      sessionId: session.id,
+      roundId,
+      status,
+      recordedAt,
+    });
 
     logger.info("attendance recorded", {
       userId: studentId,
@@ -427,6 +732,86 @@ export const attendanceService = {
     };
   },
 
+  /**
+   * Replays a student's offline queue in one request. Items are the raw batch body
+   * entries; malformed ones are rejected individually, the rest go through the same
+   * checks as a live scan, in capture order. Every item gets an outcome so the client
+   * can clear its queue. Unexpected failures abort the batch so the client retries later.
+   */
+  async syncOfflineScans(studentId: string, rawItems: unknown[]) {
+    if (rawItems.length > MAX_OFFLINE_BATCH_SIZE) {
+      throw new ApiError(
+        400,
+        `At most ${MAX_OFFLINE_BATCH_SIZE} scans can be synced at once.`,
+      );
+    }
+
+    const results: OfflineScanResult[] = [];
+    const items: OfflineScanItem[] = [];
+    rawItems.map(parseOfflineScan).forEach((parsed) => {
+      if ("rejection" in parsed) {
+        results.push(parsed.rejection);
+      } else {
+        items.push(parsed.item);
+      }
+    });
+
+    const ordered = items.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+    for (const item of ordered) {
+      const base = { clientScanId: item.clientScanId, roundId: item.roundId };
+      const existing = await findAttendedRecord(item.roundId, studentId);
+      if (existing) {
+        results.push({ ...base, outcome: "duplicate", ...existing });
+        continue;
+      }
+
+      try {
+        const recorded = await this.recordScan(
+          studentId,
+          item.roundId,
+          item.token,
+          item.latitude != null && item.longitude != null
+            ? { latitude: item.latitude, longitude: item.longitude }
+            : null,
+          item.deviceFingerprint ?? null,
+          item.clientScanId,
+          item.capturedAt,
+          item.qrSignature ?? null,
+          item.qrIssuedAt ?? null,
+          item.qrExpiresAt ?? null,
+        );
+        results.push({
+          ...base,
+          outcome: "recorded",
+          status: recorded.status,
+          recordedAt: recorded.recordedAt,
+        });
+      } catch (error) {
+        if (!(error instanceof ApiError)) {
+          throw error;
+        }
+        // A 409 can also mean another request recorded this round in the meantime.
+        const raced =
+          error.status === 409 ? await findAttendedRecord(item.roundId, studentId) : null;
+        if (raced) {
+          results.push({ ...base, outcome: "duplicate", ...raced });
+          continue;
+        }
+        const outcome: OfflineScanOutcome =
+          error.code && EXPIRED_SCAN_CODES.has(error.code) ? "expired" : "rejected";
+        results.push({ ...base, outcome, code: error.code, reason: error.message });
+      }
+    }
+
+    logger.info("offline scans synced", {
+      userId: studentId,
+      total: results.length,
+      recorded: results.filter((result) => result.outcome === "recorded").length,
+    });
+
+    return results;
+  },
+
   /**
    * Aggregated attendance summaries for the requesting student.
    */
@@ -447,7 +832,9 @@ export const attendanceService = {
           FROM ${attendance_records} rec
           JOIN ${attendance_rounds} ar ON rec.round_id = ar.id
           JOIN ${sessions} s ON ar.session_id = s.id
-          WHERE rec.student_id = ${studentId} AND s.group_id = ${groups.id}
+          WHERE rec.student_id = ${studentId}
+            AND s.group_id = ${groups.id}
+            AND rec.status != 'absent'
         )`,
       })
       .from(enrollments)
@@ -455,20 +842,31 @@ export const attendanceService = {
       .innerJoin(courses, eq(enrollments.course_id, courses.id))
       .where(eq(enrollments.student_id, studentId));
 
-    return stats.map((row) => ({
-      courseId: row.courseId,
-      courseName: row.courseName,
-      groupName: row.groupName,
-      totalRounds: Number(row.totalRounds ?? 0),
-      attendedRounds: Number(row.attendedRounds ?? 0),
-      attendancePercentage:
-        Number(row.totalRounds ?? 0) === 0
-          ? 0
-          : Math.round(
-              (Number(row.attendedRounds ?? 0) / Number(row.totalRounds ?? 0)) *
-                100,
-            ),
-    }));
+    const absences = await absenceService.getStudentAbsences(studentId);
+    const absencesByCourse = new Map(absences.map((row) => [row.courseId, row]));
+
+    return stats.map((row) => {
+      const absence = absencesByCourse.get(row.courseId);
+      return {
+        courseId: row.courseId,
+        courseName: row.courseName,
+        groupName: row.groupName,
+        totalRounds: Number(row.totalRounds ?? 0),
+        attendedRounds: Number(row.attendedRounds ?? 0),
+        attendancePercentage:
+          Number(row.totalRounds ?? 0) === 0
+            ? 0
+            : Math.round(
+                (Number(row.attendedRounds ?? 0) / Number(row.totalRounds ?? 0)) *
+                  100,
+              ),
+        excusedRounds: absence?.excusedRounds ?? 0,
+        absences: absence?.absences ?? 0,
+        maxAbsences: absence?.maxAbsences ?? null,
+        remainingAbsences: absence?.remainingAbsences ?? null,
+        absenceStatus: absence?.absenceStatus ?? "ok",
+      };
+    });
   },
 
   /**
@@ -1,5 +1,9 @@
-import { db } from "../db";
-import { audit_logs } from "@shared/schema";
+import { createHash } from "crypto";
+import { and, asc, desc, eq, gt, gte, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import type { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import { db, isPostgres } from "../db";
+import { audit_logs, users } from "@shared/schema";
+import { ApiError } from "../errors/apiError";
 import { logger } from "../utils/logger";
 
 export type AuditParams = {
@@ -12,20 +16,506 @@ export type AuditParams = {
   reason?: string | null;
 };
 
+export type AuditLogFilters = {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: string;
+  to?: string;
+};
+
+export type AuditLogChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type AuditLogEntry = {
+  id: string;
+  createdAt: string;
+  actorId: string | null;
+  actorUsername: string | null;
+  actorName: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  reason: string | null;
+  before: unknown;
+  after: unknown;
+  changes: AuditLogChange[];
+};
+
+export type AuditChainBreak = {
+  chainSeq: number | null;
+  entryId: string;
+  reason: "hash_mismatch" | "prev_hash_mismatch" | "missing_entry" | "unchained_entry";
+};
+
+export type AuditChainReport = {
+  ok: boolean;
+  checkedEntries: number;
+  headSeq: number | null;
+  headHash: string | null;
+  firstBrokenLink: AuditChainBreak | null;
+};
+
+type AuditLogRow = typeof audit_logs.$inferSelect;
+type ChainHead = { chainSeq: number; hash: string };
+type ChainExecutor = Pick<typeof db, "select" | "insert" | "update">;
+
+export const GENESIS_HASH = "0".repeat(64);
+const VERIFY_BATCH_SIZE = 500;
+// Advisory lock key shared by every instance that appends to the chain.
+const CHAIN_LOCK_KEY = "audit_logs_chain";
+const MAX_APPEND_ATTEMPTS = 10;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORTED_LOGS = 10000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Hash over everything an entry records plus its chain position and predecessor's
+ * hash, so editing, reordering or deleting any entry breaks every later link.
+ */
+function hashEntry(
+  row: Pick<
+    AuditLogRow,
+    | "actor_ref"
+    | "action"
+    | "entity_type"
+    | "entity_id"
+    | "before_json"
+    | "after_json"
+    | "reason"
+    | "created_at"
+  >,
+  chainSeq: number,
+  prevHash: string,
+) {
+  const content = JSON.stringify([
+    chainSeq,
+    prevHash,
+    row.actor_ref ?? null,
+    row.action,
+    row.entity_type,
+    row.entity_id ?? null,
+    row.before_json ?? null,
+    row.after_json ?? null,
+    row.reason ?? null,
+    // Postgres hands timestamptz back in its own format; hash the instant, not the text.
+    new Date(row.created_at).toISOString(),
+  ]);
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function readChainHead(executor: ChainExecutor = db): Promise<ChainHead | null> {
+  const [head] = await executor
+    .select({ chainSeq: audit_logs.chain_seq, hash: audit_logs.hash })
+    .from(audit_logs)
+    .where(sql`${audit_logs.chain_seq} IS NOT NULL`)
+    .orderBy(desc(audit_logs.chain_seq))
+    .limit(1);
+  return head ? { chainSeq: head.chainSeq!, hash: head.hash! } : null;
+}
+
+/**
+ * Links entries written before the chain existed, oldest first, so the chain covers
+ * the whole table. Only runs while the chain is still empty.
+ */
+async function sealLegacyEntries(executor: ChainExecutor): Promise<ChainHead | null> {
+  const legacy: AuditLogRow[] = await executor
+    .select()
+    .from(audit_logs)
+    .where(isNull(audit_logs.chain_seq))
+    .orderBy(asc(audit_logs.created_at), asc(audit_logs.id));
+
+  let head: ChainHead | null = null;
+  for (const row of legacy) {
+    const chainSeq: number = (head?.chainSeq ?? 0) + 1;
+    const prevHash: string = head?.hash ?? GENESIS_HASH;
+    const sealed = { ...row, actor_ref: row.actor_id };
+    const hash = hashEntry(sealed, chainSeq, prevHash);
+    await executor
+      .update(audit_logs)
+      .set({ actor_ref: sealed.actor_ref, chain_seq: chainSeq, prev_hash: prevHash, hash })
+      .where(eq(audit_logs.id, row.id));
+    head = { chainSeq, hash };
+  }
+  return head;
+}
+
+// Appends within this process queue up so they do not race each other for the head.
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+function withChainLock<T>(task: () => Promise<T>) {
+  const run = appendQueue.then(task, task);
+  appendQueue = run.catch(() => undefined);
+  return run;
+}
+
+type AuditRowValues = Omit<typeof audit_logs.$inferInsert, "chain_seq" | "prev_hash" | "hash"> &
+  Parameters<typeof hashEntry>[0];
+
+async function insertLinked(executor: ChainExecutor, row: AuditRowValues) {
+  const head = (await readChainHead(executor)) ?? (await sealLegacyEntries(executor));
+  const chainSeq = (head?.chainSeq ?? 0) + 1;
+  const prevHash = head?.hash ?? GENESIS_HASH;
+  await executor.insert(audit_logs).values({
+    ...row,
+    chain_seq: chainSeq,
+    prev_hash: prevHash,
+    hash: hashEntry(row, chainSeq, prevHash),
+  });
+}
+
+/** Another writer took the same chain position first (unique chain_seq). */
+function isChainConflict(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (/audit_logs_chain_seq_unique|audit_logs\.chain_seq/.test(current.message)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Other instances append to the same chain. On Postgres the head is read and the entry
+ * inserted under a transaction-scoped advisory lock, so writers take turns. SQLite has
+ * no such lock, so a writer that loses the race for a position re-reads the head and
+ * tries again rather than dropping the entry.
+ */
+async function appendEntry(params: AuditParams) {
+  const row: AuditRowValues = {
+    actor_id: params.actorId ?? null,
+    actor_ref: params.actorId ?? null,
+    action: params.action,
+    entity_type: params.entityType,
+    entity_id: params.entityId ?? null,
+    before_json: params.before ? JSON.stringify(params.before) : null,
+    after_json: params.after ? JSON.stringify(params.after) : null,
+    reason: params.reason ?? null,
+    created_at: new Date().toISOString(),
+  };
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      if (isPostgres) {
+        await (db as ReturnType<typeof drizzlePg>).transaction(async (tx) => {
+          await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${CHAIN_LOCK_KEY}))`);
+          await insertLinked(tx as unknown as ChainExecutor, row);
+        });
+      } else {
+        await insertLinked(db, row);
+      }
+      return;
+    } catch (error) {
+      if (attempt >= MAX_APPEND_ATTEMPTS || !isChainConflict(error)) {
+        throw error;
+      }
+    }
+  }
+}
+
+function parseJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-level changes between two snapshots. Nested objects are walked with dotted
+ * paths; arrays and scalars are compared as whole values.
+ */
+function diffValues(before: unknown, after: unknown, path = ""): AuditLogChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap((key) =>
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key),
+    );
+  }
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) {
+    return [];
+  }
+  if (!path && (isPlainObject(before) || isPlainObject(after))) {
+    // Creation or deletion: list every field of the snapshot that exists.
+    const snapshot = (isPlainObject(before) ? before : after) as Record<string, unknown>;
+    return Object.keys(snapshot)
+      .sort()
+      .map((key) => ({
+        path: key,
+        before: isPlainObject(before) ? before[key] : null,
+        after: isPlainObject(after) ? after[key] : null,
+      }));
+  }
+  return [{ path: path || "value", before: before ?? null, after: after ?? null }];
+}
+
+function parseDate(value: string, field: "from" | "to") {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ApiError(400, `${field} must be a valid date.`);
+  }
+  // A bare date as the upper bound includes that whole day.
+  if (field === "to" && DATE_ONLY.test(value)) {
+    parsed.setUTCDate(parsed.getUTCDate() + 1);
+  }
+  return parsed.toISOString();
+}
+
+function encodeCursor(row: { created_at: string; id: string }) {
+  return Buffer.from(`${row.created_at}|${row.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string) {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const separator = decoded.lastIndexOf("|");
+  const createdAt = decoded.slice(0, separator);
+  const id = decoded.slice(separator + 1);
+  if (separator <= 0 || !id || Number.isNaN(new Date(createdAt).getTime())) {
+    throw new ApiError(400, "Invalid cursor");
+  }
+  return { createdAt, id };
+}
+
+function buildConditions(filters: AuditLogFilters) {
+  const conditions: SQL[] = [];
+  if (filters.actorId) {
+    conditions.push(
+      or(eq(audit_logs.actor_id, filters.actorId), eq(audit_logs.actor_ref, filters.actorId))!,
+    );
+  }
+  if (filters.action) conditions.push(eq(audit_logs.action, filters.action));
+  if (filters.entityType) conditions.push(eq(audit_logs.entity_type, filters.entityType));
+  if (filters.entityId) conditions.push(eq(audit_logs.entity_id, filters.entityId));
+  const from = filters.from ? parseDate(filters.from, "from") : null;
+  const to = filters.to ? parseDate(filters.to, "to") : null;
+  if (from && to && from >= to) {
+    throw new ApiError(400, "from must be before to.");
+  }
+  if (from) conditions.push(gte(audit_logs.created_at, from));
+  if (to) conditions.push(lt(audit_logs.created_at, to));
+  return conditions;
+}
+
+async function selectLogs(conditions: SQL[], limit: number): Promise<AuditLogEntry[]> {
+  const rows = await db
+    .select({
+      log: audit_logs,
+      actorUsername: users.username,
+      actorName: users.display_name,
+    })
+    .from(audit_logs)
+    .leftJoin(users, eq(audit_logs.actor_id, users.id))
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(audit_logs.created_at), desc(audit_logs.id))
+    .limit(limit);
+
+  return rows.map((row) => {
+    const before = parseJson(row.log.before_json);
+    const after = parseJson(row.log.after_json);
+    return {
+      id: row.log.id,
+      createdAt: row.log.created_at,
+      actorId: row.log.actor_ref ?? row.log.actor_id,
+      actorUsername: row.actorUsername ?? null,
+      actorName: row.actorName ?? null,
+      action: row.log.action,
+      entityType: row.log.entity_type,
+      entityId: row.log.entity_id,
+      reason: row.log.reason,
+      before,
+      after,
+      changes: diffValues(before, after),
+    };
+  });
+}
+
 export const auditService = {
   async log(params: AuditParams) {
     try {
-      await db.insert(audit_logs).values({
-        actor_id: params.actorId ?? null,
-        action: params.action,
-        entity_type: params.entityType,
-        entity_id: params.entityId ?? null,
-        before_json: params.before ? JSON.stringify(params.before) : null,
-        after_json: params.after ? JSON.stringify(params.after) : null,
-        reason: params.reason ?? null,
-      });
+      await withChainLock(() => appendEntry(params));
     } catch (error) {
       logger.error("audit log insert failed", { error });
     }
   },
+
+  /**
+   * Walks the chain in order and reports the first entry whose hash, predecessor link
+   * or position does not check out. Entries outside the chain (written straight to the
+   * table) also fail verification. Record `headHash` elsewhere to detect truncation.
+   */
+  async verifyChain(): Promise<AuditChainReport> {
+    const [unchained] = await db
+      .select({ id: audit_logs.id })
+      .from(audit_logs)
+      .where(isNull(audit_logs.chain_seq))
+      .orderBy(asc(audit_logs.created_at))
+      .limit(1);
+    const head = await readChainHead();
+    if (!head && unchained) {
+      // Nothing chained yet: these are legacy rows waiting to be sealed.
+      return { ok: true, checkedEntries: 0, headSeq: null, headHash: null, firstBrokenLink: null };
+    }
+
+    let checkedEntries = 0;
+    let previous: ChainHead = { chainSeq: 0, hash: GENESIS_HASH };
+    let firstBrokenLink: AuditChainBreak | null = null;
+
+    while (!firstBrokenLink) {
+      const batch: AuditLogRow[] = await db
+        .select()
+        .from(audit_logs)
+        .where(gt(audit_logs.chain_seq, previous.chainSeq))
+        .orderBy(asc(audit_logs.chain_seq))
+        .limit(VERIFY_BATCH_SIZE);
+      if (!batch.length) break;
+
+      for (const row of batch) {
+        const chainSeq = row.chain_seq!;
+        const reason =
+          chainSeq !== previous.chainSeq + 1
+            ? "missing_entry"
+            : row.prev_hash !== previous.hash
+              ? "prev_hash_mismatch"
+              : row.hash !== hashEntry(row, chainSeq, previous.hash)
+                ? "hash_mismatch"
+                : null;
+        if (reason) {
+          firstBrokenLink = { chainSeq, entryId: row.id, reason };
+          break;
+        }
+        checkedEntries += 1;
+        previous = { chainSeq, hash: row.hash! };
+      }
+    }
+
+    if (!firstBrokenLink && unchained) {
+      firstBrokenLink = { chainSeq: null, entryId: unchained.id, reason: "unchained_entry" };
+    }
+    return {
+      ok: !firstBrokenLink,
+      checkedEntries,
+      headSeq: head?.chainSeq ?? null,
+      headHash: head?.hash ?? null,
+      firstBrokenLink,
+    };
+  },
+
+  /**
+   * Audit entries newest first, `limit` at a time. Pass the returned `nextCursor` back
+   * as `cursor` to continue after the last entry of the page.
+   */
+  async listLogs(
+    filters: AuditLogFilters = {},
+    page: { cursor?: string; limit?: number } = {},
+  ) {
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ApiError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}.`);
+    }
+    const conditions = buildConditions(filters);
+    if (page.cursor) {
+      const cursor = decodeCursor(page.cursor);
+      conditions.push(
+        or(
+          lt(audit_logs.created_at, cursor.createdAt),
+          and(eq(audit_logs.created_at, cursor.createdAt), lt(audit_logs.id, cursor.id)),
+        )!,
+      );
+    }
+
+    const rows = await selectLogs(conditions, limit + 1);
+    const logs = rows.slice(0, limit);
+    const last = logs[logs.length - 1];
+    return {
+      logs,
+      nextCursor:
+        rows.length > limit && last
+          ? encodeCursor({ created_at: last.createdAt, id: last.id })
+          : null,
+    };
+  },
+
+  /**
+   * Every entry matching `filters` (capped at 10k) as a CSV or JSON download.
+   */
+  async exportLogs(filters: AuditLogFilters, format: string) {
+    if (format !== "csv" && format !== "json") {
+      throw new ApiError(400, "format must be csv or json.");
+    }
+    const logs = await selectLogs(buildConditions(filters), MAX_EXPORTED_LOGS);
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    if (format === "json") {
+      return {
+        fileName: `audit-logs-${stamp}.json`,
+        contentType: "application/json",
+        body: JSON.stringify(logs, null, 2),
+      };
+    }
+
+    const escape = (value: string | number | null | undefined) => {
+      if (value === null || value === undefined) return "";
+      const str = String(value);
+      if (str.includes(",") || str.includes("\"") || str.includes("\n")) {
+        return `"${str.replace(/\"/g, "\"\"")}"`;
+      }
+      return str;
+    };
+    const formatValue = (value: unknown) =>
+      value === null || value === undefined
+        ? ""
+        : typeof value === "string"
+          ? value
+          : JSON.stringify(value);
+
+    const headers = [
+      "Created At",
+      "Actor",
+      "Action",
+      "Entity Type",
+      "Entity ID",
+      "Reason",
+      "Changes",
+      "Before",
+      "After",
+    ];
+    const lines = [
+      headers.join(","),
+      ...logs.map((log) =>
+        [
+          log.createdAt,
+          log.actorUsername ?? log.actorId,
+          log.action,
+          log.entityType,
+          log.entityId,
+          log.reason,
+          log.changes
+            .map(
+              (change) =>
+                `${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`,
+            )
+            .join("; "),
+          log.before === null ? null : JSON.stringify(log.before),
+          log.after === null ? null : JSON.stringify(log.after),
+        ]
+          .map(escape)
+          .join(","),
+      ),
+    ];
+    return {
+      fileName: `audit-logs-${stamp}.csv`,
+      contentType: "text/csv",
+      body: lines.join("\n"),
+    };
+  },
 };
@@ -14,9 +14,10 @@ import {
   student_profiles,
 } from "@shared/schema";
 import { accountCredentialService } from "./accountCredentialService";
+import { activationService } from "./activationService";
+import { auditService } from "./auditService";
 
 const KEY_LENGTH = 64;
-const STANDARD_TEMP_PASSWORD = "00000000";
 
 function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
@@ -74,7 +75,6 @@ export const authService = {
   /** Hash a plaintext password with a random salt. */
   hashPassword,
   generateRandomPassword,
-  STANDARD_TEMP_PASSWORD,
 
   /**
    * Validates a username/password combination and returns the user on success.
@@ -102,7 +102,7 @@ export const authService = {
     password: string;
     created_by_professor_id?: string;
     must_change_password?: boolean;
-    role: "professor" | "student" | "admin";
+    role: "professor" | "ta" | "student" | "admin";
   }) {
     validateNewPassword(data.password);
     const hashed = hashPassword(data.password);
@@ -183,11 +183,24 @@ export const authService = {
       );
     }
 
-    const nextPassword = (password ?? STANDARD_TEMP_PASSWORD).trim();
+    if (password === undefined) {
+      // Lock the old password out and let the student choose a new one.
+      await userRepository.updatePasswordWithForceFlag(
+        studentId,
+        hashPassword(activationService.placeholderPassword()),
+        false,
+      );
+      await accountCredentialService.deactivateForStudent(studentId);
+      const activation = await activationService.issueToken(professorId, studentId, "reset");
+      return { activation };
+    }
+
+    const nextPassword = password.trim();
     validateNewPassword(nextPassword);
 
     const nextHash = hashPassword(nextPassword);
     await userRepository.updatePasswordWithForceFlag(studentId, nextHash, true);
+    await activationService.revokeForUser(studentId);
     try {
       await accountCredentialService.recordCredential(
         professorId,
@@ -204,6 +217,33 @@ export const authService = {
     return { temporaryPassword: nextPassword };
   },
 
+  /**
+   * Sets the password of an account from its activation code and consumes the code.
+   * Replaces the temporary-password-then-change flow for new and reset students.
+   */
+  async activateAccount(code: string, password: string) {
+    validateNewPassword(password);
+    const { token, user } = await activationService.resolve(code);
+    if (!(await activationService.consume(token.id))) {
+      throw new ApiError(
+        410,
+        "This activation link was already used. Sign in with the password you set.",
+        "activation_token_used",
+      );
+    }
+
+    const updated = await userRepository.updatePassword(user.id, hashPassword(password));
+    await accountCredentialService.deactivateForStudent(user.id);
+    await auditService.log({
+      actorId: user.id,
+      action: "account_activate",
+      entityType: "user",
+      entityId: user.id,
+      after: { activationTokenId: token.id, source: token.source },
+    });
+    return updated;
+  },
+
   async resetProfessorPasswordByAdmin(
     adminId: string,
     professorId: string,
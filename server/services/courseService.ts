@@ -1,4 +1,4 @@
-import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { and, desc, eq, inArray, notInArray, or, sql } from "drizzle-orm";
 import { db } from "../db";
 import { ApiError } from "../errors/apiError";
 import {
@@ -7,15 +7,21 @@ import {
   attendance_records,
   attendance_rounds,
   course_policy_assignments,
+  course_staff,
   courses,
   enrollments,
   excuse_requests,
   fraud_signals,
+  kiosk_tokens,
+  group_schedule_exceptions,
+  group_schedule_slots,
   groups,
   qr_tokens,
   sessions,
+  UNHELD_SESSION_STATUSES,
 } from "@shared/schema";
 import { auditService } from "./auditService";
+import { courseStaffService, type CoursePermission } from "./courseStaffService";
 
 export const courseService = {
   /**
@@ -67,7 +73,7 @@ export const courseService = {
       throw new ApiError(404, "Course not found");
     }
 
-    if (course.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessCourse(professorId, course, "manage_roster"))) {
       throw new ApiError(403, "Only the course owner can create groups");
     }
 
@@ -136,11 +142,18 @@ export const courseService = {
 
     if (sessionIds.length > 0) {
       await db.delete(fraud_signals).where(inArray(fraud_signals.session_id, sessionIds));
+      await db.delete(kiosk_tokens).where(inArray(kiosk_tokens.session_id, sessionIds));
       await db.delete(attendance_rounds).where(inArray(attendance_rounds.session_id, sessionIds));
       await db.delete(sessions).where(inArray(sessions.id, sessionIds));
     }
 
     if (groupIds.length > 0) {
+      await db
+        .delete(group_schedule_exceptions)
+        .where(inArray(group_schedule_exceptions.group_id, groupIds));
+      await db
+        .delete(group_schedule_slots)
+        .where(inArray(group_schedule_slots.group_id, groupIds));
       await db.delete(enrollments).where(inArray(enrollments.group_id, groupIds));
       await db.delete(groups).where(inArray(groups.id, groupIds));
     } else {
@@ -150,6 +163,7 @@ export const courseService = {
     await db
       .delete(course_policy_assignments)
       .where(eq(course_policy_assignments.course_id, courseId));
+    await db.delete(course_staff).where(eq(course_staff.course_id, courseId));
 
     if (coursePolicyIds.length > 0) {
       await db
@@ -175,13 +189,23 @@ export const courseService = {
   },
 
   /**
-   * Lists all courses for a professor including group and enrollment summaries.
+   * Lists all courses for a professor including group and enrollment summaries. Courses
+   * the user only staffs are included with their `staffPermissions`; owned courses
+   * carry `null` there.
    */
   async listProfessorCourses(professorId: string) {
+    const staffPermissions = await courseStaffService.getStaffPermissionsByCourse(professorId);
     const courseRows = await db
       .select()
       .from(courses)
-      .where(eq(courses.professor_id, professorId));
+      .where(
+        staffPermissions.size
+          ? or(
+              eq(courses.professor_id, professorId),
+              inArray(courses.id, Array.from(staffPermissions.keys())),
+            )
+          : eq(courses.professor_id, professorId),
+      );
 
     if (courseRows.length === 0) {
       return [];
@@ -223,7 +247,12 @@ export const courseService = {
         sessionId: sessions.id,
       })
       .from(sessions)
-      .where(inArray(sessions.course_id, courseIds))
+      .where(
+        and(
+          inArray(sessions.course_id, courseIds),
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
+        ),
+      )
       .orderBy(desc(sessions.starts_at));
 
     const activeSessionByGroup = new Map<string, string>();
@@ -249,6 +278,7 @@ export const courseService = {
         term: string;
         description: string | null;
         latestSessionId: string | null;
+        staffPermissions: CoursePermission[] | null;
         groups: Array<{
           id: string;
           name: string;
@@ -268,6 +298,10 @@ export const courseService = {
         term: course.term,
         description: course.description ?? null,
         latestSessionId: latestSessionByCourse.get(course.id) ?? null,
+        staffPermissions:
+          course.professor_id === professorId
+            ? null
+            : (staffPermissions.get(course.id) ?? []),
         groups: [],
         totalStudents: 0,
       });
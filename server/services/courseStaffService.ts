@@ -0,0 +1,318 @@
+import { and, asc, eq, inArray, or, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { course_staff, courses, sessions, users, type Course } from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { userRepository } from "../repositories/userRepository";
+import { auditService } from "./auditService";
+
+export const COURSE_PERMISSIONS = [
+  "run_sessions",
+  "review_excuses",
+  "view_reports",
+  "manage_roster",
+] as const;
+
+export type CoursePermission = (typeof COURSE_PERMISSIONS)[number];
+
+const PERMISSION_FLAGS = {
+  run_sessions: "can_run_sessions",
+  review_excuses: "can_review_excuses",
+  view_reports: "can_view_reports",
+  manage_roster: "can_manage_roster",
+} as const;
+
+type StaffRow = typeof course_staff.$inferSelect;
+
+function permissionsOf(row: StaffRow): CoursePermission[] {
+  return COURSE_PERMISSIONS.filter((permission) => row[PERMISSION_FLAGS[permission]]);
+}
+
+function parsePermissions(value: unknown) {
+  if (!Array.isArray(value)) {
+    throw new ApiError(400, "permissions must be an array.");
+  }
+  const unknownPermission = value.find(
+    (permission) => !COURSE_PERMISSIONS.includes(permission as CoursePermission),
+  );
+  if (unknownPermission !== undefined) {
+    throw new ApiError(
+      400,
+      `Unknown permission. Use ${COURSE_PERMISSIONS.join(", ")}.`,
+    );
+  }
+  const granted = new Set(value as CoursePermission[]);
+  return Object.fromEntries(
+    COURSE_PERMISSIONS.map((permission) => [
+      PERMISSION_FLAGS[permission],
+      granted.has(permission),
+    ]),
+  ) as Record<(typeof PERMISSION_FLAGS)[CoursePermission], boolean>;
+}
+
+async function hasStaffPermission(
+  userId: string,
+  courseId: string,
+  permission: CoursePermission,
+) {
+  const [row] = await db
+    .select({ id: course_staff.id })
+    .from(course_staff)
+    .where(
+      and(
+        eq(course_staff.course_id, courseId),
+        eq(course_staff.user_id, userId),
+        eq(course_staff[PERMISSION_FLAGS[permission]], true),
+      ),
+    )
+    .limit(1);
+  return Boolean(row);
+}
+
+async function requireCourseOwner(ownerId: string, courseId: string) {
+  const [course] = await db.select().from(courses).where(eq(courses.id, courseId)).limit(1);
+  if (!course) {
+    throw new ApiError(404, "Course not found");
+  }
+  if (course.professor_id !== ownerId) {
+    throw new ApiError(403, "Only the course owner can manage course staff");
+  }
+  return course;
+}
+
+function toStaffMember(
+  row: StaffRow,
+  user: { username: string; displayName: string; role: string },
+) {
+  return {
+    id: row.id,
+    courseId: row.course_id,
+    userId: row.user_id,
+    username: user.username,
+    displayName: user.displayName,
+    role: user.role,
+    permissions: permissionsOf(row),
+    createdAt: row.created_at,
+  };
+}
+
+export const courseStaffService = {
+  /**
+   * Whether the user owns the course or is on its staff with `permission`.
+   */
+  async canAccessCourse(
+    userId: string,
+    course: Pick<Course, "id" | "professor_id">,
+    permission: CoursePermission,
+  ) {
+    if (course.professor_id === userId) {
+      return true;
+    }
+    return hasStaffPermission(userId, course.id, permission);
+  },
+
+  /**
+   * Loads a course the user owns or may act on with `permission`; 404 when it does
+   * not exist and 403 otherwise.
+   */
+  async requireCourseAccess(userId: string, courseId: string, permission: CoursePermission) {
+    const [course] = await db.select().from(courses).where(eq(courses.id, courseId)).limit(1);
+    if (!course) {
+      throw new ApiError(404, "Course not found");
+    }
+    if (!(await this.canAccessCourse(userId, course, permission))) {
+      throw new ApiError(403, "You do not own this course");
+    }
+    return course;
+  },
+
+  /**
+   * Session-level variant of requireCourseAccess: the session's own professor always
+   * passes, staff need `permission` on the session's course.
+   */
+  async canAccessSession(
+    userId: string,
+    session: { professor_id: string; course_id: string },
+    permission: CoursePermission,
+  ) {
+    if (session.professor_id === userId) {
+      return true;
+    }
+    const [course] = await db
+      .select({ id: courses.id, professor_id: courses.professor_id })
+      .from(courses)
+      .where(eq(courses.id, session.course_id))
+      .limit(1);
+    return course ? this.canAccessCourse(userId, course, permission) : false;
+  },
+
+  async requireSessionAccess(userId: string, sessionId: string, permission: CoursePermission) {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+    if (!session) {
+      throw new ApiError(404, "Session not found");
+    }
+    if (!(await this.canAccessSession(userId, session, permission))) {
+      throw new ApiError(403, "You do not own this session");
+    }
+    return session;
+  },
+
+  /**
+   * Courses the user is staff on with `permission` (owned courses are not included).
+   */
+  async listStaffCourseIds(userId: string, permission: CoursePermission) {
+    const rows = await db
+      .select({ courseId: course_staff.course_id })
+      .from(course_staff)
+      .where(
+        and(
+          eq(course_staff.user_id, userId),
+          eq(course_staff[PERMISSION_FLAGS[permission]], true),
+        ),
+      );
+    return rows.map((row) => row.courseId);
+  },
+
+  /**
+   * `courses` filter matching the courses a user owns or staffs with `permission`.
+   */
+  async accessibleCoursesFilter(
+    userId: string,
+    permission: CoursePermission,
+  ): Promise<SQL | undefined> {
+    const staffCourseIds = await this.listStaffCourseIds(userId, permission);
+    return staffCourseIds.length
+      ? or(eq(courses.professor_id, userId), inArray(courses.id, staffCourseIds))
+      : eq(courses.professor_id, userId);
+  },
+
+  /**
+   * Staff assignments of a user, keyed by course id, for labelling shared courses.
+   */
+  async getStaffPermissionsByCourse(userId: string): Promise<Map<string, CoursePermission[]>> {
+    const rows = await db
+      .select()
+      .from(course_staff)
+      .where(eq(course_staff.user_id, userId));
+    return new Map(rows.map((row) => [row.course_id, permissionsOf(row)]));
+  },
+
+  async listStaff(ownerId: string, courseId: string) {
+    await requireCourseOwner(ownerId, courseId);
+    const rows = await db
+      .select({
+        staff: course_staff,
+        username: users.username,
+        displayName: users.display_name,
+        role: users.role,
+      })
+      .from(course_staff)
+      .innerJoin(users, eq(course_staff.user_id, users.id))
+      .where(eq(course_staff.course_id, courseId))
+      .orderBy(asc(users.display_name));
+    return rows.map((row) => toStaffMember(row.staff, row));
+  },
+
+  /**
+   * Adds a TA or co-instructor (an existing "ta" or "professor" account) to a course.
+   */
+  async addStaff(
+    ownerId: string,
+    courseId: string,
+    input: { username?: unknown; permissions?: unknown },
+  ) {
+    await requireCourseOwner(ownerId, courseId);
+    const username = typeof input.username === "string" ? input.username.trim() : "";
+    if (!username) {
+      throw new ApiError(400, "username is required.");
+    }
+    const flags = parsePermissions(input.permissions ?? []);
+
+    const user = await userRepository.findByUsername(username);
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+    if (user.role !== "ta" && user.role !== "professor") {
+      throw new ApiError(400, "Only TA or professor accounts can be course staff.");
+    }
+    if (user.id === ownerId) {
+      throw new ApiError(400, "The course owner already has full access.");
+    }
+
+    const [existing] = await db
+      .select({ id: course_staff.id })
+      .from(course_staff)
+      .where(and(eq(course_staff.course_id, courseId), eq(course_staff.user_id, user.id)))
+      .limit(1);
+    if (existing) {
+      throw new ApiError(409, "This user is already on the course staff.");
+    }
+
+    const [row] = await db
+      .insert(course_staff)
+      .values({ course_id: courseId, user_id: user.id, added_by: ownerId, ...flags })
+      .returning();
+    const member = toStaffMember(row, {
+      username: user.username,
+      displayName: user.display_name,
+      role: user.role,
+    });
+    await auditService.log({
+      actorId: ownerId,
+      action: "course_staff_add",
+      entityType: "course",
+      entityId: courseId,
+      after: member,
+    });
+    return member;
+  },
+
+  async updateStaff(ownerId: string, courseId: string, staffId: string, permissions: unknown) {
+    await requireCourseOwner(ownerId, courseId);
+    const flags = parsePermissions(permissions);
+    const [before] = await db
+      .select()
+      .from(course_staff)
+      .where(and(eq(course_staff.id, staffId), eq(course_staff.course_id, courseId)))
+      .limit(1);
+    if (!before) {
+      throw new ApiError(404, "Staff member not found");
+    }
+
+    const [row] = await db
+      .update(course_staff)
+      .set(flags)
+      .where(eq(course_staff.id, staffId))
+      .returning();
+    await auditService.log({
+      actorId: ownerId,
+      action: "course_staff_update",
+      entityType: "course",
+      entityId: courseId,
+      before: { userId: before.user_id, permissions: permissionsOf(before) },
+      after: { userId: row.user_id, permissions: permissionsOf(row) },
+    });
+    return { id: row.id, userId: row.user_id, permissions: permissionsOf(row) };
+  },
+
+  async removeStaff(ownerId: string, courseId: string, staffId: string) {
+    await requireCourseOwner(ownerId, courseId);
+    const [removed] = await db
+      .delete(course_staff)
+      .where(and(eq(course_staff.id, staffId), eq(course_staff.course_id, courseId)))
+      .returning();
+    if (!removed) {
+      throw new ApiError(404, "Staff member not found");
+    }
+    await auditService.log({
+      actorId: ownerId,
+      action: "course_staff_remove",
+      entityType: "course",
+      entityId: courseId,
+      before: { userId: removed.user_id, permissions: permissionsOf(removed) },
+    });
+  },
+};
@@ -3,6 +3,7 @@ import { ApiError } from "../errors/apiError";
 import { db } from "../db";
 import { courses, enrollments, groups, users } from "@shared/schema";
 import { userRepository } from "../repositories/userRepository";
+import { courseStaffService } from "./courseStaffService";
 
 type StudentSelector =
   | { studentId: string }
@@ -24,7 +25,7 @@ async function requireProfessorOwnedGroup(professorId: string, groupId: string)
     throw new ApiError(404, "Group not found");
   }
 
-  if (row.course.professor_id !== professorId) {
+  if (!(await courseStaffService.canAccessCourse(professorId, row.course, "manage_roster"))) {
     throw new ApiError(403, "Only the course owner can manage enrollments");
   }
 
@@ -152,7 +153,7 @@ export const enrollmentService = {
       throw new ApiError(404, "Enrollment not found");
     }
 
-    if (row.course.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessCourse(professorId, row.course, "manage_roster"))) {
       throw new ApiError(403, "Only the course owner can manage enrollments");
     }
 
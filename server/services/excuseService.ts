@@ -1,4 +1,3 @@
-import { randomBytes, createHash } from "crypto";
 import { and, eq, sql } from "drizzle-orm";
 import { db } from "../db";
 import {
@@ -6,15 +5,18 @@ import {
   attendance_rounds,
   enrollments,
   excuse_requests,
-  qr_tokens,
   sessions,
   users,
   type UserRole,
 } from "@shared/schema";
 import { ApiError } from "../errors/apiError";
+import { excuseAttachmentKey } from "../middleware/uploads";
+import { getFileStorage } from "../storage/fileStorage";
 import { logger } from "../utils/logger";
 import { auditService } from "./auditService";
-import { emitSessionRefresh } from "../websocket/manager";
+import { courseStaffService } from "./courseStaffService";
+import { uploadInspectionService } from "./uploadInspectionService";
+import { emitExcuseReviewed, emitSessionRefresh } from "../websocket/manager";
 
 const VALID_CATEGORIES = new Set(["absence", "late"]);
 const VALID_DECISIONS = new Set(["approve", "reject"]);
@@ -27,6 +29,29 @@ function assertCategory(category?: string) {
   return category;
 }
 
+export type ExcuseAttachmentUpload = {
+  originalName: string;
+  mimetype: string;
+  buffer: Buffer;
+};
+
+/**
+ * Storage key of a stored attachment. Rows written before the storage backend kept
+ * the absolute path of the file under uploads/excuses.
+ */
+export function attachmentStorageKey(attachmentPath: string) {
+  return attachmentPath.startsWith("excuses/")
+    ? attachmentPath
+    : `excuses/${attachmentPath.split(/[\\/]/).pop()}`;
+}
+
+async function storeAttachment(studentId: string, upload: ExcuseAttachmentUpload) {
+  const inspected = await uploadInspectionService.inspectAttachment(studentId, upload);
+  const key = excuseAttachmentKey(upload.originalName);
+  await getFileStorage().put(key, inspected.buffer, inspected.contentType);
+  return key;
+}
+
 async function ensureEnrollmentForRound(
   studentId: string,
   roundId: string,
@@ -77,34 +102,13 @@ async function getProfessorForRound(roundId: string) {
   return row?.session.professor_id;
 }
 
-async function createSystemToken(roundId: string) {
-  const raw = randomBytes(12).toString("hex");
-  const tokenHash = createHash("sha256").update(raw).digest("hex");
-  const now = new Date().toISOString();
-  try {
-    const [token] = await db
-      .insert(qr_tokens)
-      .values({
-        round_id: roundId,
-        token_hash: tokenHash,
-        expires_at: now,
-        consumed: true,
-      })
-      .returning();
-    return token;
-  } catch (error) {
-    logger.error("failed to create system token", { roundId, error });
-    throw error;
-  }
-}
-
 export const excuseService = {
   async submitExcuse(
     studentId: string,
     payload: {
       roundId: string;
       reason: string;
-      attachmentPath?: string | null;
+      attachment?: ExcuseAttachmentUpload | null;
       category?: string;
     },
   ) {
@@ -129,15 +133,18 @@ export const excuseService = {
       throw new ApiError(409, "Excuse already submitted for this round");
     }
 
+    const category = assertCategory(payload.category);
+    const attachmentKey = payload.attachment ? await storeAttachment(studentId, payload.attachment) : null;
+
     const [excuse] = await db
       .insert(excuse_requests)
       .values({
         round_id: payload.roundId,
         student_id: studentId,
         reason: payload.reason.trim(),
-        attachment_path: payload.attachmentPath ?? null,
+        attachment_path: attachmentKey,
         status: "PENDING",
-        category: assertCategory(payload.category),
+        category,
       })
       .returning();
 
@@ -200,7 +207,7 @@ export const excuseService = {
       .limit(1);
 
     if (!session) throw new ApiError(404, "Session not found");
-    if (session.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessSession(professorId, session, "review_excuses"))) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -271,7 +278,13 @@ export const excuseService = {
       throw new ApiError(404, "Excuse not found");
     }
 
-    if (excuseRow.session.professor_id !== professorId) {
+    if (
+      !(await courseStaffService.canAccessSession(
+        professorId,
+        excuseRow.session,
+        "review_excuses",
+      ))
+    ) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -347,6 +360,12 @@ export const excuseService = {
       studentId: targetStudentId,
       excuseId,
     });
+    emitExcuseReviewed(targetStudentId, {
+      excuseId,
+      roundId: targetRoundId,
+      status: updated.status,
+      reviewedAt,
+    });
 
     return updated;
   },
@@ -379,7 +398,10 @@ export const excuseService = {
       throw new ApiError(403, "Not permitted to view this attachment");
     }
 
-    if (role === "professor" && row.session.professor_id !== userId) {
+    if (
+      (role === "professor" || role === "ta") &&
+      !(await courseStaffService.canAccessSession(userId, row.session, "review_excuses"))
+    ) {
       throw new ApiError(403, "Not permitted to view this attachment");
     }
 
@@ -388,4 +410,21 @@ export const excuseService = {
 
     return row.excuse.attachment_path;
   },
+
+  /**
+   * Authorizes like getAttachmentPathForAuthorizedUser, then opens the file from the
+   * configured storage for streaming.
+   */
+  async openAttachmentForAuthorizedUser(userId: string, role: UserRole, excuseId: string) {
+    const attachmentPath = await this.getAttachmentPathForAuthorizedUser(
+      userId,
+      role,
+      excuseId,
+    );
+    const file = await getFileStorage().get(attachmentStorageKey(attachmentPath));
+    if (!file) {
+      throw new ApiError(404, "File not found");
+    }
+    return file;
+  },
 };
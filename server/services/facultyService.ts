@@ -0,0 +1,618 @@
+import { and, asc, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  attendance_policies,
+  courses,
+  departments,
+  enrollments,
+  faculties,
+  professor_profiles,
+  sessions,
+  users,
+  UNHELD_SESSION_STATUSES,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { absenceService } from "./absenceService";
+import { auditService } from "./auditService";
+
+type NamedInput = { code?: unknown; name?: unknown };
+
+type FacultyCourseReport = {
+  courseId: string;
+  code: string;
+  name: string;
+  term: string;
+  departmentId: string | null;
+  departmentName: string | null;
+  professorName: string;
+  enrolledStudents: number;
+  sessionsHeld: number;
+  presentCount: number;
+  expectedCount: number;
+  attendancePercent: number;
+  atRiskStudents: number;
+  overLimitStudents: number;
+};
+
+// Department assignment of a course; courses without one follow their professor's.
+const courseDepartmentId = sql<
+  string | null
+>`COALESCE(${courses.department_id}, ${professor_profiles.department_id})`;
+
+function requiredText(value: unknown, field: string, maxLength: number) {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) {
+    throw new ApiError(400, `${field} is required.`);
+  }
+  if (text.length > maxLength) {
+    throw new ApiError(400, `${field} must be at most ${maxLength} characters.`);
+  }
+  return text;
+}
+
+function optionalText(value: unknown, field: string, maxLength: number) {
+  return value === undefined ? undefined : requiredText(value, field, maxLength);
+}
+
+function normalizeCode(code: string) {
+  return code.toUpperCase();
+}
+
+function percent(part: number, total: number) {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+async function requireFaculty(facultyId: string) {
+  const [faculty] = await db
+    .select()
+    .from(faculties)
+    .where(eq(faculties.id, facultyId))
+    .limit(1);
+  if (!faculty) {
+    throw new ApiError(404, "Faculty not found");
+  }
+  return faculty;
+}
+
+async function requireDepartment(departmentId: string) {
+  const [department] = await db
+    .select()
+    .from(departments)
+    .where(eq(departments.id, departmentId))
+    .limit(1);
+  if (!department) {
+    throw new ApiError(404, "Department not found");
+  }
+  return department;
+}
+
+async function assertFacultyCodeFree(code: string, exceptId?: string) {
+  const [existing] = await db
+    .select({ id: faculties.id })
+    .from(faculties)
+    .where(eq(faculties.code, code))
+    .limit(1);
+  if (existing && existing.id !== exceptId) {
+    throw new ApiError(409, "A faculty with this code already exists.");
+  }
+}
+
+async function assertDepartmentCodeFree(facultyId: string, code: string, exceptId?: string) {
+  const [existing] = await db
+    .select({ id: departments.id })
+    .from(departments)
+    .where(and(eq(departments.faculty_id, facultyId), eq(departments.code, code)))
+    .limit(1);
+  if (existing && existing.id !== exceptId) {
+    throw new ApiError(409, "This faculty already has a department with this code.");
+  }
+}
+
+async function resolveDepartmentId(departmentId: unknown) {
+  if (departmentId === null) {
+    return null;
+  }
+  if (typeof departmentId !== "string" || !departmentId) {
+    throw new ApiError(400, "departmentId must be a department id or null.");
+  }
+  return (await requireDepartment(departmentId)).id;
+}
+
+export const facultyService = {
+  /**
+   * Every faculty with its departments and how many courses and professors are
+   * assigned to each department.
+   */
+  async listFaculties() {
+    const [facultyRows, departmentRows, courseCounts, professorCounts] = await Promise.all([
+      db.select().from(faculties).orderBy(asc(faculties.name)),
+      db.select().from(departments).orderBy(asc(departments.name)),
+      db
+        .select({ departmentId: courses.department_id, count: sql<number>`COUNT(*)` })
+        .from(courses)
+        .groupBy(courses.department_id),
+      db
+        .select({
+          departmentId: professor_profiles.department_id,
+          count: sql<number>`COUNT(*)`,
+        })
+        .from(professor_profiles)
+        .groupBy(professor_profiles.department_id),
+    ]);
+
+    const courseCountByDepartment = new Map(
+      courseCounts.map((row) => [row.departmentId, Number(row.count ?? 0)]),
+    );
+    const professorCountByDepartment = new Map(
+      professorCounts.map((row) => [row.departmentId, Number(row.count ?? 0)]),
+    );
+
+    return facultyRows.map((faculty) => ({
+      id: faculty.id,
+      code: faculty.code,
+      name: faculty.name,
+      createdAt: faculty.created_at,
+      departments: departmentRows
+        .filter((department) => department.faculty_id === faculty.id)
+        .map((department) => ({
+          id: department.id,
+          code: department.code,
+          name: department.name,
+          courseCount: courseCountByDepartment.get(department.id) ?? 0,
+          professorCount: professorCountByDepartment.get(department.id) ?? 0,
+        })),
+    }));
+  },
+
+  async createFaculty(actorId: string, input: NamedInput) {
+    const code = normalizeCode(requiredText(input.code, "code", 20));
+    const name = requiredText(input.name, "name", 120);
+    await assertFacultyCodeFree(code);
+
+    const [faculty] = await db.insert(faculties).values({ code, name }).returning();
+    await auditService.log({
+      actorId,
+      action: "faculty_create",
+      entityType: "faculty",
+      entityId: faculty.id,
+      after: faculty,
+    });
+    return faculty;
+  },
+
+  async updateFaculty(actorId: string, facultyId: string, input: NamedInput) {
+    const before = await requireFaculty(facultyId);
+    const code = optionalText(input.code, "code", 20);
+    const name = optionalText(input.name, "name", 120);
+    if (code === undefined && name === undefined) {
+      throw new ApiError(400, "Nothing to update.");
+    }
+    if (code !== undefined) {
+      await assertFacultyCodeFree(normalizeCode(code), facultyId);
+    }
+
+    const [faculty] = await db
+      .update(faculties)
+      .set({
+        ...(code !== undefined ? { code: normalizeCode(code) } : {}),
+        ...(name !== undefined ? { name } : {}),
+      })
+      .where(eq(faculties.id, facultyId))
+      .returning();
+    await auditService.log({
+      actorId,
+      action: "faculty_update",
+      entityType: "faculty",
+      entityId: facultyId,
+      before,
+      after: faculty,
+    });
+    return faculty;
+  },
+
+  /**
+   * Deletes an empty faculty. Faculties that still have departments or policies are
+   * refused so no course silently loses its faculty policy.
+   */
+  async deleteFaculty(actorId: string, facultyId: string) {
+    const faculty = await requireFaculty(facultyId);
+    const [department] = await db
+      .select({ id: departments.id })
+      .from(departments)
+      .where(eq(departments.faculty_id, facultyId))
+      .limit(1);
+    if (department) {
+      throw new ApiError(409, "Delete or move the faculty's departments first.");
+    }
+    const [policy] = await db
+      .select({ id: attendance_policies.id })
+      .from(attendance_policies)
+      .where(
+        and(
+          eq(attendance_policies.scope_type, "faculty"),
+          eq(attendance_policies.scope_id, facultyId),
+        ),
+      )
+      .limit(1);
+    if (policy) {
+      throw new ApiError(409, "This faculty still has attendance policies.");
+    }
+
+    await db.delete(faculties).where(eq(faculties.id, facultyId));
+    await auditService.log({
+      actorId,
+      action: "faculty_delete",
+      entityType: "faculty",
+      entityId: facultyId,
+      before: faculty,
+    });
+    return { deleted: true };
+  },
+
+  async createDepartment(actorId: string, facultyId: string, input: NamedInput) {
+    await requireFaculty(facultyId);
+    const code = normalizeCode(requiredText(input.code, "code", 20));
+    const name = requiredText(input.name, "name", 120);
+    await assertDepartmentCodeFree(facultyId, code);
+
+    const [department] = await db
+      .insert(departments)
+      .values({ faculty_id: facultyId, code, name })
+      .returning();
+    await auditService.log({
+      actorId,
+      action: "department_create",
+      entityType: "department",
+      entityId: department.id,
+      after: department,
+    });
+    return department;
+  },
+
+  /**
+   * Renames a department or moves it to another faculty (`facultyId`); its courses and
+   * professors move with it.
+   */
+  async updateDepartment(
+    actorId: string,
+    departmentId: string,
+    input: NamedInput & { facultyId?: unknown },
+  ) {
+    const before = await requireDepartment(departmentId);
+    const code = optionalText(input.code, "code", 20);
+    const name = optionalText(input.name, "name", 120);
+    const facultyId =
+      input.facultyId === undefined
+        ? undefined
+        : (await requireFaculty(requiredText(input.facultyId, "facultyId", 64))).id;
+    if (code === undefined && name === undefined && facultyId === undefined) {
+      throw new ApiError(400, "Nothing to update.");
+    }
+    await assertDepartmentCodeFree(
+      facultyId ?? before.faculty_id,
+      code !== undefined ? normalizeCode(code) : before.code,
+      departmentId,
+    );
+
+    const [department] = await db
+      .update(departments)
+      .set({
+        ...(code !== undefined ? { code: normalizeCode(code) } : {}),
+        ...(name !== undefined ? { name } : {}),
+        ...(facultyId !== undefined ? { faculty_id: facultyId } : {}),
+      })
+      .where(eq(departments.id, departmentId))
+      .returning();
+    await auditService.log({
+      actorId,
+      action: "department_update",
+      entityType: "department",
+      entityId: departmentId,
+      before,
+      after: department,
+    });
+    return department;
+  },
+
+  async deleteDepartment(actorId: string, departmentId: string) {
+    const department = await requireDepartment(departmentId);
+    const [course] = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(eq(courses.department_id, departmentId))
+      .limit(1);
+    const [professor] = await db
+      .select({ id: professor_profiles.id })
+      .from(professor_profiles)
+      .where(eq(professor_profiles.department_id, departmentId))
+      .limit(1);
+    if (course || professor) {
+      throw new ApiError(409, "Reassign the department's courses and professors first.");
+    }
+
+    await db.delete(departments).where(eq(departments.id, departmentId));
+    await auditService.log({
+      actorId,
+      action: "department_delete",
+      entityType: "department",
+      entityId: departmentId,
+      before: department,
+    });
+    return { deleted: true };
+  },
+
+  /**
+   * All courses with their owner and department, for assigning courses to departments.
+   */
+  async listCourses() {
+    const rows = await db
+      .select({
+        id: courses.id,
+        code: courses.code,
+        name: courses.name,
+        term: courses.term,
+        departmentId: courses.department_id,
+        professorId: courses.professor_id,
+        professorName: users.display_name,
+      })
+      .from(courses)
+      .innerJoin(users, eq(courses.professor_id, users.id))
+      .orderBy(asc(courses.code));
+    return rows;
+  },
+
+  /**
+   * Assigns a course to a department (`null` clears it, so the course follows its
+   * professor's department again).
+   */
+  async assignCourse(actorId: string, courseId: string, departmentId: unknown) {
+    const [course] = await db.select().from(courses).where(eq(courses.id, courseId)).limit(1);
+    if (!course) {
+      throw new ApiError(404, "Course not found");
+    }
+    const nextDepartmentId = await resolveDepartmentId(departmentId);
+
+    await db
+      .update(courses)
+      .set({ department_id: nextDepartmentId })
+      .where(eq(courses.id, courseId));
+    await auditService.log({
+      actorId,
+      action: "course_department_assign",
+      entityType: "course",
+      entityId: courseId,
+      before: { departmentId: course.department_id },
+      after: { departmentId: nextDepartmentId },
+    });
+    return { courseId, departmentId: nextDepartmentId };
+  },
+
+  async assignProfessor(actorId: string, professorId: string, departmentId: unknown) {
+    const [professor] = await db
+      .select({ id: users.id, role: users.role })
+      .from(users)
+      .where(eq(users.id, professorId))
+      .limit(1);
+    if (!professor || professor.role !== "professor") {
+      throw new ApiError(404, "Professor not found.");
+    }
+    const nextDepartmentId = await resolveDepartmentId(departmentId);
+
+    const [profile] = await db
+      .select()
+      .from(professor_profiles)
+      .where(eq(professor_profiles.user_id, professorId))
+      .limit(1);
+    if (profile) {
+      await db
+        .update(professor_profiles)
+        .set({ department_id: nextDepartmentId })
+        .where(eq(professor_profiles.id, profile.id));
+    } else {
+      await db
+        .insert(professor_profiles)
+        .values({ user_id: professorId, department_id: nextDepartmentId });
+    }
+    await auditService.log({
+      actorId,
+      action: "professor_department_assign",
+      entityType: "user",
+      entityId: professorId,
+      before: { departmentId: profile?.department_id ?? null },
+      after: { departmentId: nextDepartmentId },
+    });
+    return { professorId, departmentId: nextDepartmentId };
+  },
+
+  /**
+   * Attendance roll-up for every course in a faculty. Per held session, a student with
+   * records counts as present when any round has a non-absent record and as absent when
+   * all of them are the absent rows written on close, as in the course summary.
+   */
+  async getFacultyReport(facultyId: string) {
+    const faculty = await requireFaculty(facultyId);
+    const departmentRows = await db
+      .select()
+      .from(departments)
+      .where(eq(departments.faculty_id, facultyId))
+      .orderBy(asc(departments.name));
+    const departmentIds = departmentRows.map((department) => department.id);
+
+    const courseRows = departmentIds.length
+      ? await db
+          .select({
+            id: courses.id,
+            code: courses.code,
+            name: courses.name,
+            term: courses.term,
+            departmentId: courseDepartmentId,
+            professorName: users.display_name,
+          })
+          .from(courses)
+          .innerJoin(users, eq(courses.professor_id, users.id))
+          .leftJoin(professor_profiles, eq(professor_profiles.user_id, courses.professor_id))
+          .where(inArray(courseDepartmentId, departmentIds))
+          .orderBy(asc(courses.code))
+      : [];
+    const courseIds = courseRows.map((course) => course.id);
+
+    const [sessionRows, enrollmentRows] = courseIds.length
+      ? await Promise.all([
+          db
+            .select({
+              id: sessions.id,
+              courseId: sessions.course_id,
+            })
+            .from(sessions)
+            .where(
+              and(
+                inArray(sessions.course_id, courseIds),
+                notInArray(sessions.status, UNHELD_SESSION_STATUSES),
+              ),
+            ),
+          db
+            .select({ courseId: enrollments.course_id })
+            .from(enrollments)
+            .where(inArray(enrollments.course_id, courseIds)),
+        ])
+      : [[], []];
+    const outcomes = await absenceService.getSessionOutcomes(
+      sessionRows.map((session) => session.id),
+    );
+
+    const enrolledByCourse = new Map<string, number>();
+    for (const row of enrollmentRows) {
+      enrolledByCourse.set(row.courseId, (enrolledByCourse.get(row.courseId) ?? 0) + 1);
+    }
+    const presentBySession = new Map<string, number>();
+    const expectedBySession = new Map<string, number>();
+    for (const row of outcomes) {
+      expectedBySession.set(row.sessionId, (expectedBySession.get(row.sessionId) ?? 0) + 1);
+      if (row.attended) {
+        presentBySession.set(row.sessionId, (presentBySession.get(row.sessionId) ?? 0) + 1);
+      }
+    }
+
+    const departmentById = new Map<string, (typeof departmentRows)[number]>(
+      departmentRows.map((row) => [row.id, row]),
+    );
+    const courseReports: FacultyCourseReport[] = [];
+    for (const course of courseRows) {
+      let sessionsHeld = 0;
+      let expected = 0;
+      let present = 0;
+      for (const session of sessionRows) {
+        if (session.courseId !== course.id) continue;
+        sessionsHeld += 1;
+        expected += expectedBySession.get(session.id) ?? 0;
+        present += presentBySession.get(session.id) ?? 0;
+      }
+      const absences = await absenceService.getCourseAbsences(course.id);
+      const department = course.departmentId ? departmentById.get(course.departmentId) : null;
+
+      courseReports.push({
+        courseId: course.id,
+        code: course.code,
+        name: course.name,
+        term: course.term,
+        departmentId: course.departmentId,
+        departmentName: department?.name ?? null,
+        professorName: course.professorName,
+        enrolledStudents: enrolledByCourse.get(course.id) ?? 0,
+        sessionsHeld,
+        presentCount: present,
+        expectedCount: expected,
+        attendancePercent: percent(present, expected),
+        atRiskStudents: absences.filter((row) => row.absenceStatus === "at_risk").length,
+        overLimitStudents: absences.filter((row) => row.absenceStatus === "over_limit").length,
+      });
+    }
+
+    const rollUp = (rows: FacultyCourseReport[]) => {
+      const total = (pick: (row: FacultyCourseReport) => number) =>
+        rows.reduce((acc, row) => acc + pick(row), 0);
+      return {
+        courses: rows.length,
+        enrolledStudents: total((row) => row.enrolledStudents),
+        sessionsHeld: total((row) => row.sessionsHeld),
+        attendancePercent: percent(
+          total((row) => row.presentCount),
+          total((row) => row.expectedCount),
+        ),
+        atRiskStudents: total((row) => row.atRiskStudents),
+        overLimitStudents: total((row) => row.overLimitStudents),
+      };
+    };
+
+    return {
+      faculty: { id: faculty.id, code: faculty.code, name: faculty.name },
+      departments: departmentRows.map((department) => ({
+        id: department.id,
+        code: department.code,
+        name: department.name,
+        ...rollUp(courseReports.filter((row) => row.departmentId === department.id)),
+      })),
+      courses: courseReports,
+      totals: rollUp(courseReports),
+    };
+  },
+
+  async exportFacultyReportCsv(facultyId: string) {
+    const report = await this.getFacultyReport(facultyId);
+    const escape = (value: string | number | null | undefined) => {
+      if (value === null || value === undefined) return "";
+      const str = String(value);
+      if (str.includes(",") || str.includes("\"") || str.includes("\n")) {
+        return `"${str.replace(/\"/g, "\"\"")}"`;
+      }
+      return str;
+    };
+
+    const headers = [
+      "department",
+      "course_code",
+      "course_name",
+      "term",
+      "professor",
+      "enrolled_students",
+      "sessions_held",
+      "attendance_percent",
+      "at_risk_students",
+      "over_limit_students",
+    ];
+    const lines = [
+      headers.join(","),
+      ...report.courses.map((row) =>
+        [
+          row.departmentName,
+          row.code,
+          row.name,
+          row.term,
+          row.professorName,
+          row.enrolledStudents,
+          row.sessionsHeld,
+          row.attendancePercent,
+          row.atRiskStudents,
+          row.overLimitStudents,
+        ]
+          .map(escape)
+          .join(","),
+      ),
+      [
+        "TOTAL",
+        report.faculty.code,
+        report.faculty.name,
+        "",
+        "",
+        report.totals.enrolledStudents,
+        report.totals.sessionsHeld,
+        report.totals.attendancePercent,
+        report.totals.atRiskStudents,
+        report.totals.overLimitStudents,
+      ]
+        .map(escape)
+        .join(","),
+    ];
+    return { fileName: `faculty-${report.faculty.code}-attendance.csv`, csv: lines.join("\n") };
+  },
+};
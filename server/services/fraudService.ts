@@ -1,6 +1,19 @@
+import { and, desc, eq, inArray, or, type SQL } from "drizzle-orm";
 import { db } from "../db";
-import { fraud_signals } from "@shared/schema";
+import {
+  attendance_records,
+  attendance_rounds,
+  courses,
+  fraud_signals,
+  sessions,
+  users,
+  type UserRole,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
 import { logger } from "../utils/logger";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+import { emitSessionRefresh } from "../websocket/manager";
 
 export type FraudSignalParams = {
   type: string;
@@ -11,6 +24,72 @@ export type FraudSignalParams = {
   details?: Record<string, unknown>;
 };
 
+export type FraudSignalStatus = "open" | "dismissed" | "confirmed" | "attendance_revoked";
+export type FraudSignalResolution = Exclude<FraudSignalStatus, "open">;
+
+export type FraudSignalFilters = {
+  type?: string;
+  severity?: string;
+  sessionId?: string;
+  studentId?: string;
+  status?: string;
+};
+
+const SIGNAL_STATUSES = new Set<string>([
+  "open",
+  "dismissed",
+  "confirmed",
+  "attendance_revoked",
+]);
+const SIGNAL_SEVERITIES = new Set<string>(["low", "medium", "high"]);
+const MAX_NOTE_LENGTH = 500;
+const MAX_LISTED_SIGNALS = 200;
+
+function parseDetails(raw: string | null) {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+async function requireResolvableSignal(userId: string, role: UserRole, signalId: string) {
+  const [row] = await db
+    .select({ signal: fraud_signals, session: sessions })
+    .from(fraud_signals)
+    .leftJoin(sessions, eq(fraud_signals.session_id, sessions.id))
+    .where(eq(fraud_signals.id, signalId))
+    .limit(1);
+
+  if (!row) {
+    throw new ApiError(404, "Fraud signal not found");
+  }
+  // Admins resolve every signal; professors and TAs only those raised in sessions they
+  // run, since a resolution can revoke attendance like a manual override.
+  const canResolve =
+    role === "admin" ||
+    (row.session !== null &&
+      (await courseStaffService.canAccessSession(userId, row.session, "run_sessions")));
+  if (!canResolve) {
+    throw new ApiError(403, "Not permitted to review this signal");
+  }
+  return row;
+}
+
+async function requireSessionRound(sessionId: string | null, roundId: string) {
+  const [round] = await db
+    .select()
+    .from(attendance_rounds)
+    .where(eq(attendance_rounds.id, roundId))
+    .limit(1);
+
+  if (!round || round.session_id !== sessionId) {
+    throw new ApiError(400, "Round does not belong to the signal's session");
+  }
+  return round;
+}
+
 export const fraudService = {
   async emit(params: FraudSignalParams) {
     try {
@@ -34,4 +113,190 @@ export const fraudService = {
       logger.error("failed to emit fraud signal", { error });
     }
   },
+
+  /**
+   * Review queue, newest first. Professors see signals from their own sessions only,
+   * TAs those of courses they may report on.
+   */
+  async listSignals(userId: string, role: UserRole, filters: FraudSignalFilters = {}) {
+    if (filters.status && !SIGNAL_STATUSES.has(filters.status)) {
+      throw new ApiError(400, "Invalid status filter");
+    }
+    if (filters.severity && !SIGNAL_SEVERITIES.has(filters.severity)) {
+      throw new ApiError(400, "Invalid severity filter");
+    }
+
+    const conditions: SQL[] = [];
+    if (role !== "admin") {
+      const staffCourseIds = await courseStaffService.listStaffCourseIds(userId, "view_reports");
+      conditions.push(
+        staffCourseIds.length
+          ? or(eq(sessions.professor_id, userId), inArray(sessions.course_id, staffCourseIds))!
+          : eq(sessions.professor_id, userId),
+      );
+    }
+    if (filters.type) conditions.push(eq(fraud_signals.type, filters.type));
+    if (filters.severity) conditions.push(eq(fraud_signals.severity, filters.severity));
+    if (filters.sessionId) conditions.push(eq(fraud_signals.session_id, filters.sessionId));
+    if (filters.studentId) conditions.push(eq(fraud_signals.student_id, filters.studentId));
+    if (filters.status) conditions.push(eq(fraud_signals.status, filters.status));
+
+    const rows = await db
+      .select({
+        signal: fraud_signals,
+        studentUsername: users.username,
+        studentName: users.display_name,
+        courseCode: courses.code,
+        sessionStartsAt: sessions.starts_at,
+        roundNumber: attendance_rounds.round_number,
+      })
+      .from(fraud_signals)
+      .leftJoin(sessions, eq(fraud_signals.session_id, sessions.id))
+      .leftJoin(courses, eq(sessions.course_id, courses.id))
+      .leftJoin(users, eq(fraud_signals.student_id, users.id))
+      .leftJoin(attendance_rounds, eq(fraud_signals.round_id, attendance_rounds.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(fraud_signals.created_at))
+      .limit(MAX_LISTED_SIGNALS);
+
+    return rows.map((row) => ({
+      id: row.signal.id,
+      type: row.signal.type,
+      severity: row.signal.severity,
+      status: row.signal.status,
+      sessionId: row.signal.session_id,
+      roundId: row.signal.round_id,
+      roundNumber: row.roundNumber ?? null,
+      studentId: row.signal.student_id,
+      studentUsername: row.studentUsername ?? null,
+      studentName: row.studentName ?? null,
+      courseCode: row.courseCode ?? null,
+      sessionStartsAt: row.sessionStartsAt ?? null,
+      details: parseDetails(row.signal.details_json),
+      createdAt: row.signal.created_at,
+      resolvedBy: row.signal.resolved_by,
+      resolvedAt: row.signal.resolved_at,
+      resolutionNote: row.signal.resolution_note,
+    }));
+  },
+
+  /**
+   * Closes an open signal. "attendance_revoked" also turns the student's record for the
+   * signal's round (or `roundId`, for session-level signals) into an absence.
+   */
+  async resolveSignal(
+    userId: string,
+    role: UserRole,
+    signalId: string,
+    payload: { resolution?: string; note?: string | null; roundId?: string | null },
+  ) {
+    const { signal } = await requireResolvableSignal(userId, role, signalId);
+    const resolution = payload.resolution;
+    if (!resolution || resolution === "open" || !SIGNAL_STATUSES.has(resolution)) {
+      throw new ApiError(
+        400,
+        "resolution must be one of dismissed, confirmed or attendance_revoked.",
+      );
+    }
+    if (signal.status !== "open") {
+      throw new ApiError(409, `Signal is already ${signal.status}`);
+    }
+    const note = payload.note?.trim() || null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      throw new ApiError(400, `Note must be at most ${MAX_NOTE_LENGTH} characters.`);
+    }
+
+    let revokeTarget: {
+      round: typeof attendance_rounds.$inferSelect;
+      record: typeof attendance_records.$inferSelect;
+    } | null = null;
+    if (resolution === "attendance_revoked") {
+      if (!signal.student_id) {
+        throw new ApiError(400, "Signal is not linked to a student");
+      }
+      const roundId = signal.round_id ?? payload.roundId;
+      if (!roundId) {
+        throw new ApiError(400, "roundId is required to revoke attendance for this signal");
+      }
+      const round = await requireSessionRound(signal.session_id, roundId);
+
+      const [existing] = await db
+        .select()
+        .from(attendance_records)
+        .where(
+          and(
+            eq(attendance_records.round_id, round.id),
+            eq(attendance_records.student_id, signal.student_id),
+          ),
+        )
+        .limit(1);
+      if (!existing || existing.status === "absent") {
+        throw new ApiError(404, "No attendance record to revoke");
+      }
+      revokeTarget = { round, record: existing };
+    }
+
+    // Only the reviewer whose update still finds the signal open resolves it; a
+    // concurrent resolution gets a conflict before any attendance is revoked.
+    const [updated] = await db
+      .update(fraud_signals)
+      .set({
+        status: resolution,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString(),
+        resolution_note: note,
+      })
+      .where(and(eq(fraud_signals.id, signal.id), eq(fraud_signals.status, "open")))
+      .returning();
+    if (!updated) {
+      throw new ApiError(409, "Signal is already resolved");
+    }
+
+    let revokedRecord: typeof attendance_records.$inferSelect | null = null;
+    if (revokeTarget) {
+      const { round, record: existing } = revokeTarget;
+      [revokedRecord] = await db
+        .update(attendance_records)
+        .set({
+          status: "absent",
+          recorded_at: round.ends_at ?? new Date().toISOString(),
+        })
+        .where(eq(attendance_records.id, existing.id))
+        .returning();
+
+      await auditService.log({
+        actorId: userId,
+        action: "attendance_revoke",
+        entityType: "attendance_record",
+        entityId: existing.id,
+        before: existing,
+        after: revokedRecord,
+        reason: note ?? `Fraud signal ${signal.type} confirmed`,
+      });
+    }
+
+    await auditService.log({
+      actorId: userId,
+      action: "fraud_signal_resolve",
+      entityType: "fraud_signal",
+      entityId: signal.id,
+      before: signal,
+      after: updated,
+      reason: note,
+    });
+
+    logger.info("fraud signal resolved", { userId, signalId, resolution });
+
+    if (revokedRecord && signal.session_id) {
+      emitSessionRefresh(signal.session_id, {
+        sessionId: signal.session_id,
+        reason: "attendance_overridden",
+        roundId: revokedRecord.round_id,
+        studentId: revokedRecord.student_id,
+        status: revokedRecord.status,
+      });
+    }
+
+    return { signal: updated, revokedRecord };
+  },
 };
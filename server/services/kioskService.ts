@@ -0,0 +1,263 @@
+import { createHash, randomBytes } from "crypto";
+import { and, desc, eq, gt, isNull, ne, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  attendance_records,
+  attendance_rounds,
+  courses,
+  enrollments,
+  groups,
+  kiosk_tokens,
+  sessions,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+import { buildQrPayload, qrService } from "./qrService";
+import { onRealtimeMessage } from "../websocket/broker";
+import { closeKioskSockets } from "../websocket/manager";
+
+const KIOSK_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+type KioskQr = { qrPayload: string; expiresAt: string };
+
+/**
+ * Latest QR per active round, taken from the `round:qr-updated` events every instance
+ * receives, so `/api/kiosk/state` polls show the code already on screen instead of
+ * minting tokens from a public endpoint.
+ */
+const currentQrByRound = new Map<string, KioskQr>();
+
+function isLive(qr: KioskQr | undefined): qr is KioskQr {
+  return !!qr && new Date(qr.expiresAt).getTime() > Date.now();
+}
+
+function rememberQr(roundId: string, qr: KioskQr) {
+  currentQrByRound.set(roundId, qr);
+  currentQrByRound.forEach((entry, key) => {
+    if (!isLive(entry)) {
+      currentQrByRound.delete(key);
+    }
+  });
+}
+
+// Each event is published to the session and kiosk channels; one copy is enough.
+onRealtimeMessage((message) => {
+  if (!message.channel.startsWith("kiosk:")) {
+    return;
+  }
+  const payload = message.payload as { roundId?: string; qrPayload?: string; expiresAt?: string };
+  if (!payload.roundId) {
+    return;
+  }
+  if (message.event === "round:qr-updated" && payload.qrPayload && payload.expiresAt) {
+    rememberQr(payload.roundId, { qrPayload: payload.qrPayload, expiresAt: payload.expiresAt });
+  } else if (message.event === "round:closed") {
+    currentQrByRound.delete(payload.roundId);
+  }
+});
+
+/**
+ * The round's current QR. A token is minted only when none is live yet (e.g. right
+ * after this instance started) and is then reused until it expires or rotates.
+ */
+async function currentRoundQr(roundId: string): Promise<KioskQr> {
+  const current = currentQrByRound.get(roundId);
+  if (isLive(current)) {
+    return current;
+  }
+  const token = await qrService.generateToken(roundId);
+  const expiresAt = token.expiresAt.toISOString();
+  const qr = {
+    qrPayload: buildQrPayload({
+      roundId,
+      token: token.rawToken,
+      issuedAt: token.issuedAt,
+      expiresAt,
+    }),
+    expiresAt,
+  };
+  rememberQr(roundId, qr);
+  return qr;
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function requireOwnedSession(professorId: string, sessionId: string) {
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.id, sessionId))
+    .limit(1);
+  if (!session) {
+    throw new ApiError(404, "Session not found");
+  }
+  if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
+    throw new ApiError(403, "You do not own this session");
+  }
+  return session;
+}
+
+export const kioskService = {
+  /**
+   * Issues a read-only view token for projecting a session's QR code. Only the hash is
+   * stored; the raw token is returned once and goes into the kiosk link.
+   */
+  async createViewToken(professorId: string, sessionId: string) {
+    const session = await requireOwnedSession(professorId, sessionId);
+    if (!session.is_active) {
+      throw new ApiError(400, "Cannot open a kiosk for an inactive session");
+    }
+
+    const token = randomBytes(24).toString("hex");
+    const expiresAt = new Date(Date.now() + KIOSK_TOKEN_TTL_MS).toISOString();
+    const [row] = await db
+      .insert(kiosk_tokens)
+      .values({
+        session_id: sessionId,
+        token_hash: hashToken(token),
+        created_by: professorId,
+        expires_at: expiresAt,
+      })
+      .returning();
+
+    await auditService.log({
+      actorId: professorId,
+      action: "kiosk_token_create",
+      entityType: "session",
+      entityId: sessionId,
+      after: { kioskTokenId: row.id, expiresAt },
+    });
+
+    return { token, expiresAt };
+  },
+
+  /**
+   * Revokes every kiosk token of a session and closes the kiosk sockets opened with
+   * them, so connected screens stop receiving QR codes at once.
+   */
+  async revokeViewTokens(professorId: string, sessionId: string) {
+    await requireOwnedSession(professorId, sessionId);
+    const revoked = await db
+      .update(kiosk_tokens)
+      .set({ revoked_at: new Date().toISOString() })
+      .where(and(eq(kiosk_tokens.session_id, sessionId), isNull(kiosk_tokens.revoked_at)))
+      .returning({ id: kiosk_tokens.id });
+
+    if (revoked.length) {
+      closeKioskSockets(
+        sessionId,
+        revoked.map((row: { id: string }) => row.id),
+      );
+      await auditService.log({
+        actorId: professorId,
+        action: "kiosk_token_revoke",
+        entityType: "session",
+        entityId: sessionId,
+        after: { revokedCount: revoked.length },
+      });
+    }
+    return { revokedCount: revoked.length };
+  },
+
+  /**
+   * Token id and session id a view token grants access to. Throws 401 for unknown,
+   * expired or revoked tokens.
+   */
+  async resolveViewToken(token: string | null | undefined) {
+    if (!token) {
+      throw new ApiError(401, "Kiosk token required", "invalid_kiosk_token");
+    }
+    const [row] = await db
+      .select({ tokenId: kiosk_tokens.id, sessionId: kiosk_tokens.session_id })
+      .from(kiosk_tokens)
+      .where(
+        and(
+          eq(kiosk_tokens.token_hash, hashToken(token)),
+          isNull(kiosk_tokens.revoked_at),
+          gt(kiosk_tokens.expires_at, new Date().toISOString()),
+        ),
+      )
+      .limit(1);
+    if (!row) {
+      throw new ApiError(401, "Kiosk link is invalid or has expired", "invalid_kiosk_token");
+    }
+    return row as { tokenId: string; sessionId: string };
+  },
+
+  /**
+   * Everything a kiosk screen shows: course and group labels, the active round with a
+   * fresh QR code, and the scanned/enrolled counter. No student details are included.
+   */
+  async getKioskState(token: string | null | undefined) {
+    const { sessionId } = await this.resolveViewToken(token);
+    const [row] = await db
+      .select({ session: sessions, course: courses, group: groups })
+      .from(sessions)
+      .innerJoin(courses, eq(sessions.course_id, courses.id))
+      .innerJoin(groups, eq(sessions.group_id, groups.id))
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+    if (!row) {
+      throw new ApiError(404, "Session not found");
+    }
+
+    const [{ enrolled }] = await db
+      .select({ enrolled: sql<number>`COUNT(${enrollments.id})` })
+      .from(enrollments)
+      .where(eq(enrollments.group_id, row.group.id));
+
+    const [activeRound] = row.session.is_active
+      ? await db
+          .select({
+            id: attendance_rounds.id,
+            roundNumber: attendance_rounds.round_number,
+            isBreakRound: attendance_rounds.is_break_round,
+          })
+          .from(attendance_rounds)
+          .where(
+            and(
+              eq(attendance_rounds.session_id, sessionId),
+              eq(attendance_rounds.is_active, true),
+            ),
+          )
+          .orderBy(desc(attendance_rounds.round_number))
+          .limit(1)
+      : [];
+
+    let qr: KioskQr | null = null;
+    let scanned = 0;
+    if (activeRound) {
+      qr = await currentRoundQr(activeRound.id);
+
+      const [{ count }] = await db
+        .select({ count: sql<number>`COUNT(${attendance_records.id})` })
+        .from(attendance_records)
+        .where(
+          and(
+            eq(attendance_records.round_id, activeRound.id),
+            ne(attendance_records.status, "absent"),
+          ),
+        );
+      scanned = Number(count ?? 0);
+    }
+
+    return {
+      session: {
+        id: row.session.id,
+        isActive: row.session.is_active,
+        courseCode: row.course.code,
+        courseName: row.course.name,
+        groupName: row.group.name,
+      },
+      round: activeRound ?? null,
+      qr,
+      counts: {
+        scanned,
+        enrolled: Number(enrolled ?? 0),
+      },
+    };
+  },
+};
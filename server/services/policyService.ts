@@ -6,6 +6,9 @@ import {
   attendance_policy_history,
   course_policy_assignments,
   courses,
+  departments,
+  faculties,
+  professor_profiles,
   type AttendancePolicy,
   type PolicyScopeType,
 } from "@shared/schema";
@@ -174,6 +177,28 @@ async function findFacultyPolicy(facultyId: string, nowIso: string, executor: Db
   return row ?? null;
 }
 
+/**
+ * Faculty of a course: through the course's department, or its professor's department
+ * when the course has none.
+ */
+async function findCourseFacultyId(courseId: string, executor: DbExecutor) {
+  const [row] = await executor
+    .select({ facultyId: departments.faculty_id })
+    .from(courses)
+    .leftJoin(professor_profiles, eq(professor_profiles.user_id, courses.professor_id))
+    .innerJoin(
+      departments,
+      eq(
+        departments.id,
+        sql`COALESCE(${courses.department_id}, ${professor_profiles.department_id})`,
+      ),
+    )
+    .where(eq(courses.id, courseId))
+    .limit(1);
+
+  return row?.facultyId ?? null;
+}
+
 async function findGlobalPolicy(nowIso: string, executor: DbExecutor) {
   const [row] = await executor
     .select()
@@ -223,6 +248,22 @@ export const policyService = {
     return resolved;
   },
 
+  /**
+   * Active policy for a course, falling back to its faculty's policy and then the
+   * global one.
+   */
+  async getActivePolicyForCourse(courseId: string) {
+    return this.getActivePolicyForRound(courseId, await findCourseFacultyId(courseId, db));
+  },
+
+  /** Seconds after round start beyond which a scan counts as late (threshold + grace). */
+  getLateThresholdSeconds(rules: AttendancePolicyRules, isBreakRound: boolean) {
+    const lateAfterMinutes = isBreakRound
+      ? rules.lateAfterMinutes.break
+      : rules.lateAfterMinutes.first_hour;
+    return Math.round((lateAfterMinutes + (rules.graceMinutes ?? 0)) * 60);
+  },
+
   async createPolicy(input: {
     name?: string | null;
     scopeType: PolicyScopeType;
@@ -235,6 +276,16 @@ export const policyService = {
     if (input.scopeType !== "global" && !input.scopeId) {
       throw new ApiError(400, "scopeId is required for course or faculty policies");
     }
+    if (input.scopeType === "faculty") {
+      const [faculty] = await db
+        .select({ id: faculties.id })
+        .from(faculties)
+        .where(eq(faculties.id, input.scopeId!))
+        .limit(1);
+      if (!faculty) {
+        throw new ApiError(404, "Faculty not found");
+      }
+    }
 
     const rules = policyRulesSchema.parse(input.rules);
     const scopeMatch =
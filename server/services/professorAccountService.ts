@@ -117,17 +117,20 @@ export const professorAccountService = {
       throw new ApiError(403, "You can only view credentials for your students.");
     }
 
-    const [credential] = await accountCredentialService.listActiveForStudents([
-      target.id,
-    ]);
+    const [credential] = await accountCredentialService.revealForStudents(
+      professorId,
+      [target.id],
+      "credential",
+    );
 
     return {
       studentId: target.id,
       displayName: target.display_name,
       email: target.email,
       username: target.username,
-      password: credential?.plainPassword ?? "",
-      hasPassword: Boolean(credential?.plainPassword),
+      password: credential?.password ?? "",
+      hasPassword: Boolean(credential?.password),
+      revealedAt: credential?.revealedAt ?? null,
     };
   },
 
@@ -210,11 +213,14 @@ export const professorAccountService = {
   async exportManagedStudentsCsv(professorId: string) {
     const managed = await this.listManagedUsers(professorId);
     const students = managed.filter((row) => row.role === "student");
-    const credentialRows = await accountCredentialService.listActiveForStudents(
+    // Exported passwords count as revealed, so each appears in one export only.
+    const credentialRows = await accountCredentialService.revealForStudents(
+      professorId,
       students.map((row) => row.id),
+      "export",
     );
     const passwordByStudentId = new Map(
-      credentialRows.map((row) => [row.studentId, row.plainPassword]),
+      credentialRows.map((row) => [row.studentId, row.password]),
     );
 
     const escape = (value: string | number | null | undefined) => {
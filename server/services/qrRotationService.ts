@@ -4,6 +4,7 @@ import { db } from "../db";
 import { logger } from "../utils/logger";
 import { buildQrPayload, qrService } from "./qrService";
 import { emitRoundQrUpdated } from "../websocket/manager";
+import { isRealtimeLeader } from "../websocket/broker";
 
 const QR_ROTATION_INTERVAL_MS = Math.max(
   5_000,
@@ -59,9 +60,17 @@ export async function rotateActiveRoundQrCodes() {
   );
 }
 
+/** Only the elected instance rotates, so QR codes are not rotated once per instance. */
+async function rotateIfLeader() {
+  if (!(await isRealtimeLeader("qr-rotation"))) {
+    return;
+  }
+  await rotateActiveRoundQrCodes();
+}
+
 export function startQrRotationScheduler() {
   setInterval(() => {
-    rotateActiveRoundQrCodes().catch((error) => {
+    rotateIfLeader().catch((error) => {
       logger.error("Failed to rotate active QR codes", { error });
     });
   }, QR_ROTATION_INTERVAL_MS);
@@ -1,7 +1,7 @@
 import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
-import { and, eq, gt, lt } from "drizzle-orm";
+import { and, eq, gt, isNull, lt } from "drizzle-orm";
 import { db } from "../db";
-import { qr_tokens } from "@shared/schema";
+import { attendance_rounds, qr_tokens } from "@shared/schema";
 import { ApiError } from "../errors/apiError";
 import { logger } from "../utils/logger";
 
@@ -9,9 +9,16 @@ const TOKEN_TTL_MS = Math.max(
   5_000,
   Number(process.env.QR_TOKEN_TTL_SECONDS ?? 5) * 1000,
 );
-const OFFLINE_GRACE_MS =
+export const OFFLINE_GRACE_MS =
   Number(process.env.QR_OFFLINE_GRACE_SECONDS ?? 0) * 1000;
 const MAX_CLOCK_SKEW_MS = 60_000;
+const TOTP_STEP_MS = Math.max(
+  5_000,
+  Number(process.env.QR_TOTP_STEP_SECONDS ?? 10) * 1000,
+);
+// Codes from this many steps either side of the reference time are still accepted.
+const TOTP_WINDOW_STEPS = 1;
+const TOTP_TOKEN_PREFIX = "totp.";
 
 function getPayloadSecret() {
   const secret = process.env.QR_PAYLOAD_SECRET ?? process.env.SESSION_SECRET;
@@ -43,10 +50,83 @@ function timingSafeEqualsHex(a: string, b: string) {
 
 type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
 
+/**
+ * Offline scans count from their capture time, but never earlier than the code was
+ * issued nor later than now, so a client clock cannot move a scan outside the window
+ * the code itself vouches for.
+ */
+function scannedAt(
+  offlineCapturedAt: string | null | undefined,
+  issuedMs: number,
+  nowMs: number,
+) {
+  const capturedMs = offlineCapturedAt ? Date.parse(offlineCapturedAt) : Number.NaN;
+  if (Number.isNaN(capturedMs)) {
+    return new Date(nowMs).toISOString();
+  }
+  return new Date(Math.min(Math.max(capturedMs, issuedMs), nowMs)).toISOString();
+}
+
 function hashToken(token: string) {
   return createHash("sha256").update(token).digest("hex");
 }
 
+function totpCode(secret: string, roundId: string, step: number) {
+  return createHmac("sha256", secret)
+    .update(`${roundId}.${step}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function signTotpPayload(
+  secret: string,
+  params: { roundId: string; token: string; issuedAt: string; expiresAt: string },
+) {
+  const payload = `${params.roundId}.${params.token}.${params.issuedAt}.${params.expiresAt}`;
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function parseTotpToken(token: string) {
+  const match = /^totp\.(\d{1,15})\.([0-9a-f]{32})$/.exec(token);
+  if (!match) return null;
+  return { step: Number(match[1]), code: match[2] };
+}
+
+/**
+ * Fresh secret for a round's offline rotating QR codes.
+ */
+export function generateRoundSecret() {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Builds the payload a professor page renders from a round's offline secret. The
+ * client in client/src/lib/offlineQr.ts produces the same output with WebCrypto.
+ */
+export function buildTotpQrPayload(params: {
+  roundId: string;
+  secret: string;
+  at?: Date;
+}) {
+  const step = Math.floor((params.at ?? new Date()).getTime() / TOTP_STEP_MS);
+  const token = `${TOTP_TOKEN_PREFIX}${step}.${totpCode(params.secret, params.roundId, step)}`;
+  const issuedAt = new Date(step * TOTP_STEP_MS).toISOString();
+  const expiresAt = new Date((step + 1) * TOTP_STEP_MS).toISOString();
+
+  return JSON.stringify({
+    roundId: params.roundId,
+    token,
+    issuedAt,
+    expiresAt,
+    signature: signTotpPayload(params.secret, {
+      roundId: params.roundId,
+      token,
+      issuedAt,
+      expiresAt,
+    }),
+  });
+}
+
 /**
  * Serialize QR metadata into a payload string for the client scanner.
  */
@@ -89,6 +169,35 @@ export function verifyQrPayloadSignature(params: {
 }
 
 export const qrService = {
+  /**
+   * Per-round secret the professor page uses to render rotating QR codes on its own.
+   * Rounds created before offline codes existed get one on first request.
+   */
+  async getRoundSecret(roundId: string) {
+    const [round] = await db
+      .select({ secret: attendance_rounds.qr_secret })
+      .from(attendance_rounds)
+      .where(eq(attendance_rounds.id, roundId))
+      .limit(1);
+    if (!round) {
+      throw new ApiError(404, "Round not found");
+    }
+    if (round.secret) {
+      return { secret: round.secret, stepSeconds: TOTP_STEP_MS / 1000 };
+    }
+
+    await db
+      .update(attendance_rounds)
+      .set({ qr_secret: generateRoundSecret() })
+      .where(and(eq(attendance_rounds.id, roundId), isNull(attendance_rounds.qr_secret)));
+    const [stored] = await db
+      .select({ secret: attendance_rounds.qr_secret })
+      .from(attendance_rounds)
+      .where(eq(attendance_rounds.id, roundId))
+      .limit(1);
+    return { secret: stored.secret as string, stepSeconds: TOTP_STEP_MS / 1000 };
+  },
+
   /**
    * Create a short-lived QR token for a round.
    */
@@ -118,6 +227,8 @@ export const qrService = {
   /**
    * Validates a token and atomically consumes it to prevent reuse.
    * Throws ApiError with appropriate status codes on failure.
+   * `scannedAt` is the time the scan counts from: the offline capture time, kept
+   * between the code's issue time and now, or the server time for live scans.
    */
   async validateAndConsumeToken(
     roundId: string,
@@ -127,9 +238,14 @@ export const qrService = {
       qrSignature?: string | null;
       qrIssuedAt?: string | null;
       qrExpiresAt?: string | null;
+      studentId?: string | null;
     },
     executor: DbExecutor = db,
   ) {
+    if (token.startsWith(TOTP_TOKEN_PREFIX)) {
+      return consumeTotpToken(roundId, token, options ?? {}, executor);
+    }
+
     const tokenHash = hashToken(token);
     const [record] = await executor
       .select()
@@ -246,10 +362,108 @@ export const qrService = {
       throw new ApiError(409, "QR token already used");
     }
 
-    return consumed;
+    // Expired codes were checked against their signed payload above; live ones were
+    // issued one TTL before they expire.
+    const issuedMs =
+      isExpired && options?.qrIssuedAt
+        ? Date.parse(options.qrIssuedAt)
+        : recordExpiresMs - TOKEN_TTL_MS;
+    return { ...consumed, scannedAt: scannedAt(options?.offlineCapturedAt, issuedMs, nowMs) };
   },
 };
 
+/**
+ * Offline codes are not stored up front, so a successful scan inserts an already
+ * consumed qr_tokens row keyed by code and student. The unique (round_id, token_hash)
+ * index then rejects a replay of the same code by that student, while the rest of the
+ * room can scan the projected code during its step; the one-record-per-student rule
+ * keeps each student to a single scan per round.
+ */
+async function consumeTotpToken(
+  roundId: string,
+  token: string,
+  options: {
+    offlineCapturedAt?: string | null;
+    qrSignature?: string | null;
+    qrIssuedAt?: string | null;
+    qrExpiresAt?: string | null;
+    studentId?: string | null;
+  },
+  executor: DbExecutor,
+) {
+  const parsed = parseTotpToken(token);
+  const [round] = await executor
+    .select({ secret: attendance_rounds.qr_secret })
+    .from(attendance_rounds)
+    .where(eq(attendance_rounds.id, roundId))
+    .limit(1);
+  if (
+    !parsed ||
+    !round?.secret ||
+    !options.studentId ||
+    !timingSafeEqualsHex(totpCode(round.secret, roundId, parsed.step), parsed.code)
+  ) {
+    throw new ApiError(400, "Invalid QR token", "invalid_token");
+  }
+
+  const issuedAt = new Date(parsed.step * TOTP_STEP_MS).toISOString();
+  const expiresAt = new Date((parsed.step + 1) * TOTP_STEP_MS).toISOString();
+  if (
+    options.qrSignature &&
+    !timingSafeEqualsHex(
+      signTotpPayload(round.secret, { roundId, token, issuedAt, expiresAt }),
+      options.qrSignature,
+    )
+  ) {
+    throw new ApiError(400, "Invalid QR payload signature", "invalid_qr_signature");
+  }
+
+  const nowMs = Date.now();
+  const stepEndMs = (parsed.step + 1) * TOTP_STEP_MS;
+  let referenceMs = nowMs;
+  if (options.offlineCapturedAt) {
+    referenceMs = Date.parse(options.offlineCapturedAt);
+    if (Number.isNaN(referenceMs) || referenceMs > nowMs + MAX_CLOCK_SKEW_MS) {
+      throw new ApiError(
+        400,
+        "Offline capture time is invalid",
+        "invalid_offline_capture_time",
+      );
+    }
+    if (nowMs > stepEndMs + OFFLINE_GRACE_MS + MAX_CLOCK_SKEW_MS) {
+      throw new ApiError(400, "QR token has expired", "token_expired");
+    }
+  }
+
+  const referenceStep = Math.floor(referenceMs / TOTP_STEP_MS);
+  if (parsed.step < referenceStep - TOTP_WINDOW_STEPS) {
+    throw new ApiError(400, "QR token has expired", "token_expired");
+  }
+  if (parsed.step > referenceStep + TOTP_WINDOW_STEPS) {
+    throw new ApiError(400, "Invalid QR token", "invalid_token");
+  }
+
+  const [consumed] = await executor
+    .insert(qr_tokens)
+    .values({
+      round_id: roundId,
+      token_hash: hashToken(`${token}:${options.studentId}`),
+      expires_at: expiresAt,
+      consumed: true,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!consumed) {
+    throw new ApiError(409, "QR token already used", "token_already_consumed");
+  }
+
+  return {
+    ...consumed,
+    scannedAt: scannedAt(options.offlineCapturedAt, parsed.step * TOTP_STEP_MS, nowMs),
+  };
+}
+
 export async function cleanupExpiredTokens() {
   const nowIso = new Date().toISOString();
   try {
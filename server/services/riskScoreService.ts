@@ -0,0 +1,210 @@
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+import { db } from "../db";
+import { courses, fraud_signals, sessions, users } from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { courseStaffService } from "./courseStaffService";
+
+export type StudentRiskScore = {
+  studentId: string;
+  courseId: string;
+  score: number;
+  signalCount: number;
+  sessionCount: number;
+  signalsByType: Record<string, number>;
+  lastSignalAt: string;
+};
+
+type ScoredSignal = {
+  studentId: string;
+  courseId: string;
+  sessionId: string;
+  type: string;
+  severity: string;
+  status: string;
+  createdAt: string;
+};
+
+// fraud_signals.student_id is nullable in the schema even though the query skips nulls.
+type SignalRow = Omit<ScoredSignal, "studentId"> & { studentId: string | null };
+
+const SEVERITY_WEIGHTS: Record<string, number> = {
+  low: 1,
+  medium: 3,
+  high: 6,
+};
+
+// Edge scans happen to honest students too; repeated devices or bursts are stronger hints.
+const TYPE_WEIGHTS: Record<string, number> = {
+  edge_scan: 0.5,
+  gps_cluster: 1,
+  rapid_burst: 1.5,
+  multiple_device: 2,
+  buddy_punching: 2,
+};
+
+// Dismissed signals no longer count; ones a reviewer confirmed count double.
+const STATUS_WEIGHTS: Record<string, number> = {
+  open: 1,
+  dismissed: 0,
+  confirmed: 2,
+  attendance_revoked: 2,
+};
+
+const HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MIN_SCORE = 3;
+
+function signalWeight(signal: ScoredSignal, now: Date) {
+  const ageDays = Math.max(0, (now.getTime() - Date.parse(signal.createdAt)) / DAY_MS);
+  const decay = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+  return (
+    (SEVERITY_WEIGHTS[signal.severity] ?? 1) *
+    (TYPE_WEIGHTS[signal.type] ?? 1) *
+    (STATUS_WEIGHTS[signal.status] ?? 1) *
+    decay
+  );
+}
+
+/**
+ * Rolls signals up per student and course. Each signal's weight halves every
+ * HALF_LIFE_DAYS, so old one-off events fade while repeated patterns keep the score up.
+ */
+async function scoreCourses(courseIds: string[], now: Date) {
+  if (!courseIds.length) {
+    return [];
+  }
+
+  const rows: SignalRow[] = await db
+    .select({
+      studentId: fraud_signals.student_id,
+      courseId: sessions.course_id,
+      sessionId: sessions.id,
+      type: fraud_signals.type,
+      severity: fraud_signals.severity,
+      status: fraud_signals.status,
+      createdAt: fraud_signals.created_at,
+    })
+    .from(fraud_signals)
+    .innerJoin(sessions, eq(fraud_signals.session_id, sessions.id))
+    .where(and(inArray(sessions.course_id, courseIds), isNotNull(fraud_signals.student_id)));
+  const signals = rows.filter((row): row is ScoredSignal => row.studentId !== null);
+
+  const scores = new Map<string, StudentRiskScore & { sessions: Set<string> }>();
+  for (const row of signals) {
+    const weight = signalWeight(row, now);
+    if (weight === 0) {
+      continue;
+    }
+    const key = `${row.courseId}:${row.studentId}`;
+    let entry = scores.get(key);
+    if (!entry) {
+      entry = {
+        studentId: row.studentId,
+        courseId: row.courseId,
+        score: 0,
+        signalCount: 0,
+        sessionCount: 0,
+        signalsByType: {},
+        lastSignalAt: row.createdAt,
+        sessions: new Set(),
+      };
+      scores.set(key, entry);
+    }
+    entry.score += weight;
+    entry.signalCount += 1;
+    entry.sessions.add(row.sessionId);
+    entry.signalsByType[row.type] = (entry.signalsByType[row.type] ?? 0) + 1;
+    if (row.createdAt > entry.lastSignalAt) {
+      entry.lastSignalAt = row.createdAt;
+    }
+  }
+
+  return Array.from(scores.values()).map(({ sessions: seen, ...entry }) => ({
+    ...entry,
+    score: Math.round(entry.score * 100) / 100,
+    sessionCount: seen.size,
+  }));
+}
+
+export const riskScoreService = {
+  /**
+   * Decayed fraud risk score for every flagged student in a course.
+   */
+  async getCourseRiskScores(courseId: string, now = new Date()) {
+    const scores = await scoreCourses([courseId], now);
+    return scores.sort((a, b) => b.score - a.score);
+  },
+
+  /**
+   * Students whose score reaches `minScore` across the professor's courses, optionally
+   * narrowed to one course, highest score first.
+   */
+  async listSuspiciousStudents(
+    professorId: string,
+    options: { courseId?: string | null; minScore?: number; now?: Date } = {},
+  ) {
+    const courseId = options.courseId ?? null;
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    if (!Number.isFinite(minScore) || minScore < 0) {
+      throw new ApiError(400, "minScore must be a non-negative number.");
+    }
+
+    const courseScope = await courseStaffService.accessibleCoursesFilter(
+      professorId,
+      "view_reports",
+    );
+    const courseRows: Array<{ id: string; code: string; name: string }> = await db
+      .select({ id: courses.id, code: courses.code, name: courses.name })
+      .from(courses)
+      .where(courseId ? and(courseScope, eq(courses.id, courseId)) : courseScope);
+
+    if (courseId && !courseRows.length) {
+      const [course] = await db
+        .select({ id: courses.id })
+        .from(courses)
+        .where(eq(courses.id, courseId))
+        .limit(1);
+      if (!course) {
+        throw new ApiError(404, "Course not found.");
+      }
+      throw new ApiError(403, "You do not own this course.");
+    }
+
+    const scores = (
+      await scoreCourses(
+        courseRows.map((course) => course.id),
+        options.now ?? new Date(),
+      )
+    ).filter((entry) => entry.score >= minScore);
+    if (!scores.length) {
+      return [];
+    }
+
+    const studentIds = Array.from(new Set(scores.map((entry) => entry.studentId)));
+    const studentRows: Array<{ id: string; displayName: string; username: string }> = await db
+      .select({
+        id: users.id,
+        displayName: users.display_name,
+        username: users.username,
+      })
+      .from(users)
+      .where(inArray(users.id, studentIds));
+    const studentsById = new Map(studentRows.map((row) => [row.id, row]));
+    const coursesById = new Map(courseRows.map((row) => [row.id, row]));
+
+    return scores
+      .map((entry) => ({
+        ...entry,
+        displayName: studentsById.get(entry.studentId)?.displayName ?? "",
+        username: studentsById.get(entry.studentId)?.username ?? "",
+        courseCode: coursesById.get(entry.courseId)?.code ?? "",
+        courseName: coursesById.get(entry.courseId)?.name ?? "",
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.sessionCount - a.sessionCount ||
+          a.displayName.localeCompare(b.displayName),
+      );
+  },
+};
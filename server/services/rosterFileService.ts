@@ -0,0 +1,76 @@
+import { ApiError } from "../errors/apiError";
+import { ROSTER_KEY_PREFIX, rosterFileKey } from "../middleware/uploads";
+import { contentTypeForKey, getFileStorage, type StoredFile } from "../storage/fileStorage";
+import { uploadInspectionService } from "./uploadInspectionService";
+
+export type RosterFileUpload = {
+  originalName: string;
+  buffer: Buffer;
+};
+
+// Keys look like rosters/<ownerId>__<timestamp>__<originalName>; fileName is the part
+// after the prefix, which is what the API exposes.
+function describe(file: StoredFile) {
+  const fileName = file.key.slice(ROSTER_KEY_PREFIX.length);
+  const [, timestampPart, ...nameParts] = fileName.split("__");
+  const timestamp = Number(timestampPart);
+  return {
+    fileName,
+    originalName: nameParts.join("__") || fileName,
+    size: file.size,
+    uploadedAt: Number.isFinite(timestamp)
+      ? new Date(timestamp).toISOString()
+      : file.lastModified.toISOString(),
+  };
+}
+
+function ownedKey(ownerId: string, fileName: string) {
+  if (!fileName.startsWith(`${ownerId}__`)) {
+    throw new ApiError(403, "You can only download your own files.");
+  }
+  if (fileName.includes("/")) {
+    throw new ApiError(400, "Invalid file path.");
+  }
+  return `${ROSTER_KEY_PREFIX}${fileName}`;
+}
+
+export const rosterFileService = {
+  /** Checks the sheet's real content type before storing it; rejected files are quarantined. */
+  async saveFile(ownerId: string, upload: RosterFileUpload) {
+    const inspected = await uploadInspectionService.inspectRosterFile(ownerId, upload);
+    const key = rosterFileKey(ownerId, upload.originalName);
+    await getFileStorage().put(key, inspected.buffer, inspected.contentType);
+    return describe({
+      key,
+      size: upload.buffer.length,
+      contentType: contentTypeForKey(key),
+      lastModified: new Date(),
+    });
+  },
+
+  /** The owner's uploaded roster files, newest first. */
+  async listFiles(ownerId: string) {
+    const files = await getFileStorage().list(`${ROSTER_KEY_PREFIX}${ownerId}__`);
+    return files
+      .map(describe)
+      .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  },
+
+  async openFile(ownerId: string, fileName: string) {
+    const file = await getFileStorage().get(ownedKey(ownerId, fileName));
+    if (!file) {
+      throw new ApiError(404, "File not found.");
+    }
+    return { file, originalName: describe(file).originalName };
+  },
+
+  /** Reads a stored roster file into memory, e.g. to re-run an import preview. */
+  async readFile(ownerId: string, fileName: string) {
+    const { file, originalName } = await this.openFile(ownerId, fileName);
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.body) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return { originalName, content: Buffer.concat(chunks) };
+  },
+};
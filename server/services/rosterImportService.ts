@@ -1,18 +1,118 @@
-import fs from "fs";
+import { createHash } from "crypto";
 import path from "path";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { courses, enrollments, groups, student_profiles, users } from "@shared/schema";
 import { ApiError } from "../errors/apiError";
 import { authService } from "./authService";
 import { userRepository } from "../repositories/userRepository";
 import { enrollmentService } from "./enrollmentService";
-import { accountCredentialService } from "./accountCredentialService";
+import { activationService, type IssuedActivation } from "./activationService";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+import { rosterFileService } from "./rosterFileService";
 import { buildFallbackStudentEmail } from "../utils/studentEmail";
 
-type NormalizedStudent = {
+export const ROSTER_FIELDS = ["username", "displayName", "email", "studentNumber", "group"] as const;
+export type RosterField = (typeof ROSTER_FIELDS)[number];
+
+/** Which sheet column (0-based) feeds each field; null when the sheet has none. */
+export type ColumnMapping = { hasHeader: boolean } & Record<RosterField, number | null>;
+
+export type RosterColumn = {
+  index: number;
+  header: string;
+  samples: string[];
+};
+
+export type RosterRowAction = "create" | "match" | "move" | "error";
+
+/**
+ * "add" only creates, enrolls and moves. "sync" treats the sheet as the complete
+ * membership of the group or course and also unenrolls everyone not on it.
+ */
+export type RosterImportMode = "add" | "sync";
+
+/** Where the sheet applies: one group, or a whole course with a group column. */
+export type RosterImportScope = { groupId: string } | { courseId: string };
+
+type GroupRef = { id: string; name: string };
+
+export type RosterPlanRow = {
+  /** 1-based row number in the sheet, header included. */
+  rowNumber: number;
+  /** The username to create, or the matched account's username. */
+  username: string | null;
+  displayName: string;
   email: string | null;
+  studentNumber: string | null;
+  action: RosterRowAction;
+  errors: string[];
+  studentId: string | null;
+  /** The group the row is enrolled into. */
+  group: GroupRef | null;
+  /** For matches: the student is already in the target group, so nothing changes. */
+  alreadyInGroup: boolean;
+  /** For moves: the group the student leaves. */
+  fromGroup: GroupRef | null;
+};
+
+/** A sync removal: an enrollment in scope whose student is not on the sheet. */
+export type RosterRemoval = {
+  enrollmentId: string;
+  studentId: string;
+  username: string;
   displayName: string;
-  usernameBase: string;
+  group: GroupRef;
 };
 
+export type RosterPreview = {
+  fileName: string;
+  originalName: string;
+  mode: RosterImportMode;
+  groupId: string | null;
+  courseId: string | null;
+  columns: RosterColumn[];
+  mapping: ColumnMapping;
+  rows: RosterPlanRow[];
+  /** Always empty in "add" mode. */
+  removals: RosterRemoval[];
+  summary: Record<RosterRowAction | "remove", number>;
+  /** Sent back on confirm; the import is refused if the plan no longer matches. */
+  planHash: string;
+};
+
+export type ImportedStudent = {
+  id: string;
+  email: string;
+  username: string;
+  display_name: string;
+  /** Only for accounts created by this import; existing students keep their password. */
+  activation: IssuedActivation | null;
+  enrolled: boolean;
+  moved: boolean;
+  wasExisting: boolean;
+};
+
+// Headers are compared lower-cased with runs of spaces, dashes and underscores folded.
+const FIELD_ALIASES: Record<RosterField, string[]> = {
+  username: ["username", "user name", "login", "user"],
+  displayName: ["name", "full name", "student name", "display name", "emri"],
+  email: ["email", "e mail", "student email", "mail"],
+  studentNumber: [
+    "student number",
+    "student no",
+    "student id",
+    "student nr",
+    "matriculation number",
+    "number",
+    "id",
+  ],
+  group: ["group", "group name", "section", "class", "grupi"],
+};
+
+const SAMPLE_ROWS = 3;
+
 function splitCsvLine(line: string) {
   if (line.includes("\t") && !line.includes(",")) {
     return line.split("\t").map((part) => part.trim());
@@ -51,6 +151,11 @@ function splitCsvLine(line: string) {
   return parts;
 }
 
+
+function normalizeHeader(value: string) {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+}
+
 function sanitizeUsername(value: string) {
   return value
     .toLowerCase()
@@ -60,80 +165,20 @@ function sanitizeUsername(value: string) {
     .slice(0, 40);
 }
 
-function detectHeaderIndex(headers: string[], candidates: string[]) {
-  return headers.findIndex((header) =>
-    candidates.includes(header.trim().toLowerCase()),
-  );
+function cell(row: string[], index: number | null) {
+  return index === null ? "" : String(row[index] ?? "").trim();
 }
 
-function normalizeRows(rows: string[][]): NormalizedStudent[] {
-  if (rows.length < 2) {
-    throw new ApiError(400, "Roster file must include a header and at least one row.");
-  }
-
-  const header = rows[0].map((value) => value.trim().toLowerCase());
-  const emailIdx = detectHeaderIndex(header, ["email", "student_email", "mail"]);
-  const nameIdx = detectHeaderIndex(header, [
-    "name",
-    "full_name",
-    "full name",
-    "student_name",
-    "student name",
-  ]);
-  const usernameIdx = detectHeaderIndex(header, ["username", "user_name", "login"]);
-
-  if (nameIdx < 0 || usernameIdx < 0) {
-    throw new ApiError(
-      400,
-      "Roster file must contain username and full name columns in the header.",
-    );
-  }
-
-  const seen = new Set<string>();
-  const students: NormalizedStudent[] = [];
-  for (let i = 1; i < rows.length; i += 1) {
-    const row = rows[i];
-    const email = emailIdx >= 0 ? (row[emailIdx] ?? "").trim().toLowerCase() : "";
-    const displayName = (row[nameIdx] ?? "").trim();
-    const usernameRaw = (row[usernameIdx] ?? "").trim();
-    if (!usernameRaw || !displayName) {
-      continue;
-    }
-    if (email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
-      throw new ApiError(400, `Invalid email in roster row ${i + 1}: ${email}`);
-    }
-    const dedupeKey = email || usernameRaw.toLowerCase();
-    if (seen.has(dedupeKey)) {
-      continue;
-    }
-    seen.add(dedupeKey);
-
-    const usernameBase = sanitizeUsername(
-      usernameRaw || email.split("@")[0] || displayName,
-    );
-    students.push({
-      email: email || null,
-      displayName,
-      usernameBase: usernameBase || `student${i}`,
-    });
-  }
-
-  if (!students.length) {
-    throw new ApiError(400, "No valid students found in roster file.");
-  }
-
-  return students;
-}
-
-async function parseRosterFile(filePath: string) {
-  const ext = path.extname(filePath).toLowerCase();
+/** Reads the sheet into rows of trimmed cells; blank rows are dropped. */
+async function readRosterTable(fileName: string, content: Buffer): Promise<string[][]> {
+  const ext = path.extname(fileName).toLowerCase();
   if (ext === ".csv") {
-    const text = fs.readFileSync(filePath, "utf8");
-    const lines = text
+    const text = content.toString("utf8").replace(/^\uFEFF/, "");
+    return text
       .split(/\r?\n/)
       .map((line) => line.trim())
-      .filter(Boolean);
-    return normalizeRows(lines.map(splitCsvLine));
+      .filter(Boolean)
+      .map(splitCsvLine);
   }
 
   if (ext === ".xlsx" || ext === ".xls") {
@@ -141,7 +186,7 @@ async function parseRosterFile(filePath: string) {
       const moduleName = "xlsx";
       const xlsxModule = await import(moduleName);
       const xlsx = (xlsxModule as any).default ?? xlsxModule;
-      const workbook = xlsx.readFile(filePath);
+      const workbook = xlsx.read(content, { type: "buffer" });
       const first = workbook.SheetNames[0];
       if (!first) {
         throw new ApiError(400, "Excel file has no sheets.");
@@ -151,8 +196,8 @@ async function parseRosterFile(filePath: string) {
         header: 1,
         blankrows: false,
         defval: "",
-      }) as string[][];
-      return normalizeRows(rows);
+      }) as unknown[][];
+      return rows.map((row) => row.map((value) => String(value ?? "").trim()));
     } catch (error) {
       if (error instanceof ApiError) {
         throw error;
@@ -167,95 +212,587 @@ async function parseRosterFile(filePath: string) {
   throw new ApiError(400, "Unsupported roster file type. Use CSV, XLSX, or XLS.");
 }
 
-async function uniqueUsername(base: string) {
+/**
+ * Guesses the mapping from header names. A sheet whose first row matches no known
+ * header is read as data: emails are spotted by their @, the first column holding
+ * several words becomes the name and the first other column the username.
+ */
+function suggestMapping(rows: string[][]): ColumnMapping {
+  const header = (rows[0] ?? []).map(normalizeHeader);
+  const mapping: ColumnMapping = {
+    hasHeader: false,
+    username: null,
+    displayName: null,
+    email: null,
+    studentNumber: null,
+    group: null,
+  };
+  for (const field of ROSTER_FIELDS) {
+    const index = header.findIndex((value) => FIELD_ALIASES[field].includes(value));
+    if (index >= 0) {
+      mapping[field] = index;
+      mapping.hasHeader = true;
+    }
+  }
+  if (mapping.hasHeader) {
+    return mapping;
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const sample = rows.slice(0, 20);
+  const columnValues = (index: number) => sample.map((row) => cell(row, index)).filter(Boolean);
+  for (let index = 0; index < width; index += 1) {
+    const values = columnValues(index);
+    if (!values.length) continue;
+    if (mapping.email === null && values.every((value) => value.includes("@"))) {
+      mapping.email = index;
+    } else if (mapping.displayName === null && values.some((value) => /\s/.test(value))) {
+      mapping.displayName = index;
+    }
+  }
+  for (let index = 0; index < width; index += 1) {
+    if (index === mapping.email || index === mapping.displayName) continue;
+    if (columnValues(index).length) {
+      mapping.username = index;
+      break;
+    }
+  }
+  return mapping;
+}
+
+function describeColumns(rows: string[][], hasHeader: boolean): RosterColumn[] {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const body = hasHeader ? rows.slice(1) : rows;
+  return Array.from({ length: width }, (_, index) => ({
+    index,
+    header: (hasHeader ? cell(rows[0], index) : "") || `Column ${index + 1}`,
+    samples: body
+      .map((row) => cell(row, index))
+      .filter(Boolean)
+      .slice(0, SAMPLE_ROWS),
+  }));
+}
+
+function parseMapping(value: unknown, width: number): ColumnMapping | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  let raw = value;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      throw new ApiError(400, "Column mapping must be JSON.", "invalid_column_mapping");
+    }
+  }
+  if (typeof raw !== "object" || raw === null) {
+    throw new ApiError(400, "Column mapping must be an object.", "invalid_column_mapping");
+  }
+  const source = raw as Record<string, unknown>;
+  const mapping: ColumnMapping = {
+    hasHeader: source.hasHeader !== false,
+    username: null,
+    displayName: null,
+    email: null,
+    studentNumber: null,
+    group: null,
+  };
+  for (const field of ROSTER_FIELDS) {
+    const index = source[field];
+    if (index === undefined || index === null) continue;
+    if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= width) {
+      throw new ApiError(
+        400,
+        `Column mapping for ${field} points to a column the sheet does not have.`,
+        "invalid_column_mapping",
+      );
+    }
+    mapping[field] = index as number;
+  }
+  return mapping;
+}
+
+type ImportTarget = {
+  course: typeof courses.$inferSelect;
+  /** Set when the sheet applies to one group; otherwise each row names its group. */
+  group: typeof groups.$inferSelect | null;
+  groups: Array<typeof groups.$inferSelect>;
+};
+
+async function requireImportTarget(
+  professorId: string,
+  scope: RosterImportScope,
+): Promise<ImportTarget> {
+  let row: { course: typeof courses.$inferSelect; group: typeof groups.$inferSelect | null };
+  if ("groupId" in scope) {
+    const [found] = await db
+      .select({ group: groups, course: courses })
+      .from(groups)
+      .innerJoin(courses, eq(groups.course_id, courses.id))
+      .where(eq(groups.id, scope.groupId))
+      .limit(1);
+    if (!found) {
+      throw new ApiError(404, "Group not found");
+    }
+    row = found;
+  } else {
+    const [course] = await db.select().from(courses).where(eq(courses.id, scope.courseId)).limit(1);
+    if (!course) {
+      throw new ApiError(404, "Course not found");
+    }
+    row = { course, group: null };
+  }
+  const { course, group } = row;
+  if (!(await courseStaffService.canAccessCourse(professorId, course, "manage_roster"))) {
+    throw new ApiError(403, "Only the course owner can manage enrollments");
+  }
+  const courseGroups = await db.select().from(groups).where(eq(groups.course_id, course.id));
+  return { course, group, groups: courseGroups };
+}
+
+async function findByStudentNumber(studentNumber: string) {
+  const [row] = await db
+    .select({ user: users })
+    .from(student_profiles)
+    .innerJoin(users, eq(users.id, student_profiles.user_id))
+    .where(eq(student_profiles.student_number, studentNumber))
+    .limit(1);
+  return row?.user;
+}
+
+async function uniqueUsername(base: string, reserved: Set<string>) {
   let attempt = base || "student";
   let suffix = 1;
-  while (await userRepository.findByUsername(attempt)) {
+  while (reserved.has(attempt) || (await userRepository.findByUsername(attempt))) {
     suffix += 1;
     attempt = `${base}${suffix}`;
   }
+  reserved.add(attempt);
   return attempt;
 }
 
-export const rosterImportService = {
-  async provisionFromFile(input: {
-    professorId: string;
-    groupId?: string;
-    filePath: string;
-  }) {
-    const rows = await parseRosterFile(input.filePath);
-    const created: Array<{
-      id: string;
-      email: string;
-      username: string;
-      display_name: string;
-      temporaryPassword: string;
-      enrolled: boolean;
-      wasExisting: boolean;
-    }> = [];
-
-    for (const row of rows) {
-      const existing = row.email
-        ? await userRepository.findByEmail(row.email)
-        : await userRepository.findByUsername(row.usernameBase);
-      let targetId: string;
-      let username = row.usernameBase;
-      let tempPassword = "";
-      let wasExisting = false;
-      let normalizedEmail = row.email;
-
-      if (existing) {
-        if (existing.role !== "student") {
-          throw new ApiError(
-            400,
-            `${row.email ? `Email ${row.email}` : `Username ${row.usernameBase}`} belongs to a non-student account.`,
-          );
-        }
-        targetId = existing.id;
-        username = existing.username;
-        normalizedEmail = existing.email;
-        wasExisting = true;
-      } else {
-        username = await uniqueUsername(row.usernameBase);
-        normalizedEmail = row.email ?? buildFallbackStudentEmail(username);
-        tempPassword = authService.STANDARD_TEMP_PASSWORD;
-        const user = await authService.registerUser({
-          email: normalizedEmail,
-          username,
-          display_name: row.displayName,
-          password: tempPassword,
-          role: "student",
-          created_by_professor_id: input.professorId,
-          must_change_password: true,
-        });
-        targetId = user.id;
-        await accountCredentialService.recordCredential(
-          input.professorId,
-          targetId,
-          tempPassword,
-          "import",
+/**
+ * Validates every row against the mapping and works out what importing it would do,
+ * without writing anything. Rows with errors are reported and later skipped.
+ */
+async function buildPlan(rows: string[][], mapping: ColumnMapping, target: ImportTarget | null) {
+  const plan: RosterPlanRow[] = [];
+  const seen = new Map<string, number>();
+  const reservedUsernames = new Set<string>();
+  const firstRow = mapping.hasHeader ? 1 : 0;
+
+  for (let i = firstRow; i < rows.length; i += 1) {
+    const row = rows[i];
+    const email = cell(row, mapping.email).toLowerCase();
+    const displayName = cell(row, mapping.displayName);
+    const usernameRaw = cell(row, mapping.username);
+    const studentNumber = cell(row, mapping.studentNumber);
+    const groupName = target?.group ? "" : cell(row, mapping.group);
+    if (![email, displayName, usernameRaw, studentNumber].some(Boolean)) {
+      continue;
+    }
+
+    const entry: RosterPlanRow = {
+      rowNumber: i + 1,
+      username: usernameRaw ? sanitizeUsername(usernameRaw) || null : null,
+      displayName,
+      email: email || null,
+      studentNumber: studentNumber || null,
+      action: "error",
+      errors: [],
+      studentId: null,
+      group: null,
+      alreadyInGroup: false,
+      fromGroup: null,
+    };
+    plan.push(entry);
+
+    if (!displayName) {
+      entry.errors.push("Full name is missing.");
+    }
+    if (!usernameRaw && !email && !studentNumber) {
+      entry.errors.push("Needs a username, email or student number.");
+    }
+    if (email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+      entry.errors.push(`Invalid email: ${email}`);
+    }
+    if (target) {
+      const group =
+        target.group ??
+        target.groups.find(
+          (candidate) => candidate.name.trim().toLowerCase() === groupName.toLowerCase(),
         );
+      if (group) {
+        entry.group = { id: group.id, name: group.name };
+      } else {
+        entry.errors.push(groupName ? `Unknown group: ${groupName}` : "Group is missing.");
       }
+    }
+    const keys = [
+      email && `email:${email}`,
+      entry.username && `username:${entry.username}`,
+      studentNumber && `number:${studentNumber}`,
+    ].filter((key): key is string => Boolean(key));
+    const firstSeen = keys.map((key) => seen.get(key)).find(Boolean);
+    if (firstSeen) {
+      entry.errors.push(`Duplicate of row ${firstSeen}.`);
+    } else {
+      keys.forEach((key) => seen.set(key, entry.rowNumber));
+    }
+    if (entry.errors.length) {
+      continue;
+    }
+
+    const existing =
+      (email ? await userRepository.findByEmail(email) : undefined) ??
+      (entry.username ? await userRepository.findByUsername(entry.username) : undefined) ??
+      (studentNumber ? await findByStudentNumber(studentNumber) : undefined);
 
-      let enrolled = false;
-      if (input.groupId) {
-        await enrollmentService.addToGroup(input.professorId, input.groupId, {
-          studentId: targetId,
-        });
-        enrolled = true;
+    if (!existing) {
+      const base = sanitizeUsername(
+        usernameRaw || email.split("@")[0] || studentNumber || displayName,
+      );
+      entry.username = await uniqueUsername(base || `student${i + 1}`, reservedUsernames);
+      entry.action = "create";
+      continue;
+    }
+    if (existing.role !== "student") {
+      entry.errors.push(`${existing.username} belongs to a non-student account.`);
+      continue;
+    }
+
+    entry.studentId = existing.id;
+    entry.username = existing.username;
+    entry.email = existing.email;
+    entry.action = "match";
+    if (target && entry.group) {
+      const [enrollment] = await db
+        .select({ groupId: groups.id, groupName: groups.name })
+        .from(enrollments)
+        .innerJoin(groups, eq(groups.id, enrollments.group_id))
+        .where(
+          and(
+            eq(enrollments.student_id, existing.id),
+            eq(enrollments.course_id, target.course.id),
+          ),
+        )
+        .limit(1);
+      if (enrollment?.groupId === entry.group.id) {
+        entry.alreadyInGroup = true;
+      } else if (enrollment) {
+        entry.action = "move";
+        entry.fromGroup = { id: enrollment.groupId, name: enrollment.groupName };
       }
+    }
+  }
+
+  return plan;
+}
+
+/** Enrollments in scope whose student does not appear on the sheet. */
+async function findRemovals(target: ImportTarget, rows: RosterPlanRow[]) {
+  const listed = new Set(rows.map((row) => row.studentId).filter(Boolean));
+  const enrolled = await db
+    .select({
+      enrollmentId: enrollments.id,
+      studentId: users.id,
+      username: users.username,
+      displayName: users.display_name,
+      groupId: groups.id,
+      groupName: groups.name,
+    })
+    .from(enrollments)
+    .innerJoin(users, eq(users.id, enrollments.student_id))
+    .innerJoin(groups, eq(groups.id, enrollments.group_id))
+    .where(
+      target.group
+        ? eq(enrollments.group_id, target.group.id)
+        : eq(enrollments.course_id, target.course.id),
+    );
+
+  return enrolled
+    .filter((row) => !listed.has(row.studentId))
+    .sort((a, b) => a.username.localeCompare(b.username))
+    .map(
+      (row): RosterRemoval => ({
+        enrollmentId: row.enrollmentId,
+        studentId: row.studentId,
+        username: row.username,
+        displayName: row.displayName,
+        group: { id: row.groupId, name: row.groupName },
+      }),
+    );
+}
+
+function summarize(rows: RosterPlanRow[], removals: RosterRemoval[]) {
+  const summary: RosterPreview["summary"] = {
+    create: 0,
+    match: 0,
+    move: 0,
+    error: 0,
+    remove: removals.length,
+  };
+  rows.forEach((row) => {
+    summary[row.action] += 1;
+  });
+  return summary;
+}
+
+function hashPlan(
+  scope: { mode: RosterImportMode; groupId: string | null; courseId: string | null },
+  rows: RosterPlanRow[],
+  removals: RosterRemoval[],
+) {
+  const essentials = rows.map((row) => [
+    row.rowNumber,
+    row.action,
+    row.studentId,
+    row.username,
+    row.group?.id ?? null,
+    row.fromGroup?.id ?? null,
+  ]);
+  return createHash("sha256")
+    .update(JSON.stringify([scope, essentials, removals.map((removal) => removal.enrollmentId)]))
+    .digest("hex");
+}
+
+type PreviewInput = {
+  professorId: string;
+  fileName: string;
+  originalName: string;
+  content: Buffer;
+  groupId?: string;
+  courseId?: string;
+  mode?: RosterImportMode;
+  mapping?: unknown;
+};
+
+async function preparePreview(input: PreviewInput): Promise<RosterPreview> {
+  const mode = input.mode ?? "add";
+  if (mode !== "add" && mode !== "sync") {
+    throw new ApiError(400, "Import mode must be add or sync.", "invalid_import_mode");
+  }
+  const scope: RosterImportScope | null = input.groupId
+    ? { groupId: input.groupId }
+    : input.courseId
+      ? { courseId: input.courseId }
+      : null;
+  if (mode === "sync" && !scope) {
+    throw new ApiError(400, "Sync needs a group or course to sync.", "invalid_import_mode");
+  }
+  const target = scope ? await requireImportTarget(input.professorId, scope) : null;
+
+  const table = await readRosterTable(input.originalName, input.content);
+  if (!table.length) {
+    throw new ApiError(400, "Roster file is empty.");
+  }
+  const width = Math.max(0, ...table.map((row) => row.length));
+  const mapping = parseMapping(input.mapping, width) ?? suggestMapping(table);
+  if (target && !target.group && mapping.group === null) {
+    throw new ApiError(
+      400,
+      "Map the group column to import into a whole course.",
+      "invalid_column_mapping",
+    );
+  }
+  const rows = await buildPlan(table, mapping, target);
+  const removals = mode === "sync" && target ? await findRemovals(target, rows) : [];
+  const groupId = target?.group?.id ?? null;
+  const courseId = target?.course.id ?? null;
 
-      created.push({
-        id: targetId,
-        email: normalizedEmail ?? buildFallbackStudentEmail(username),
-        username,
+  return {
+    fileName: input.fileName,
+    originalName: input.originalName,
+    mode,
+    groupId,
+    courseId,
+    columns: describeColumns(table, mapping.hasHeader),
+    mapping,
+    rows,
+    removals,
+    summary: summarize(rows, removals),
+    planHash: hashPlan({ mode, groupId, courseId }, rows, removals),
+  };
+}
+
+async function applyPlan(professorId: string, rows: RosterPlanRow[]) {
+  const created: ImportedStudent[] = [];
+
+  for (const row of rows) {
+    if (row.action === "error") continue;
+
+    let studentId = row.studentId;
+    let activation: IssuedActivation | null = null;
+    const email = row.email ?? buildFallbackStudentEmail(row.username!);
+    if (row.action === "create") {
+      const user = await authService.registerUser({
+        email,
+        username: row.username!,
         display_name: row.displayName,
-        temporaryPassword: tempPassword,
-        enrolled,
-        wasExisting,
+        password: activationService.placeholderPassword(),
+        role: "student",
+        created_by_professor_id: professorId,
+        must_change_password: false,
+      });
+      studentId = user.id;
+      activation = await activationService.issueToken(professorId, user.id, "import");
+    }
+
+    if (row.studentNumber) {
+      // Fill a missing student number; never overwrite one already on file.
+      const [profile] = await db
+        .select({ studentNumber: student_profiles.student_number })
+        .from(student_profiles)
+        .where(eq(student_profiles.user_id, studentId!))
+        .limit(1);
+      if (!profile?.studentNumber) {
+        await db
+          .update(student_profiles)
+          .set({ student_number: row.studentNumber })
+          .where(eq(student_profiles.user_id, studentId!));
+      }
+    }
+
+    let enrolled = false;
+    let moved = false;
+    if (row.group) {
+      const result = await enrollmentService.addToGroup(professorId, row.group.id, {
+        studentId: studentId!,
       });
+      enrolled = true;
+      moved = result.moved;
     }
 
-    return { created };
+    created.push({
+      id: studentId!,
+      email,
+      username: row.username!,
+      display_name: row.displayName,
+      activation,
+      enrolled,
+      moved,
+      wasExisting: row.action !== "create",
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Unenrolls the students a sync left out. Only the enrollment rows go: accounts,
+ * attendance, excuses and audit history stay, and the removed rows are kept in the
+ * audit entry so a mistaken sync can be traced and re-enrolled.
+ */
+async function applyRemovals(preview: RosterPreview) {
+  const enrollmentIds = preview.removals.map((removal) => removal.enrollmentId);
+  const removed = enrollmentIds.length
+    ? await db.select().from(enrollments).where(inArray(enrollments.id, enrollmentIds))
+    : [];
+  if (enrollmentIds.length) {
+    await db.delete(enrollments).where(inArray(enrollments.id, enrollmentIds));
+  }
+  return removed;
+}
+
+export const rosterImportService = {
+  /**
+   * First step of an import: reports the detected columns, the mapping used, per-row
+   * errors, what each row would do and, in sync mode, who would be unenrolled.
+   * `mapping` overrides the guessed one (JSON or object, see ColumnMapping). With a
+   * `courseId` instead of a `groupId` each row is placed by its group column.
+   */
+  async previewFile(input: PreviewInput) {
+    return preparePreview(input);
+  },
+
+  /** Re-runs the preview of a stored roster file, e.g. with a different mapping. */
+  async previewStoredFile(input: Omit<PreviewInput, "originalName" | "content">) {
+    const { originalName, content } = await rosterFileService.readFile(
+      input.professorId,
+      input.fileName,
+    );
+    return preparePreview({ ...input, originalName, content });
+  },
+
+  /**
+   * Second step: rebuilds the plan for the stored file and applies it when it still
+   * matches the preview the professor confirmed. Rows with errors are skipped in
+   * "add" mode; a sync refuses to run with any, since the sheet must be complete.
+   */
+  async confirmImport(
+    input: Omit<PreviewInput, "originalName" | "content"> & { planHash: string },
+  ) {
+    if (!input.mapping) {
+      throw new ApiError(400, "Column mapping is required.", "invalid_column_mapping");
+    }
+    const preview = await this.previewStoredFile(input);
+    if (preview.planHash !== input.planHash) {
+      throw new ApiError(
+        409,
+        "The roster or the accounts changed since the preview. Review the new preview and confirm again.",
+        "roster_plan_changed",
+      );
+    }
+    if (!preview.rows.some((row) => row.action !== "error")) {
+      throw new ApiError(400, "No valid students found in roster file.");
+    }
+    if (preview.mode === "sync" && preview.summary.error) {
+      throw new ApiError(
+        400,
+        "Fix the rows with errors before syncing; otherwise their students would be unenrolled.",
+        "roster_has_errors",
+      );
+    }
+
+    const created = await applyPlan(input.professorId, preview.rows);
+    const removed = await applyRemovals(preview);
+
+    if (preview.mode === "sync") {
+      await auditService.log({
+        actorId: input.professorId,
+        action: "roster_sync",
+        entityType: preview.groupId ? "group" : "course",
+        entityId: preview.groupId ?? preview.courseId!,
+        after: {
+          courseId: preview.courseId,
+          fileName: preview.fileName,
+          created: preview.summary.create,
+          moved: created.filter((row) => row.moved).map((row) => row.id),
+          removed: removed.map((enrollment) => ({
+            enrollmentId: enrollment.id,
+            studentId: enrollment.student_id,
+            groupId: enrollment.group_id,
+            enrolledAt: enrollment.enrolled_at,
+          })),
+        },
+      });
+    }
+
+    return {
+      created,
+      removed: preview.removals,
+      skipped: preview.summary.error,
+    };
+  },
+
+  /** Preview and apply in one go with the guessed mapping, adding students only. */
+  async provisionFromFile(input: {
+    professorId: string;
+    groupId?: string;
+    fileName: string;
+    content: Buffer;
+  }) {
+    const preview = await preparePreview({
+      professorId: input.professorId,
+      fileName: input.fileName,
+      originalName: input.fileName,
+      content: input.content,
+      groupId: input.groupId,
+    });
+    if (!preview.rows.some((row) => row.action !== "error")) {
+      throw new ApiError(400, "No valid students found in roster file.");
+    }
+    const created = await applyPlan(input.professorId, preview.rows);
+    return { created, skipped: preview.summary.error };
   },
 };
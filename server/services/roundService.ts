@@ -1,11 +1,17 @@
-import { and, eq, sql } from "drizzle-orm";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
 import { db } from "../db";
-import { attendance_rounds } from "@shared/schema";
-import { buildQrPayload, qrService } from "./qrService";
+import {
+  attendance_records,
+  attendance_rounds,
+  enrollments,
+  sessions,
+} from "@shared/schema";
+import { buildQrPayload, generateRoundSecret, qrService } from "./qrService";
 import {
   emitRoundStarted,
   emitRoundQrUpdated,
   emitSessionRefresh,
+  emitToGroupStudents,
 } from "../websocket/manager";
 
 export const roundService = {
@@ -31,7 +37,7 @@ export const roundService = {
 
     const nextRoundNumber = (currentMax ?? 0) + 1;
 
-    await db
+    const closedRounds = await db
       .update(attendance_rounds)
       .set({
         is_active: false,
@@ -42,9 +48,12 @@ export const roundService = {
           eq(attendance_rounds.session_id, sessionId),
           eq(attendance_rounds.is_active, true),
         ),
-      );
+      )
+      .returning({ id: attendance_rounds.id });
+    await this.recordAbsences(closedRounds.map((row) => row.id));
 
-    const [round] = await db
+    // The offline QR secret stays out of the returned row so it never lands in audit logs.
+    const [{ qr_secret: _qrSecret, ...round }] = await db
       .insert(attendance_rounds)
       .values({
         session_id: sessionId,
@@ -56,6 +65,7 @@ export const roundService = {
         latitude: options?.latitude ?? null,
         longitude: options?.longitude ?? null,
         is_break_round: options?.isBreakRound ?? false,
+        qr_secret: generateRoundSecret(),
       })
       .returning();
 
@@ -67,12 +77,21 @@ export const roundService = {
       expiresAt: token.expiresAt.toISOString(),
     });
 
-    emitRoundStarted(sessionId, {
+    const roundStarted = {
       sessionId,
       roundId: round.id,
       roundNumber: round.round_number,
       startsAt: new Date(round.starts_at).toISOString(),
-    });
+    };
+    emitRoundStarted(sessionId, roundStarted);
+    const [session] = await db
+      .select({ groupId: sessions.group_id })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+    if (session) {
+      emitToGroupStudents(session.groupId, "round:started", roundStarted);
+    }
     emitSessionRefresh(sessionId, {
       sessionId,
       reason: "round_started",
@@ -90,6 +109,66 @@ export const roundService = {
     return { round, token, qrPayload };
   },
 
+  /**
+   * Writes an "absent" record for every student enrolled in the round's group who has
+   * no record for it yet. Call after rounds close; existing records are never touched.
+   */
+  async recordAbsences(roundIds: string[]) {
+    if (!roundIds.length) {
+      return 0;
+    }
+
+    const missing = await db
+      .select({
+        roundId: attendance_rounds.id,
+        endsAt: attendance_rounds.ends_at,
+        studentId: enrollments.student_id,
+      })
+      .from(attendance_rounds)
+      .innerJoin(sessions, eq(attendance_rounds.session_id, sessions.id))
+      .innerJoin(
+        enrollments,
+        and(
+          eq(enrollments.group_id, sessions.group_id),
+          eq(enrollments.course_id, sessions.course_id),
+        ),
+      )
+      .leftJoin(
+        attendance_records,
+        and(
+          eq(attendance_records.round_id, attendance_rounds.id),
+          eq(attendance_records.student_id, enrollments.student_id),
+        ),
+      )
+      .where(
+        and(
+          inArray(attendance_rounds.id, roundIds),
+          eq(attendance_rounds.is_active, false),
+          isNull(attendance_records.id),
+        ),
+      );
+
+    if (!missing.length) {
+      return 0;
+    }
+
+    const inserted = await db
+      .insert(attendance_records)
+      .values(
+        missing.map((row) => ({
+          round_id: row.roundId,
+          student_id: row.studentId,
+          status: "absent",
+          recorded_at: row.endsAt ?? new Date().toISOString(),
+          qr_token_id: null,
+        })),
+      )
+      .onConflictDoNothing()
+      .returning({ id: attendance_records.id });
+
+    return inserted.length;
+  },
+
   /** Retrieves a round by id, returning null if not found. */
   async getActiveRound(roundId: string) {
     const [round] = await db
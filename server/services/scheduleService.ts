@@ -0,0 +1,437 @@
+import { and, eq, gte, inArray, lt } from "drizzle-orm";
+import { db } from "../db";
+import {
+  courses,
+  group_schedule_exceptions,
+  group_schedule_slots,
+  groups,
+  sessions,
+} from "@shared/schema";
+import { ApiError } from "../errors/apiError";
+import { logger } from "../utils/logger";
+import { auditService } from "./auditService";
+import { courseStaffService } from "./courseStaffService";
+
+// How far ahead the scheduler materialises sessions from each timetable slot.
+export const SCHEDULE_HORIZON_DAYS = 14;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type ScheduleSlotInput = {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  room?: string | null;
+  startsOn: string;
+  endsOn: string;
+};
+
+function isValidDateKey(value: string) {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+  );
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Institution time zone the timetables are written in (`SCHEDULE_TIME_ZONE`, an IANA
+ * name such as "Europe/Tirane"). Defaults to the server's zone, which is UTC on most
+ * hosted deployments, so set it there.
+ */
+function scheduleTimeZone() {
+  const zone =
+    process.env.SCHEDULE_TIME_ZONE?.trim() || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!zoneFormatters.has(zone)) {
+    try {
+      zoneFormatters.set(
+        zone,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone: zone,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+        }),
+      );
+    } catch {
+      throw new Error(`SCHEDULE_TIME_ZONE "${zone}" is not a valid IANA time zone.`);
+    }
+  }
+  return zone;
+}
+
+/** Wall-clock fields of `date` in `zone`. */
+function zonedParts(date: Date, zone: string) {
+  const parts: Record<string, number> = {};
+  zoneFormatters
+    .get(zone)!
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== "literal") {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  return parts;
+}
+
+/** How far `zone` is ahead of UTC at `date`, in milliseconds. */
+function zoneOffsetMs(date: Date, zone: string) {
+  const parts = zonedParts(date, zone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** Calendar date of `date` in the schedule time zone, as YYYY-MM-DD. */
+function toDateKey(date: Date) {
+  const parts = zonedParts(date, scheduleTimeZone());
+  const month = String(parts.month).padStart(2, "0");
+  const day = String(parts.day).padStart(2, "0");
+  return `${parts.year}-${month}-${day}`;
+}
+
+/** The date key `days` calendar days after `dateKey`. */
+function addDays(dateKey: string, days: number) {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/** Weekday of a date key, 0 (Sunday) to 6 (Saturday). */
+function weekdayOf(dateKey: string) {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** The instant a timetable date and HH:MM time denote in the schedule time zone. */
+function atScheduleTime(dateKey: string, time: string) {
+  const zone = scheduleTimeZone();
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClockMs = Date.UTC(year, month - 1, day, hours, minutes);
+  // The offset at the guess can differ from the one at the result across a DST change.
+  let instantMs = wallClockMs - zoneOffsetMs(new Date(wallClockMs), zone);
+  instantMs = wallClockMs - zoneOffsetMs(new Date(instantMs), zone);
+  return new Date(instantMs);
+}
+
+function validateSlot(input: ScheduleSlotInput) {
+  if (!Number.isInteger(input.weekday) || input.weekday < 0 || input.weekday > 6) {
+    throw new ApiError(400, "weekday must be an integer from 0 (Sunday) to 6 (Saturday).");
+  }
+  if (!TIME_PATTERN.test(input.startTime) || !TIME_PATTERN.test(input.endTime)) {
+    throw new ApiError(400, "startTime and endTime must use HH:MM format.");
+  }
+  if (input.endTime <= input.startTime) {
+    throw new ApiError(400, "endTime must be after startTime.");
+  }
+  if (!isValidDateKey(input.startsOn) || !isValidDateKey(input.endsOn)) {
+    throw new ApiError(400, "startsOn and endsOn must be valid YYYY-MM-DD dates.");
+  }
+  if (input.endsOn < input.startsOn) {
+    throw new ApiError(400, "endsOn must not be before startsOn.");
+  }
+}
+
+async function requireOwnedGroup(professorId: string, groupId: string) {
+  const [row] = await db
+    .select({ group: groups, course: courses })
+    .from(groups)
+    .innerJoin(courses, eq(groups.course_id, courses.id))
+    .where(eq(groups.id, groupId))
+    .limit(1);
+
+  if (!row) {
+    throw new ApiError(404, "Group not found");
+  }
+  if (!(await courseStaffService.canAccessCourse(professorId, row.course, "run_sessions"))) {
+    throw new ApiError(403, "You do not own this group");
+  }
+  return row;
+}
+
+/**
+ * Removes sessions generated from the timetable that have not opened yet.
+ * They carry no rounds or records, so regenerating them later is safe.
+ */
+async function deletePendingSessions(
+  filter: { slotId?: string; groupId?: string; date?: string },
+) {
+  const conditions = [eq(sessions.status, "scheduled")];
+  if (filter.slotId) {
+    conditions.push(eq(sessions.schedule_slot_id, filter.slotId));
+  }
+  if (filter.groupId) {
+    conditions.push(eq(sessions.group_id, filter.groupId));
+  }
+  if (filter.date) {
+    const dayStart = atScheduleTime(filter.date, "00:00");
+    const dayEnd = atScheduleTime(addDays(filter.date, 1), "00:00");
+    conditions.push(gte(sessions.starts_at, dayStart.toISOString()));
+    conditions.push(lt(sessions.starts_at, dayEnd.toISOString()));
+  }
+  await db.delete(sessions).where(and(...conditions));
+}
+
+export const scheduleService = {
+  /**
+   * Returns the active timetable slots and holiday exceptions for a professor-owned group.
+   */
+  async getGroupSchedule(professorId: string, groupId: string) {
+    await requireOwnedGroup(professorId, groupId);
+
+    const [slots, exceptions] = await Promise.all([
+      db
+        .select()
+        .from(group_schedule_slots)
+        .where(
+          and(
+            eq(group_schedule_slots.group_id, groupId),
+            eq(group_schedule_slots.is_active, true),
+          ),
+        )
+        .orderBy(group_schedule_slots.weekday, group_schedule_slots.start_time),
+      db
+        .select()
+        .from(group_schedule_exceptions)
+        .where(eq(group_schedule_exceptions.group_id, groupId))
+        .orderBy(group_schedule_exceptions.date),
+    ]);
+
+    return { slots, exceptions };
+  },
+
+  /**
+   * Adds a weekly timetable slot to a group and materialises its upcoming sessions.
+   */
+  async addSlot(professorId: string, groupId: string, input: ScheduleSlotInput) {
+    await requireOwnedGroup(professorId, groupId);
+    validateSlot(input);
+
+    const [slot] = await db
+      .insert(group_schedule_slots)
+      .values({
+        group_id: groupId,
+        weekday: input.weekday,
+        start_time: input.startTime,
+        end_time: input.endTime,
+        room: input.room?.trim() || null,
+        starts_on: input.startsOn,
+        ends_on: input.endsOn,
+      })
+      .returning();
+
+    await auditService.log({
+      actorId: professorId,
+      action: "schedule_slot_create",
+      entityType: "group",
+      entityId: groupId,
+      after: slot,
+    });
+
+    await this.generateUpcomingSessions(new Date(), { slotIds: [slot.id] });
+    return slot;
+  },
+
+  /**
+   * Retires a timetable slot and drops its sessions that have not opened yet.
+   */
+  async removeSlot(professorId: string, slotId: string) {
+    const [slot] = await db
+      .select()
+      .from(group_schedule_slots)
+      .where(eq(group_schedule_slots.id, slotId))
+      .limit(1);
+
+    if (!slot || !slot.is_active) {
+      throw new ApiError(404, "Schedule slot not found");
+    }
+    await requireOwnedGroup(professorId, slot.group_id);
+
+    await db
+      .update(group_schedule_slots)
+      .set({ is_active: false })
+      .where(eq(group_schedule_slots.id, slotId));
+    await deletePendingSessions({ slotId });
+
+    await auditService.log({
+      actorId: professorId,
+      action: "schedule_slot_remove",
+      entityType: "group",
+      entityId: slot.group_id,
+      before: slot,
+    });
+
+    return { removed: true };
+  },
+
+  /**
+   * Marks a date as a holiday for the group so no session is scheduled on it.
+   */
+  async addException(
+    professorId: string,
+    groupId: string,
+    input: { date: string; reason?: string | null },
+  ) {
+    await requireOwnedGroup(professorId, groupId);
+    if (!isValidDateKey(input.date)) {
+      throw new ApiError(400, "date must be a valid YYYY-MM-DD date.");
+    }
+
+    const [existing] = await db
+      .select()
+      .from(group_schedule_exceptions)
+      .where(
+        and(
+          eq(group_schedule_exceptions.group_id, groupId),
+          eq(group_schedule_exceptions.date, input.date),
+        ),
+      )
+      .limit(1);
+    if (existing) {
+      throw new ApiError(409, "This date is already excluded for the group.");
+    }
+
+    const [exception] = await db
+      .insert(group_schedule_exceptions)
+      .values({
+        group_id: groupId,
+        date: input.date,
+        reason: input.reason?.trim() || null,
+      })
+      .returning();
+    await deletePendingSessions({ groupId, date: input.date });
+
+    await auditService.log({
+      actorId: professorId,
+      action: "schedule_exception_create",
+      entityType: "group",
+      entityId: groupId,
+      after: exception,
+    });
+
+    return exception;
+  },
+
+  /**
+   * Removes a holiday exception; the scheduler recreates sessions for that date on its next run.
+   */
+  async removeException(professorId: string, exceptionId: string) {
+    const [exception] = await db
+      .select()
+      .from(group_schedule_exceptions)
+      .where(eq(group_schedule_exceptions.id, exceptionId))
+      .limit(1);
+
+    if (!exception) {
+      throw new ApiError(404, "Schedule exception not found");
+    }
+    await requireOwnedGroup(professorId, exception.group_id);
+
+    await db
+      .delete(group_schedule_exceptions)
+      .where(eq(group_schedule_exceptions.id, exceptionId));
+
+    await auditService.log({
+      actorId: professorId,
+      action: "schedule_exception_remove",
+      entityType: "group",
+      entityId: exception.group_id,
+      before: exception,
+    });
+
+    return { removed: true };
+  },
+
+  /**
+   * Creates "scheduled" sessions for every active slot occurrence within the horizon.
+   * Idempotent: existing (slot, start) pairs, including cancelled ones, are left untouched.
+   */
+  async generateUpcomingSessions(
+    now: Date = new Date(),
+    options?: { slotIds?: string[]; horizonDays?: number },
+  ) {
+    const horizonDays = options?.horizonDays ?? SCHEDULE_HORIZON_DAYS;
+    const slotRows = await db
+      .select({ slot: group_schedule_slots, course: courses })
+      .from(group_schedule_slots)
+      .innerJoin(groups, eq(group_schedule_slots.group_id, groups.id))
+      .innerJoin(courses, eq(groups.course_id, courses.id))
+      .where(
+        options?.slotIds?.length
+          ? and(
+              eq(group_schedule_slots.is_active, true),
+              inArray(group_schedule_slots.id, options.slotIds),
+            )
+          : eq(group_schedule_slots.is_active, true),
+      );
+
+    if (!slotRows.length) {
+      return 0;
+    }
+
+    const groupIds = Array.from(new Set<string>(slotRows.map((row) => row.slot.group_id)));
+    const exceptionRows = await db
+      .select({
+        groupId: group_schedule_exceptions.group_id,
+        date: group_schedule_exceptions.date,
+      })
+      .from(group_schedule_exceptions)
+      .where(inArray(group_schedule_exceptions.group_id, groupIds));
+    const excluded = new Set(exceptionRows.map((row) => `${row.groupId}::${row.date}`));
+
+    const today = toDateKey(now);
+    let created = 0;
+    for (let offset = 0; offset <= horizonDays; offset += 1) {
+      const dateKey = addDays(today, offset);
+      const weekday = weekdayOf(dateKey);
+
+      for (const { slot, course } of slotRows) {
+        if (slot.weekday !== weekday) continue;
+        if (dateKey < slot.starts_on || dateKey > slot.ends_on) continue;
+        if (excluded.has(`${slot.group_id}::${dateKey}`)) continue;
+
+        const startsAt = atScheduleTime(dateKey, slot.start_time);
+        const endsAt = atScheduleTime(dateKey, slot.end_time);
+        if (endsAt <= now) continue;
+
+        const inserted = await db
+          .insert(sessions)
+          .values({
+            group_id: slot.group_id,
+            course_id: course.id,
+            professor_id: course.professor_id,
+            starts_at: startsAt.toISOString(),
+            scheduled_end_at: endsAt.toISOString(),
+            schedule_slot_id: slot.id,
+            room: slot.room,
+            is_active: false,
+            status: "scheduled",
+          })
+          .onConflictDoNothing()
+          .returning({ id: sessions.id });
+        created += inserted.length;
+      }
+    }
+
+    if (created > 0) {
+      logger.info("scheduled sessions generated", { created });
+    }
+    return created;
+  },
+};
@@ -0,0 +1,94 @@
+import { and, eq, isNotNull, lte } from "drizzle-orm";
+import { sessions } from "@shared/schema";
+import { db } from "../db";
+import { logger } from "../utils/logger";
+import { isRealtimeLeader } from "../websocket/broker";
+import { auditService } from "./auditService";
+import { scheduleService } from "./scheduleService";
+import { sessionService } from "./sessionService";
+
+const SESSION_SCHEDULER_INTERVAL_MS = Math.max(
+  15_000,
+  Number(process.env.SESSION_SCHEDULER_INTERVAL_SECONDS ?? 60) * 1000,
+);
+
+async function openDueSessions(nowIso: string) {
+  const dueSessions = await db
+    .select({
+      id: sessions.id,
+      scheduledEndAt: sessions.scheduled_end_at,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.status, "scheduled"), lte(sessions.starts_at, nowIso)));
+
+  for (const due of dueSessions) {
+    try {
+      if (due.scheduledEndAt && new Date(due.scheduledEndAt).toISOString() <= nowIso) {
+        // The whole slot passed without the scheduler running (e.g. server downtime).
+        await db
+          .update(sessions)
+          .set({ status: "missed" })
+          .where(and(eq(sessions.id, due.id), eq(sessions.status, "scheduled")));
+        await auditService.log({
+          actorId: null,
+          action: "session_missed",
+          entityType: "session",
+          entityId: due.id,
+          after: { status: "missed" },
+          reason: "Scheduled slot ended before the session could open",
+        });
+        continue;
+      }
+      await sessionService.openScheduledSession(due.id);
+    } catch (error) {
+      logger.error("Failed to open scheduled session", { sessionId: due.id, error });
+    }
+  }
+}
+
+async function endOverrunSessions(nowIso: string) {
+  const overrun = await db
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.is_active, true),
+        isNotNull(sessions.scheduled_end_at),
+        lte(sessions.scheduled_end_at, nowIso),
+      ),
+    );
+
+  for (const session of overrun) {
+    try {
+      await sessionService.endOverrunSession(session.id);
+    } catch (error) {
+      logger.error("Failed to end overrunning session", { sessionId: session.id, error });
+    }
+  }
+}
+
+/**
+ * One scheduler pass: materialise upcoming sessions, open the ones whose slot started
+ * and end the ones left running past their slot.
+ */
+export async function runSessionSchedulerTick(now: Date = new Date()) {
+  const nowIso = now.toISOString();
+  await scheduleService.generateUpcomingSessions(now);
+  await openDueSessions(nowIso);
+  await endOverrunSessions(nowIso);
+}
+
+async function runIfLeader() {
+  if (!(await isRealtimeLeader("session-scheduler"))) {
+    return;
+  }
+  await runSessionSchedulerTick();
+}
+
+export function startSessionScheduler() {
+  setInterval(() => {
+    runIfLeader().catch((error) => {
+      logger.error("Failed to run session scheduler", { error });
+    });
+  }, SESSION_SCHEDULER_INTERVAL_MS);
+}
@@ -1,4 +1,4 @@
-import { and, desc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, lt, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
 import { db } from "../db";
 import {
   attendance_records,
@@ -8,6 +8,8 @@ import {
   groups,
   sessions,
   users,
+  UNHELD_SESSION_STATUSES,
+  type Session,
 } from "@shared/schema";
 import { ApiError } from "../errors/apiError";
 import {
@@ -15,10 +17,97 @@ import {
   emitRoundQrUpdated,
   emitSessionEnded,
   emitSessionRefresh,
+  emitToGroupStudents,
 } from "../websocket/manager";
 import { roundService } from "./roundService";
 import { buildQrPayload, qrService } from "./qrService";
 import { auditService } from "./auditService";
+import { absenceService } from "./absenceService";
+import { courseStaffService, type CoursePermission } from "./courseStaffService";
+
+/**
+ * Sessions the user runs plus those of courses they staff with `permission`.
+ */
+async function accessibleSessionsFilter(
+  userId: string,
+  permission: CoursePermission,
+): Promise<SQL | undefined> {
+  const staffCourseIds = await courseStaffService.listStaffCourseIds(userId, permission);
+  return staffCourseIds.length
+    ? or(eq(sessions.professor_id, userId), inArray(sessions.course_id, staffCourseIds))
+    : eq(sessions.professor_id, userId);
+}
+
+/**
+ * Marks the session ended, closes in-flight rounds (recording absentees), audits and
+ * broadcasts the summary.
+ */
+async function finishSession(session: Session, actorId: string | null, reason?: string) {
+  await db
+    .update(sessions)
+    .set({
+      is_active: false,
+      ends_at: new Date().toISOString(),
+      status: "ended",
+    })
+    .where(eq(sessions.id, session.id));
+
+  const closedRounds = await db
+    .update(attendance_rounds)
+    .set({
+      is_active: false,
+      ends_at: new Date().toISOString(),
+    })
+    .where(
+      and(
+        eq(attendance_rounds.session_id, session.id),
+        eq(attendance_rounds.is_active, true),
+      ),
+    )
+    .returning({ id: attendance_rounds.id });
+  await roundService.recordAbsences(closedRounds.map((row) => row.id));
+
+  const [{ totalRounds }] = await db
+    .select({
+      totalRounds: sql<number>`COUNT(${attendance_rounds.id})`,
+    })
+    .from(attendance_rounds)
+    .where(eq(attendance_rounds.session_id, session.id));
+
+  const [{ attendanceCount }] = await db
+    .select({
+      attendanceCount: sql<number>`COUNT(${attendance_records.id})`,
+    })
+    .from(attendance_records)
+    .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
+    .where(
+      and(
+        eq(attendance_rounds.session_id, session.id),
+        ne(attendance_records.status, "absent"),
+      ),
+    );
+
+  await auditService.log({
+    actorId,
+    action: "session_end",
+    entityType: "session",
+    entityId: session.id,
+    before: session,
+    after: { status: "ended", is_active: false },
+    reason: reason ?? null,
+  });
+
+  const ended = {
+    sessionId: session.id,
+    endedAt: new Date().toISOString(),
+    summary: {
+      totalRounds: Number(totalRounds ?? 0),
+      attendanceCount: Number(attendanceCount ?? 0),
+    },
+  };
+  emitSessionEnded(session.id, ended);
+  emitToGroupStudents(session.group_id, "session:ended", ended);
+}
 
 export const sessionService = {
   /**
@@ -51,16 +140,21 @@ export const sessionService = {
 
     const course = row.course;
 
-    if (!course || course.professor_id !== professorId) {
+    if (
+      !course ||
+      !(await courseStaffService.canAccessCourse(professorId, course, "run_sessions"))
+    ) {
       throw new ApiError(403, "You must own the course to start sessions");
     }
 
+    // Sessions started by a TA still belong to the course owner; the audit log keeps
+    // who actually started it.
     const [session] = await db
       .insert(sessions)
       .values({
         group_id: groupId,
         course_id: course.id,
-        professor_id: professorId,
+        professor_id: course.professor_id,
         starts_at: new Date().toISOString(),
         is_active: true,
         status: "active",
@@ -121,7 +215,7 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (session.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -144,7 +238,8 @@ export const sessionService = {
   },
 
   /**
-   * Gracefully closes the active round for a session, preventing new scans.
+   * Gracefully closes the active round for a session, preventing new scans and
+   * marking enrolled students without a record as absent.
    */
   async closeRound(professorId: string, sessionId: string, roundId: string) {
     const [session] = await db
@@ -157,7 +252,7 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (session.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -181,18 +276,21 @@ export const sessionService = {
     }
 
     const endedAt = new Date().toISOString();
-    const [updated] = await db
+    // Like createRound, keep the offline QR secret out of the audit log and the response.
+    const { qr_secret: _qrSecret, ...before } = round;
+    const [{ qr_secret: _updatedSecret, ...updated }] = await db
       .update(attendance_rounds)
       .set({ is_active: false, ends_at: endedAt })
       .where(eq(attendance_rounds.id, roundId))
       .returning();
+    await roundService.recordAbsences([roundId]);
 
     await auditService.log({
       actorId: professorId,
       action: "round_close",
       entityType: "round",
       entityId: roundId,
-      before: round,
+      before,
       after: updated,
     });
 
@@ -201,6 +299,11 @@ export const sessionService = {
       roundId,
       endedAt,
     });
+    emitToGroupStudents(session.group_id, "round:closed", {
+      sessionId,
+      roundId,
+      endedAt,
+    });
     emitSessionRefresh(sessionId, {
       sessionId,
       reason: "round_closed",
@@ -224,7 +327,7 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (session.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -232,62 +335,183 @@ export const sessionService = {
       throw new ApiError(400, "Session already ended");
     }
 
-    await db
+    await finishSession(session, professorId);
+
+    return session;
+  },
+
+  /**
+   * Opens a scheduled session at its slot start and starts round 1 without a professor action.
+   * Returns null when the session is no longer waiting to open.
+   */
+  async openScheduledSession(sessionId: string) {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+
+    if (!session || session.status !== "scheduled") {
+      return null;
+    }
+
+    const [running] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(eq(sessions.group_id, session.group_id), eq(sessions.is_active, true)))
+      .limit(1);
+
+    if (running) {
+      await db
+        .update(sessions)
+        .set({ status: "cancelled" })
+        .where(and(eq(sessions.id, session.id), eq(sessions.status, "scheduled")));
+      await auditService.log({
+        actorId: null,
+        action: "session_cancel",
+        entityType: "session",
+        entityId: session.id,
+        before: session,
+        after: { status: "cancelled" },
+        reason: "Group already had an active session",
+      });
+      return null;
+    }
+
+    const [opened] = await db
       .update(sessions)
-      .set({
-        is_active: false,
-        ends_at: new Date().toISOString(),
-        status: "ended",
-      })
-      .where(eq(sessions.id, sessionId));
+      .set({ is_active: true, status: "active" })
+      .where(and(eq(sessions.id, session.id), eq(sessions.status, "scheduled")))
+      .returning();
 
-    await db
-      .update(attendance_rounds)
-      .set({
-        is_active: false,
-        ends_at: new Date().toISOString(),
+    if (!opened) {
+      return null;
+    }
+
+    const { round } = await roundService.createRound(opened.id);
+
+    await auditService.log({
+      actorId: null,
+      action: "session_start",
+      entityType: "session",
+      entityId: opened.id,
+      after: opened,
+      reason: "Opened from schedule",
+    });
+    await auditService.log({
+      actorId: null,
+      action: "round_open",
+      entityType: "round",
+      entityId: round.id,
+      after: round,
+      reason: "Opened from schedule",
+    });
+
+    return { session: opened, round };
+  },
+
+  /**
+   * Ends a session that is still running after its scheduled slot finished.
+   */
+  async endOverrunSession(sessionId: string) {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+
+    if (!session || !session.is_active) {
+      return null;
+    }
+
+    await finishSession(session, null, "Scheduled slot ended");
+    return session;
+  },
+
+  /**
+   * Lists scheduled sessions that have not opened yet across the professor's courses.
+   */
+  async listUpcomingSessions(professorId: string, days = 14) {
+    const now = new Date();
+    const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+    const sessionScope = await accessibleSessionsFilter(professorId, "run_sessions");
+
+    const rows = await db
+      .select({
+        sessionId: sessions.id,
+        startsAt: sessions.starts_at,
+        scheduledEndAt: sessions.scheduled_end_at,
+        room: sessions.room,
+        courseId: courses.id,
+        courseCode: courses.code,
+        courseName: courses.name,
+        groupId: groups.id,
+        groupName: groups.name,
       })
+      .from(sessions)
+      .innerJoin(courses, eq(sessions.course_id, courses.id))
+      .innerJoin(groups, eq(sessions.group_id, groups.id))
       .where(
         and(
-          eq(attendance_rounds.session_id, sessionId),
-          eq(attendance_rounds.is_active, true),
+          sessionScope,
+          eq(sessions.status, "scheduled"),
+          lt(sessions.starts_at, until.toISOString()),
         ),
-      );
+      )
+      .orderBy(sessions.starts_at);
 
-    const [{ totalRounds }] = await db
-      .select({
-        totalRounds: sql<number>`COUNT(${attendance_rounds.id})`,
-      })
-      .from(attendance_rounds)
-      .where(eq(attendance_rounds.session_id, sessionId));
+    return rows.map((row) => ({
+      ...row,
+      startsAt: new Date(row.startsAt).toISOString(),
+      scheduledEndAt: row.scheduledEndAt
+        ? new Date(row.scheduledEndAt).toISOString()
+        : null,
+    }));
+  },
 
-    const [{ attendanceCount }] = await db
-      .select({
-        attendanceCount: sql<number>`COUNT(${attendance_records.id})`,
-      })
-      .from(attendance_records)
-      .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
-      .where(eq(attendance_rounds.session_id, sessionId));
+  /**
+   * Cancels an upcoming scheduled session so the scheduler never opens it.
+   */
+  async cancelScheduledSession(
+    professorId: string,
+    sessionId: string,
+    reason?: string | null,
+  ) {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, sessionId))
+      .limit(1);
+
+    if (!session) {
+      throw new ApiError(404, "Session not found");
+    }
+
+    if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
+      throw new ApiError(403, "You do not own this session");
+    }
+
+    if (session.status !== "scheduled") {
+      throw new ApiError(400, "Only upcoming scheduled sessions can be cancelled");
+    }
+
+    const [updated] = await db
+      .update(sessions)
+      .set({ status: "cancelled" })
+      .where(eq(sessions.id, sessionId))
+      .returning();
 
     await auditService.log({
       actorId: professorId,
-      action: "session_end",
+      action: "session_cancel",
       entityType: "session",
       entityId: sessionId,
       before: session,
-      after: { status: "ended", is_active: false },
-    });
-
-    emitSessionEnded(sessionId, {
-      sessionId,
-      endedAt: new Date().toISOString(),
-      summary: {
-        totalRounds: Number(totalRounds ?? 0),
-        attendanceCount: Number(attendanceCount ?? 0),
-      },
+      after: updated,
+      reason: reason ?? null,
     });
 
-    return session;
+    return updated;
   },
 
   /**
@@ -312,7 +536,7 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (session.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessSession(professorId, session, "run_sessions"))) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -323,7 +547,8 @@ export const sessionService = {
         startsAt: attendance_rounds.starts_at,
         endsAt: attendance_rounds.ends_at,
         isActive: attendance_rounds.is_active,
-        attendanceCount: sql<number>`COUNT(${attendance_records.id})`,
+        attendanceCount: sql<number>`SUM(CASE WHEN ${attendance_records.status} != 'absent' THEN 1 ELSE 0 END)`,
+        absentCount: sql<number>`SUM(CASE WHEN ${attendance_records.status} = 'absent' THEN 1 ELSE 0 END)`,
       })
       .from(attendance_rounds)
       .leftJoin(attendance_records, eq(attendance_records.round_id, attendance_rounds.id))
@@ -339,7 +564,17 @@ export const sessionService = {
           SELECT COUNT(*)
           FROM ${attendance_records} rec
           JOIN ${attendance_rounds} ar ON rec.round_id = ar.id
-          WHERE rec.student_id = ${users.id} AND ar.session_id = ${sessionId}
+          WHERE rec.student_id = ${users.id}
+            AND ar.session_id = ${sessionId}
+            AND rec.status != 'absent'
+        )`,
+        absentCount: sql<number>`(
+          SELECT COUNT(*)
+          FROM ${attendance_records} rec
+          JOIN ${attendance_rounds} ar ON rec.round_id = ar.id
+          WHERE rec.student_id = ${users.id}
+            AND ar.session_id = ${sessionId}
+            AND rec.status = 'absent'
         )`,
       })
       .from(enrollments)
@@ -351,9 +586,12 @@ export const sessionService = {
         ),
       );
 
-    const [{ attendanceCount: totalAttendance }] = await db
+    // Absences are the explicit rows written when each round closed, not enrolled
+    // students without a scan, so the totals match the records after roster changes.
+    const [{ attendanceCount: totalAttendance, absentCount: totalAbsent }] = await db
       .select({
-        attendanceCount: sql<number>`COUNT(${attendance_records.id})`,
+        attendanceCount: sql<number>`SUM(CASE WHEN ${attendance_records.status} != 'absent' THEN 1 ELSE 0 END)`,
+        absentCount: sql<number>`SUM(CASE WHEN ${attendance_records.status} = 'absent' THEN 1 ELSE 0 END)`,
       })
       .from(attendance_records)
       .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
@@ -382,12 +620,14 @@ export const sessionService = {
         endsAt: round.endsAt ? new Date(round.endsAt).toISOString() : null,
         isActive: round.isActive,
         attendanceCount: Number(round.attendanceCount ?? 0),
+        absentCount: Number(round.absentCount ?? 0),
       })),
       students: studentRows.map((row) => ({
         studentId: row.studentId,
         username: row.username,
         displayName: row.displayName,
         attendanceCount: Number(row.attendanceCount ?? 0),
+        absentCount: Number(row.absentCount ?? 0),
       })),
       recentScans: (
         await db
@@ -405,7 +645,12 @@ export const sessionService = {
             eq(attendance_records.round_id, attendance_rounds.id),
           )
           .innerJoin(users, eq(attendance_records.student_id, users.id))
-          .where(eq(attendance_rounds.session_id, sessionId))
+          .where(
+            and(
+              eq(attendance_rounds.session_id, sessionId),
+              ne(attendance_records.status, "absent"),
+            ),
+          )
           .orderBy(desc(attendance_records.recorded_at))
           .limit(8)
       ).map((row) => ({
@@ -420,6 +665,7 @@ export const sessionService = {
         totalRounds: rounds.length,
         totalStudents: studentRows.length,
         totalAttendance: Number(totalAttendance ?? 0),
+        totalAbsent: Number(totalAbsent ?? 0),
       },
     };
   },
@@ -444,7 +690,13 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (sessionRow.session.professor_id !== professorId) {
+    if (
+      !(await courseStaffService.canAccessSession(
+        professorId,
+        sessionRow.session,
+        "view_reports",
+      ))
+    ) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -495,7 +747,7 @@ export const sessionService = {
         attendance_records.recorded_at,
       );
 
-    const recordedByRoundAndStudent = new Map(
+    const recordedByRoundAndStudent = new Map<string, (typeof recordedRows)[number]>(
       recordedRows.map((row) => [`${row.roundId}::${row.studentId}`, row]),
     );
 
@@ -511,9 +763,11 @@ export const sessionService = {
             studentUsername: existing.studentUsername,
             studentName: existing.studentName,
             status: existing.status,
-            recordedAt: existing.recordedAt,
+            // Absent rows are stamped when the round closed, not when anyone scanned.
+            recordedAt: existing.status === "absent" ? null : existing.recordedAt,
           };
         }
+        // Rounds still open have no absent rows yet.
         return {
           roundNumber: round.roundNumber,
           roundId: round.roundId,
@@ -553,7 +807,13 @@ export const sessionService = {
       throw new ApiError(404, "Session not found");
     }
 
-    if (sessionRow.session.professor_id !== professorId) {
+    if (
+      !(await courseStaffService.canAccessSession(
+        professorId,
+        sessionRow.session,
+        "run_sessions",
+      ))
+    ) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -572,6 +832,7 @@ export const sessionService = {
     let qr:
       | { token: string; expiresAt: string; qrPayload: string; roundId: string }
       | null = null;
+    let offlineQr: { roundId: string; secret: string; stepSeconds: number } | null = null;
     let activeRoundAttendance = 0;
 
     if (activeRound) {
@@ -589,6 +850,10 @@ export const sessionService = {
         qrPayload,
         roundId: activeRound.id,
       };
+      offlineQr = {
+        roundId: activeRound.id,
+        ...(await qrService.getRoundSecret(activeRound.id)),
+      };
 
       emitRoundQrUpdated(sessionId, {
         sessionId,
@@ -603,7 +868,12 @@ export const sessionService = {
           count: sql<number>`COUNT(${attendance_records.id})`,
         })
         .from(attendance_records)
-        .where(eq(attendance_records.round_id, activeRound.id));
+        .where(
+          and(
+            eq(attendance_records.round_id, activeRound.id),
+            ne(attendance_records.status, "absent"),
+          ),
+        );
 
       activeRoundAttendance = Number(count ?? 0);
     }
@@ -614,7 +884,12 @@ export const sessionService = {
       })
       .from(attendance_records)
       .innerJoin(attendance_rounds, eq(attendance_records.round_id, attendance_rounds.id))
-      .where(eq(attendance_rounds.session_id, sessionId));
+      .where(
+        and(
+          eq(attendance_rounds.session_id, sessionId),
+          ne(attendance_records.status, "absent"),
+        ),
+      );
 
     return {
       session: sessionRow.session,
@@ -636,6 +911,7 @@ export const sessionService = {
           }
         : null,
       qr,
+      offlineQr,
       totals: {
         attendanceCount: Number(attendanceCount ?? 0),
       },
@@ -659,7 +935,13 @@ export const sessionService = {
       .limit(1);
 
     if (!sessionRow?.session) throw new ApiError(404, "Session not found");
-    if (sessionRow.session.professor_id !== professorId) {
+    if (
+      !(await courseStaffService.canAccessSession(
+        professorId,
+        sessionRow.session,
+        "view_reports",
+      ))
+    ) {
       throw new ApiError(403, "You do not own this session");
     }
 
@@ -699,29 +981,22 @@ export const sessionService = {
       )
       .where(eq(attendance_rounds.session_id, sessionId));
 
-    const perStudent = new Map<
-      string,
-      {
-        onTime: number;
-        late: number;
-        excused: number;
-      }
-    >();
+    type StatusCounts = {
+      onTime: number;
+      late: number;
+      excused: number;
+      absent: number;
+    };
+    const emptyCounts = (): StatusCounts => ({ onTime: 0, late: 0, excused: 0, absent: 0 });
 
-    const perRound = new Map<
-      string,
-      {
-        onTime: number;
-        late: number;
-        excused: number;
-      }
-    >();
+    const perStudent = new Map<string, StatusCounts>();
+    const perRound = new Map<string, StatusCounts>();
 
+    // Absences come from the explicit rows written when each round closed, so a
+    // student enrolled after a round is not counted as missing it.
     records.forEach((rec) => {
-      const studentStats =
-        perStudent.get(rec.studentId) ?? { onTime: 0, late: 0, excused: 0 };
-      const roundStats =
-        perRound.get(rec.roundId) ?? { onTime: 0, late: 0, excused: 0 };
+      const studentStats = perStudent.get(rec.studentId) ?? emptyCounts();
+      const roundStats = perRound.get(rec.roundId) ?? emptyCounts();
 
       if (rec.status === "late") {
         studentStats.late += 1;
@@ -729,6 +1004,9 @@ export const sessionService = {
       } else if (rec.status === "excused") {
         studentStats.excused += 1;
         roundStats.excused += 1;
+      } else if (rec.status === "absent") {
+        studentStats.absent += 1;
+        roundStats.absent += 1;
       } else {
         studentStats.onTime += 1;
         roundStats.onTime += 1;
@@ -738,18 +1016,13 @@ export const sessionService = {
       perRound.set(rec.roundId, roundStats);
     });
 
-    const totalRounds = rounds.length || 1;
-    const totalStudents = students.length;
-    const safeTotalStudents = totalStudents || 1;
-
     const studentAnalytics = students.map((student) => {
-      const stats =
-        perStudent.get(student.studentId) ?? { onTime: 0, late: 0, excused: 0 };
+      const stats = perStudent.get(student.studentId) ?? emptyCounts();
       const attended = stats.onTime + stats.late + stats.excused;
-      const attendancePercent = Math.round(
-        (attended / totalRounds) * 100,
-      );
-      const absences = totalRounds - attended;
+      const recorded = attended + stats.absent;
+      const attendancePercent = recorded
+        ? Math.round((attended / recorded) * 100)
+        : 0;
       return {
         studentId: student.studentId,
         username: student.username,
@@ -757,26 +1030,20 @@ export const sessionService = {
         present: stats.onTime,
         late: stats.late,
         excused: stats.excused,
-        absences,
-        attendancePercent: Math.max(0, Math.min(100, attendancePercent)),
+        absences: stats.absent,
+        attendancePercent,
       };
     });
 
     const roundAnalytics = rounds.map((round) => {
-      const stats = perRound.get(round.roundId) ?? {
-        onTime: 0,
-        late: 0,
-        excused: 0,
-      };
-      const totalPresent = stats.onTime + stats.late + stats.excused;
-      const absences = safeTotalStudents - totalPresent;
+      const stats = perRound.get(round.roundId) ?? emptyCounts();
       return {
         roundId: round.roundId,
         roundNumber: round.roundNumber,
         present: stats.onTime,
         late: stats.late,
         excused: stats.excused,
-        absent: absences < 0 ? 0 : absences,
+        absent: stats.absent,
       };
     });
 
@@ -841,6 +1108,7 @@ export const sessionService = {
 
     const periodStartIso = periodStart.toISOString();
     const periodEndIso = now.toISOString();
+    const sessionScope = await accessibleSessionsFilter(professorId, "view_reports");
 
     const periodSessions = await db
       .select({
@@ -851,9 +1119,10 @@ export const sessionService = {
       .from(sessions)
       .where(
         and(
-          eq(sessions.professor_id, professorId),
+          sessionScope,
           gte(sessions.starts_at, periodStartIso),
           lt(sessions.starts_at, periodEndIso),
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
         ),
       );
 
@@ -875,45 +1144,23 @@ export const sessionService = {
       return `${headers.join(",")}\n`;
     }
 
-    const courseIds = Array.from(new Set(periodSessions.map((s) => s.courseId)));
-    const groupIds = Array.from(new Set(periodSessions.map((s) => s.groupId)));
-
-    const enrollmentRows = await db
-      .select({
-        studentId: enrollments.student_id,
-        courseId: enrollments.course_id,
-        groupId: enrollments.group_id,
-        username: users.username,
-        displayName: users.display_name,
-        email: users.email,
-      })
-      .from(enrollments)
-      .innerJoin(users, eq(users.id, enrollments.student_id))
-      .where(
-        and(
-          inArray(enrollments.course_id, courseIds),
-          inArray(enrollments.group_id, groupIds),
-        ),
-      );
-
-    const attendanceRows = await db
-      .select({
-        sessionId: attendance_rounds.session_id,
-        studentId: attendance_records.student_id,
-      })
-      .from(attendance_records)
-      .innerJoin(
-        attendance_rounds,
-        eq(attendance_records.round_id, attendance_rounds.id),
-      )
-      .where(inArray(attendance_rounds.session_id, sessionIds));
-
-    const attendanceSet = new Set(
-      attendanceRows.map((row) => `${row.sessionId}::${row.studentId}`),
-    );
-    const sessionPairSet = new Set(
-      periodSessions.map((row) => `${row.courseId}::${row.groupId}`),
-    );
+    // Each class a student has records in counts once: attended when any round has a
+    // non-absent record, missed when all of them are the absent rows written on close.
+    const outcomes = await absenceService.getSessionOutcomes(sessionIds);
+    const studentIds = Array.from(new Set(outcomes.map((row) => row.studentId)));
+    type StudentRow = { id: string; username: string; displayName: string; email: string };
+    const studentRows: StudentRow[] = studentIds.length
+      ? await db
+          .select({
+            id: users.id,
+            username: users.username,
+            displayName: users.display_name,
+            email: users.email,
+          })
+          .from(users)
+          .where(inArray(users.id, studentIds))
+      : [];
+    const studentsById = new Map<string, StudentRow>(studentRows.map((row) => [row.id, row]));
 
     const aggregate = new Map<
       string,
@@ -927,37 +1174,23 @@ export const sessionService = {
       }
     >();
 
-    const enrollmentsByPair = new Map<string, typeof enrollmentRows>();
-    for (const row of enrollmentRows) {
-      const key = `${row.courseId}::${row.groupId}`;
-      const list = enrollmentsByPair.get(key) ?? [];
-      list.push(row);
-      enrollmentsByPair.set(key, list);
-    }
-
-    for (const session of periodSessions) {
-      const pairKey = `${session.courseId}::${session.groupId}`;
-      if (!sessionPairSet.has(pairKey)) continue;
-      const enrolled = enrollmentsByPair.get(pairKey) ?? [];
-      for (const student of enrolled) {
-        const existing = aggregate.get(student.studentId) ?? {
-          studentId: student.studentId,
-          username: student.username,
-          displayName: student.displayName,
-          email: student.email,
-          attended: 0,
-          missed: 0,
-        };
-        const didAttend = attendanceSet.has(
-          `${session.sessionId}::${student.studentId}`,
-        );
-        if (didAttend) {
-          existing.attended += 1;
-        } else {
-          existing.missed += 1;
-        }
-        aggregate.set(student.studentId, existing);
+    for (const outcome of outcomes) {
+      const student = studentsById.get(outcome.studentId);
+      if (!student) continue;
+      const existing = aggregate.get(student.id) ?? {
+        studentId: student.id,
+        username: student.username,
+        displayName: student.displayName,
+        email: student.email,
+        attended: 0,
+        missed: 0,
+      };
+      if (outcome.attended) {
+        existing.attended += 1;
+      } else {
+        existing.missed += 1;
       }
+      aggregate.set(student.id, existing);
     }
 
     const escape = (value: string | number | null | undefined) => {
@@ -998,13 +1231,19 @@ export const sessionService = {
   },
 
   async listSessionLogDates(professorId: string) {
+    const sessionScope = await accessibleSessionsFilter(professorId, "view_reports");
     const rows = await db
       .select({
         openedOn: sql<string>`DATE(${sessions.starts_at})`,
         sessionCount: sql<number>`COUNT(${sessions.id})`,
       })
       .from(sessions)
-      .where(eq(sessions.professor_id, professorId))
+      .where(
+        and(
+          sessionScope,
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
+        ),
+      )
       .groupBy(sql`DATE(${sessions.starts_at})`)
       .orderBy(desc(sql`DATE(${sessions.starts_at})`));
 
@@ -1019,6 +1258,7 @@ export const sessionService = {
       throw new ApiError(400, "Date must be in YYYY-MM-DD format.");
     }
 
+    const sessionScope = await accessibleSessionsFilter(professorId, "view_reports");
     const sessionRows = await db
       .select({
         sessionId: sessions.id,
@@ -1034,8 +1274,9 @@ export const sessionService = {
       .innerJoin(groups, eq(sessions.group_id, groups.id))
       .where(
         and(
-          eq(sessions.professor_id, professorId),
+          sessionScope,
           eq(sql`DATE(${sessions.starts_at})`, openedOn),
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
         ),
       )
       .orderBy(desc(sessions.starts_at));
@@ -1064,8 +1305,9 @@ export const sessionService = {
       .innerJoin(users, eq(attendance_records.student_id, users.id))
       .where(
         and(
-          eq(sessions.professor_id, professorId),
+          sessionScope,
           eq(sql`DATE(${sessions.starts_at})`, openedOn),
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
         ),
       )
       .orderBy(desc(attendance_records.recorded_at), attendance_rounds.round_number);
@@ -1155,14 +1397,19 @@ export const sessionService = {
     if (!course) {
       throw new ApiError(404, "Course not found.");
     }
-    if (course.professor_id !== professorId) {
+    if (!(await courseStaffService.canAccessCourse(professorId, course, "view_reports"))) {
       throw new ApiError(403, "You do not own this course.");
     }
 
     const sessionRows = await db
       .select({ sessionId: sessions.id })
       .from(sessions)
-      .where(eq(sessions.course_id, courseId));
+      .where(
+        and(
+          eq(sessions.course_id, courseId),
+          notInArray(sessions.status, UNHELD_SESSION_STATUSES),
+        ),
+      );
 
     const totalSessions = sessionRows.length;
     const sessionIds = sessionRows.map((row) => row.sessionId);
@@ -1191,35 +1438,28 @@ export const sessionService = {
       };
     }
 
-    const attendanceRows = sessionIds.length
-      ? await db
-          .select({
-            sessionId: attendance_rounds.session_id,
-            studentId: attendance_records.student_id,
-          })
-          .from(attendance_records)
-          .innerJoin(
-            attendance_rounds,
-            eq(attendance_records.round_id, attendance_rounds.id),
-          )
-          .where(inArray(attendance_rounds.session_id, sessionIds))
-      : [];
-
-    const attendanceSet = new Set(
-      attendanceRows.map((row) => `${row.sessionId}::${row.studentId}`),
-    );
+    const outcomesByStudent = new Map<string, { attended: number; missed: number }>();
+    for (const outcome of await absenceService.getSessionOutcomes(sessionIds)) {
+      const counts = outcomesByStudent.get(outcome.studentId) ?? { attended: 0, missed: 0 };
+      if (outcome.attended) {
+        counts.attended += 1;
+      } else {
+        counts.missed += 1;
+      }
+      outcomesByStudent.set(outcome.studentId, counts);
+    }
+    const absences = await absenceService.getCourseAbsences(course.id);
+    const absencesByStudent = new Map(absences.map((row) => [row.studentId, row]));
 
     const students = enrollmentRows.map((student) => {
-      let attended = 0;
-      for (const sessionId of sessionIds) {
-        if (attendanceSet.has(`${sessionId}::${student.studentId}`)) {
-          attended += 1;
-        }
-      }
-      const total = totalSessions;
-      const missed = Math.max(0, total - attended);
+      const { attended, missed } = outcomesByStudent.get(student.studentId) ?? {
+        attended: 0,
+        missed: 0,
+      };
+      const total = attended + missed;
       const attendancePercent =
         total > 0 ? Math.round((attended / total) * 100) : 0;
+      const absence = absencesByStudent.get(student.studentId);
 
       return {
         studentId: student.studentId,
@@ -1230,7 +1470,11 @@ export const sessionService = {
         missedClasses: missed,
         totalClasses: total,
         attendancePercent,
-        status: attendancePercent >= 75 ? "pass" : "fail",
+        excusedRounds: absence?.excusedRounds ?? 0,
+        absences: absence?.absences ?? 0,
+        maxAbsences: absence?.maxAbsences ?? null,
+        remainingAbsences: absence?.remainingAbsences ?? null,
+        absenceStatus: absence?.absenceStatus ?? "ok",
       };
     });
 
@@ -0,0 +1,143 @@
+import path from "path";
+import { ApiError } from "../errors/apiError";
+import { ALLOWED_MIME, quarantineKey } from "../middleware/uploads";
+import { contentTypeForKey, getFileStorage } from "../storage/fileStorage";
+import { logger } from "../utils/logger";
+import {
+  FileInspectionError,
+  inspectPdf,
+  inspectSpreadsheet,
+  sniffContentType,
+  stripImageMetadata,
+  type SniffedType,
+} from "../utils/fileSniffing";
+import { auditService } from "./auditService";
+
+export type UploadSource = "excuse_attachment" | "roster_file";
+
+type IncomingUpload = {
+  originalName: string;
+  /** The client's declared MIME type, when the upload path keeps it. */
+  mimetype?: string;
+  buffer: Buffer;
+};
+
+export type InspectedUpload = {
+  /** The bytes to store; images come back without their metadata. */
+  buffer: Buffer;
+  contentType: SniffedType;
+};
+
+const ROSTER_TYPES_BY_EXTENSION: Record<string, SniffedType> = {
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xls": "application/vnd.ms-excel",
+  ".csv": "text/csv",
+};
+
+function normalizeMime(mimetype: string) {
+  return mimetype === "image/jpg" ? "image/jpeg" : mimetype;
+}
+
+/**
+ * Keeps a rejected upload out of the served prefixes for later review and records
+ * who sent it. Quarantine failures are logged but never mask the rejection itself.
+ */
+async function quarantine(
+  uploaderId: string,
+  source: UploadSource,
+  upload: IncomingUpload,
+  detectedType: string | null,
+  rejection: ApiError,
+) {
+  const key = quarantineKey(upload.originalName);
+  try {
+    await getFileStorage().put(key, upload.buffer, "application/octet-stream");
+    await auditService.log({
+      actorId: uploaderId,
+      action: "upload_quarantined",
+      entityType: "upload",
+      entityId: key,
+      after: {
+        source,
+        originalName: upload.originalName,
+        declaredType: upload.mimetype ?? null,
+        detectedType,
+        size: upload.buffer.length,
+        code: rejection.code,
+      },
+      reason: rejection.message,
+    });
+  } catch (error) {
+    logger.error("Failed to quarantine rejected upload", { key, source, error });
+  }
+}
+
+async function inspect(
+  uploaderId: string,
+  source: UploadSource,
+  upload: IncomingUpload,
+  check: (detectedType: SniffedType | null) => InspectedUpload,
+) {
+  const detectedType = sniffContentType(upload.buffer);
+  try {
+    return check(detectedType);
+  } catch (error) {
+    const rejection =
+      error instanceof FileInspectionError ? new ApiError(422, error.message, error.code) : error;
+    if (rejection instanceof ApiError) {
+      await quarantine(uploaderId, source, upload, detectedType, rejection);
+    }
+    throw rejection;
+  }
+}
+
+export const uploadInspectionService = {
+  /**
+   * Excuse attachments must really be the PDF or image their extension and declared
+   * type claim. PDFs with active content are refused; images are stored without EXIF.
+   */
+  inspectAttachment(uploaderId: string, upload: IncomingUpload & { mimetype: string }) {
+    return inspect(uploaderId, "excuse_attachment", upload, (detectedType) => {
+      if (!detectedType || !ALLOWED_MIME.has(detectedType)) {
+        throw new ApiError(415, "Only PDF or image uploads are allowed", "unsupported_file_type");
+      }
+      if (
+        contentTypeForKey(upload.originalName) !== detectedType ||
+        normalizeMime(upload.mimetype) !== detectedType
+      ) {
+        throw new ApiError(
+          400,
+          "Attachment file extension does not match its content type.",
+          "file_type_mismatch",
+        );
+      }
+      if (detectedType === "application/pdf") {
+        inspectPdf(upload.buffer);
+        return { buffer: upload.buffer, contentType: detectedType };
+      }
+      const imageType = detectedType as "image/png" | "image/jpeg" | "image/webp";
+      return { buffer: stripImageMetadata(upload.buffer, imageType), contentType: detectedType };
+    });
+  },
+
+  /** Roster sheets must be CSV text or a real workbook matching the extension, without macros. */
+  inspectRosterFile(uploaderId: string, upload: IncomingUpload) {
+    return inspect(uploaderId, "roster_file", upload, (detectedType) => {
+      const expected = ROSTER_TYPES_BY_EXTENSION[path.extname(upload.originalName).toLowerCase()];
+      if (!expected || !detectedType) {
+        throw new ApiError(415, "Only Excel or CSV uploads are allowed", "unsupported_file_type");
+      }
+      if (detectedType !== expected) {
+        throw new ApiError(
+          400,
+          "Roster file extension does not match its content type.",
+          "file_type_mismatch",
+        );
+      }
+      if (detectedType !== "text/csv") {
+        inspectSpreadsheet(upload.buffer);
+      }
+      return { buffer: upload.buffer, contentType: detectedType };
+    });
+  },
+};
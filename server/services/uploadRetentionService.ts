@@ -0,0 +1,135 @@
+import { and, eq, isNotNull, lte, ne } from "drizzle-orm";
+import { excuse_requests } from "@shared/schema";
+import { db } from "../db";
+import { QUARANTINE_KEY_PREFIX, ROSTER_KEY_PREFIX } from "../middleware/uploads";
+import { getFileStorage } from "../storage/fileStorage";
+import { logger } from "../utils/logger";
+import { isRealtimeLeader } from "../websocket/broker";
+import { auditService } from "./auditService";
+import { attachmentStorageKey } from "./excuseService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPLOAD_RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+function retentionDays(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Attachments of excuses decided more than EXCUSE_ATTACHMENT_RETENTION_DAYS ago
+ * (default 365). The excuse itself and its decision are kept.
+ */
+async function purgeReviewedAttachments(now: Date) {
+  const cutoff = new Date(
+    now.getTime() - retentionDays("EXCUSE_ATTACHMENT_RETENTION_DAYS", 365) * DAY_MS,
+  ).toISOString();
+  const expired = await db
+    .select({ id: excuse_requests.id, attachmentPath: excuse_requests.attachment_path })
+    .from(excuse_requests)
+    .where(
+      and(
+        isNotNull(excuse_requests.attachment_path),
+        ne(excuse_requests.status, "PENDING"),
+        lte(excuse_requests.reviewed_at, cutoff),
+      ),
+    );
+
+  for (const excuse of expired) {
+    const key = attachmentStorageKey(excuse.attachmentPath!);
+    await getFileStorage().delete(key);
+    await db
+      .update(excuse_requests)
+      .set({ attachment_path: null })
+      .where(eq(excuse_requests.id, excuse.id));
+    await auditService.log({
+      actorId: null,
+      action: "excuse_attachment_purged",
+      entityType: "excuse_request",
+      entityId: excuse.id,
+      before: { attachmentPath: excuse.attachmentPath },
+      reason: "Attachment retention period elapsed",
+    });
+  }
+  return expired.length;
+}
+
+/**
+ * Stored attachments no excuse points at any more (e.g. the excuse insert failed after
+ * the upload), once they are a day old.
+ */
+async function purgeOrphanedAttachments(now: Date) {
+  const referenced = new Set(
+    (
+      await db
+        .select({ attachmentPath: excuse_requests.attachment_path })
+        .from(excuse_requests)
+        .where(isNotNull(excuse_requests.attachment_path))
+    ).map((row) => attachmentStorageKey(row.attachmentPath!)),
+  );
+  const files = await getFileStorage().list("excuses/");
+  const orphaned = files.filter(
+    (file) =>
+      !referenced.has(file.key) && now.getTime() - file.lastModified.getTime() > DAY_MS,
+  );
+  for (const file of orphaned) {
+    await getFileStorage().delete(file.key);
+  }
+  return orphaned.length;
+}
+
+async function purgeOlderThan(prefix: string, maxAgeMs: number, now: Date) {
+  const files = await getFileStorage().list(prefix);
+  const expired = files.filter(
+    (file) => now.getTime() - file.lastModified.getTime() > maxAgeMs,
+  );
+  for (const file of expired) {
+    await getFileStorage().delete(file.key);
+  }
+  return expired.length;
+}
+
+/** Uploaded roster sheets older than ROSTER_FILE_RETENTION_DAYS (default 30). */
+function purgeRosterFiles(now: Date) {
+  return purgeOlderThan(
+    ROSTER_KEY_PREFIX,
+    retentionDays("ROSTER_FILE_RETENTION_DAYS", 30) * DAY_MS,
+    now,
+  );
+}
+
+/** Rejected uploads kept for review, for QUARANTINE_RETENTION_DAYS (default 30). */
+function purgeQuarantinedFiles(now: Date) {
+  return purgeOlderThan(
+    QUARANTINE_KEY_PREFIX,
+    retentionDays("QUARANTINE_RETENTION_DAYS", 30) * DAY_MS,
+    now,
+  );
+}
+
+export async function purgeExpiredUploads(now: Date = new Date()) {
+  return {
+    excuseAttachments: await purgeReviewedAttachments(now),
+    orphanedAttachments: await purgeOrphanedAttachments(now),
+    rosterFiles: await purgeRosterFiles(now),
+    quarantinedFiles: await purgeQuarantinedFiles(now),
+  };
+}
+
+async function runIfLeader() {
+  if (!(await isRealtimeLeader("upload-retention"))) {
+    return;
+  }
+  const purged = await purgeExpiredUploads();
+  if (Object.values(purged).some((count) => count > 0)) {
+    logger.info("expired uploads purged", purged);
+  }
+}
+
+export function startUploadRetentionScheduler() {
+  setInterval(() => {
+    runIfLeader().catch((error) => {
+      logger.error("Failed to purge expired uploads", { error });
+    });
+  }, UPLOAD_RETENTION_INTERVAL_MS);
+}
@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { Response } from "express";
+import { ApiError } from "../errors/apiError";
+import { logger } from "../utils/logger";
+import { S3Storage } from "./s3Storage";
+
+export type StoredFile = {
+  key: string;
+  size: number;
+  contentType: string;
+  lastModified: Date;
+};
+
+export type FileDownload = StoredFile & { body: Readable };
+
+/**
+ * Where uploaded files (excuse attachments, roster sheets) live. Keys are
+ * slash-separated paths such as `excuses/1700000000000-note.pdf`.
+ */
+export interface FileStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Streams the object, or resolves null when it does not exist. */
+  get(key: string): Promise<FileDownload | null>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredFile[]>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".csv": "text/csv",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xls": "application/vnd.ms-excel",
+};
+
+const KEY_SEGMENT = /^[A-Za-z0-9._-]+$/;
+
+export function contentTypeForKey(key: string) {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** Rejects keys that could escape the storage root or need escaping in URLs. */
+export function assertStorageKey(key: string) {
+  const segments = key.split("/");
+  const valid = segments.every(
+    (segment) => KEY_SEGMENT.test(segment) && segment !== "." && segment !== "..",
+  );
+  if (!valid) {
+    throw new ApiError(400, "Invalid file key.");
+  }
+}
+
+export function sanitizeFileName(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+/** Keeps files under a directory on local disk (the default, single-instance setup). */
+export class LocalDiskStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    assertStorageKey(key);
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new ApiError(400, "Invalid file key.");
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer, _contentType: string) {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, body);
+  }
+
+  async get(key: string) {
+    const target = this.resolve(key);
+    const stats = await fs.promises.stat(target).catch(() => null);
+    if (!stats?.isFile()) {
+      return null;
+    }
+    return {
+      key,
+      size: stats.size,
+      contentType: contentTypeForKey(key),
+      lastModified: stats.mtime,
+      body: fs.createReadStream(target),
+    };
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async list(prefix: string) {
+    const directory = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+    const base = directory ? this.resolve(directory) : path.resolve(this.root);
+    const entries = await fs.promises.readdir(base, { withFileTypes: true }).catch(() => []);
+    const files: StoredFile[] = [];
+    for (const entry of entries) {
+      const key = directory ? `${directory}/${entry.name}` : entry.name;
+      if (!entry.isFile() || !key.startsWith(prefix)) continue;
+      const stats = await fs.promises.stat(path.join(base, entry.name));
+      files.push({
+        key,
+        size: stats.size,
+        contentType: contentTypeForKey(key),
+        lastModified: stats.mtime,
+      });
+    }
+    return files;
+  }
+}
+
+function createStorageFromEnv(): FileStorage {
+  const kind = (process.env.FILE_STORAGE ?? "local").trim().toLowerCase();
+  if (kind === "local") {
+    return new LocalDiskStorage(
+      path.resolve(process.cwd(), process.env.UPLOAD_DIR ?? "uploads"),
+    );
+  }
+  if (kind !== "s3") {
+    throw new Error(`Unknown FILE_STORAGE "${kind}" (expected local or s3)`);
+  }
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("FILE_STORAGE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  return new S3Storage({
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    region: process.env.S3_REGION ?? "us-east-1",
+    endpoint: process.env.S3_ENDPOINT,
+  });
+}
+
+let activeStorage: FileStorage | null = null;
+
+/**
+ * The storage named by FILE_STORAGE: "local" (default, under UPLOAD_DIR) or "s3" for
+ * any S3-compatible service (AWS, MinIO, R2...), which multi-instance deployments need.
+ */
+export function getFileStorage() {
+  activeStorage ??= createStorageFromEnv();
+  return activeStorage;
+}
+
+export function setFileStorage(storage: FileStorage | null) {
+  activeStorage = storage;
+}
+
+/**
+ * Streams a stored file to the client. Types outside `allowedTypes` are sent as a
+ * generic download so the browser never renders unexpected content.
+ */
+export async function sendStoredFile(
+  res: Response,
+  file: FileDownload,
+  options: { fileName: string; allowedTypes: Set<string>; inline?: boolean },
+) {
+  const allowed = options.allowedTypes.has(file.contentType);
+  res.setHeader("Content-Type", allowed ? file.contentType : "application/octet-stream");
+  res.setHeader("Content-Length", String(file.size));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader(
+    "Content-Disposition",
+    `${options.inline && allowed ? "inline" : "attachment"}; filename="${sanitizeFileName(options.fileName)}"`,
+  );
+  try {
+    await pipeline(file.body, res);
+  } catch (error) {
+    // Headers are already out; the broken stream has closed the response.
+    logger.warn("stored file stream failed", { key: file.key, error });
+  }
+}
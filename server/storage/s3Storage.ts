@@ -0,0 +1,208 @@
+import { createHash, createHmac } from "crypto";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import {
+  assertStorageKey,
+  contentTypeForKey,
+  type FileDownload,
+  type FileStorage,
+  type StoredFile,
+} from "./fileStorage";
+
+export type S3StorageConfig = {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Custom endpoint (MinIO, R2...); requests then use path-style URLs. */
+  endpoint?: string;
+};
+
+const EMPTY_PAYLOAD_HASH = createHash("sha256").update("").digest("hex");
+
+function sha256Hex(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string) {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** RFC 3986 encoding as SigV4 expects it (encodeURIComponent leaves !'()* alone). */
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlValue(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Minimal S3 client (PUT/GET/DELETE object, ListObjectsV2) signed with AWS Signature
+ * Version 4, so any S3-compatible service works without pulling in the AWS SDK.
+ */
+export class S3Storage implements FileStorage {
+  private readonly baseUrl: URL;
+  private readonly pathStyle: boolean;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.pathStyle = Boolean(config.endpoint);
+    this.baseUrl = new URL(
+      config.endpoint ?? `https://${config.bucket}.s3.${config.region}.amazonaws.com`,
+    );
+  }
+
+  private objectPath(key?: string) {
+    const basePath = this.baseUrl.pathname.replace(/\/$/, "");
+    const bucketPath = this.pathStyle ? `/${encodeRfc3986(this.config.bucket)}` : "";
+    const keyPath = key ? `/${key.split("/").map(encodeRfc3986).join("/")}` : "/";
+    return `${basePath}${bucketPath}${keyPath}`;
+  }
+
+  private async request(
+    method: "GET" | "PUT" | "DELETE",
+    options: {
+      key?: string;
+      query?: Record<string, string>;
+      body?: Buffer;
+      contentType?: string;
+    } = {},
+  ) {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+    const canonicalPath = this.objectPath(options.key);
+    const canonicalQuery = Object.entries(options.query ?? {})
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join("&");
+
+    const headers: Record<string, string> = {
+      host: this.baseUrl.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (options.contentType) {
+      headers["content-type"] = options.contentType;
+    }
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalPath,
+      canonicalQuery,
+      ...signedHeaders.map((name) => `${name}:${headers[name].trim()}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), "s3"),
+      "aws4_request",
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...requestHeaders } = headers;
+    const url = `${this.baseUrl.origin}${canonicalPath}${canonicalQuery ? `?${canonicalQuery}` : ""}`;
+    return fetch(url, {
+      method,
+      body: options.body,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+    });
+  }
+
+  private async fail(action: string, res: globalThis.Response): Promise<never> {
+    const body = await res.text().catch(() => "");
+    const code = xmlValue(body, "Code") ?? res.statusText;
+    throw new Error(`S3 ${action} failed (${res.status} ${code})`);
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    assertStorageKey(key);
+    const res = await this.request("PUT", { key, body, contentType });
+    if (!res.ok) {
+      await this.fail("put", res);
+    }
+  }
+
+  async get(key: string): Promise<FileDownload | null> {
+    assertStorageKey(key);
+    const res = await this.request("GET", { key });
+    if (res.status === 404) {
+      await res.body?.cancel();
+      return null;
+    }
+    if (!res.ok || !res.body) {
+      return this.fail("get", res);
+    }
+    return {
+      key,
+      size: Number(res.headers.get("content-length") ?? 0),
+      contentType: res.headers.get("content-type") ?? contentTypeForKey(key),
+      lastModified: new Date(res.headers.get("last-modified") ?? Date.now()),
+      body: Readable.fromWeb(res.body as WebReadableStream<Uint8Array>),
+    };
+  }
+
+  async delete(key: string) {
+    assertStorageKey(key);
+    const res = await this.request("DELETE", { key });
+    if (!res.ok && res.status !== 404) {
+      await this.fail("delete", res);
+    }
+  }
+
+  async list(prefix: string) {
+    const files: StoredFile[] = [];
+    let continuationToken: string | null = null;
+    do {
+      const query: Record<string, string> = { "list-type": "2", prefix };
+      if (continuationToken) {
+        query["continuation-token"] = continuationToken;
+      }
+      const res = await this.request("GET", { query });
+      if (!res.ok) {
+        await this.fail("list", res);
+      }
+      const xml = await res.text();
+      for (const match of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+        const key = xmlValue(match[1], "Key");
+        if (!key) continue;
+        files.push({
+          key,
+          size: Number(xmlValue(match[1], "Size") ?? 0),
+          contentType: contentTypeForKey(key),
+          lastModified: new Date(xmlValue(match[1], "LastModified") ?? 0),
+        });
+      }
+      continuationToken =
+        xmlValue(xml, "IsTruncated") === "true" ? xmlValue(xml, "NextContinuationToken") : null;
+    } while (continuationToken);
+    return files;
+  }
+}
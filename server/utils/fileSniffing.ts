@@ -0,0 +1,294 @@
+import zlib from "zlib";
+
+/**
+ * Byte-level checks for uploaded files. Nothing here trusts the client's declared
+ * MIME type or the file name; callers compare those against what these detect.
+ */
+
+export type SniffedType =
+  | "application/pdf"
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  | "application/vnd.ms-excel"
+  | "text/csv";
+
+/** A failed structural check; `code` is what the API reports. */
+export class FileInspectionError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+// PDF readers accept the header anywhere in the first kilobyte.
+const PDF_HEADER_WINDOW = 1024;
+const TEXT_SNIFF_BYTES = 64 * 1024;
+
+function startsWith(buffer: Buffer, signature: Buffer, offset = 0) {
+  return (
+    buffer.length >= offset + signature.length &&
+    buffer.subarray(offset, offset + signature.length).equals(signature)
+  );
+}
+
+function looksLikeText(buffer: Buffer) {
+  const sample = buffer.subarray(0, TEXT_SNIFF_BYTES);
+  for (const byte of sample) {
+    // Tab, LF, CR and ESC are the only control characters plain-text sheets contain.
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x1b) {
+      return false;
+    }
+  }
+  return sample.length > 0;
+}
+
+/** Detects the file type from its leading bytes, or null when it is none we accept. */
+export function sniffContentType(buffer: Buffer): SniffedType | null {
+  if (buffer.subarray(0, PDF_HEADER_WINDOW).includes("%PDF-")) {
+    return "application/pdf";
+  }
+  if (startsWith(buffer, PNG_SIGNATURE)) {
+    return "image/png";
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (startsWith(buffer, Buffer.from("RIFF")) && startsWith(buffer, Buffer.from("WEBP"), 8)) {
+    return "image/webp";
+  }
+  if (startsWith(buffer, ZIP_SIGNATURE)) {
+    return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  }
+  if (startsWith(buffer, CFB_SIGNATURE)) {
+    return "application/vnd.ms-excel";
+  }
+  if (looksLikeText(buffer)) {
+    return "text/csv";
+  }
+  return null;
+}
+
+// Name objects that make a PDF do something when opened, rather than just display.
+const PDF_ACTIVE_NAMES = /^(JavaScript|JS|Launch|EmbeddedFiles?|RichMedia|XFA|ImportData|SubmitForm)$/;
+const PDF_MAX_INFLATED_BYTES = 20 * 1024 * 1024;
+
+/** PDF names may hex-escape characters (`/J#61vaScript`) to dodge naive matching. */
+function pdfNames(text: string) {
+  const names: string[] = [];
+  for (const match of Array.from(text.matchAll(/\/([^\s\/<>\[\]\(\)\{\}%]+)/g))) {
+    names.push(
+      match[1].replace(/#([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      ),
+    );
+  }
+  return names;
+}
+
+/** Decompressed contents of the FlateDecode streams, where object streams hide dictionaries. */
+function inflatedStreams(buffer: Buffer) {
+  const decoded: string[] = [];
+  let budget = PDF_MAX_INFLATED_BYTES;
+  let cursor = 0;
+  while (cursor < buffer.length) {
+    const start = buffer.indexOf("stream", cursor, "latin1");
+    if (start < 0) break;
+    // "endstream" itself matches the search for "stream"; skip it.
+    if (buffer.subarray(start - 3, start).toString("latin1") === "end") {
+      cursor = start + "stream".length;
+      continue;
+    }
+    let dataStart = start + "stream".length;
+    if (buffer[dataStart] === 0x0d) dataStart += 1;
+    if (buffer[dataStart] === 0x0a) dataStart += 1;
+    const end = buffer.indexOf("endstream", dataStart, "latin1");
+    if (end < 0) break;
+    cursor = end + "endstream".length;
+    try {
+      const inflated = zlib.inflateSync(buffer.subarray(dataStart, end), {
+        maxOutputLength: budget,
+      });
+      budget -= inflated.length;
+      decoded.push(inflated.toString("latin1"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        throw new FileInspectionError("malformed_file", "PDF streams expand beyond the allowed size.");
+      }
+      // Not Flate-encoded (images, fonts); nothing to scan.
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Rejects PDFs that are truncated, encrypted (their contents cannot be checked) or
+ * carry scripts, launch actions, embedded files or other active content.
+ */
+export function inspectPdf(buffer: Buffer) {
+  const tail = buffer.subarray(Math.max(0, buffer.length - 1024)).toString("latin1");
+  if (!tail.includes("%%EOF")) {
+    throw new FileInspectionError("malformed_file", "PDF is truncated or malformed.");
+  }
+  const sources = [buffer.toString("latin1"), ...inflatedStreams(buffer)];
+  for (const source of sources) {
+    for (const name of pdfNames(source)) {
+      if (name === "Encrypt") {
+        throw new FileInspectionError("pdf_encrypted", "Encrypted PDFs cannot be accepted.");
+      }
+      if (PDF_ACTIVE_NAMES.test(name)) {
+        throw new FileInspectionError(
+          "pdf_active_content",
+          "PDF contains scripts or other active content.",
+        );
+      }
+    }
+  }
+}
+
+function malformedImage(): never {
+  throw new FileInspectionError("malformed_file", "Image is truncated or malformed.");
+}
+
+// Segments kept besides the image data: JFIF header, ICC colour profile, Adobe colour transform.
+const JPEG_KEPT_APP_MARKERS = new Set([0xe0, 0xe2, 0xee]);
+
+function stripJpegMetadata(buffer: Buffer) {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xff) malformedImage();
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    if (marker === 0xd9) {
+      parts.push(buffer.subarray(offset, offset + 2));
+      return Buffer.concat(parts);
+    }
+    if (offset + 4 > buffer.length) malformedImage();
+    const length = buffer.readUInt16BE(offset + 2);
+    const segmentEnd = offset + 2 + length;
+    if (length < 2 || segmentEnd > buffer.length) malformedImage();
+    if (marker === 0xda) {
+      // Start of scan: entropy-coded data follows up to the next marker, which is EOI
+      // or, in progressive files, the next table or scan segment. Stuffed 0xFF00 bytes
+      // and restart markers belong to the data.
+      let dataEnd = segmentEnd;
+      while (
+        dataEnd < buffer.length &&
+        !(
+          buffer[dataEnd] === 0xff &&
+          dataEnd + 1 < buffer.length &&
+          buffer[dataEnd + 1] !== 0x00 &&
+          buffer[dataEnd + 1] !== 0xff &&
+          (buffer[dataEnd + 1] < 0xd0 || buffer[dataEnd + 1] > 0xd7)
+        )
+      ) {
+        dataEnd += 1;
+      }
+      if (dataEnd >= buffer.length) malformedImage();
+      parts.push(buffer.subarray(offset, dataEnd));
+      offset = dataEnd;
+      continue;
+    }
+    const isMetadata =
+      marker === 0xfe || (marker >= 0xe0 && marker <= 0xef && !JPEG_KEPT_APP_MARKERS.has(marker));
+    if (!isMetadata) {
+      parts.push(buffer.subarray(offset, segmentEnd));
+    }
+    offset = segmentEnd;
+  }
+  return malformedImage();
+}
+
+// Ancillary PNG chunks that affect rendering; text, time and eXIf chunks are dropped.
+const PNG_KEPT_CHUNKS = new Set([
+  "IHDR", "PLTE", "IDAT", "IEND", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT", "pHYs", "bKGD",
+]);
+
+function stripPngMetadata(buffer: Buffer) {
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  let offset = PNG_SIGNATURE.length;
+  let first = true;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.subarray(offset + 4, offset + 8).toString("latin1");
+    const chunkEnd = offset + 12 + length;
+    if (chunkEnd > buffer.length || (first && type !== "IHDR")) malformedImage();
+    first = false;
+    if (PNG_KEPT_CHUNKS.has(type)) {
+      parts.push(buffer.subarray(offset, chunkEnd));
+    }
+    if (type === "IEND") {
+      return Buffer.concat(parts);
+    }
+    offset = chunkEnd;
+  }
+  return malformedImage();
+}
+
+const VP8X_XMP_FLAG = 0x04;
+const VP8X_EXIF_FLAG = 0x08;
+
+function stripWebpMetadata(buffer: Buffer) {
+  const riffEnd = 8 + buffer.readUInt32LE(4);
+  if (riffEnd > buffer.length) malformedImage();
+  const chunks: Buffer[] = [];
+  let offset = 12;
+  while (offset + 8 <= riffEnd) {
+    const type = buffer.subarray(offset, offset + 4).toString("latin1");
+    const size = buffer.readUInt32LE(offset + 4);
+    const chunkEnd = offset + 8 + size + (size % 2);
+    if (chunkEnd > riffEnd) malformedImage();
+    if (type === "VP8X") {
+      const chunk = Buffer.from(buffer.subarray(offset, chunkEnd));
+      chunk[8] &= ~(VP8X_XMP_FLAG | VP8X_EXIF_FLAG);
+      chunks.push(chunk);
+    } else if (type !== "EXIF" && type !== "XMP ") {
+      chunks.push(buffer.subarray(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+  if (chunks.length === 0) malformedImage();
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Rewrites an image without its metadata (EXIF including GPS position, XMP, IPTC,
+ * comments), validating the container structure on the way. Output ends at the
+ * format's end marker (JPEG EOI, PNG IEND, the RIFF size for WebP), so data appended
+ * after the image does not survive. Pixel data is copied as-is rather than
+ * re-encoded, so there is no quality loss; EXIF orientation is dropped with the rest.
+ */
+export function stripImageMetadata(
+  buffer: Buffer,
+  contentType: "image/png" | "image/jpeg" | "image/webp",
+) {
+  if (contentType === "image/jpeg") return stripJpegMetadata(buffer);
+  if (contentType === "image/png") return stripPngMetadata(buffer);
+  return stripWebpMetadata(buffer);
+}
+
+/** Spreadsheets with VBA projects (macro-enabled workbooks saved as .xlsx/.xls). */
+export function inspectSpreadsheet(buffer: Buffer) {
+  // Zip entry names and OLE directory names are stored uncompressed.
+  const hasMacros =
+    buffer.includes("vbaProject.bin") ||
+    buffer.includes(Buffer.from("_VBA_PROJECT", "utf16le"));
+  if (hasMacros) {
+    throw new FileInspectionError("spreadsheet_macros", "Spreadsheets with macros cannot be accepted.");
+  }
+}
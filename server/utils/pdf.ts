@@ -0,0 +1,196 @@
+/**
+ * Minimal PDF 1.4 writer for generated hand-outs: text in the standard Helvetica and
+ * Courier faces, lines, rectangles and QR codes. No images or embedded fonts, so the
+ * output stays small and needs no PDF dependency. Coordinates are points from the
+ * top-left corner of an A4 page.
+ */
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  mono: { name: "F3", baseFont: "Courier-Bold" },
+};
+
+// WinAnsi covers Latin-1 plus a few typographic characters; anything else prints as "?".
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "š": 0x9a,
+  "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+function encodeText(text: string) {
+  const bytes = Array.from(text.normalize("NFC"), (char) => {
+    const code = char.codePointAt(0)!;
+    if (code >= 0x20 && code <= 0x7e) return code;
+    if (code >= 0xa0 && code <= 0xff) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f;
+  });
+  let escaped = "";
+  for (const byte of bytes) {
+    const char = String.fromCharCode(byte);
+    escaped += char === "(" || char === ")" || char === "\\" ? `\\${char}` : char;
+  }
+  return escaped;
+}
+
+function num(value: number) {
+  return Number(value.toFixed(2)).toString();
+}
+
+/** Rough Helvetica/Courier advance widths, used only to keep text inside its box. */
+function approximateWidth(text: string, font: PdfFont, size: number) {
+  if (font === "mono") return text.length * size * 0.6;
+  let width = 0;
+  for (const char of text) {
+    if ("iljtf.,:;'|!I ".includes(char)) width += 0.28;
+    else if ("mwMW@".includes(char)) width += 0.85;
+    else if (char >= "A" && char <= "Z") width += 0.68;
+    else width += 0.55;
+  }
+  return width * size * (font === "bold" ? 1.05 : 1);
+}
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+
+  private get current() {
+    const page = this.pages[this.pages.length - 1];
+    if (!page) throw new Error("Call addPage() before drawing");
+    return page;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    return this;
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  /** Draws text with its baseline at `y`, cut with an ellipsis to fit `maxWidth`. */
+  text(
+    x: number,
+    y: number,
+    value: string,
+    options: { font?: PdfFont; size?: number; maxWidth?: number } = {},
+  ) {
+    const font = options.font ?? "regular";
+    const size = options.size ?? 10;
+    let fitted = value;
+    if (options.maxWidth && approximateWidth(fitted, font, size) > options.maxWidth) {
+      while (fitted.length > 1 && approximateWidth(`${fitted}…`, font, size) > options.maxWidth) {
+        fitted = fitted.slice(0, -1);
+      }
+      fitted = `${fitted.trimEnd()}…`;
+    }
+    this.current.push(
+      `BT /${FONT_RESOURCES[font].name} ${num(size)} Tf ${num(x)} ${num(A4_HEIGHT - y)} Td (${encodeText(fitted)}) Tj ET`,
+    );
+    return this;
+  }
+
+  /** Outlines a rectangle; `dash` draws it as a cut line. */
+  rect(x: number, y: number, width: number, height: number, options: { dash?: number[] } = {}) {
+    const dash = options.dash?.length ? `[${options.dash.map(num).join(" ")}] 0 d ` : "";
+    this.current.push(
+      `q ${dash}0.5 w 0.6 G ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re S Q`,
+    );
+    return this;
+  }
+
+  /** Draws a QR module matrix `size` points wide with its top-left corner at (x, y). */
+  qrCode(x: number, y: number, size: number, modules: boolean[][]) {
+    // A four-module quiet zone is part of the code's footprint.
+    const moduleSize = size / (modules.length + 8);
+    const ops: string[] = [];
+    modules.forEach((row, rowIndex) => {
+      let start = -1;
+      row.forEach((dark, column) => {
+        if (dark && start < 0) start = column;
+        if ((!dark || column === row.length - 1) && start >= 0) {
+          const end = dark ? column + 1 : column;
+          ops.push(
+            `${num(x + (start + 4) * moduleSize)} ${num(A4_HEIGHT - y - (rowIndex + 5) * moduleSize)} ${num((end - start) * moduleSize)} ${num(moduleSize)} re`,
+          );
+          start = -1;
+        }
+      });
+    });
+    this.current.push(`q 0 g ${ops.join(" ")} f Q`);
+    return this;
+  }
+
+  toBuffer() {
+    if (!this.pages.length) this.addPage();
+
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+      return objects.length;
+    };
+
+    const catalogId = add("");
+    const pagesId = add("");
+    const fontIds = Object.values(FONT_RESOURCES).map(({ name, baseFont }) => ({
+      name,
+      id: add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`,
+      ),
+    }));
+    const fonts = fontIds.map(({ name, id }) => `/${name} ${id} 0 R`).join(" ");
+
+    const pageIds = this.pages.map((operations) => {
+      const content = Buffer.from(operations.join("\n"), "latin1");
+      const contentId = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} >>\nstream\n`, "latin1"),
+          content,
+          Buffer.from("\nendstream", "latin1"),
+        ]),
+      );
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(A4_WIDTH)} ${num(A4_HEIGHT)}] /Resources << /Font << ${fonts} >> >> /Contents ${contentId} 0 R >>`,
+      );
+    });
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+      "latin1",
+    );
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+      "",
+    ].join("\n");
+    chunks.push(Buffer.from(xref, "latin1"));
+    return Buffer.concat(chunks);
+  }
+}
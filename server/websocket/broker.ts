@@ -0,0 +1,95 @@
+import { createPgClient } from "../db";
+import { logger } from "../utils/logger";
+import { PostgresBroker } from "./postgresBroker";
+
+export type BrokerMessage = {
+  channel: string;
+  event: string;
+  payload: unknown;
+};
+
+/**
+ * Fans socket events out to every server instance and elects a single leader per
+ * background job. Each instance delivers received messages to its own sockets.
+ */
+export interface RealtimeBroker {
+  publish(message: BrokerMessage): Promise<void> | void;
+  /** Returns true while this instance holds leadership for `role`. */
+  tryAcquireLeadership(role: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+/** Single-process broker: delivers synchronously and is always the leader. */
+export class InProcessBroker implements RealtimeBroker {
+  constructor(private readonly deliver: (message: BrokerMessage) => void) {}
+
+  publish(message: BrokerMessage) {
+    this.deliver(message);
+  }
+
+  async tryAcquireLeadership() {
+    return true;
+  }
+
+  async close() {}
+}
+
+const listeners = new Set<(message: BrokerMessage) => void>();
+
+function dispatch(message: BrokerMessage) {
+  listeners.forEach((listener) => {
+    try {
+      listener(message);
+    } catch (error) {
+      logger.error("realtime listener failed", { event: message.event, error });
+    }
+  });
+}
+
+let activeBroker: RealtimeBroker = new InProcessBroker(dispatch);
+
+export function onRealtimeMessage(listener: (message: BrokerMessage) => void) {
+  listeners.add(listener);
+}
+
+export function publishRealtime(message: BrokerMessage) {
+  const onError = (error: unknown) => {
+    logger.error("realtime publish failed", { event: message.event, error });
+  };
+  try {
+    const pending = activeBroker.publish(message);
+    if (pending) {
+      pending.catch(onError);
+    }
+  } catch (error) {
+    onError(error);
+  }
+}
+
+export async function isRealtimeLeader(role: string) {
+  try {
+    return await activeBroker.tryAcquireLeadership(role);
+  } catch (error) {
+    logger.error("realtime leader election failed", { role, error });
+    return false;
+  }
+}
+
+/**
+ * Switches to the broker named by REALTIME_BROKER ("memory" by default, or "postgres"
+ * to share events and leadership between instances through LISTEN/NOTIFY).
+ */
+export async function initRealtimeBroker() {
+  const kind = (process.env.REALTIME_BROKER ?? "memory").trim().toLowerCase();
+  if (kind === "memory") {
+    return;
+  }
+  if (kind !== "postgres") {
+    throw new Error(`Unknown REALTIME_BROKER "${kind}" (expected memory or postgres)`);
+  }
+
+  const broker = new PostgresBroker(createPgClient, dispatch);
+  await broker.start();
+  activeBroker = broker;
+  logger.info("realtime broker ready", { kind });
+}
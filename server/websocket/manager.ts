@@ -1,11 +1,17 @@
 import type { WebSocket } from "ws";
+import { onRealtimeMessage, publishRealtime } from "./broker";
 
 type WebSocketEvent =
   | "round:started"
   | "round:qr-updated"
   | "round:closed"
   | "session:refresh"
-  | "session:ended";
+  | "session:ended"
+  | "scan:confirmed"
+  | "excuse:reviewed";
+
+// Events broadcast to every student enrolled in a group. None of them carries a QR token.
+type GroupBroadcastEvent = "round:started" | "round:closed" | "session:ended";
 
 export interface SocketPayloadMap {
   "round:started": {
@@ -33,7 +39,8 @@ export interface SocketPayloadMap {
       | "round_closed"
       | "scan_recorded"
       | "excuse_submitted"
-      | "excuse_reviewed";
+      | "excuse_reviewed"
+      | "attendance_overridden";
     roundId?: string;
     studentId?: string;
     studentName?: string;
@@ -49,37 +56,58 @@ export interface SocketPayloadMap {
       attendanceCount: number;
     };
   };
+  "scan:confirmed": {
+    sessionId: string;
+    roundId: string;
+    status: string;
+    recordedAt: string;
+  };
+  "excuse:reviewed": {
+    excuseId: string;
+    roundId: string;
+    status: string;
+    reviewedAt: string;
+  };
 }
 
 const OPEN_STATE = 1;
 
+// Session channels are keyed by the session id; student and kiosk channels are prefixed.
+const groupChannel = (groupId: string) => `group:${groupId}`;
+const studentChannel = (studentId: string) => `student:${studentId}`;
+const kioskChannel = (sessionId: string) => `kiosk:${sessionId}`;
+const kioskTokenChannel = (tokenId: string) => `kiosk-token:${tokenId}`;
+
+// Broker-only event: tells every instance to drop the sockets opened with revoked tokens.
+const KIOSK_REVOKED_EVENT = "kiosk:revoked";
+
 class WebsocketManager {
   private channels = new Map<string, Set<WebSocket>>();
 
-  register(sessionId: string, ws: WebSocket) {
-    const channel = this.channels.get(sessionId) ?? new Set<WebSocket>();
+  register(channelKey: string, ws: WebSocket) {
+    const channel = this.channels.get(channelKey) ?? new Set<WebSocket>();
     channel.add(ws);
-    this.channels.set(sessionId, channel);
+    this.channels.set(channelKey, channel);
   }
 
-  unregister(sessionId: string, ws: WebSocket) {
-    const channel = this.channels.get(sessionId);
+  unregister(channelKey: string, ws: WebSocket) {
+    const channel = this.channels.get(channelKey);
     if (!channel) {
       return;
     }
 
     channel.delete(ws);
     if (channel.size === 0) {
-      this.channels.delete(sessionId);
+      this.channels.delete(channelKey);
     }
   }
 
   send<Event extends WebSocketEvent>(
-    sessionId: string,
+    channelKey: string,
     event: Event,
     payload: SocketPayloadMap[Event],
   ) {
-    const channel = this.channels.get(sessionId);
+    const channel = this.channels.get(channelKey);
     if (!channel) {
       return;
     }
@@ -91,43 +119,87 @@ class WebsocketManager {
       }
     });
   }
+
+  /** Closes every socket on a channel; their close handlers unregister them. */
+  close(channelKey: string, code: number, reason: string) {
+    const channel = this.channels.get(channelKey);
+    if (!channel) {
+      return;
+    }
+
+    Array.from(channel).forEach((socket) => socket.close(code, reason));
+  }
 }
 
 const websocketManager = new WebsocketManager();
 
+// Every instance delivers broker messages to the sockets it holds.
+onRealtimeMessage((message) => {
+  if (message.event === KIOSK_REVOKED_EVENT) {
+    const { tokenIds } = message.payload as { tokenIds: string[] };
+    tokenIds.forEach((tokenId) =>
+      websocketManager.close(kioskTokenChannel(tokenId), 1008, "Kiosk link revoked"),
+    );
+    return;
+  }
+  websocketManager.send(
+    message.channel,
+    message.event as WebSocketEvent,
+    message.payload as SocketPayloadMap[WebSocketEvent],
+  );
+});
+
+function broadcast<Event extends WebSocketEvent>(
+  channelKey: string,
+  event: Event,
+  payload: SocketPayloadMap[Event],
+) {
+  publishRealtime({ channel: channelKey, event, payload });
+}
+
 export const emitRoundStarted = (
   sessionId: string,
   payload: SocketPayloadMap["round:started"],
 ) => {
-  websocketManager.send(sessionId, "round:started", payload);
+  broadcast(sessionId, "round:started", payload);
+  broadcast(kioskChannel(sessionId), "round:started", payload);
 };
 
 export const emitRoundQrUpdated = (
   sessionId: string,
   payload: SocketPayloadMap["round:qr-updated"],
 ) => {
-  websocketManager.send(sessionId, "round:qr-updated", payload);
+  broadcast(sessionId, "round:qr-updated", payload);
+  broadcast(kioskChannel(sessionId), "round:qr-updated", payload);
 };
 
 export const emitSessionEnded = (
   sessionId: string,
   payload: SocketPayloadMap["session:ended"],
 ) => {
-  websocketManager.send(sessionId, "session:ended", payload);
+  broadcast(sessionId, "session:ended", payload);
+  broadcast(kioskChannel(sessionId), "session:ended", payload);
 };
 
 export const emitRoundClosed = (
   sessionId: string,
   payload: SocketPayloadMap["round:closed"],
 ) => {
-  websocketManager.send(sessionId, "round:closed", payload);
+  broadcast(sessionId, "round:closed", payload);
+  broadcast(kioskChannel(sessionId), "round:closed", payload);
 };
 
 export const emitSessionRefresh = (
   sessionId: string,
   payload: SocketPayloadMap["session:refresh"],
 ) => {
-  websocketManager.send(sessionId, "session:refresh", payload);
+  broadcast(sessionId, "session:refresh", payload);
+  // Kiosk screens are projected, so they only learn that something changed, not who.
+  broadcast(kioskChannel(sessionId), "session:refresh", {
+    sessionId,
+    reason: payload.reason,
+    roundId: payload.roundId,
+  });
 };
 
 export const registerSocket = (
@@ -143,3 +215,70 @@ export const unregisterSocket = (
 ) => {
   websocketManager.unregister(sessionId, wsSocket);
 };
+
+export const emitToGroupStudents = <Event extends GroupBroadcastEvent>(
+  groupId: string,
+  event: Event,
+  payload: SocketPayloadMap[Event],
+) => {
+  broadcast(groupChannel(groupId), event, payload);
+};
+
+export const emitScanConfirmed = (
+  studentId: string,
+  payload: SocketPayloadMap["scan:confirmed"],
+) => {
+  broadcast(studentChannel(studentId), "scan:confirmed", payload);
+};
+
+export const emitExcuseReviewed = (
+  studentId: string,
+  payload: SocketPayloadMap["excuse:reviewed"],
+) => {
+  broadcast(studentChannel(studentId), "excuse:reviewed", payload);
+};
+
+export const registerStudentSocket = (
+  studentId: string,
+  groupIds: string[],
+  wsSocket: WebSocket,
+) => {
+  websocketManager.register(studentChannel(studentId), wsSocket);
+  groupIds.forEach((groupId) => websocketManager.register(groupChannel(groupId), wsSocket));
+};
+
+export const unregisterStudentSocket = (
+  studentId: string,
+  groupIds: string[],
+  wsSocket: WebSocket,
+) => {
+  websocketManager.unregister(studentChannel(studentId), wsSocket);
+  groupIds.forEach((groupId) => websocketManager.unregister(groupChannel(groupId), wsSocket));
+};
+
+export const registerKioskSocket = (
+  sessionId: string,
+  tokenId: string,
+  wsSocket: WebSocket,
+) => {
+  websocketManager.register(kioskChannel(sessionId), wsSocket);
+  websocketManager.register(kioskTokenChannel(tokenId), wsSocket);
+};
+
+export const unregisterKioskSocket = (
+  sessionId: string,
+  tokenId: string,
+  wsSocket: WebSocket,
+) => {
+  websocketManager.unregister(kioskChannel(sessionId), wsSocket);
+  websocketManager.unregister(kioskTokenChannel(tokenId), wsSocket);
+};
+
+/** Closes kiosk sockets opened with the given view tokens, on every instance. */
+export const closeKioskSockets = (sessionId: string, tokenIds: string[]) => {
+  publishRealtime({
+    channel: kioskChannel(sessionId),
+    event: KIOSK_REVOKED_EVENT,
+    payload: { tokenIds },
+  });
+};
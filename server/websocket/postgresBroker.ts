@@ -0,0 +1,126 @@
+import type { Client, Notification } from "pg";
+import { logger } from "../utils/logger";
+import type { BrokerMessage, RealtimeBroker } from "./broker";
+
+const NOTIFY_CHANNEL = "atendo_realtime";
+// Postgres rejects NOTIFY payloads of 8000 bytes or more.
+const MAX_NOTIFY_BYTES = 7900;
+const RECONNECT_DELAY_MS = 2_000;
+
+/**
+ * Broker backed by Postgres LISTEN/NOTIFY. Every instance, including the publisher,
+ * receives each notification and delivers it to its local sockets. Leadership is a
+ * session-level advisory lock, released automatically when the connection drops so a
+ * standby instance takes over. Events published while reconnecting are lost; clients
+ * refetch on their own reconnect.
+ */
+export class PostgresBroker implements RealtimeBroker {
+  private client: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+  private readonly heldRoles = new Set<string>();
+  private closed = false;
+
+  constructor(
+    private readonly createClient: () => Client,
+    private readonly deliver: (message: BrokerMessage) => void,
+  ) {}
+
+  async start() {
+    await this.connect();
+  }
+
+  async publish(message: BrokerMessage) {
+    const text = JSON.stringify(message);
+    if (Buffer.byteLength(text) > MAX_NOTIFY_BYTES) {
+      logger.error("realtime message too large for NOTIFY", { event: message.event });
+      return;
+    }
+    const client = await this.connect();
+    await client.query("SELECT pg_notify($1, $2)", [NOTIFY_CHANNEL, text]);
+  }
+
+  async tryAcquireLeadership(role: string) {
+    const client = await this.connect();
+    if (this.heldRoles.has(role)) {
+      return true;
+    }
+    const result = await client.query<{ acquired: boolean }>(
+      "SELECT pg_try_advisory_lock(hashtext($1)) AS acquired",
+      [role],
+    );
+    const acquired = Boolean(result.rows[0]?.acquired);
+    if (acquired) {
+      this.heldRoles.add(role);
+      logger.info("realtime leadership acquired", { role });
+    }
+    return acquired;
+  }
+
+  async close() {
+    this.closed = true;
+    const client = this.client;
+    this.client = null;
+    this.heldRoles.clear();
+    if (client) {
+      await client.end();
+    }
+  }
+
+  private connect(): Promise<Client> {
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+    if (!this.connecting) {
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openConnection() {
+    const client = this.createClient();
+    client.on("notification", (notification) => this.handleNotification(notification));
+    client.on("error", (error) => {
+      logger.error("realtime broker connection error", { error });
+      this.dropConnection(client);
+    });
+    client.on("end", () => this.dropConnection(client));
+
+    await client.connect();
+    await client.query(`LISTEN ${NOTIFY_CHANNEL}`);
+    this.client = client;
+    return client;
+  }
+
+  private dropConnection(client: Client) {
+    if (this.client !== client) {
+      return;
+    }
+    this.client = null;
+    // Advisory locks belong to the connection, so leadership ends with it.
+    this.heldRoles.clear();
+    client.removeAllListeners();
+    client.on("error", () => undefined);
+    client.end().catch(() => undefined);
+
+    if (!this.closed) {
+      setTimeout(() => {
+        this.connect().catch((error) => {
+          logger.error("realtime broker reconnect failed", { error });
+        });
+      }, RECONNECT_DELAY_MS);
+    }
+  }
+
+  private handleNotification(notification: Notification) {
+    if (notification.channel !== NOTIFY_CHANNEL || !notification.payload) {
+      return;
+    }
+    try {
+      this.deliver(JSON.parse(notification.payload) as BrokerMessage);
+    } catch (error) {
+      logger.error("invalid realtime notification", { error });
+    }
+  }
+}
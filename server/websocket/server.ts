@@ -1,25 +1,95 @@
 import { type IncomingMessage, type Server as HttpServer } from "http";
-import { WebSocketServer, type WebSocket } from "ws";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
 import { sessionMiddleware } from "../middleware/session";
 import {
+  registerKioskSocket,
   registerSocket,
+  registerStudentSocket,
+  unregisterKioskSocket,
   unregisterSocket,
+  unregisterStudentSocket,
 } from "./manager";
 import { userRepository } from "../repositories/userRepository";
+import { courseStaffService } from "../services/courseStaffService";
+import { kioskService } from "../services/kioskService";
 import { db } from "../db";
-import { sessions } from "@shared/schema";
+import { enrollments, sessions } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
-function parseSessionId(req: IncomingMessage) {
+function parseQuery(req: IncomingMessage) {
   try {
     const host = req.headers.host ?? "localhost";
     const url = new URL(req.url ?? "", `http://${host}`);
-    return url.searchParams.get("sessionId") ?? undefined;
+    return {
+      sessionId: url.searchParams.get("sessionId") ?? undefined,
+      channel: url.searchParams.get("channel") ?? undefined,
+    };
   } catch {
-    return undefined;
+    return { sessionId: undefined, channel: undefined };
   }
 }
 
+// How long a kiosk socket may stay open before sending its view token.
+const KIOSK_AUTH_TIMEOUT_MS = 10_000;
+
+/**
+ * Reads the kiosk view token from the socket's first message,
+ * `{ "type": "kiosk_auth", "token": "..." }`, so it never appears in the upgrade URL
+ * or in access logs. Resolves undefined on anything else or after the timeout.
+ */
+function readKioskToken(ws: WebSocket): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      ws.off("message", onMessage);
+      resolve(undefined);
+    }, KIOSK_AUTH_TIMEOUT_MS);
+
+    function onMessage(data: RawData) {
+      clearTimeout(timer);
+      try {
+        const message: unknown = JSON.parse(data.toString());
+        if (
+          message &&
+          typeof message === "object" &&
+          (message as { type?: unknown }).type === "kiosk_auth" &&
+          typeof (message as { token?: unknown }).token === "string"
+        ) {
+          resolve((message as { token: string }).token);
+          return;
+        }
+      } catch {
+        // Fall through: a malformed first message is treated as no token.
+      }
+      resolve(undefined);
+    }
+
+    ws.once("message", onMessage);
+  });
+}
+
+/**
+ * Subscribes a student to their enrolled groups plus a personal channel. Groups are
+ * resolved once per connection; the client reconnects to pick up enrollment changes.
+ */
+async function connectStudent(ws: WebSocket, studentId: string) {
+  const rows = await db
+    .select({ groupId: enrollments.group_id })
+    .from(enrollments)
+    .where(eq(enrollments.student_id, studentId));
+  const groupIds = Array.from(
+    new Set<string>(rows.map((row: { groupId: string }) => row.groupId)),
+  );
+
+  // The socket may have closed during the lookup; its close event has already fired.
+  if (ws.readyState !== ws.OPEN) {
+    return;
+  }
+  registerStudentSocket(studentId, groupIds, ws);
+  ws.once("close", () => {
+    unregisterStudentSocket(studentId, groupIds, ws);
+  });
+}
+
 export function setupWebSocketServer(httpServer: HttpServer, viteWss?: any) {
   const wss = new WebSocketServer({ noServer: true });
 
@@ -39,17 +109,48 @@ export function setupWebSocketServer(httpServer: HttpServer, viteWss?: any) {
   });
 
   wss.on("connection", async (ws: WebSocket, req: IncomingMessage) => {
-    const sessionId = parseSessionId(req);
+    const { sessionId, channel } = parseQuery(req);
     const session = (req as any).session;
     const userId = session?.passport?.user as string | undefined;
 
+    if (channel === "student") {
+      const student = userId ? await userRepository.findById(userId) : undefined;
+      if (!student || student.role !== "student") {
+        ws.close(1008, "Unauthorized");
+        return;
+      }
+      await connectStudent(ws, student.id);
+      return;
+    }
+
+    // Kiosk screens have no login session; the view token in the first message picks
+    // the session. Revoking the token closes the socket.
+    if (channel === "kiosk") {
+      const kioskToken = await readKioskToken(ws);
+      const grant = kioskToken
+        ? await kioskService.resolveViewToken(kioskToken).catch(() => null)
+        : null;
+      if (!grant) {
+        ws.close(1008, "Unauthorized");
+        return;
+      }
+      if (ws.readyState !== ws.OPEN) {
+        return;
+      }
+      registerKioskSocket(grant.sessionId, grant.tokenId, ws);
+      ws.once("close", () => {
+        unregisterKioskSocket(grant.sessionId, grant.tokenId, ws);
+      });
+      return;
+    }
+
     if (!sessionId || !userId) {
       ws.close(1008, "Invalid session");
       return;
     }
 
     const user = await userRepository.findById(userId);
-    if (!user || user.role !== "professor") {
+    if (!user || (user.role !== "professor" && user.role !== "ta")) {
       ws.close(1008, "Unauthorized");
       return;
     }
@@ -60,11 +161,17 @@ export function setupWebSocketServer(httpServer: HttpServer, viteWss?: any) {
       .where(eq(sessions.id, sessionId))
       .limit(1);
 
-    if (!sessionRecord || sessionRecord.professor_id !== userId) {
+    if (
+      !sessionRecord ||
+      !(await courseStaffService.canAccessSession(userId, sessionRecord, "run_sessions"))
+    ) {
       ws.close(1008, "Invalid session");
       return;
     }
 
+    if (ws.readyState !== ws.OPEN) {
+      return;
+    }
     registerSocket(sessionId, ws);
     ws.once("close", () => {
       unregisterSocket(sessionId, ws);
@@ -13,7 +13,8 @@ import { z } from "zod";
 const uuidDefault = sql`(gen_random_uuid())`;
 const nowDefault = sql`(now())`;
 
-export type UserRole = "professor" | "student" | "admin";
+// "ta" users only reach courses they are listed on in course_staff.
+export type UserRole = "professor" | "student" | "admin" | "ta";
 
 export const users = sqliteTable(
   "users",
@@ -39,6 +40,38 @@ export const users = sqliteTable(
   }),
 );
 
+export const faculties = sqliteTable(
+  "faculties",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    code: text("code").notNull(),
+    name: text("name").notNull(),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    faculties_code_unique: uniqueIndex("faculties_code_unique").on(table.code),
+  }),
+);
+
+export const departments = sqliteTable(
+  "departments",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    faculty_id: text("faculty_id")
+      .notNull()
+      .references(() => faculties.id),
+    code: text("code").notNull(),
+    name: text("name").notNull(),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    departments_faculty_code_unique: uniqueIndex("departments_faculty_code_unique").on(
+      table.faculty_id,
+      table.code,
+    ),
+  }),
+);
+
 export const professor_profiles = sqliteTable(
   "professor_profiles",
   {
@@ -46,7 +79,9 @@ export const professor_profiles = sqliteTable(
     user_id: text("user_id")
       .notNull()
       .references(() => users.id),
+    // Free-text label kept for display; department_id is the assignment used for reports.
     department: text("department"),
+    department_id: text("department_id").references(() => departments.id),
     title: text("title"),
     created_at: text("created_at").notNull().default(nowDefault),
   },
@@ -87,11 +122,14 @@ export const account_credentials = sqliteTable(
     created_by_professor_id: text("created_by_professor_id")
       .notNull()
       .references(() => users.id),
-    plain_password: text("plain_password").notNull(),
+    // Legacy plaintext column, emptied by accountCredentialService.encryptLegacyCredentials.
+    plain_password: text("plain_password"),
+    password_ciphertext: text("password_ciphertext"),
     source: text("source").notNull().default("manual_create"),
     is_active: integer("is_active", { mode: "boolean" })
       .notNull()
       .default(true),
+    revealed_at: text("revealed_at"),
     created_at: text("created_at").notNull().default(nowDefault),
   },
   (table) => ({
@@ -127,6 +165,8 @@ export const courses = sqliteTable(
     term: text("term").notNull(),
     created_at: text("created_at").notNull().default(nowDefault),
     description: text("description"),
+    // Faculty policies and reports resolve through the course's department.
+    department_id: text("department_id").references(() => departments.id),
     device_binding_enabled: integer("device_binding_enabled", {
       mode: "boolean",
     })
@@ -165,19 +205,110 @@ export const enrollments = sqliteTable(
   }),
 );
 
-export const sessions = sqliteTable("sessions", {
-  id: text("id").primaryKey().notNull().default(uuidDefault),
-  group_id: text("group_id").notNull().references(() => groups.id),
-  course_id: text("course_id").notNull().references(() => courses.id),
-  professor_id: text("professor_id").notNull().references(() => users.id),
-  starts_at: text("starts_at").notNull(),
-  ends_at: text("ends_at"),
-  is_active: integer("is_active", { mode: "boolean" })
-    .notNull()
-    .default(false),
-  status: text("status").notNull().default("scheduled"),
-  created_at: text("created_at").notNull().default(nowDefault),
-});
+export const course_staff = sqliteTable(
+  "course_staff",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    course_id: text("course_id")
+      .notNull()
+      .references(() => courses.id),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    can_run_sessions: integer("can_run_sessions", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    can_review_excuses: integer("can_review_excuses", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    can_view_reports: integer("can_view_reports", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    can_manage_roster: integer("can_manage_roster", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    added_by: text("added_by").references(() => users.id),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    course_staff_course_user_unique: uniqueIndex(
+      "course_staff_course_user_unique",
+    ).on(table.course_id, table.user_id),
+    course_staff_user_idx: index("course_staff_user_idx").on(table.user_id),
+  }),
+);
+
+export const group_schedule_slots = sqliteTable(
+  "group_schedule_slots",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    group_id: text("group_id").notNull().references(() => groups.id),
+    weekday: integer("weekday").notNull(),
+    start_time: text("start_time").notNull(),
+    end_time: text("end_time").notNull(),
+    room: text("room"),
+    starts_on: text("starts_on").notNull(),
+    ends_on: text("ends_on").notNull(),
+    is_active: integer("is_active", { mode: "boolean" })
+      .notNull()
+      .default(true),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    group_schedule_slots_group_idx: index("group_schedule_slots_group_idx").on(
+      table.group_id,
+    ),
+  }),
+);
+
+export const group_schedule_exceptions = sqliteTable(
+  "group_schedule_exceptions",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    group_id: text("group_id").notNull().references(() => groups.id),
+    date: text("date").notNull(),
+    reason: text("reason"),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    group_schedule_exceptions_unique: uniqueIndex(
+      "group_schedule_exceptions_unique",
+    ).on(table.group_id, table.date),
+  }),
+);
+
+export type SessionStatus = "scheduled" | "active" | "ended" | "cancelled" | "missed";
+
+// Sessions in these states never ran, so reports and logs skip them.
+export const UNHELD_SESSION_STATUSES: SessionStatus[] = ["scheduled", "cancelled", "missed"];
+
+export const sessions = sqliteTable(
+  "sessions",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    group_id: text("group_id").notNull().references(() => groups.id),
+    course_id: text("course_id").notNull().references(() => courses.id),
+    professor_id: text("professor_id").notNull().references(() => users.id),
+    starts_at: text("starts_at").notNull(),
+    ends_at: text("ends_at"),
+    is_active: integer("is_active", { mode: "boolean" })
+      .notNull()
+      .default(false),
+    status: text("status").notNull().default("scheduled"),
+    created_at: text("created_at").notNull().default(nowDefault),
+    schedule_slot_id: text("schedule_slot_id").references(
+      () => group_schedule_slots.id,
+    ),
+    scheduled_end_at: text("scheduled_end_at"),
+    room: text("room"),
+  },
+  (table) => ({
+    sessions_slot_start_unique: uniqueIndex("sessions_slot_start_unique").on(
+      table.schedule_slot_id,
+      table.starts_at,
+    ),
+  }),
+);
 
 export const attendance_rounds = sqliteTable(
   "attendance_rounds",
@@ -201,6 +332,7 @@ export const attendance_rounds = sqliteTable(
     is_break_round: integer("is_break_round", { mode: "boolean" })
       .notNull()
       .default(false),
+    qr_secret: text("qr_secret"),
     created_at: text("created_at").notNull().default(nowDefault),
   },
   (table) => ({
@@ -232,6 +364,50 @@ export const qr_tokens = sqliteTable(
   }),
 );
 
+export const kiosk_tokens = sqliteTable(
+  "kiosk_tokens",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    session_id: text("session_id")
+      .notNull()
+      .references(() => sessions.id),
+    token_hash: text("token_hash").notNull(),
+    created_by: text("created_by").references(() => users.id),
+    expires_at: text("expires_at").notNull(),
+    revoked_at: text("revoked_at"),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    kiosk_tokens_hash_unique: uniqueIndex("kiosk_tokens_hash_unique").on(
+      table.token_hash,
+    ),
+    kiosk_tokens_session_idx: index("kiosk_tokens_session_idx").on(table.session_id),
+  }),
+);
+
+export const activation_tokens = sqliteTable(
+  "activation_tokens",
+  {
+    id: text("id").primaryKey().notNull().default(uuidDefault),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    token_hash: text("token_hash").notNull(),
+    source: text("source").notNull(),
+    created_by: text("created_by").references(() => users.id),
+    expires_at: text("expires_at").notNull(),
+    used_at: text("used_at"),
+    revoked_at: text("revoked_at"),
+    created_at: text("created_at").notNull().default(nowDefault),
+  },
+  (table) => ({
+    activation_tokens_hash_unique: uniqueIndex("activation_tokens_hash_unique").on(
+      table.token_hash,
+    ),
+    activation_tokens_user_idx: index("activation_tokens_user_idx").on(table.user_id),
+  }),
+);
+
 export const attendance_records = sqliteTable(
   "attendance_records",
   {
@@ -248,6 +424,8 @@ export const attendance_records = sqliteTable(
     recorded_longitude: real("recorded_longitude"),
     client_scan_id: text("client_scan_id"),
     recorded_at_client: text("recorded_at_client"),
+    policy_id: text("policy_id").references(() => attendance_policies.id),
+    policy_version: integer("policy_version"),
   },
   (table) => ({
     attendance_records_round_student_unique: uniqueIndex(
@@ -297,6 +475,9 @@ export const audit_logs = sqliteTable(
   {
     id: text("id").primaryKey().notNull().default(uuidDefault),
     actor_id: text("actor_id").references(() => users.id),
+    // The actor's id as written. Unlike actor_id it is kept when the user is deleted,
+    // so it is what the hash chain covers.
+    actor_ref: text("actor_ref"),
     action: text("action").notNull(),
     entity_type: text("entity_type").notNull(),
     entity_id: text("entity_id"),
@@ -304,13 +485,22 @@ export const audit_logs = sqliteTable(
     after_json: text("after_json"),
     reason: text("reason"),
     created_at: text("created_at").notNull().default(nowDefault),
+    // Tamper-evidence: position in the chain, the previous entry's hash and this
+    // entry's own hash (see auditService).
+    chain_seq: integer("chain_seq"),
+    prev_hash: text("prev_hash"),
+    hash: text("hash"),
   },
   (table) => ({
+    audit_logs_chain_seq_unique: uniqueIndex("audit_logs_chain_seq_unique").on(
+      table.chain_seq,
+    ),
     audit_logs_actor_idx: index("audit_logs_actor_idx").on(table.actor_id),
     audit_logs_entity_idx: index("audit_logs_entity_idx").on(
       table.entity_type,
       table.entity_id,
     ),
+    audit_logs_created_idx: index("audit_logs_created_idx").on(table.created_at, table.id),
   }),
 );
 
@@ -324,9 +514,14 @@ export const fraud_signals = sqliteTable(
     round_id: text("round_id").references(() => attendance_rounds.id),
     student_id: text("student_id").references(() => users.id),
     details_json: text("details_json"),
+    status: text("status").notNull().default("open"),
+    resolved_by: text("resolved_by").references(() => users.id),
+    resolved_at: text("resolved_at"),
+    resolution_note: text("resolution_note"),
     created_at: text("created_at").notNull().default(nowDefault),
   },
   (table) => ({
+    fraud_signals_status_idx: index("fraud_signals_status_idx").on(table.status),
     fraud_signals_session_idx: index("fraud_signals_session_idx").on(
       table.session_id,
     ),
@@ -409,16 +604,23 @@ export const course_policy_assignments = sqliteTable(
 );
 
 export type User = typeof users.$inferSelect;
+export type Faculty = typeof faculties.$inferSelect;
+export type Department = typeof departments.$inferSelect;
 export type ProfessorProfile = typeof professor_profiles.$inferSelect;
 export type StudentProfile = typeof student_profiles.$inferSelect;
 export type AccountCredential = typeof account_credentials.$inferSelect;
 export type Course = typeof courses.$inferSelect;
 export type Group = typeof groups.$inferSelect;
 export type Enrollment = typeof enrollments.$inferSelect;
+export type CourseStaff = typeof course_staff.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
+export type GroupScheduleSlot = typeof group_schedule_slots.$inferSelect;
+export type GroupScheduleException = typeof group_schedule_exceptions.$inferSelect;
 export type AttendanceRound = typeof attendance_rounds.$inferSelect;
 export type AttendanceRecord = typeof attendance_records.$inferSelect;
 export type QrToken = typeof qr_tokens.$inferSelect;
+export type KioskToken = typeof kiosk_tokens.$inferSelect;
+export type ActivationToken = typeof activation_tokens.$inferSelect;
 export type ExcuseRequest = typeof excuse_requests.$inferSelect;
 export type AttendancePolicy = typeof attendance_policies.$inferSelect;
 export type AttendancePolicyHistory = typeof attendance_policy_history.$inferSelect;
@@ -11,6 +11,23 @@ CREATE TABLE IF NOT EXISTS users (
   last_login_at timestamptz
 );
 
+CREATE TABLE IF NOT EXISTS faculties (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS faculties_code_unique ON faculties(code);
+
+CREATE TABLE IF NOT EXISTS departments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  faculty_id uuid NOT NULL REFERENCES faculties(id),
+  code text NOT NULL,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS departments_faculty_code_unique ON departments(faculty_id, code);
+
 CREATE TABLE IF NOT EXISTS courses (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   professor_id uuid NOT NULL REFERENCES users(id),
@@ -18,10 +35,12 @@ CREATE TABLE IF NOT EXISTS courses (
   name text NOT NULL,
   term text NOT NULL,
   description text,
+  department_id uuid REFERENCES departments(id),
   created_at timestamptz NOT NULL DEFAULT now(),
   device_binding_enabled boolean NOT NULL DEFAULT false
 );
 CREATE UNIQUE INDEX IF NOT EXISTS courses_code_prof_unique ON courses(code, professor_id);
+CREATE INDEX IF NOT EXISTS courses_department_idx ON courses(department_id);
 
 CREATE TABLE IF NOT EXISTS groups (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -40,6 +59,43 @@ CREATE TABLE IF NOT EXISTS enrollments (
 );
 CREATE UNIQUE INDEX IF NOT EXISTS enrollments_student_course_unique ON enrollments(student_id, course_id);
 
+CREATE TABLE IF NOT EXISTS course_staff (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES courses(id),
+  user_id uuid NOT NULL REFERENCES users(id),
+  can_run_sessions boolean NOT NULL DEFAULT false,
+  can_review_excuses boolean NOT NULL DEFAULT false,
+  can_view_reports boolean NOT NULL DEFAULT false,
+  can_manage_roster boolean NOT NULL DEFAULT false,
+  added_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS course_staff_course_user_unique ON course_staff(course_id, user_id);
+CREATE INDEX IF NOT EXISTS course_staff_user_idx ON course_staff(user_id);
+
+CREATE TABLE IF NOT EXISTS group_schedule_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id),
+  weekday integer NOT NULL,
+  start_time text NOT NULL,
+  end_time text NOT NULL,
+  room text,
+  starts_on text NOT NULL,
+  ends_on text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS group_schedule_slots_group_idx ON group_schedule_slots(group_id);
+
+CREATE TABLE IF NOT EXISTS group_schedule_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id),
+  date text NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS group_schedule_exceptions_unique ON group_schedule_exceptions(group_id, date);
+
 CREATE TABLE IF NOT EXISTS sessions (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   group_id uuid NOT NULL REFERENCES groups(id),
@@ -49,8 +105,12 @@ CREATE TABLE IF NOT EXISTS sessions (
   ends_at timestamptz,
   is_active boolean NOT NULL DEFAULT false,
   status text NOT NULL DEFAULT 'scheduled',
-  created_at timestamptz NOT NULL DEFAULT now()
+  created_at timestamptz NOT NULL DEFAULT now(),
+  schedule_slot_id uuid REFERENCES group_schedule_slots(id),
+  scheduled_end_at timestamptz,
+  room text
 );
+CREATE UNIQUE INDEX IF NOT EXISTS sessions_slot_start_unique ON sessions(schedule_slot_id, starts_at);
 
 CREATE TABLE IF NOT EXISTS attendance_rounds (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -64,6 +124,7 @@ CREATE TABLE IF NOT EXISTS attendance_rounds (
   latitude double precision,
   longitude double precision,
   is_break_round boolean NOT NULL DEFAULT false,
+  qr_secret text,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 CREATE UNIQUE INDEX IF NOT EXISTS attendance_rounds_session_round_unique ON attendance_rounds(session_id, round_number);
@@ -90,7 +151,9 @@ CREATE TABLE IF NOT EXISTS attendance_records (
   recorded_latitude double precision,
   recorded_longitude double precision,
   client_scan_id text,
-  recorded_at_client timestamptz
+  recorded_at_client timestamptz,
+  policy_id uuid,
+  policy_version integer
 );
 CREATE UNIQUE INDEX IF NOT EXISTS attendance_records_round_student_unique ON attendance_records(round_id, student_id);
 CREATE UNIQUE INDEX IF NOT EXISTS attendance_records_round_student_client_unique ON attendance_records(round_id, student_id, client_scan_id);
@@ -116,16 +179,48 @@ CREATE INDEX IF NOT EXISTS excuse_requests_status_idx ON excuse_requests(status)
 CREATE TABLE IF NOT EXISTS audit_logs (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   actor_id uuid REFERENCES users(id),
+  actor_ref text,
   action text NOT NULL,
   entity_type text NOT NULL,
   entity_id text,
   before_json text,
   after_json text,
   reason text,
-  created_at timestamptz NOT NULL DEFAULT now()
+  created_at timestamptz NOT NULL DEFAULT now(),
+  chain_seq integer,
+  prev_hash text,
+  hash text
 );
+CREATE UNIQUE INDEX IF NOT EXISTS audit_logs_chain_seq_unique ON audit_logs(chain_seq);
 CREATE INDEX IF NOT EXISTS audit_logs_actor_idx ON audit_logs(actor_id);
 CREATE INDEX IF NOT EXISTS audit_logs_entity_idx ON audit_logs(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS audit_logs_created_idx ON audit_logs(created_at, id);
+
+CREATE TABLE IF NOT EXISTS kiosk_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES sessions(id),
+  token_hash text NOT NULL,
+  created_by uuid REFERENCES users(id),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS kiosk_tokens_hash_unique ON kiosk_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS kiosk_tokens_session_idx ON kiosk_tokens(session_id);
+
+CREATE TABLE IF NOT EXISTS activation_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  token_hash text NOT NULL,
+  source text NOT NULL,
+  created_by uuid REFERENCES users(id),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS activation_tokens_hash_unique ON activation_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS activation_tokens_user_idx ON activation_tokens(user_id);
 
 CREATE TABLE IF NOT EXISTS fraud_signals (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -135,10 +230,15 @@ CREATE TABLE IF NOT EXISTS fraud_signals (
   round_id uuid REFERENCES attendance_rounds(id),
   student_id uuid REFERENCES users(id),
   details_json text,
+  status text NOT NULL DEFAULT 'open',
+  resolved_by uuid REFERENCES users(id),
+  resolved_at timestamptz,
+  resolution_note text,
   created_at timestamptz NOT NULL DEFAULT now()
 );
 CREATE INDEX IF NOT EXISTS fraud_signals_session_idx ON fraud_signals(session_id);
 CREATE INDEX IF NOT EXISTS fraud_signals_student_idx ON fraud_signals(student_id);
+CREATE INDEX IF NOT EXISTS fraud_signals_status_idx ON fraud_signals(status);
 
 CREATE TABLE IF NOT EXISTS attendance_policies (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
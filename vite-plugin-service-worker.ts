@@ -0,0 +1,45 @@
+import type { Plugin } from 'vite';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Public files the scanner needs offline; everything else comes from the bundle.
+const STATIC_FILES = ['/', '/index.html', '/manifest.webmanifest', '/favicon.svg', '/favicon.png'];
+
+/**
+ * Vite plugin that emits /sw.js from client/service-worker.js with the list of
+ * build output files to precache. The version changes with the file list, so a new
+ * deploy installs a fresh worker and drops the old cache.
+ */
+export function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'vite-plugin-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const files = [
+        ...STATIC_FILES,
+        ...Object.keys(bundle)
+          .filter((fileName) => !fileName.endsWith('.map'))
+          .map((fileName) => `/${fileName}`),
+      ];
+      const version = crypto
+        .createHash('sha256')
+        .update(files.join('\n'))
+        .digest('hex')
+        .slice(0, 12);
+
+      const template = fs.readFileSync(
+        path.resolve(import.meta.dirname, 'client', 'service-worker.js'),
+        'utf8',
+      );
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template.replace(
+          '__PRECACHE_MANIFEST__',
+          JSON.stringify({ version, files: Array.from(new Set(files)) }),
+        ),
+      });
+    },
+  };
+}